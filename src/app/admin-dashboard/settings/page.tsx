@@ -13,6 +13,8 @@ import {
   ExclamationTriangleIcon,
   CheckCircleIcon,
   ArrowPathIcon,
+  TrashIcon,
+  CircleStackIcon,
 } from "@heroicons/react/24/outline";
 import { logger } from "@/utils/logger";
 
@@ -27,6 +29,9 @@ interface AdminSettings {
   };
   storageSettings: {
     enableUserStorage: boolean;
+    trashRetentionDays: number;
+    defaultStorageQuota: number;
+    reconcileIntervalHours: number;
   };
   securitySettings: {
     sessionTimeout: number;
@@ -42,6 +47,7 @@ export default function AdminSettingsPage() {
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [purging, setPurging] = useState(false);
 
   const loadSettings = async () => {
     try {
@@ -96,6 +102,31 @@ export default function AdminSettingsPage() {
     }
   };
 
+  const purgeTrash = async () => {
+    try {
+      setPurging(true);
+      setError(null);
+      setSuccess(null);
+
+      const response = await fetch("/api/admin/trash/purge", {
+        method: "POST",
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setSuccess(data.message);
+        setTimeout(() => setSuccess(null), 3000);
+      } else {
+        setError(data.message || "Failed to purge trash");
+      }
+    } catch (error) {
+      logger.error("Error purging trash:", error);
+      setError("Failed to purge trash");
+    } finally {
+      setPurging(false);
+    }
+  };
+
   useEffect(() => {
     loadSettings();
   }, []);
@@ -114,6 +145,20 @@ export default function AdminSettingsPage() {
     });
   };
 
+  const updateStorageSetting = (
+    key: keyof AdminSettings["storageSettings"],
+    value: number | boolean
+  ) => {
+    if (!settings) return;
+    setSettings({
+      ...settings,
+      storageSettings: {
+        ...settings.storageSettings,
+        [key]: value,
+      },
+    });
+  };
+
   const updateSecuritySetting = (
     key: keyof AdminSettings["securitySettings"],
     value: number | boolean
@@ -268,13 +313,39 @@ export default function AdminSettingsPage() {
               <Input
                 label="Max File Size (MB)"
                 type="number"
-                value={settings?.platformSettings?.maxFileSize || 0}
+                min={1}
+                value={Math.round(
+                  (settings?.platformSettings?.maxFileSize || 0) / 1024 / 1024
+                )}
                 onChange={(e) =>
-                  updatePlatformSetting("maxFileSize", parseInt(e.target.value))
+                  updatePlatformSetting(
+                    "maxFileSize",
+                    (parseInt(e.target.value) || 0) * 1024 * 1024
+                  )
                 }
                 placeholder="Enter max file size"
               />
 
+              <div>
+                <Input
+                  label="Allowed File Types"
+                  value={(
+                    settings?.platformSettings?.allowedFileTypes || []
+                  ).join(", ")}
+                  onChange={(e) =>
+                    updatePlatformSetting(
+                      "allowedFileTypes",
+                      e.target.value.split(",").map((type) => type.trim())
+                    )
+                  }
+                  placeholder="* or image/*, application/pdf, .zip"
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Comma-separated MIME types, wildcards like image/* or
+                  extensions like .pdf. Use * to allow everything.
+                </p>
+              </div>
+
               <div className="flex items-center space-x-3">
                 <input
                   type="checkbox"
@@ -326,6 +397,98 @@ export default function AdminSettingsPage() {
         </motion.div>
 
         {/* Storage Settings */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.2 }}
+        >
+          <Card className="p-6">
+            <div className="flex items-center mb-6">
+              <CircleStackIcon className="h-6 w-6 text-orange-600 mr-3" />
+              <h3 className="text-lg font-medium text-gray-900 dark:text-white">
+                Storage Settings
+              </h3>
+            </div>
+
+            <div className="space-y-4">
+              <Input
+                label="Default Storage Quota (GB)"
+                type="number"
+                min={0}
+                step="any"
+                value={
+                  Math.round(
+                    ((settings?.storageSettings?.defaultStorageQuota || 0) /
+                      1024 /
+                      1024 /
+                      1024) *
+                      100
+                  ) / 100
+                }
+                onChange={(e) =>
+                  updateStorageSetting(
+                    "defaultStorageQuota",
+                    Math.round(
+                      (parseFloat(e.target.value) || 0) * 1024 * 1024 * 1024
+                    )
+                  )
+                }
+                placeholder="Enter default quota"
+              />
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Applies to every user without a custom quota. Use 0 for
+                unlimited storage. Users are emailed at 80% and 95% usage.
+              </p>
+
+              <Input
+                label="Trash Retention (days)"
+                type="number"
+                min={1}
+                max={3650}
+                value={settings?.storageSettings?.trashRetentionDays || 0}
+                onChange={(e) =>
+                  updateStorageSetting(
+                    "trashRetentionDays",
+                    parseInt(e.target.value)
+                  )
+                }
+                placeholder="Enter retention period"
+              />
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Deleted files stay in the trash for this many days and are then
+                removed permanently.
+              </p>
+              <Button
+                onClick={purgeTrash}
+                loading={purging}
+                variant="outline"
+                leftIcon={<TrashIcon className="h-4 w-4" />}
+              >
+                Purge Expired Items Now
+              </Button>
+
+              <Input
+                label="Metadata Reconciliation Interval (hours)"
+                type="number"
+                min={0}
+                max={8760}
+                value={settings?.storageSettings?.reconcileIntervalHours ?? 0}
+                onChange={(e) =>
+                  updateStorageSetting(
+                    "reconcileIntervalHours",
+                    parseInt(e.target.value) || 0
+                  )
+                }
+                placeholder="Enter reconciliation interval"
+              />
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Each user&apos;s bucket is compared with their file metadata
+                this often, and missing, deleted or changed files are fixed. Use
+                0 to turn scheduled reconciliation off.
+              </p>
+            </div>
+          </Card>
+        </motion.div>
 
         {/* Security Settings */}
         <motion.div
@@ -19,6 +19,7 @@ interface User {
   provider: string;
   emailVerified?: Date;
   createdAt: string;
+  storageQuota: number | null;
   stats: {
     totalFiles: number;
     totalSize: number;
@@ -26,12 +27,24 @@ interface User {
   };
 }
 
+const GIGABYTE = 1024 * 1024 * 1024;
+
 export default function AdminUsersPage() {
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
   const [page, setPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
+  const [defaultStorageQuota, setDefaultStorageQuota] = useState(0);
+  const [editingQuotaUserId, setEditingQuotaUserId] = useState<string | null>(
+    null
+  );
+  const [quotaInput, setQuotaInput] = useState("");
+  const [savingQuota, setSavingQuota] = useState(false);
+  const [reindexingUserId, setReindexingUserId] = useState<string | null>(null);
+  const [reconcilingUserId, setReconcilingUserId] = useState<string | null>(
+    null
+  );
 
   const loadUsers = useCallback(async () => {
     try {
@@ -50,6 +63,7 @@ export default function AdminUsersPage() {
 
       if (data.success) {
         setUsers(data.data.users);
+        setDefaultStorageQuota(data.data.defaultStorageQuota || 0);
         setTotalPages(data.data.pagination.pages);
       }
     } catch (error) {
@@ -83,6 +97,113 @@ export default function AdminUsersPage() {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
   };
 
+  const startEditingQuota = (user: User) => {
+    setEditingQuotaUserId(user._id);
+    setQuotaInput(
+      user.storageQuota === null
+        ? ""
+        : String(Math.round((user.storageQuota / GIGABYTE) * 100) / 100)
+    );
+  };
+
+  const saveQuota = async (userId: string) => {
+    const quota =
+      quotaInput.trim() === ""
+        ? null
+        : Math.round(parseFloat(quotaInput) * GIGABYTE);
+
+    if (quota !== null && (isNaN(quota) || quota < 0)) {
+      alert("Quota must be 0 (unlimited) or more");
+      return;
+    }
+
+    setSavingQuota(true);
+    try {
+      const response = await fetch(`/api/admin/users/${userId}/quota`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ quota }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setUsers((prev) =>
+          prev.map((user) =>
+            user._id === userId ? { ...user, storageQuota: quota } : user
+          )
+        );
+        setEditingQuotaUserId(null);
+      } else {
+        alert(result.message || "Failed to update quota");
+      }
+    } catch (error) {
+      logger.error("Error updating quota:", error);
+      alert("Failed to update quota");
+    } finally {
+      setSavingQuota(false);
+    }
+  };
+
+  const reindexUser = async (user: User) => {
+    if (
+      !confirm(
+        `Rebuild the search index for ${user.email}? Their files will be read again in the background.`
+      )
+    ) {
+      return;
+    }
+
+    setReindexingUserId(user._id);
+    try {
+      const response = await fetch(`/api/admin/users/${user._id}/reindex`, {
+        method: "POST",
+      });
+      const result = await response.json();
+      alert(result.message || "Failed to start re-indexing");
+    } catch (error) {
+      logger.error("Error re-indexing user:", error);
+      alert("Failed to start re-indexing");
+    } finally {
+      setReindexingUserId(null);
+    }
+  };
+
+  const reconcileUser = async (user: User) => {
+    if (
+      !confirm(
+        `Compare the bucket of ${user.email} with their file metadata and fix any differences?`
+      )
+    ) {
+      return;
+    }
+
+    setReconcilingUserId(user._id);
+    try {
+      const response = await fetch(`/api/admin/users/${user._id}/reconcile`, {
+        method: "POST",
+      });
+      const result = await response.json();
+      if (result.success) {
+        const { scanned, missing, orphaned, mismatched } = result.data.report;
+        alert(
+          `${result.message}\n\nScanned: ${scanned}\nMissing rows added: ${missing}\nOrphaned rows removed: ${orphaned}\nMismatches fixed: ${mismatched}`
+        );
+      } else {
+        alert(result.message || "Failed to reconcile metadata");
+      }
+    } catch (error) {
+      logger.error("Error reconciling user:", error);
+      alert("Failed to reconcile metadata");
+    } finally {
+      setReconcilingUserId(null);
+    }
+  };
+
+  const formatQuota = (quota: number) =>
+    quota > 0 ? formatBytes(quota) : "Unlimited";
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-US", {
       year: "numeric",
@@ -143,9 +264,15 @@ export default function AdminUsersPage() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                     Files & Storage
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Quota
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                     Joined
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Actions
+                  </th>
                 </tr>
               </thead>
               <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
@@ -199,9 +326,83 @@ export default function AdminUsersPage() {
                         </div>
                       </div>
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {editingQuotaUserId === user._id ? (
+                        <div className="flex items-center space-x-2">
+                          <input
+                            type="number"
+                            min={0}
+                            step="any"
+                            value={quotaInput}
+                            onChange={(e) => setQuotaInput(e.target.value)}
+                            placeholder="Default"
+                            title="Quota in GB. Leave empty for the default, 0 for unlimited"
+                            className="w-24 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-primary-500"
+                            disabled={savingQuota}
+                          />
+                          <span className="text-xs text-gray-500 dark:text-gray-400">
+                            GB
+                          </span>
+                          <Button
+                            size="sm"
+                            onClick={() => saveQuota(user._id)}
+                            loading={savingQuota}
+                          >
+                            Save
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setEditingQuotaUserId(null)}
+                            disabled={savingQuota}
+                          >
+                            Cancel
+                          </Button>
+                        </div>
+                      ) : (
+                        <div>
+                          <div className="text-sm text-gray-900 dark:text-white">
+                            {formatQuota(
+                              user.storageQuota ?? defaultStorageQuota
+                            )}
+                          </div>
+                          <div className="text-xs text-gray-400">
+                            {user.storageQuota === null ? "Default" : "Custom"}
+                            {" · "}
+                            <button
+                              onClick={() => startEditingQuota(user)}
+                              className="text-primary-600 dark:text-primary-400 hover:underline"
+                            >
+                              Edit
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
                       {formatDate(user.createdAt)}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => reindexUser(user)}
+                        loading={reindexingUserId === user._id}
+                        title="Rebuild the search index of this user's files"
+                      >
+                        Re-index
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="ml-2"
+                        onClick={() => reconcileUser(user)}
+                        loading={reconcilingUserId === user._id}
+                        title="Sync this user's file metadata with their bucket"
+                      >
+                        Reconcile
+                      </Button>
+                    </td>
                   </motion.tr>
                 ))}
               </tbody>
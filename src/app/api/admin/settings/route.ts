@@ -1,13 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAdmin } from "@/auth/middleware/adminMiddleware";
+import connectDB from "@/utils/database";
+import SystemSettings, { SystemSettingsValues } from "@/models/SystemSettings";
 import { logger } from "@/utils/logger";
 
+// S3 caps a single object at 5 TB
+const MAX_UPLOAD_SIZE = 5 * 1024 * 1024 * 1024 * 1024;
+
 /**
  * GET /api/admin/settings
  * Get admin settings
  */
 export const GET = requireAdmin(async () => {
   try {
+    await connectDB();
+    const storedSettings = await SystemSettings.getSettings();
+
     // For now, return default settings
     // In a real implementation, these would be stored in a database
     const settings = {
@@ -15,14 +23,17 @@ export const GET = requireAdmin(async () => {
         siteName: process.env.SITE_NAME || "DRIVN",
         siteDescription:
           process.env.SITE_DESCRIPTION || "Cloud Storage Platform",
-        maxFileSize: parseInt(process.env.MAX_FILE_SIZE || "104857600"),
-        allowedFileTypes: ["*"],
+        maxFileSize: storedSettings.maxFileSize,
+        allowedFileTypes: storedSettings.allowedFileTypes,
         enableRegistration: process.env.ENABLE_REGISTRATION !== "false",
         requireEmailVerification:
           process.env.REQUIRE_EMAIL_VERIFICATION === "true",
       },
       storageSettings: {
         enableUserStorage: process.env.ENABLE_USER_STORAGE !== "false",
+        trashRetentionDays: storedSettings.trashRetentionDays,
+        defaultStorageQuota: storedSettings.defaultStorageQuota,
+        reconcileIntervalHours: storedSettings.reconcileIntervalHours,
       },
       securitySettings: {
         sessionTimeout: parseInt(process.env.SESSION_TIMEOUT || "1440"),
@@ -85,6 +96,112 @@ export const PUT = requireAdmin(async (request: NextRequest) => {
       );
     }
 
+    const updates: Partial<SystemSettingsValues> = {};
+
+    const maxFileSize = platformSettings?.maxFileSize;
+    if (maxFileSize !== undefined) {
+      if (
+        !Number.isInteger(maxFileSize) ||
+        maxFileSize < 1 ||
+        maxFileSize > MAX_UPLOAD_SIZE
+      ) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Max file size must be between 1 byte and 5 TB",
+          },
+          { status: 400 }
+        );
+      }
+      updates.maxFileSize = maxFileSize;
+    }
+
+    const allowedFileTypes = platformSettings?.allowedFileTypes;
+    if (allowedFileTypes !== undefined) {
+      if (
+        !Array.isArray(allowedFileTypes) ||
+        allowedFileTypes.length > 100 ||
+        allowedFileTypes.some(
+          (type: unknown) => typeof type !== "string" || type.length > 100
+        )
+      ) {
+        return NextResponse.json(
+          {
+            success: false,
+            message:
+              "Allowed file types must be a list of MIME types or extensions",
+          },
+          { status: 400 }
+        );
+      }
+
+      const normalizedTypes = Array.from(
+        new Set(
+          (allowedFileTypes as string[])
+            .map((type) => type.trim().toLowerCase())
+            .filter(Boolean)
+        )
+      );
+      updates.allowedFileTypes =
+        normalizedTypes.length > 0 ? normalizedTypes : ["*"];
+    }
+
+    const trashRetentionDays = storageSettings?.trashRetentionDays;
+    if (trashRetentionDays !== undefined) {
+      if (
+        !Number.isInteger(trashRetentionDays) ||
+        trashRetentionDays < 1 ||
+        trashRetentionDays > 3650
+      ) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Trash retention must be between 1 and 3650 days",
+          },
+          { status: 400 }
+        );
+      }
+      updates.trashRetentionDays = trashRetentionDays;
+    }
+
+    const defaultStorageQuota = storageSettings?.defaultStorageQuota;
+    if (defaultStorageQuota !== undefined) {
+      if (!Number.isInteger(defaultStorageQuota) || defaultStorageQuota < 0) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Default storage quota must be 0 (unlimited) or more",
+          },
+          { status: 400 }
+        );
+      }
+      updates.defaultStorageQuota = defaultStorageQuota;
+    }
+
+    const reconcileIntervalHours = storageSettings?.reconcileIntervalHours;
+    if (reconcileIntervalHours !== undefined) {
+      if (
+        !Number.isInteger(reconcileIntervalHours) ||
+        reconcileIntervalHours < 0 ||
+        reconcileIntervalHours > 8760
+      ) {
+        return NextResponse.json(
+          {
+            success: false,
+            message:
+              "Reconciliation interval must be between 0 (off) and 8760 hours",
+          },
+          { status: 400 }
+        );
+      }
+      updates.reconcileIntervalHours = reconcileIntervalHours;
+    }
+
+    if (Object.keys(updates).length > 0) {
+      await connectDB();
+      await SystemSettings.updateSettings(updates);
+    }
+
     // In a production environment, you would save these settings
     // For this demo, we'll just return success
     return NextResponse.json({
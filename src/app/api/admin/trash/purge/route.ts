@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/auth/middleware/adminMiddleware";
+import connectDB from "@/utils/database";
+import { S3DirectService } from "@/services/s3DirectService";
+import { logger } from "@/utils/logger";
+
+/**
+ * POST /api/admin/trash/purge
+ * Purge trash items older than the retention period right away
+ */
+export const POST = requireAdmin(async () => {
+  try {
+    await connectDB();
+
+    const result = await S3DirectService.purgeExpiredTrash();
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        message: result.message,
+        purgedCount: result.purgedCount,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message },
+        { status: 500 }
+      );
+    }
+  } catch (error) {
+    logger.error("Trash purge API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+});
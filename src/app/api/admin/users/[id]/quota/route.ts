@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Types } from "mongoose";
+import { requireAdmin } from "@/auth/middleware/adminMiddleware";
+import connectDB from "@/utils/database";
+import { S3DirectService } from "@/services/s3DirectService";
+import { logger } from "@/utils/logger";
+
+/**
+ * PUT /api/admin/users/[id]/quota
+ * Override a user's storage quota in bytes, or reset it to the default
+ * with a null quota
+ */
+export const PUT = requireAdmin(
+  async (
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+  ) => {
+    try {
+      await connectDB();
+
+      const { id } = await params;
+      if (!Types.ObjectId.isValid(id)) {
+        return NextResponse.json(
+          { success: false, message: "Invalid user ID" },
+          { status: 400 }
+        );
+      }
+
+      const { quota } = await request.json();
+
+      if (
+        quota !== null &&
+        (typeof quota !== "number" || !Number.isInteger(quota) || quota < 0)
+      ) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Quota must be a whole number of bytes, or null",
+          },
+          { status: 400 }
+        );
+      }
+
+      const result = await S3DirectService.setUserQuota(id, quota);
+
+      if (result.success) {
+        return NextResponse.json({
+          success: true,
+          data: result.quota,
+          message: result.message,
+        });
+      } else {
+        return NextResponse.json(
+          { success: false, message: result.message || result.error },
+          { status: result.error === "NOT_FOUND" ? 404 : 400 }
+        );
+      }
+    } catch (error) {
+      logger.error("Admin user quota API error:", error);
+      return NextResponse.json(
+        { success: false, message: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Types } from "mongoose";
+import { requireAdmin } from "@/auth/middleware/adminMiddleware";
+import connectDB from "@/utils/database";
+import { S3DirectService } from "@/services/s3DirectService";
+import { logger } from "@/utils/logger";
+
+/**
+ * POST /api/admin/users/[id]/reconcile
+ * Compare a user's bucket with their file metadata and fix any drift
+ */
+export const POST = requireAdmin(
+  async (
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+  ) => {
+    try {
+      await connectDB();
+
+      const { id } = await params;
+      if (!Types.ObjectId.isValid(id)) {
+        return NextResponse.json(
+          { success: false, message: "Invalid user ID" },
+          { status: 400 }
+        );
+      }
+
+      const result = await S3DirectService.reconcileUser(id, "admin");
+
+      if (result.success) {
+        return NextResponse.json({
+          success: true,
+          data: { report: result.report },
+          message: result.message,
+        });
+      } else {
+        return NextResponse.json(
+          { success: false, message: result.message || result.error },
+          { status: result.error === "RECONCILE_IN_PROGRESS" ? 409 : 400 }
+        );
+      }
+    } catch (error) {
+      logger.error("Admin user reconcile API error:", error);
+      return NextResponse.json(
+        { success: false, message: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+);
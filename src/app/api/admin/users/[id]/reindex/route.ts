@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Types } from "mongoose";
+import { requireAdmin } from "@/auth/middleware/adminMiddleware";
+import connectDB from "@/utils/database";
+import { S3DirectService } from "@/services/s3DirectService";
+import { logger } from "@/utils/logger";
+
+/**
+ * POST /api/admin/users/[id]/reindex
+ * Clear a user's search index and rebuild it from their files
+ */
+export const POST = requireAdmin(
+  async (
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+  ) => {
+    try {
+      await connectDB();
+
+      const { id } = await params;
+      if (!Types.ObjectId.isValid(id)) {
+        return NextResponse.json(
+          { success: false, message: "Invalid user ID" },
+          { status: 400 }
+        );
+      }
+
+      const result = await S3DirectService.reindexUser(id);
+
+      if (result.success) {
+        return NextResponse.json({
+          success: true,
+          data: { queued: result.queued },
+          message: result.message,
+        });
+      } else {
+        return NextResponse.json(
+          { success: false, message: result.message || result.error },
+          { status: 400 }
+        );
+      }
+    } catch (error) {
+      logger.error("Admin user reindex API error:", error);
+      return NextResponse.json(
+        { success: false, message: "Internal server error" },
+        { status: 500 }
+      );
+    }
+  }
+);
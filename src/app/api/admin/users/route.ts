@@ -3,6 +3,7 @@ import { requireAdmin } from "@/auth/middleware/adminMiddleware";
 import connectDB from "@/utils/database";
 import User from "@/auth/models/User";
 import FileMetadata from "@/models/FileMetadata";
+import SystemSettings from "@/models/SystemSettings";
 import { Types } from "mongoose";
 import { logger } from "@/utils/logger";
 
@@ -36,6 +37,7 @@ export const GET = requireAdmin(async (request: NextRequest) => {
       .limit(limit);
 
     const totalUsers = await User.countDocuments(searchQuery);
+    const settings = await SystemSettings.getSettings();
 
     const usersWithStats = await Promise.all(
       users.map(async (user) => {
@@ -61,6 +63,7 @@ export const GET = requireAdmin(async (request: NextRequest) => {
           emailVerified: user.emailVerified,
           createdAt: user.createdAt,
           updatedAt: user.updatedAt,
+          storageQuota: user.storageQuota ?? null,
           stats: {
             totalFiles: stats.totalFiles,
             totalSize: stats.totalSize,
@@ -74,6 +77,7 @@ export const GET = requireAdmin(async (request: NextRequest) => {
       success: true,
       data: {
         users: usersWithStats,
+        defaultStorageQuota: settings.defaultStorageQuota,
         pagination: {
           page,
           limit,
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
+import { S3DirectService } from "@/services/s3DirectService";
+import { parseLifecycleRules } from "@/services/s3LifecycleOperations";
+import { logger } from "@/utils/logger";
+
+/**
+ * GET /api/s3-config/lifecycle
+ * Get the bucket lifecycle rules that apply to the user's files
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const result = await S3DirectService.getLifecycleRules(String(user._id));
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: result.config,
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    logger.error("S3 lifecycle rules API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/s3-config/lifecycle
+ * Replace the lifecycle rules for the user's files; rules for anything
+ * outside their prefix are kept
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = parseLifecycleRules(body.rules);
+
+    if (!parsed.success || !parsed.rules) {
+      return NextResponse.json(
+        { success: false, message: parsed.message },
+        { status: 400 }
+      );
+    }
+
+    const result = await S3DirectService.setLifecycleRules(
+      String(user._id),
+      parsed.rules
+    );
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: result.config,
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        { status: result.error === "DUPLICATE_RULE_ID" ? 409 : 400 }
+      );
+    }
+  } catch (error) {
+    logger.error("S3 lifecycle update API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
+import { S3DirectService } from "@/services/s3DirectService";
+import { logger } from "@/utils/logger";
+
+/**
+ * GET /api/s3-config/reconcile
+ * Get the drift report of the last metadata reconciliation
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const result = await S3DirectService.getReconciliationReport(
+      String(user._id)
+    );
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: { report: result.report || null },
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    logger.error("S3 reconciliation report API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/s3-config/reconcile
+ * Compare the bucket with the file metadata now and fix any drift
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const result = await S3DirectService.reconcileUser(
+      String(user._id),
+      "user"
+    );
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: { report: result.report },
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        { status: result.error === "RECONCILE_IN_PROGRESS" ? 409 : 400 }
+      );
+    }
+  } catch (error) {
+    logger.error("S3 reconcile API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
+import { S3DirectService } from "@/services/s3DirectService";
+import { logger } from "@/utils/logger";
+
+/**
+ * GET /api/s3-config/versioning
+ * Get the versioning status of the user's bucket
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const result = await S3DirectService.getVersioningStatus(String(user._id));
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: { status: result.status },
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    logger.error("S3 versioning status API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/s3-config/versioning
+ * Enable or suspend versioning on the user's bucket
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { enabled } = body;
+
+    if (typeof enabled !== "boolean") {
+      return NextResponse.json(
+        { success: false, message: "Enabled must be a boolean" },
+        { status: 400 }
+      );
+    }
+
+    const result = await S3DirectService.setVersioning(
+      String(user._id),
+      enabled
+    );
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: { status: result.status },
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    logger.error("S3 versioning update API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -5,7 +5,7 @@ import { logger } from "@/utils/logger";
 
 /**
  * DELETE /api/s3-files/[...path]
- * Delete a file directly from S3
+ * Move a file to the trash, or delete it for good with ?permanent=true
  */
 export async function DELETE(
   request: NextRequest,
@@ -30,7 +30,11 @@ export async function DELETE(
       );
     }
 
-    const result = await S3DirectService.deleteFile(String(user._id), s3Key);
+    const permanent =
+      new URL(request.url).searchParams.get("permanent") === "true";
+    const result = permanent
+      ? await S3DirectService.deleteFile(String(user._id), s3Key)
+      : await S3DirectService.trashFile(String(user._id), s3Key);
 
     if (result.success) {
       return NextResponse.json({
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
+import {
+  S3DirectService,
+  BatchAction,
+  FileStorageClass,
+} from "@/services/s3DirectService";
+import { BATCH_ACTIONS, MAX_BATCH_KEYS } from "@/services/s3BatchOperations";
+import { parseTagList } from "@/services/s3TagOperations";
+import { STORAGE_CLASSES } from "@/services/s3StorageClassOperations";
+import { logger } from "@/utils/logger";
+
+/**
+ * POST /api/s3-files/batch
+ * Apply one action (delete, move, copy, tag, download, storage-class) to many
+ * files and folders
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { action, keys, destinationPath, tags, permanent, storageClass } =
+      body;
+
+    if (!BATCH_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Action must be one of: ${BATCH_ACTIONS.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !Array.isArray(keys) ||
+      keys.length === 0 ||
+      keys.some((key: unknown) => typeof key !== "string" || !key)
+    ) {
+      return NextResponse.json(
+        { success: false, message: "A list of S3 keys is required" },
+        { status: 400 }
+      );
+    }
+
+    if (keys.length > MAX_BATCH_KEYS) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Too many items in a single request (max ${MAX_BATCH_KEYS})`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      (action === "move" || action === "copy") &&
+      typeof destinationPath !== "string"
+    ) {
+      return NextResponse.json(
+        { success: false, message: "Destination path is required" },
+        { status: 400 }
+      );
+    }
+
+    if (action === "storage-class" && !STORAGE_CLASSES.includes(storageClass)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Storage class must be one of: ${STORAGE_CLASSES.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    let normalizedTags: string[] | undefined;
+    if (action === "tag") {
+      const parsedTags = parseTagList(tags);
+      if (!parsedTags.success) {
+        return NextResponse.json(
+          { success: false, message: parsedTags.message },
+          { status: 400 }
+        );
+      }
+      normalizedTags = parsedTags.tags;
+    }
+
+    const result = await S3DirectService.runBatch(
+      String(user._id),
+      action as BatchAction,
+      keys,
+      {
+        destinationPath,
+        tags: normalizedTags,
+        permanent: permanent === true,
+        storageClass: storageClass as FileStorageClass | undefined,
+      }
+    );
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: {
+          results: result.results,
+          succeeded: result.succeeded,
+          failed: result.failed,
+        },
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    logger.error("S3 batch API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
 import { S3DirectService } from "@/services/s3DirectService";
+import { isReadable } from "@/services/s3StorageClassOperations";
 import { logger } from "@/utils/logger";
 
 /**
  * GET /api/s3-files/download/[...path]
- * Get download URL for a file in S3
+ * Get download URL for a file in S3. Archived files that have not been
+ * restored are answered with 409 and their restore status instead.
  */
 export async function GET(
   request: NextRequest,
@@ -30,6 +32,25 @@ export async function GET(
       );
     }
 
+    const storage = await S3DirectService.getStorageStatus(
+      String(user._id),
+      s3Key
+    );
+    if (storage.status && !isReadable(storage.status)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message:
+            storage.status.restoreStatus === "in-progress"
+              ? "File is being restored from the archive"
+              : "File is archived and has to be restored before download",
+          error: "OBJECT_ARCHIVED",
+          data: storage.status,
+        },
+        { status: 409 }
+      );
+    }
+
     const result = await S3DirectService.getDownloadUrl(
       String(user._id),
       s3Key
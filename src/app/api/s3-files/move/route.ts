@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
+import { S3DirectService } from "@/services/s3DirectService";
+import { logger } from "@/utils/logger";
+
+/**
+ * POST /api/s3-files/move
+ * Move a file into another folder
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { key, destinationPath } = body;
+
+    if (!key || typeof key !== "string") {
+      return NextResponse.json(
+        { success: false, message: "S3 key is required" },
+        { status: 400 }
+      );
+    }
+
+    if (typeof destinationPath !== "string") {
+      return NextResponse.json(
+        { success: false, message: "Destination path is required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await S3DirectService.moveFile(
+      String(user._id),
+      key,
+      destinationPath
+    );
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: result.file,
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    logger.error("S3 file move API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
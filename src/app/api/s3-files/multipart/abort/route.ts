@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
+import { S3DirectService } from "@/services/s3DirectService";
+import { logger } from "@/utils/logger";
+
+/**
+ * POST /api/s3-files/multipart/abort
+ * Abort a multipart upload and discard its parts
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { key, uploadId } = await request.json();
+
+    if (!key || !uploadId) {
+      return NextResponse.json(
+        { success: false, message: "Key and upload ID are required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await S3DirectService.abortMultipartUpload(
+      String(user._id),
+      key,
+      uploadId
+    );
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    logger.error("Abort multipart upload API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
+import { S3DirectService } from "@/services/s3DirectService";
+import { logger } from "@/utils/logger";
+
+/**
+ * POST /api/s3-files/multipart/complete
+ * Assemble the uploaded parts into the final object
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { key, uploadId, parts } = await request.json();
+
+    if (!key || !uploadId || !Array.isArray(parts) || parts.length === 0) {
+      return NextResponse.json(
+        { success: false, message: "Key, upload ID and parts are required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await S3DirectService.completeMultipartUpload(
+      String(user._id),
+      key,
+      uploadId,
+      parts
+    );
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: result.file,
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        {
+          status:
+            result.error === "FILE_TOO_LARGE"
+              ? 413
+              : result.error === "QUOTA_EXCEEDED"
+                ? 507
+                : 400,
+        }
+      );
+    }
+  } catch (error) {
+    logger.error("Complete multipart upload API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
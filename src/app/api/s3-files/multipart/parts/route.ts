@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
+import { S3DirectService } from "@/services/s3DirectService";
+import { logger } from "@/utils/logger";
+
+/**
+ * GET /api/s3-files/multipart/parts
+ * List the parts already uploaded for a multipart upload
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const key = searchParams.get("key");
+    const uploadId = searchParams.get("uploadId");
+
+    if (!key || !uploadId) {
+      return NextResponse.json(
+        { success: false, message: "Key and upload ID are required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await S3DirectService.listMultipartParts(
+      String(user._id),
+      key,
+      uploadId
+    );
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: { parts: result.parts },
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message },
+        { status: 404 }
+      );
+    }
+  } catch (error) {
+    logger.error("List multipart parts API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/s3-files/multipart/parts
+ * Get pre-signed URLs for a batch of part numbers
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { key, uploadId, partNumbers } = await request.json();
+
+    if (
+      !key ||
+      !uploadId ||
+      !Array.isArray(partNumbers) ||
+      partNumbers.length === 0
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Key, upload ID and part numbers are required",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      partNumbers.length > 100 ||
+      partNumbers.some(
+        (n: unknown) =>
+          !Number.isInteger(n) || Number(n) < 1 || Number(n) > 10000
+      )
+    ) {
+      return NextResponse.json(
+        { success: false, message: "Invalid part numbers" },
+        { status: 400 }
+      );
+    }
+
+    const result = await S3DirectService.getMultipartPartUrls(
+      String(user._id),
+      key,
+      uploadId,
+      partNumbers
+    );
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: { urls: result.urls },
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message },
+        { status: 500 }
+      );
+    }
+  } catch (error) {
+    logger.error("Sign multipart parts API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
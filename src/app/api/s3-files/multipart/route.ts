@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
+import { S3DirectService } from "@/services/s3DirectService";
+import { getUploadErrorStatus } from "@/utils/uploadLimits";
+import { logger } from "@/utils/logger";
+
+/**
+ * POST /api/s3-files/multipart
+ * Start a multipart upload for a large file
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { fileName, fileType, fileSize, path } = await request.json();
+
+    if (!fileName || !fileSize) {
+      return NextResponse.json(
+        { success: false, message: "Missing required file information" },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(fileSize) || fileSize <= 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "File size must be a positive number of bytes",
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await S3DirectService.createMultipartUpload(
+      String(user._id),
+      fileName,
+      fileType || "application/octet-stream",
+      fileSize,
+      path
+    );
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: result.session,
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message, error: result.error },
+        { status: getUploadErrorStatus(result.error) }
+      );
+    }
+  } catch (error) {
+    logger.error("Create multipart upload API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
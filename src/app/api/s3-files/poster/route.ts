@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
+import { S3DirectService } from "@/services/s3DirectService";
+import { logger } from "@/utils/logger";
+
+/**
+ * GET /api/s3-files/poster?key=...
+ * Serve the poster frame stored next to a video as a WebP image
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const key = searchParams.get("key");
+
+    if (!key) {
+      return NextResponse.json(
+        { success: false, message: "Key is required" },
+        { status: 400 }
+      );
+    }
+
+    const userId = String(user._id);
+    const poster = await S3DirectService.findPosterFrame(userId, key);
+
+    if (!poster.success || !poster.posterKey) {
+      return NextResponse.json(
+        { success: false, message: poster.message },
+        { status: poster.error === "ACCESS_DENIED" ? 403 : 404 }
+      );
+    }
+
+    const result = await S3DirectService.getThumbnail(
+      userId,
+      poster.posterKey,
+      "large",
+      request.headers.get("if-none-match")
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: result.message },
+        { status: 404 }
+      );
+    }
+
+    const headers = {
+      "Cache-Control": "private, max-age=3600",
+      ETag: result.etag!,
+    };
+
+    if (!result.body) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    return new NextResponse(Buffer.from(result.body), {
+      headers: { ...headers, "Content-Type": "image/webp" },
+    });
+  } catch (error) {
+    logger.error("Poster frame API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
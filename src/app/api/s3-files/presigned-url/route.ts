@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
 import { S3DirectService } from "@/services/s3DirectService";
+import { getUploadErrorStatus } from "@/utils/uploadLimits";
 import { logger } from "@/utils/logger";
 
+/**
+ * POST /api/s3-files/presigned-url
+ * Get a pre-signed POST for uploading a single file
+ */
 export async function POST(request: NextRequest) {
   try {
     const user = await getAuthenticatedUser(request);
@@ -15,17 +20,27 @@ export async function POST(request: NextRequest) {
 
     const { fileName, fileType, fileSize, path } = await request.json();
 
-    if (!fileName || !fileType || !fileSize) {
+    if (!fileName || !fileSize) {
       return NextResponse.json(
         { success: false, message: "Missing required file information" },
         { status: 400 }
       );
     }
 
+    if (!Number.isInteger(fileSize) || fileSize <= 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "File size must be a positive number of bytes",
+        },
+        { status: 400 }
+      );
+    }
+
     const result = await S3DirectService.getUploadPresignedUrl(
       String(user._id),
       fileName,
-      fileType,
+      fileType || "application/octet-stream",
       fileSize,
       path
     );
@@ -35,14 +50,15 @@ export async function POST(request: NextRequest) {
         success: true,
         data: {
           url: result.url,
+          fields: result.fields,
           key: result.key,
         },
         message: result.message,
       });
     } else {
       return NextResponse.json(
-        { success: false, message: result.message },
-        { status: 500 }
+        { success: false, message: result.message, error: result.error },
+        { status: getUploadErrorStatus(result.error) }
       );
     }
   } catch (error) {
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
+import { S3DirectService } from "@/services/s3DirectService";
+import { logger } from "@/utils/logger";
+
+function getPreviewErrorStatus(error?: string): number {
+  switch (error) {
+    case "ACCESS_DENIED":
+      return 403;
+    case "NOT_FOUND":
+      return 404;
+    case "NOT_SUPPORTED":
+      return 415;
+    default:
+      return 400;
+  }
+}
+
+/**
+ * GET /api/s3-files/preview?key=...
+ * Get the start of a text file, or an inline URL for images and PDFs
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const key = searchParams.get("key");
+
+    if (!key) {
+      return NextResponse.json(
+        { success: false, message: "Key is required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await S3DirectService.getPreview(String(user._id), key);
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: result.preview,
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        { status: getPreviewErrorStatus(result.error) }
+      );
+    }
+  } catch (error) {
+    logger.error("File preview API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
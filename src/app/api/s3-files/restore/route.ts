@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
+import { S3DirectService, RestoreTier } from "@/services/s3DirectService";
+import {
+  RESTORE_TIERS,
+  MAX_RESTORE_DAYS,
+} from "@/services/s3StorageClassOperations";
+import { logger } from "@/utils/logger";
+
+function getRestoreErrorStatus(error?: string): number {
+  switch (error) {
+    case "ACCESS_DENIED":
+      return 403;
+    case "FILE_NOT_FOUND":
+      return 404;
+    default:
+      return 400;
+  }
+}
+
+/**
+ * GET /api/s3-files/restore?key=...
+ * Get a file's storage class and the status of any archive restore
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const key = searchParams.get("key");
+
+    if (!key) {
+      return NextResponse.json(
+        { success: false, message: "Key is required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await S3DirectService.getStorageStatus(
+      String(user._id),
+      key
+    );
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: result.status,
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        { status: getRestoreErrorStatus(result.error) }
+      );
+    }
+  } catch (error) {
+    logger.error("Storage status API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/s3-files/restore
+ * Request a temporary restore of an archived file
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { key, tier = "Standard", days = 7 } = body;
+
+    if (typeof key !== "string" || !key) {
+      return NextResponse.json(
+        { success: false, message: "Key is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!RESTORE_TIERS.includes(tier)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Tier must be one of: ${RESTORE_TIERS.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(days) || days < 1 || days > MAX_RESTORE_DAYS) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Days must be a whole number from 1 to ${MAX_RESTORE_DAYS}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await S3DirectService.restoreObject(
+      String(user._id),
+      key,
+      tier as RestoreTier,
+      days
+    );
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: result.status,
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        {
+          success: false,
+          message: result.message || result.error,
+          error: result.error,
+        },
+        { status: getRestoreErrorStatus(result.error) }
+      );
+    }
+  } catch (error) {
+    logger.error("Restore object API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,10 +3,14 @@ import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
 import { S3DirectService } from "@/services/s3DirectService";
 import { logger } from "@/utils/logger";
 import { redisCache } from "@/utils/redisCache";
+import type { FolderListSort } from "@/models/FileMetadata";
+
+const LIST_SORTS: FolderListSort[] = ["name", "size", "date", "type"];
 
 /**
  * GET /api/s3-files
- * List files and folders directly from S3
+ * List files and folders directly from S3, or sorted by name, size, date
+ * or type with ?sort=&order=asc|desc
  */
 export async function GET(request: NextRequest) {
   const startTime = Date.now();
@@ -27,10 +31,30 @@ export async function GET(request: NextRequest) {
     const includeMetadata = searchParams.get("includeMetadata") === "true";
     const noCache = searchParams.get("noCache") === "true";
     const refresh = searchParams.get("refresh") === "true";
+    const sortParam = searchParams.get("sort");
+    const orderParam = searchParams.get("order");
+
+    if (sortParam && !LIST_SORTS.includes(sortParam as FolderListSort)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Sort must be one of: ${LIST_SORTS.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+    if (orderParam && orderParam !== "asc" && orderParam !== "desc") {
+      return NextResponse.json(
+        { success: false, message: "Order must be asc or desc" },
+        { status: 400 }
+      );
+    }
+    const sort = (sortParam as FolderListSort) || undefined;
+    const order = (orderParam as "asc" | "desc") || undefined;
 
     const cacheKey = `dashboard/files:${String(user._id)}:${path}:${maxKeys}:${
       continuationToken || ""
-    }:${includeMetadata}`;
+    }:${includeMetadata}:${sort || ""}:${order || ""}`;
 
     logger.info("🔍 S3 files API called:", {
       path,
@@ -39,6 +63,8 @@ export async function GET(request: NextRequest) {
       includeMetadata,
       noCache,
       refresh,
+      sort,
+      order,
       userId: String(user._id),
     });
 
@@ -69,6 +95,8 @@ export async function GET(request: NextRequest) {
       continuationToken,
       useCache: !noCache,
       includeMetadata,
+      sort,
+      order,
     });
     logger.info(
       `🔍 S3DirectService.listItems took ${Date.now() - listStart}ms`
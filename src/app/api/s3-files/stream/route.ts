@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
+import { S3DirectService } from "@/services/s3DirectService";
+import { logger } from "@/utils/logger";
+
+function getStreamErrorStatus(error?: string): number {
+  switch (error) {
+    case "ACCESS_DENIED":
+      return 403;
+    case "NOT_FOUND":
+      return 404;
+    case "NOT_SUPPORTED":
+      return 415;
+    default:
+      return 400;
+  }
+}
+
+/**
+ * GET /api/s3-files/stream?key=...
+ * Stream a video or audio file with HTTP Range support for seeking
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const key = searchParams.get("key");
+
+    if (!key) {
+      return NextResponse.json(
+        { success: false, message: "Key is required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await S3DirectService.getMediaStream(
+      String(user._id),
+      key,
+      request.headers.get("range")
+    );
+
+    if (result.success) {
+      return new NextResponse(result.body, {
+        status: result.status,
+        headers: {
+          ...result.headers,
+          "Cache-Control": "private, no-transform",
+        },
+      });
+    }
+
+    if (result.error === "RANGE_NOT_SATISFIABLE") {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { "Content-Range": `bytes */${result.size}` },
+      });
+    }
+
+    return NextResponse.json(
+      { success: false, message: result.message || result.error },
+      { status: getStreamErrorStatus(result.error) }
+    );
+  } catch (error) {
+    logger.error("Media stream API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
+import { S3DirectService } from "@/services/s3DirectService";
+import { parseTagList } from "@/services/s3TagOperations";
+import { logger } from "@/utils/logger";
+
+function getTagErrorStatus(error?: string): number {
+  switch (error) {
+    case "ACCESS_DENIED":
+      return 403;
+    case "NOT_FOUND":
+      return 404;
+    default:
+      return 400;
+  }
+}
+
+/**
+ * GET /api/s3-files/tags?key=...
+ * Get the tags of a file
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const key = searchParams.get("key");
+
+    if (!key) {
+      return NextResponse.json(
+        { success: false, message: "Key is required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await S3DirectService.getFileTags(String(user._id), key);
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: { tags: result.tags },
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        { status: getTagErrorStatus(result.error) }
+      );
+    }
+  } catch (error) {
+    logger.error("File tags API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/s3-files/tags
+ * Add tags to a file
+ */
+export async function POST(request: NextRequest) {
+  return updateFileTags(request, "add");
+}
+
+/**
+ * DELETE /api/s3-files/tags
+ * Remove tags from a file
+ */
+export async function DELETE(request: NextRequest) {
+  return updateFileTags(request, "remove");
+}
+
+async function updateFileTags(request: NextRequest, mode: "add" | "remove") {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { key, tags } = await request.json();
+
+    if (!key || typeof key !== "string") {
+      return NextResponse.json(
+        { success: false, message: "Key is required" },
+        { status: 400 }
+      );
+    }
+
+    const parsedTags = parseTagList(tags);
+    if (!parsedTags.success) {
+      return NextResponse.json(
+        { success: false, message: parsedTags.message },
+        { status: 400 }
+      );
+    }
+
+    const result =
+      mode === "add"
+        ? await S3DirectService.addTags(
+            String(user._id),
+            [key],
+            parsedTags.tags
+          )
+        : await S3DirectService.removeTags(
+            String(user._id),
+            [key],
+            parsedTags.tags
+          );
+    const item = result.results?.[0];
+
+    if (result.success && item?.success) {
+      return NextResponse.json({
+        success: true,
+        data: { tags: item.tags },
+        message: item.message,
+      });
+    } else {
+      const error = item?.error || result.error;
+      return NextResponse.json(
+        { success: false, message: item?.message || result.message || error },
+        { status: getTagErrorStatus(error) }
+      );
+    }
+  } catch (error) {
+    logger.error("File tags API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
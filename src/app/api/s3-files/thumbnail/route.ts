@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
+import { S3DirectService } from "@/services/s3DirectService";
+import { isThumbnailSize } from "@/services/s3ThumbnailOperations";
+import { logger } from "@/utils/logger";
+
+const THUMBNAIL_CACHE_CONTROL = "private, max-age=86400";
+
+function getThumbnailErrorStatus(error?: string): number {
+  switch (error) {
+    case "ACCESS_DENIED":
+      return 403;
+    case "NOT_FOUND":
+      return 404;
+    case "TOO_LARGE":
+      return 413;
+    case "NOT_SUPPORTED":
+      return 415;
+    default:
+      return 400;
+  }
+}
+
+/**
+ * GET /api/s3-files/thumbnail?key=...&size=small|medium|large
+ * Serve a WebP thumbnail of an image, revalidated with an ETag
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const key = searchParams.get("key");
+    const size = searchParams.get("size") || "medium";
+
+    if (!key) {
+      return NextResponse.json(
+        { success: false, message: "Key is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!isThumbnailSize(size)) {
+      return NextResponse.json(
+        { success: false, message: "Size must be small, medium or large" },
+        { status: 400 }
+      );
+    }
+
+    const result = await S3DirectService.getThumbnail(
+      String(user._id),
+      key,
+      size,
+      request.headers.get("if-none-match")
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        { status: getThumbnailErrorStatus(result.error) }
+      );
+    }
+
+    const headers = {
+      "Cache-Control": THUMBNAIL_CACHE_CONTROL,
+      ETag: result.etag!,
+    };
+
+    if (!result.body) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    return new NextResponse(Buffer.from(result.body), {
+      headers: { ...headers, "Content-Type": "image/webp" },
+    });
+  } catch (error) {
+    logger.error("Thumbnail API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
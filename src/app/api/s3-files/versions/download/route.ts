@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
+import { S3DirectService } from "@/services/s3DirectService";
+import { logger } from "@/utils/logger";
+
+/**
+ * GET /api/s3-files/versions/download?key=&versionId=
+ * Get a download URL for a specific version of a file
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const key = request.nextUrl.searchParams.get("key");
+    const versionId = request.nextUrl.searchParams.get("versionId");
+
+    if (!key || !versionId) {
+      return NextResponse.json(
+        { success: false, message: "S3 key and version ID are required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await S3DirectService.getVersionDownloadUrl(
+      String(user._id),
+      key,
+      versionId
+    );
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        url: result.url,
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    logger.error("S3 version download URL API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
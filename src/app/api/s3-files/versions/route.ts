@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
+import { S3DirectService } from "@/services/s3DirectService";
+import { logger } from "@/utils/logger";
+
+/**
+ * GET /api/s3-files/versions?key=
+ * List every stored version of a file
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const key = request.nextUrl.searchParams.get("key");
+    if (!key) {
+      return NextResponse.json(
+        { success: false, message: "S3 key is required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await S3DirectService.listVersions(String(user._id), key);
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: {
+          versions: result.versions,
+          versioningStatus: result.versioningStatus,
+          truncated: result.truncated,
+        },
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    logger.error("S3 list versions API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/s3-files/versions
+ * Restore an older version of a file as the current version
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { key, versionId } = body;
+
+    if (!key || typeof key !== "string") {
+      return NextResponse.json(
+        { success: false, message: "S3 key is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!versionId || typeof versionId !== "string") {
+      return NextResponse.json(
+        { success: false, message: "Version ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await S3DirectService.restoreVersion(
+      String(user._id),
+      key,
+      versionId
+    );
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        { status: result.error === "QUOTA_EXCEEDED" ? 507 : 400 }
+      );
+    }
+  } catch (error) {
+    logger.error("S3 restore version API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/s3-files/versions?key=&versionId=
+ * Permanently delete one version of a file
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const key = request.nextUrl.searchParams.get("key");
+    const versionId = request.nextUrl.searchParams.get("versionId");
+
+    if (!key || !versionId) {
+      return NextResponse.json(
+        { success: false, message: "S3 key and version ID are required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await S3DirectService.deleteVersion(
+      String(user._id),
+      key,
+      versionId
+    );
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    logger.error("S3 delete version API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
+import { S3DirectService } from "@/services/s3DirectService";
+import { logger } from "@/utils/logger";
+
+async function streamArchive(
+  request: NextRequest,
+  userId: string,
+  source: { folderPath?: string; keys?: string[] }
+) {
+  const result = await S3DirectService.createZipArchive(
+    userId,
+    source,
+    request.signal
+  );
+
+  if (!result.success || !result.stream) {
+    return NextResponse.json(
+      { success: false, message: result.message || result.error },
+      { status: result.error === "ACCESS_DENIED" ? 403 : 400 }
+    );
+  }
+
+  const fileName = result.fileName || "download.zip";
+
+  return new Response(result.stream, {
+    headers: {
+      "Content-Type": "application/zip",
+      "Content-Disposition": `attachment; filename="${fileName.replace(
+        /["\\\r\n]/g,
+        "_"
+      )}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+      "Cache-Control": "no-store",
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+}
+
+/**
+ * GET /api/s3-files/zip?path=/folder
+ * Stream a folder as a ZIP archive
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const path = searchParams.get("path");
+
+    if (path === null) {
+      return NextResponse.json(
+        { success: false, message: "Folder path is required" },
+        { status: 400 }
+      );
+    }
+
+    return await streamArchive(request, String(user._id), {
+      folderPath: path,
+    });
+  } catch (error) {
+    logger.error("S3 folder ZIP API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/s3-files/zip
+ * Stream selected files and folders as a ZIP archive
+ * Accepts a JSON body or a form submission with repeated `keys` fields
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    let keys: unknown;
+    if (request.headers.get("content-type")?.includes("application/json")) {
+      keys = (await request.json()).keys;
+    } else {
+      const formData = await request.formData();
+      keys = formData.getAll("keys");
+    }
+
+    if (
+      !Array.isArray(keys) ||
+      keys.length === 0 ||
+      keys.some((key: unknown) => typeof key !== "string" || !key)
+    ) {
+      return NextResponse.json(
+        { success: false, message: "A list of S3 keys is required" },
+        { status: 400 }
+      );
+    }
+
+    if (keys.length > 1000) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Too many items in a single request (max 1000)",
+        },
+        { status: 400 }
+      );
+    }
+
+    return await streamArchive(request, String(user._id), {
+      keys: keys as string[],
+    });
+  } catch (error) {
+    logger.error("S3 selection ZIP API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -5,7 +5,8 @@ import { logger } from "@/utils/logger";
 
 /**
  * DELETE /api/s3-folders/[...path]
- * Delete a folder and all its contents directly from S3
+ * Move a folder and all its contents to the trash, or delete them for good
+ * with ?permanent=true
  */
 export async function DELETE(
   request: NextRequest,
@@ -30,10 +31,11 @@ export async function DELETE(
       );
     }
 
-    const result = await S3DirectService.deleteFolder(
-      String(user._id),
-      folderPath
-    );
+    const permanent =
+      new URL(request.url).searchParams.get("permanent") === "true";
+    const result = permanent
+      ? await S3DirectService.deleteFolder(String(user._id), folderPath)
+      : await S3DirectService.trashFolder(String(user._id), folderPath);
 
     if (result.success) {
       await S3DirectService.forceClearUserCache(String(user._id));
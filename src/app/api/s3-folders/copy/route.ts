@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
+import { S3DirectService } from "@/services/s3DirectService";
+import { logger } from "@/utils/logger";
+
+/**
+ * POST /api/s3-folders/copy
+ * Copy a folder and all its contents, optionally into another folder
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { folderPath, destinationPath } = body;
+
+    if (!folderPath || typeof folderPath !== "string") {
+      return NextResponse.json(
+        { success: false, message: "Folder path is required" },
+        { status: 400 }
+      );
+    }
+
+    if (destinationPath !== undefined && typeof destinationPath !== "string") {
+      return NextResponse.json(
+        { success: false, message: "Destination path must be a string" },
+        { status: 400 }
+      );
+    }
+
+    const result = await S3DirectService.copyFolder(
+      String(user._id),
+      folderPath,
+      destinationPath
+    );
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: result.folder,
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    logger.error("S3 folder copy API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
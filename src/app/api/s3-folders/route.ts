@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
 import { S3DirectService } from "@/services/s3DirectService";
+import { TRASH_FOLDER } from "@/services/s3TrashOperations";
 import { logger } from "@/utils/logger";
 
 /**
@@ -46,6 +47,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (trimmedName === TRASH_FOLDER) {
+      return NextResponse.json(
+        { success: false, message: "This folder name is reserved" },
+        { status: 400 }
+      );
+    }
+
     const result = await S3DirectService.createFolder(
       String(user._id),
       trimmedName,
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
+import { S3DirectService } from "@/services/s3DirectService";
+import { TRASH_FOLDER } from "@/services/s3TrashOperations";
+import { logger } from "@/utils/logger";
+
+/**
+ * POST /api/s3-folders/tree
+ * Create a nested folder structure (e.g. for a folder upload) in S3
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { folders, parentPath } = body;
+
+    if (
+      !Array.isArray(folders) ||
+      folders.length === 0 ||
+      folders.some((folder: unknown) => typeof folder !== "string")
+    ) {
+      return NextResponse.json(
+        { success: false, message: "A list of folder paths is required" },
+        { status: 400 }
+      );
+    }
+
+    if (folders.length > 1000) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Too many folders in a single request (max 1000)",
+        },
+        { status: 400 }
+      );
+    }
+
+    const invalidChars = /[<>:"\\|?*]/;
+    for (const folder of folders as string[]) {
+      const segments = folder.split("/").filter(Boolean);
+      if (segments.some((segment) => segment.length > 255)) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Folder name must be less than 255 characters",
+          },
+          { status: 400 }
+        );
+      }
+      if (segments.includes(TRASH_FOLDER)) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: `Folder name is reserved: ${folder}`,
+          },
+          { status: 400 }
+        );
+      }
+      if (invalidChars.test(folder)) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: `Folder name contains invalid characters: ${folder}`,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    const result = await S3DirectService.createFolderTree(
+      String(user._id),
+      folders,
+      parentPath || ""
+    );
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: result.createdFolders,
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    logger.error("S3 folder tree create API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
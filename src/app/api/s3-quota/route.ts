@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
+import { S3DirectService } from "@/services/s3DirectService";
+import { logger } from "@/utils/logger";
+
+/**
+ * GET /api/s3-quota
+ * Get the user's storage usage against their quota
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const result = await S3DirectService.getQuota(String(user._id));
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: result.quota,
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        { status: result.error === "NOT_FOUND" ? 404 : 400 }
+      );
+    }
+  } catch (error) {
+    logger.error("S3 quota API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
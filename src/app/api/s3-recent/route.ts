@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
+import { S3DirectService } from "@/services/s3DirectService";
+import { logger } from "@/utils/logger";
+
+const MAX_LIMIT = 100;
+
+/**
+ * GET /api/s3-recent?limit=...
+ * List recently uploaded, downloaded or renamed files at their current location
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(
+      Math.max(parseInt(searchParams.get("limit") || "50") || 50, 1),
+      MAX_LIMIT
+    );
+
+    const result = await S3DirectService.listRecent(String(user._id), limit);
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: { files: result.files },
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    logger.error("S3 recent files API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
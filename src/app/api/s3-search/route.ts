@@ -1,11 +1,32 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
 import { S3DirectService } from "@/services/s3DirectService";
+import type { SearchOptions } from "@/services/s3DirectService";
+import { hasSearchFilters, parseSearchQuery } from "@/utils/searchQuery";
 import { logger } from "@/utils/logger";
 
+const SORT_OPTIONS = ["relevance", "name", "date", "size"];
+const MAX_LIMIT = 100;
+
+function parseSize(value: string | null): number | undefined | null {
+  if (value === null || value === "") return undefined;
+  const size = Number(value);
+  return Number.isInteger(size) && size >= 0 ? size : null;
+}
+
+function parseDate(value: string | null): Date | undefined | null {
+  if (value === null || value === "") return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
 /**
  * GET /api/s3-search
- * Search files directly in S3
+ * Search file names and contents with optional filters. Supports
+ * q, mimeType, minSize, maxSize (bytes), modifiedAfter, modifiedBefore
+ * (ISO dates), folder, tags (repeatable), sort (relevance|name|date|size),
+ * limit and cursor.
+ * Filters can also be written into q, e.g. "report type:pdf size:>5MB".
  */
 export async function GET(request: NextRequest) {
   try {
@@ -18,18 +39,88 @@ export async function GET(request: NextRequest) {
     }
 
     const { searchParams } = new URL(request.url);
-    const query = searchParams.get("q");
-    const maxResults = parseInt(searchParams.get("maxResults") || "100");
-    const mimeTypeFilter = searchParams.get("mimeType") || undefined;
+    const parsed = parseSearchQuery(searchParams.get("q") || "");
+    const sort = searchParams.get("sort") || undefined;
+    const minSize = parseSize(searchParams.get("minSize"));
+    const maxSize = parseSize(searchParams.get("maxSize"));
+    const modifiedAfter = parseDate(searchParams.get("modifiedAfter"));
+    const modifiedBefore = parseDate(searchParams.get("modifiedBefore"));
+    const tags = searchParams.getAll("tags").filter(Boolean);
+    const limit = Math.min(
+      Math.max(parseInt(searchParams.get("limit") || "50") || 50, 1),
+      MAX_LIMIT
+    );
+
+    if (sort && !SORT_OPTIONS.includes(sort)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Sort must be one of: ${SORT_OPTIONS.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (minSize === null || maxSize === null) {
+      return NextResponse.json(
+        { success: false, message: "Sizes must be whole numbers of bytes" },
+        { status: 400 }
+      );
+    }
+
+    if (modifiedAfter === null || modifiedBefore === null) {
+      return NextResponse.json(
+        { success: false, message: "Dates must be valid ISO dates" },
+        { status: 400 }
+      );
+    }
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: parsed.message,
+          data: { token: parsed.token },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { text: query, ...queryFilters } = parsed.query;
+    const options: SearchOptions = {
+      mimeType: searchParams.get("mimeType") || undefined,
+      mimeTypes: queryFilters.mimeTypes,
+      tags: Array.from(new Set([...queryFilters.tags, ...tags])),
+      minSize: minSize ?? queryFilters.minSize,
+      maxSize: maxSize ?? queryFilters.maxSize,
+      modifiedAfter: modifiedAfter ?? queryFilters.modifiedAfter,
+      modifiedBefore: modifiedBefore ?? queryFilters.modifiedBefore,
+      folder: searchParams.get("folder") || queryFilters.folder,
+      sort: sort as SearchOptions["sort"],
+      limit,
+      cursor: searchParams.get("cursor") || undefined,
+    };
+
+    const hasFilters =
+      hasSearchFilters(parsed.query) ||
+      [
+        options.mimeType,
+        minSize,
+        maxSize,
+        modifiedAfter,
+        modifiedBefore,
+        options.folder,
+      ].some((value) => value !== undefined) ||
+      tags.length > 0;
 
-    if (!query || query.trim().length === 0) {
+    if (!query && !hasFilters) {
       return NextResponse.json(
         { success: false, message: "Search query is required" },
         { status: 400 }
       );
     }
 
-    if (query.trim().length < 2) {
+    if (query && query.length < 2) {
       return NextResponse.json(
         {
           success: false,
@@ -41,11 +132,8 @@ export async function GET(request: NextRequest) {
 
     const result = await S3DirectService.searchFiles(
       String(user._id),
-      query.trim(),
-      {
-        maxResults,
-        mimeTypeFilter,
-      }
+      query,
+      options
     );
 
     if (result.success) {
@@ -55,6 +143,8 @@ export async function GET(request: NextRequest) {
           files: result.files,
           totalResults: result.totalResults,
           query: result.query,
+          hasMore: result.hasMore,
+          nextCursor: result.nextCursor,
         },
         message: result.message,
       });
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
+import { S3DirectService } from "@/services/s3DirectService";
+import { logger } from "@/utils/logger";
+
+/**
+ * GET /api/s3-search/suggestions?q=...
+ * Autocomplete suggestions for the word being typed in the search box
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const result = await S3DirectService.getSearchSuggestions(
+      String(user._id),
+      searchParams.get("q") || ""
+    );
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: { suggestions: result.suggestions },
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    logger.error("Search suggestions API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
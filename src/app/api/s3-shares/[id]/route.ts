@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
+import { S3DirectService } from "@/services/s3DirectService";
+import { logger } from "@/utils/logger";
+
+/**
+ * DELETE /api/s3-shares/[id]
+ * Revoke a share link
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const result = await S3DirectService.revokeShare(String(user._id), id);
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: result.share,
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        { status: result.error === "NOT_FOUND" ? 404 : 400 }
+      );
+    }
+  } catch (error) {
+    logger.error("S3 revoke share API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
+import { S3DirectService } from "@/services/s3DirectService";
+import { logger } from "@/utils/logger";
+
+const MAX_EXPIRY_HOURS = 24 * 365;
+
+/**
+ * GET /api/s3-shares
+ * List the share links created by the user
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const result = await S3DirectService.listShares(String(user._id));
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: result.shares,
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    logger.error("S3 list shares API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/s3-shares
+ * Create a public share link for a file or folder
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { key, expiresInHours, password, maxDownloads } = body;
+
+    if (!key || typeof key !== "string") {
+      return NextResponse.json(
+        { success: false, message: "S3 key is required" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      expiresInHours !== undefined &&
+      expiresInHours !== null &&
+      (typeof expiresInHours !== "number" ||
+        expiresInHours <= 0 ||
+        expiresInHours > MAX_EXPIRY_HOURS)
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Expiry must be between 1 hour and ${MAX_EXPIRY_HOURS} hours`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      password !== undefined &&
+      password !== null &&
+      password !== "" &&
+      (typeof password !== "string" ||
+        password.length < 4 ||
+        password.length > 128)
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Password must be between 4 and 128 characters",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      maxDownloads !== undefined &&
+      maxDownloads !== null &&
+      (!Number.isInteger(maxDownloads) ||
+        maxDownloads < 1 ||
+        maxDownloads > 100000)
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Download limit must be a whole number between 1 and 100000",
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await S3DirectService.createShare(String(user._id), key, {
+      expiresInHours: expiresInHours || undefined,
+      password: password || undefined,
+      maxDownloads: maxDownloads || undefined,
+    });
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: result.share,
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        { status: result.error === "NOT_FOUND" ? 404 : 400 }
+      );
+    }
+  } catch (error) {
+    logger.error("S3 create share API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
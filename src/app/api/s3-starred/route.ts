@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
+import { S3DirectService } from "@/services/s3DirectService";
+import { logger } from "@/utils/logger";
+
+function getStarErrorStatus(error?: string): number {
+  switch (error) {
+    case "ACCESS_DENIED":
+      return 403;
+    case "NOT_FOUND":
+      return 404;
+    default:
+      return 400;
+  }
+}
+
+/**
+ * GET /api/s3-starred
+ * List the user's starred files
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const result = await S3DirectService.listStarred(String(user._id));
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: { files: result.files },
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    logger.error("S3 starred API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/s3-starred
+ * Star or unstar a file
+ * Body: { key: string, starred: boolean }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { key, starred } = await request.json();
+
+    if (!key || typeof key !== "string") {
+      return NextResponse.json(
+        { success: false, message: "Key is required" },
+        { status: 400 }
+      );
+    }
+
+    if (typeof starred !== "boolean") {
+      return NextResponse.json(
+        { success: false, message: "Starred must be true or false" },
+        { status: 400 }
+      );
+    }
+
+    const result = await S3DirectService.setStarred(
+      String(user._id),
+      key,
+      starred
+    );
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: { starred: result.starred },
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        { status: getStarErrorStatus(result.error) }
+      );
+    }
+  } catch (error) {
+    logger.error("S3 starred API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
+import { S3DirectService } from "@/services/s3DirectService";
+import { MAX_BATCH_KEYS } from "@/services/s3BatchOperations";
+import { parseTagList } from "@/services/s3TagOperations";
+import { logger } from "@/utils/logger";
+
+/**
+ * GET /api/s3-tags
+ * List the user's tags with the number of files carrying each one
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const result = await S3DirectService.getTagCloud(String(user._id));
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: { tags: result.tags },
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    logger.error("S3 tags API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/s3-tags
+ * Add or remove tags on many files at once
+ * Body: { keys: string[], tags: string[], action?: "add" | "remove" }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { keys, tags, action = "add" } = await request.json();
+
+    if (action !== "add" && action !== "remove") {
+      return NextResponse.json(
+        { success: false, message: "Action must be one of: add, remove" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !Array.isArray(keys) ||
+      keys.length === 0 ||
+      keys.some((key: unknown) => typeof key !== "string" || !key)
+    ) {
+      return NextResponse.json(
+        { success: false, message: "A list of S3 keys is required" },
+        { status: 400 }
+      );
+    }
+
+    if (keys.length > MAX_BATCH_KEYS) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Too many items in a single request (max ${MAX_BATCH_KEYS})`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const parsedTags = parseTagList(tags);
+    if (!parsedTags.success) {
+      return NextResponse.json(
+        { success: false, message: parsedTags.message },
+        { status: 400 }
+      );
+    }
+
+    const result =
+      action === "add"
+        ? await S3DirectService.addTags(String(user._id), keys, parsedTags.tags)
+        : await S3DirectService.removeTags(
+            String(user._id),
+            keys,
+            parsedTags.tags
+          );
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: {
+          results: result.results,
+          succeeded: result.succeeded,
+          failed: result.failed,
+        },
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    logger.error("S3 tags API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
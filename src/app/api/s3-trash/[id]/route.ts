@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthenticatedUser } from "@/auth/middleware/authMiddleware";
+import { S3DirectService } from "@/services/s3DirectService";
+import { logger } from "@/utils/logger";
+
+/**
+ * POST /api/s3-trash/[id]
+ * Restore a trashed item to its original location
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const result = await S3DirectService.restoreTrashItem(String(user._id), id);
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: { restoredPath: result.restoredPath },
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        { status: result.error === "NOT_FOUND" ? 404 : 400 }
+      );
+    }
+  } catch (error) {
+    logger.error("S3 trash restore API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/s3-trash/[id]
+ * Permanently delete a single trashed item
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const result = await S3DirectService.deleteTrashItem(String(user._id), id);
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        message: result.message,
+        deletedCount: result.deletedCount,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        { status: result.error === "NOT_FOUND" ? 404 : 400 }
+      );
+    }
+  } catch (error) {
+    logger.error("S3 trash delete API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
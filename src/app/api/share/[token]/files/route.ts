@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { S3DirectService } from "@/services/s3DirectService";
+import connectDB from "@/utils/database";
+import { logger } from "@/utils/logger";
+import { getShareErrorStatus } from "@/utils/shareErrors";
+
+/**
+ * POST /api/share/[token]/files
+ * List the files inside a shared folder
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    await connectDB();
+
+    const { token } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { password } = body;
+
+    if (password !== undefined && typeof password !== "string") {
+      return NextResponse.json(
+        { success: false, message: "Password must be a string" },
+        { status: 400 }
+      );
+    }
+
+    const result = await S3DirectService.listSharedFiles(token, password);
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: { files: result.files, truncated: result.truncated },
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message, error: result.error },
+        { status: getShareErrorStatus(result.error) }
+      );
+    }
+  } catch (error) {
+    logger.error("Public shared files API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { S3DirectService } from "@/services/s3DirectService";
+import connectDB from "@/utils/database";
+import { logger } from "@/utils/logger";
+import { getShareErrorStatus } from "@/utils/shareErrors";
+
+/**
+ * GET /api/share/[token]
+ * Public details of a share link
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    await connectDB();
+
+    const { token } = await params;
+    const result = await S3DirectService.getPublicShare(token);
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: result.share,
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message, error: result.error },
+        { status: getShareErrorStatus(result.error) }
+      );
+    }
+  } catch (error) {
+    logger.error("Public share API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/share/[token]
+ * Get a short-lived download URL for a shared file
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    await connectDB();
+
+    const { token } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { password, path } = body;
+
+    if (password !== undefined && typeof password !== "string") {
+      return NextResponse.json(
+        { success: false, message: "Password must be a string" },
+        { status: 400 }
+      );
+    }
+
+    if (path !== undefined && typeof path !== "string") {
+      return NextResponse.json(
+        { success: false, message: "Path must be a string" },
+        { status: 400 }
+      );
+    }
+
+    const result = await S3DirectService.getSharedDownloadUrl(
+      token,
+      { password, path },
+      {
+        ipAddress:
+          request.headers.get("x-forwarded-for") ||
+          request.headers.get("x-real-ip") ||
+          undefined,
+        userAgent: request.headers.get("user-agent") || undefined,
+      }
+    );
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        url: result.url,
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message, error: result.error },
+        { status: getShareErrorStatus(result.error) }
+      );
+    }
+  } catch (error) {
+    logger.error("Public share download API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import connectDB from "@/utils/database";
+import { S3DirectService, S3EventPayload } from "@/services/s3DirectService";
+import { S3_EVENT_SIGNATURE_HEADER } from "@/services/s3EventOperations";
+import { logger } from "@/utils/logger";
+
+/**
+ * POST /api/webhooks/s3-events
+ * Receive S3 event notifications (e.g. from MinIO) and update file metadata
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!process.env.S3_EVENTS_WEBHOOK_SECRET) {
+      return NextResponse.json(
+        { success: false, message: "S3 event webhook is not configured" },
+        { status: 503 }
+      );
+    }
+
+    const rawBody = await request.text();
+
+    if (
+      !S3DirectService.verifyS3EventRequest(
+        rawBody,
+        request.headers.get(S3_EVENT_SIGNATURE_HEADER),
+        request.headers.get("authorization")
+      )
+    ) {
+      return NextResponse.json(
+        { success: false, message: "Invalid signature" },
+        { status: 401 }
+      );
+    }
+
+    let payload: S3EventPayload;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return NextResponse.json(
+        { success: false, message: "Invalid event payload" },
+        { status: 400 }
+      );
+    }
+
+    if (!payload || !Array.isArray(payload.Records)) {
+      return NextResponse.json(
+        { success: false, message: "Event payload must contain Records" },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+    const result = await S3DirectService.ingestS3Events(payload);
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        data: { processed: result.processed, skipped: result.skipped },
+        message: result.message,
+      });
+    } else {
+      return NextResponse.json(
+        { success: false, message: result.message || result.error },
+        { status: 500 }
+      );
+    }
+  } catch (error) {
+    logger.error("S3 events webhook API error:", error);
+    return NextResponse.json(
+      { success: false, message: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,17 @@
 "use client";
 
-import React, { useState, useCallback } from "react";
+import React, {
+  useState,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+} from "react";
 import { motion } from "framer-motion";
 import {
   FolderIcon,
   PlusIcon,
   ArrowUpTrayIcon,
-  MagnifyingGlassIcon,
   ViewColumnsIcon,
   Bars3Icon,
   PencilIcon,
@@ -15,18 +20,77 @@ import {
   ArrowDownTrayIcon,
   EllipsisVerticalIcon,
   ArrowPathIcon,
+  DocumentDuplicateIcon,
+  FolderArrowDownIcon,
+  TagIcon,
+  XMarkIcon,
+  ClockIcon,
+  LinkIcon,
+  PlayIcon,
+  AdjustmentsHorizontalIcon,
+  StarIcon,
+  InformationCircleIcon,
+  Squares2X2Icon,
+  BarsArrowUpIcon,
+  BarsArrowDownIcon,
+  ArchiveBoxIcon,
 } from "@heroicons/react/24/outline";
+import { StarIcon as StarSolidIcon } from "@heroicons/react/24/solid";
 import Button from "@/components/ui/Button";
 import { FileItemSkeleton } from "@/components/ui/SkeletonLoader";
 import ContextMenu, { ContextMenuItem } from "@/components/ui/ContextMenu";
 import RenameModal from "@/components/ui/RenameModal";
 import DeleteModal from "@/components/ui/DeleteModal";
-import { useS3Files } from "@/hooks/useS3Files";
-import { useS3Search } from "@/hooks/useS3Search";
+import {
+  useS3Files,
+  S3ListSort,
+  S3BatchAction,
+  S3BatchItemResult,
+} from "@/hooks/useS3Files";
+import { useS3Search, S3SearchFilters } from "@/hooks/useS3Search";
 import S3FileUpload from "@/components/dashboard/S3FileUpload";
 import S3CreateFolder from "@/components/dashboard/S3CreateFolder";
+import S3BatchActionModal from "@/components/dashboard/S3BatchActionModal";
+import S3VersionHistory from "@/components/dashboard/S3VersionHistory";
+import S3ShareModal from "@/components/dashboard/S3ShareModal";
+import FileThumbnail from "@/components/dashboard/FileThumbnail";
+import FilePreviewModal from "@/components/dashboard/FilePreviewModal";
+import S3SearchFilterPanel from "@/components/dashboard/S3SearchFilterPanel";
+import S3SearchBox from "@/components/dashboard/S3SearchBox";
+import S3TagSidebar from "@/components/dashboard/S3TagSidebar";
+import S3TagEditor from "@/components/dashboard/S3TagEditor";
+import S3FolderDetailsPanel from "@/components/dashboard/S3FolderDetailsPanel";
+import S3FolderTreemap from "@/components/dashboard/S3FolderTreemap";
+import S3StorageClassModal from "@/components/dashboard/S3StorageClassModal";
+import S3RestoreModal from "@/components/dashboard/S3RestoreModal";
+import { useS3Tags } from "@/hooks/useS3Tags";
+import { useS3Starred } from "@/hooks/useS3Starred";
+import { useS3FolderStats } from "@/hooks/useS3FolderStats";
+import {
+  S3StorageClass,
+  ARCHIVE_STORAGE_CLASSES,
+  getStorageClassLabel,
+} from "@/hooks/useS3StorageClass";
 import { logger } from "@/utils/logger";
 
+const DRAG_DATA_TYPE = "application/x-drivn-item";
+
+const SORT_OPTIONS: { value: S3ListSort; label: string }[] = [
+  { value: "name", label: "Name" },
+  { value: "size", label: "Size" },
+  { value: "date", label: "Date modified" },
+  { value: "type", label: "Type" },
+];
+
+// How far below the viewport the next page starts loading
+const INFINITE_SCROLL_MARGIN = "600px";
+
+interface DraggedItem {
+  type: "file" | "folder";
+  key: string;
+  path: string;
+}
+
 interface Breadcrumb {
   name: string;
   path: string;
@@ -40,6 +104,7 @@ interface FileItem {
   lastModified: Date;
   mimeType?: string;
   isFolder: boolean;
+  storageClass?: string;
 }
 
 interface FolderItem {
@@ -47,11 +112,15 @@ interface FolderItem {
   name: string;
   path: string;
   isFolder: boolean;
+  size?: number;
+  fileCount?: number;
 }
 
 export default function S3FilesPage() {
   const [searchQuery, setSearchQuery] = useState("");
-  const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
+  const [searchFilters, setSearchFilters] = useState<S3SearchFilters>({});
+  const [showFilters, setShowFilters] = useState(false);
+  const [viewMode, setViewMode] = useState<"grid" | "list" | "map">("grid");
   const [showUploadModal, setShowUploadModal] = useState(false);
   const [showCreateFolderModal, setShowCreateFolderModal] = useState(false);
   const [showRenameModal, setShowRenameModal] = useState(false);
@@ -66,6 +135,29 @@ export default function S3FilesPage() {
     type: "file" | "folder";
   } | null>(null);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null);
+  const [batchModalAction, setBatchModalAction] = useState<
+    "move" | "copy" | "tag" | null
+  >(null);
+  const [showBatchDeleteModal, setShowBatchDeleteModal] = useState(false);
+  const [batchRunning, setBatchRunning] = useState(false);
+  const [versionFile, setVersionFile] = useState<FileItem | null>(null);
+  const [previewFile, setPreviewFile] = useState<FileItem | null>(null);
+  const [tagFile, setTagFile] = useState<FileItem | null>(null);
+  const [detailsFolder, setDetailsFolder] = useState<FolderItem | null>(null);
+  const [storageClassTarget, setStorageClassTarget] = useState<{
+    keys: string[];
+    currentClass?: string;
+    fromSelection?: boolean;
+  } | null>(null);
+  const [restoreFile, setRestoreFile] = useState<FileItem | null>(null);
+  const [shareItem, setShareItem] = useState<{
+    key: string;
+    name: string;
+    type: "file" | "folder";
+  } | null>(null);
 
   const {
     files,
@@ -74,12 +166,19 @@ export default function S3FilesPage() {
     loading,
     error,
     hasMore,
+    sort,
+    order,
+    changeSort,
     navigateToPath,
     refresh,
     deleteFile,
     renameFile,
     deleteFolder,
     renameFolder,
+    moveFile,
+    moveFolder,
+    runBatch,
+    downloadZip,
     getDownloadUrl,
     loadMore,
   } = useS3Files("", { autoLoad: true, maxKeys: 50 });
@@ -87,10 +186,39 @@ export default function S3FilesPage() {
   const {
     results: searchResults,
     loading: searchLoading,
+    error: searchError,
+    hasMore: searchHasMore,
+    totalMatches,
     search,
+    loadMore: loadMoreResults,
     clearResults,
   } = useS3Search({ debounceMs: 300, maxKeys: 50 });
 
+  const { tags: tagCloud, loading: tagsLoading, loadTags } = useS3Tags();
+  const { starredKeys, setStarred } = useS3Starred();
+  const {
+    stats: folderStats,
+    loading: folderStatsLoading,
+    error: folderStatsError,
+    loadStats: loadFolderStats,
+  } = useS3FolderStats();
+
+  // Starred and Recent link here with ?path= to open a file's folder
+  const initialPathApplied = useRef(false);
+  useEffect(() => {
+    if (initialPathApplied.current) return;
+    initialPathApplied.current = true;
+    const path = new URLSearchParams(window.location.search).get("path");
+    if (path) {
+      navigateToPath(path);
+    }
+  }, [navigateToPath]);
+
+  const filtersActive = Object.entries(searchFilters).some(
+    ([key, value]) => key !== "sort" && value !== undefined
+  );
+  const isSearching = !!searchQuery.trim() || filtersActive;
+
   const breadcrumbs: Breadcrumb[] = [
     { name: "My Files", path: "" },
     ...currentPath
@@ -102,11 +230,13 @@ export default function S3FilesPage() {
       })),
   ];
 
-  const handleSearch = useCallback(
-    (query: string) => {
-      setSearchQuery(query);
-      if (query.trim()) {
-        search(query.trim());
+  const runSearch = useCallback(
+    (query: string, filters: S3SearchFilters) => {
+      const hasFilters = Object.entries(filters).some(
+        ([key, value]) => key !== "sort" && value !== undefined
+      );
+      if (query.trim() || hasFilters) {
+        search(query.trim(), filters);
       } else {
         clearResults();
       }
@@ -114,6 +244,36 @@ export default function S3FilesPage() {
     [search, clearResults]
   );
 
+  const handleSearch = useCallback(
+    (query: string) => {
+      setSearchQuery(query);
+      runSearch(query, searchFilters);
+    },
+    [runSearch, searchFilters]
+  );
+
+  const handleFiltersChange = useCallback(
+    (filters: S3SearchFilters) => {
+      setSearchFilters(filters);
+      runSearch(searchQuery, filters);
+    },
+    [runSearch, searchQuery]
+  );
+
+  const handleToggleTag = useCallback(
+    (tag: string) => {
+      const selected = searchFilters.tags || [];
+      const tags = selected.some((t) => t.toLowerCase() === tag.toLowerCase())
+        ? selected.filter((t) => t.toLowerCase() !== tag.toLowerCase())
+        : [...selected, tag];
+      handleFiltersChange({
+        ...searchFilters,
+        tags: tags.length > 0 ? tags : undefined,
+      });
+    },
+    [searchFilters, handleFiltersChange]
+  );
+
   const handleUploadComplete = useCallback(() => {
     logger.info("📤✅ Upload completed, refreshing UI...");
     refresh();
@@ -179,6 +339,59 @@ export default function S3FilesPage() {
     [renameItem, renameFile, renameFolder]
   );
 
+  const handleItemDragStart = useCallback(
+    (e: React.DragEvent, item: DraggedItem) => {
+      e.dataTransfer.setData(DRAG_DATA_TYPE, JSON.stringify(item));
+      e.dataTransfer.effectAllowed = "move";
+    },
+    []
+  );
+
+  const handleDropTargetDragOver = useCallback(
+    (e: React.DragEvent, targetPath: string) => {
+      if (!e.dataTransfer.types.includes(DRAG_DATA_TYPE)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = "move";
+      setDropTarget(targetPath);
+    },
+    []
+  );
+
+  const handleDropOnPath = useCallback(
+    async (e: React.DragEvent, destinationPath: string) => {
+      const raw = e.dataTransfer.getData(DRAG_DATA_TYPE);
+      setDropTarget(null);
+      if (!raw) return;
+      e.preventDefault();
+
+      const item = JSON.parse(raw) as DraggedItem;
+      const normalizedDestination = `/${destinationPath}`.replace(/\/+/g, "/");
+
+      if (
+        item.type === "folder" &&
+        (normalizedDestination === item.path ||
+          normalizedDestination.startsWith(`${item.path}/`))
+      ) {
+        return;
+      }
+
+      logger.info("📦 Moving item via drag-and-drop:", {
+        item,
+        destinationPath,
+      });
+
+      const result =
+        item.type === "file"
+          ? await moveFile(item.key, destinationPath)
+          : await moveFolder(item.path, destinationPath);
+
+      if (!result.success) {
+        alert(`Move failed: ${result.message}`);
+      }
+    },
+    [moveFile, moveFolder]
+  );
+
   const handleDeleteFile = useCallback((file: FileItem) => {
     setDeleteItem({ key: file.key, name: file.name, type: "file" });
     setShowDeleteModal(true);
@@ -194,19 +407,92 @@ export default function S3FilesPage() {
       const result = await getDownloadUrl(file.key);
       if (result.success && result.url) {
         window.open(result.url, "_blank");
+      } else if (result.error === "OBJECT_ARCHIVED") {
+        setRestoreFile(file);
+      } else {
+        alert(result.message || "Failed to download file");
       }
     },
     [getDownloadUrl]
   );
 
+  const handleToggleStar = useCallback(
+    async (file: FileItem) => {
+      const result = await setStarred(file.key, !starredKeys.has(file.key));
+      if (!result.success) {
+        alert(result.message || "Failed to update star");
+      }
+    },
+    [setStarred, starredKeys]
+  );
+
   const getFileContextMenuItems = useCallback(
     (file: FileItem): ContextMenuItem[] => [
+      file.mimeType?.startsWith("video/") || file.mimeType?.startsWith("audio/")
+        ? {
+            id: `play-${file.key}`,
+            label: "Play",
+            icon: PlayIcon,
+            onClick: () => setPreviewFile(file),
+          }
+        : {
+            id: `preview-${file.key}`,
+            label: "Preview",
+            icon: EyeIcon,
+            onClick: () => setPreviewFile(file),
+          },
       {
         id: `download-${file.key}`,
         label: "Download",
         icon: ArrowDownTrayIcon,
         onClick: () => handleDownload(file),
       },
+      {
+        id: `share-${file.key}`,
+        label: "Share",
+        icon: LinkIcon,
+        onClick: () =>
+          setShareItem({ key: file.key, name: file.name, type: "file" }),
+      },
+      {
+        id: `star-${file.key}`,
+        label: starredKeys.has(file.key) ? "Unstar" : "Star",
+        icon: StarIcon,
+        onClick: () => handleToggleStar(file),
+      },
+      {
+        id: `tags-${file.key}`,
+        label: "Tags",
+        icon: TagIcon,
+        onClick: () => setTagFile(file),
+      },
+      ...(file.storageClass &&
+      ARCHIVE_STORAGE_CLASSES.includes(file.storageClass)
+        ? [
+            {
+              id: `restore-${file.key}`,
+              label: "Restore from archive",
+              icon: ArrowPathIcon,
+              onClick: () => setRestoreFile(file),
+            },
+          ]
+        : []),
+      {
+        id: `storage-class-${file.key}`,
+        label: "Storage class",
+        icon: ArchiveBoxIcon,
+        onClick: () =>
+          setStorageClassTarget({
+            keys: [file.key],
+            currentClass: file.storageClass || "STANDARD",
+          }),
+      },
+      {
+        id: `versions-${file.key}`,
+        label: "Version history",
+        icon: ClockIcon,
+        onClick: () => setVersionFile(file),
+      },
       {
         id: `rename-${file.key}`,
         label: "Rename",
@@ -221,7 +507,13 @@ export default function S3FilesPage() {
         variant: "danger",
       },
     ],
-    [handleDownload, handleRenameFile, handleDeleteFile]
+    [
+      handleDownload,
+      handleRenameFile,
+      handleDeleteFile,
+      handleToggleStar,
+      starredKeys,
+    ]
   );
 
   const getFolderContextMenuItems = useCallback(
@@ -232,6 +524,31 @@ export default function S3FilesPage() {
         icon: EyeIcon,
         onClick: () => navigateToPath(folder.path),
       },
+      {
+        id: `details-${folder.key}`,
+        label: "Details",
+        icon: InformationCircleIcon,
+        onClick: () => setDetailsFolder(folder),
+      },
+      {
+        id: `download-${folder.key}`,
+        label: "Download as ZIP",
+        icon: ArrowDownTrayIcon,
+        onClick: () => downloadZip({ folderPath: folder.path }),
+      },
+      {
+        id: `storage-class-${folder.key}`,
+        label: "Storage class",
+        icon: ArchiveBoxIcon,
+        onClick: () => setStorageClassTarget({ keys: [folder.key] }),
+      },
+      {
+        id: `share-${folder.key}`,
+        label: "Share",
+        icon: LinkIcon,
+        onClick: () =>
+          setShareItem({ key: folder.key, name: folder.name, type: "folder" }),
+      },
       {
         id: `rename-${folder.key}`,
         label: "Rename",
@@ -246,7 +563,7 @@ export default function S3FilesPage() {
         variant: "danger",
       },
     ],
-    [navigateToPath, handleRenameFolder, handleDeleteFolder]
+    [navigateToPath, downloadZip, handleRenameFolder, handleDeleteFolder]
   );
 
   const getFileIcon = (mimeType?: string) => {
@@ -267,9 +584,170 @@ export default function S3FilesPage() {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
   };
 
-  const displayItems = searchQuery.trim() ? searchResults : files;
-  const displayFolders = searchQuery.trim() ? [] : folders;
-  const isLoading = searchQuery.trim() ? searchLoading : loading;
+  const displayItems = isSearching ? searchResults : files;
+  const displayFolders = useMemo(
+    () => (isSearching ? [] : folders),
+    [isSearching, folders]
+  );
+  const isLoading = isSearching ? searchLoading : loading;
+  const showTreemap = viewMode === "map" && !isSearching;
+  const canLoadMore = !showTreemap && (isSearching ? searchHasMore : hasMore);
+
+  // Infinite scroll: load the next page when the end of the list comes near
+  const loadMoreSentinelRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = loadMoreSentinelRef.current;
+    if (!sentinel || !canLoadMore || isLoading) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) {
+          if (isSearching) {
+            loadMoreResults();
+          } else {
+            loadMore();
+          }
+        }
+      },
+      { rootMargin: INFINITE_SCROLL_MARGIN }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [canLoadMore, isLoading, isSearching, loadMore, loadMoreResults]);
+
+  // The storage map follows the listing, so it reloads after any change
+  useEffect(() => {
+    if (showTreemap) {
+      loadFolderStats(currentPath);
+    }
+  }, [showTreemap, currentPath, files, folders, loadFolderStats]);
+
+  const openFolderPath = useCallback(
+    (path: string) => navigateToPath(path.replace(/^\/+/, "")),
+    [navigateToPath]
+  );
+
+  const orderedKeys = useMemo(
+    () => [
+      ...displayFolders.map((folder) => folder.key),
+      ...displayItems.map((file) => file.key),
+    ],
+    [displayFolders, displayItems]
+  );
+
+  useEffect(() => {
+    setSelectedKeys(new Set());
+    setSelectionAnchor(null);
+  }, [currentPath, searchQuery, searchFilters]);
+
+  const handleToggleSelect = useCallback(
+    (key: string, shiftKey: boolean) => {
+      setSelectedKeys((prev) => {
+        const next = new Set(prev);
+        const anchorIndex = selectionAnchor
+          ? orderedKeys.indexOf(selectionAnchor)
+          : -1;
+        const keyIndex = orderedKeys.indexOf(key);
+
+        if (shiftKey && anchorIndex !== -1 && keyIndex !== -1) {
+          const [start, end] =
+            anchorIndex < keyIndex
+              ? [anchorIndex, keyIndex]
+              : [keyIndex, anchorIndex];
+          orderedKeys.slice(start, end + 1).forEach((k) => next.add(k));
+        } else if (next.has(key)) {
+          next.delete(key);
+        } else {
+          next.add(key);
+        }
+        return next;
+      });
+      setSelectionAnchor(key);
+    },
+    [orderedKeys, selectionAnchor]
+  );
+
+  const handleSelectAll = useCallback(() => {
+    setSelectedKeys(
+      selectedKeys.size === orderedKeys.length
+        ? new Set()
+        : new Set(orderedKeys)
+    );
+  }, [orderedKeys, selectedKeys]);
+
+  const clearSelection = useCallback(() => {
+    setSelectedKeys(new Set());
+    setSelectionAnchor(null);
+  }, []);
+
+  const handleBatchAction = useCallback(
+    async (
+      action: S3BatchAction,
+      options: {
+        destinationPath?: string;
+        tags?: string[];
+        storageClass?: S3StorageClass;
+      } = {},
+      // Items picked from a context menu instead of the selection
+      targetKeys?: string[]
+    ) => {
+      const keys = targetKeys || Array.from(selectedKeys);
+      if (keys.length === 0) return;
+
+      setBatchRunning(true);
+      try {
+        const result = await runBatch(action, keys, options);
+
+        if (!result.success) {
+          alert(`${action} failed: ${result.message}`);
+          return;
+        }
+
+        const results = result.results || [];
+        if (action === "download") {
+          results
+            .filter((item: S3BatchItemResult) => item.success && item.url)
+            .forEach((item: S3BatchItemResult) =>
+              window.open(item.url, "_blank")
+            );
+        }
+
+        const failures = results.filter(
+          (item: S3BatchItemResult) => !item.success
+        );
+        if (failures.length > 0) {
+          alert(
+            `${failures.length} of ${results.length} item(s) failed:\n` +
+              failures
+                .slice(0, 10)
+                .map(
+                  (item: S3BatchItemResult) =>
+                    `• ${item.key.split("/").filter(Boolean).pop()}: ${item.message}`
+                )
+                .join("\n")
+          );
+        }
+
+        if (!targetKeys) {
+          clearSelection();
+        }
+      } finally {
+        setBatchRunning(false);
+      }
+    },
+    [selectedKeys, runBatch, clearSelection]
+  );
+
+  const handleDownloadSelection = useCallback(() => {
+    const keys = Array.from(selectedKeys);
+    // A single file downloads directly; anything else comes as one ZIP
+    if (keys.length === 1 && !keys[0].endsWith("/")) {
+      handleBatchAction("download");
+    } else {
+      downloadZip({ keys });
+      clearSelection();
+    }
+  }, [selectedKeys, handleBatchAction, downloadZip, clearSelection]);
 
   // Debug logging for UI state
   logger.info("🖥️ UI State:", {
@@ -326,7 +804,7 @@ export default function S3FilesPage() {
       </div>
 
       {/* Breadcrumbs */}
-      {!searchQuery.trim() && (
+      {!isSearching && (
         <nav className="mt-8 flex" aria-label="Breadcrumb">
           <ol className="flex items-center space-x-2">
             {breadcrumbs.map((crumb, index) => (
@@ -334,7 +812,16 @@ export default function S3FilesPage() {
                 {index > 0 && <span className="mx-2 text-gray-400">/</span>}
                 <button
                   onClick={() => navigateToPath(crumb.path)}
-                  className="text-sm font-medium text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                  onDragOver={(e) =>
+                    handleDropTargetDragOver(e, `crumb:${crumb.path}`)
+                  }
+                  onDragLeave={() => setDropTarget(null)}
+                  onDrop={(e) => handleDropOnPath(e, crumb.path)}
+                  className={`text-sm font-medium text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 rounded px-1 ${
+                    dropTarget === `crumb:${crumb.path}`
+                      ? "ring-2 ring-primary-500 bg-primary-50 dark:bg-primary-900/20"
+                      : ""
+                  }`}
                 >
                   {crumb.name}
                 </button>
@@ -346,18 +833,55 @@ export default function S3FilesPage() {
 
       {/* Search and View Controls */}
       <div className="mt-8 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
-        <div className="relative flex-1 max-w-md">
-          <MagnifyingGlassIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
-          <input
-            type="text"
-            placeholder="Search files..."
-            value={searchQuery}
-            onChange={(e) => handleSearch(e.target.value)}
-            className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-500 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-          />
-        </div>
+        <S3SearchBox
+          value={searchQuery}
+          onChange={handleSearch}
+          error={searchError}
+        />
+
+        <Button
+          variant={showFilters || filtersActive ? "primary" : "ghost"}
+          size="sm"
+          onClick={() => setShowFilters((open) => !open)}
+          leftIcon={<AdjustmentsHorizontalIcon className="h-4 w-4" />}
+        >
+          Filters
+        </Button>
 
         <div className="flex items-center gap-2">
+          {!isSearching && (
+            <>
+              <select
+                value={sort}
+                onChange={(e) =>
+                  changeSort(e.target.value as S3ListSort, order)
+                }
+                aria-label="Sort by"
+                className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              >
+                {SORT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  changeSort(sort, order === "asc" ? "desc" : "asc")
+                }
+                title={order === "asc" ? "Ascending" : "Descending"}
+                aria-label="Toggle sort direction"
+              >
+                {order === "asc" ? (
+                  <BarsArrowUpIcon className="h-4 w-4" />
+                ) : (
+                  <BarsArrowDownIcon className="h-4 w-4" />
+                )}
+              </Button>
+            </>
+          )}
           <Button
             variant={viewMode === "grid" ? "primary" : "ghost"}
             size="sm"
@@ -374,188 +898,462 @@ export default function S3FilesPage() {
           >
             List
           </Button>
+          <Button
+            variant={viewMode === "map" ? "primary" : "ghost"}
+            size="sm"
+            onClick={() => setViewMode("map")}
+            leftIcon={<Squares2X2Icon className="h-4 w-4" />}
+          >
+            Map
+          </Button>
         </div>
       </div>
 
-      {/* Error Display */}
-      {error && (
-        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
-          <p className="text-red-800 dark:text-red-200">{error}</p>
-        </div>
+      {showFilters && (
+        <S3SearchFilterPanel
+          filters={searchFilters}
+          onChange={handleFiltersChange}
+          currentPath={currentPath}
+        />
       )}
 
-      {/* Loading State */}
-      {isLoading &&
-        displayItems.length === 0 &&
-        displayFolders.length === 0 && (
-          <div
-            className={
-              viewMode === "grid"
-                ? "mt-8 grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-4"
-                : "space-y-2"
-            }
-          >
-            {Array.from({ length: 12 }).map((_, i) => (
-              <FileItemSkeleton key={i} viewMode={viewMode} />
-            ))}
-          </div>
-        )}
-
-      {/* Empty State */}
-      {!isLoading &&
-        displayItems.length === 0 &&
-        displayFolders.length === 0 &&
-        !error && (
-          <div className="mt-8 text-center py-12">
-            <FolderIcon className="mx-auto h-12 w-12 text-gray-400 mb-4" />
-            <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
-              {searchQuery.trim() ? "No files found" : "No files yet"}
-            </h3>
-            <p className="text-gray-500 dark:text-gray-400 mb-6">
-              {searchQuery.trim()
-                ? `No files match "${searchQuery}"`
-                : "Upload your first file to get started"}
-            </p>
-            {!searchQuery.trim() && (
-              <Button
-                variant="primary"
-                onClick={() => setShowUploadModal(true)}
-                leftIcon={<ArrowUpTrayIcon className="h-4 w-4" />}
-              >
-                Upload Files
-              </Button>
-            )}
-          </div>
-        )}
-
-      {/* Files and Folders Grid/List */}
-      {(displayItems.length > 0 || displayFolders.length > 0) && (
-        <div
-          className={
-            viewMode === "grid"
-              ? "mt-8 grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-4"
-              : "mt-8 space-y-2"
+      {isSearching && !searchLoading && (
+        <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">
+          {totalMatches} {totalMatches === 1 ? "file" : "files"} found
+        </p>
+      )}
+
+      <div className="lg:flex lg:gap-6">
+        <S3TagSidebar
+          tags={tagCloud}
+          selected={searchFilters.tags || []}
+          onToggle={handleToggleTag}
+          onClear={() =>
+            handleFiltersChange({ ...searchFilters, tags: undefined })
           }
-        >
-          {/* Folders */}
-          {displayFolders.map((folder) => (
-            <ContextMenu
-              key={folder.key}
-              items={getFolderContextMenuItems(folder)}
-              itemType="folder"
-            >
-              <motion.div
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                className={`group cursor-pointer ${
+          loading={tagsLoading}
+        />
+
+        <div className="flex-1 min-w-0">
+          {/* Error Display */}
+          {error && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+              <p className="text-red-800 dark:text-red-200">{error}</p>
+            </div>
+          )}
+
+          {/* Loading State */}
+          {isLoading &&
+            displayItems.length === 0 &&
+            displayFolders.length === 0 && (
+              <div
+                className={
                   viewMode === "grid"
-                    ? "p-4 rounded-lg border border-gray-200 dark:border-gray-700 hover:border-primary-300 dark:hover:border-primary-600 transition-colors"
-                    : "flex items-center p-3 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
-                }`}
-                onClick={() => navigateToPath(folder.path)}
+                    ? "mt-8 grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-4"
+                    : "space-y-2"
+                }
               >
-                <div
-                  className={
-                    viewMode === "grid"
-                      ? "text-center relative"
-                      : "flex items-center flex-1"
-                  }
-                >
-                  <FolderIcon
-                    className={`${
-                      viewMode === "grid"
-                        ? "mx-auto mb-2 h-8 w-8"
-                        : "mr-3 h-6 w-6"
-                    } text-primary-500`}
+                {Array.from({ length: 12 }).map((_, i) => (
+                  <FileItemSkeleton
+                    key={i}
+                    viewMode={viewMode === "list" ? "list" : "grid"}
                   />
-                  <div className={viewMode === "list" ? "flex-1" : ""}>
-                    <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
-                      {folder.name}
-                    </p>
-                    <p className="text-xs text-gray-500 dark:text-gray-400">
-                      Folder
+                ))}
+              </div>
+            )}
+
+          {/* Empty State */}
+          {!isLoading &&
+            displayItems.length === 0 &&
+            displayFolders.length === 0 &&
+            !error && (
+              <div className="mt-8 text-center py-12">
+                <FolderIcon className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+                  {isSearching ? "No files found" : "No files yet"}
+                </h3>
+                <p className="text-gray-500 dark:text-gray-400 mb-6">
+                  {isSearching
+                    ? searchQuery.trim()
+                      ? `No files match "${searchQuery}"`
+                      : "No files match these filters"
+                    : "Upload your first file to get started"}
+                </p>
+                {!isSearching && (
+                  <Button
+                    variant="primary"
+                    onClick={() => setShowUploadModal(true)}
+                    leftIcon={<ArrowUpTrayIcon className="h-4 w-4" />}
+                  >
+                    Upload Files
+                  </Button>
+                )}
+              </div>
+            )}
+
+          {/* Storage Map */}
+          {showTreemap &&
+            (displayItems.length > 0 || displayFolders.length > 0) && (
+              <div className="mt-8">
+                {folderStatsError ? (
+                  <p className="text-sm text-red-600 dark:text-red-400">
+                    {folderStatsError}
+                  </p>
+                ) : folderStats ? (
+                  <>
+                    <p className="mb-3 text-sm text-gray-500 dark:text-gray-400">
+                      {formatFileSize(folderStats.totalSize)} in{" "}
+                      {folderStats.fileCount}{" "}
+                      {folderStats.fileCount === 1 ? "file" : "files"}
+                      {folderStatsLoading && " · updating..."}
                     </p>
-                  </div>
-                  <button
-                    onClick={(e) => e.stopPropagation()}
-                    className={`${
-                      viewMode === "grid" ? "absolute top-2 right-2" : "ml-2"
-                    } p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-all opacity-80 hover:opacity-100`}
+                    <S3FolderTreemap
+                      stats={folderStats}
+                      onOpenFolder={openFolderPath}
+                    />
+                  </>
+                ) : (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Calculating folder sizes...
+                  </p>
+                )}
+              </div>
+            )}
+
+          {/* Selection Toolbar */}
+          {!showTreemap && orderedKeys.length > 0 && (
+            <div className="mt-6 flex flex-wrap items-center gap-2">
+              <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={
+                    selectedKeys.size > 0 &&
+                    selectedKeys.size === orderedKeys.length
+                  }
+                  onChange={handleSelectAll}
+                  className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                {selectedKeys.size > 0
+                  ? `${selectedKeys.size} selected`
+                  : "Select all"}
+              </label>
+
+              {selectedKeys.size > 0 && (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleDownloadSelection}
+                    leftIcon={<ArrowDownTrayIcon className="h-4 w-4" />}
+                    disabled={batchRunning}
+                  >
+                    Download
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setBatchModalAction("copy")}
+                    leftIcon={<DocumentDuplicateIcon className="h-4 w-4" />}
+                    disabled={batchRunning}
+                  >
+                    Copy
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setBatchModalAction("move")}
+                    leftIcon={<FolderArrowDownIcon className="h-4 w-4" />}
+                    disabled={batchRunning}
+                  >
+                    Move
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setBatchModalAction("tag")}
+                    leftIcon={<TagIcon className="h-4 w-4" />}
+                    disabled={batchRunning}
+                  >
+                    Tag
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      setStorageClassTarget({
+                        keys: Array.from(selectedKeys),
+                        fromSelection: true,
+                      })
+                    }
+                    leftIcon={<ArchiveBoxIcon className="h-4 w-4" />}
+                    disabled={batchRunning}
                   >
-                    <EllipsisVerticalIcon className="h-4 w-4 text-gray-500 dark:text-gray-400" />
-                  </button>
-                </div>
-              </motion.div>
-            </ContextMenu>
-          ))}
-
-          {/* Files */}
-          {displayItems.map((file) => (
-            <ContextMenu
-              key={file.key}
-              items={getFileContextMenuItems(file)}
-              enableLeftClick={true}
-              itemType="file"
-            >
-              <motion.div
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                className={`group ${
+                    Storage Class
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setShowBatchDeleteModal(true)}
+                    leftIcon={<TrashIcon className="h-4 w-4" />}
+                    disabled={batchRunning}
+                    className="text-red-600 dark:text-red-400"
+                  >
+                    Delete
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={clearSelection}
+                    leftIcon={<XMarkIcon className="h-4 w-4" />}
+                    disabled={batchRunning}
+                  >
+                    Clear
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Files and Folders Grid/List */}
+          {!showTreemap &&
+            (displayItems.length > 0 || displayFolders.length > 0) && (
+              <div
+                className={
                   viewMode === "grid"
-                    ? "p-4 rounded-lg border border-gray-200 dark:border-gray-700 hover:border-primary-300 dark:hover:border-primary-600 transition-colors"
-                    : "flex items-center p-3 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
-                }`}
+                    ? "mt-8 grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-4"
+                    : "mt-8 space-y-2"
+                }
               >
-                <div
-                  className={
-                    viewMode === "grid"
-                      ? "text-center relative"
-                      : "flex items-center flex-1"
-                  }
-                >
+                {/* Folders */}
+                {displayFolders.map((folder) => (
                   <div
-                    className={`${
-                      viewMode === "grid" ? "mx-auto mb-2" : "mr-3"
-                    } text-2xl`}
+                    key={folder.key}
+                    draggable
+                    onDragStart={(e) =>
+                      handleItemDragStart(e, {
+                        type: "folder",
+                        key: folder.key,
+                        path: folder.path,
+                      })
+                    }
+                    onDragOver={(e) => handleDropTargetDragOver(e, folder.path)}
+                    onDragLeave={() => setDropTarget(null)}
+                    onDrop={(e) => handleDropOnPath(e, folder.path)}
                   >
-                    {getFileIcon(file.mimeType)}
-                  </div>
-                  <div className={viewMode === "list" ? "flex-1" : ""}>
-                    <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
-                      {file.name}
-                    </p>
-                    <p className="text-xs text-gray-500 dark:text-gray-400">
-                      {formatFileSize(file.size)}
-                    </p>
-                    {searchQuery.trim() && file.path && (
-                      <p className="text-xs text-gray-400 dark:text-gray-500 truncate">
-                        {file.path}
-                      </p>
-                    )}
+                    <ContextMenu
+                      items={getFolderContextMenuItems(folder)}
+                      itemType="folder"
+                    >
+                      <motion.div
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        className={`group cursor-pointer ${
+                          dropTarget === folder.path ||
+                          selectedKeys.has(folder.key)
+                            ? "ring-2 ring-primary-500 bg-primary-50 dark:bg-primary-900/20 "
+                            : ""
+                        }${
+                          viewMode === "grid"
+                            ? "p-4 rounded-lg border border-gray-200 dark:border-gray-700 hover:border-primary-300 dark:hover:border-primary-600 transition-colors"
+                            : "flex items-center p-3 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+                        }`}
+                        onClick={() => navigateToPath(folder.path)}
+                      >
+                        <div
+                          className={
+                            viewMode === "grid"
+                              ? "text-center relative"
+                              : "flex items-center flex-1"
+                          }
+                        >
+                          <input
+                            type="checkbox"
+                            checked={selectedKeys.has(folder.key)}
+                            readOnly
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleToggleSelect(folder.key, e.shiftKey);
+                            }}
+                            className={`${
+                              viewMode === "grid"
+                                ? "absolute top-2 left-2"
+                                : "mr-3"
+                            } h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500`}
+                          />
+                          <FolderIcon
+                            className={`${
+                              viewMode === "grid"
+                                ? "mx-auto mb-2 h-8 w-8"
+                                : "mr-3 h-6 w-6"
+                            } text-primary-500`}
+                          />
+                          <div className={viewMode === "list" ? "flex-1" : ""}>
+                            <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                              {folder.name}
+                            </p>
+                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                              {folder.fileCount !== undefined
+                                ? `${formatFileSize(folder.size || 0)} · ${
+                                    folder.fileCount
+                                  } ${folder.fileCount === 1 ? "file" : "files"}`
+                                : "Folder"}
+                            </p>
+                          </div>
+                          <button
+                            onClick={(e) => e.stopPropagation()}
+                            className={`${
+                              viewMode === "grid"
+                                ? "absolute top-2 right-2"
+                                : "ml-2"
+                            } p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-all opacity-80 hover:opacity-100`}
+                          >
+                            <EllipsisVerticalIcon className="h-4 w-4 text-gray-500 dark:text-gray-400" />
+                          </button>
+                        </div>
+                      </motion.div>
+                    </ContextMenu>
                   </div>
-                  <button
-                    onClick={(e) => e.stopPropagation()}
-                    className={`${
-                      viewMode === "grid" ? "absolute top-2 right-2" : "ml-2"
-                    } p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-all opacity-80 hover:opacity-100`}
+                ))}
+
+                {/* Files */}
+                {displayItems.map((file) => (
+                  <div
+                    key={file.key}
+                    draggable
+                    onDragStart={(e) =>
+                      handleItemDragStart(e, {
+                        type: "file",
+                        key: file.key,
+                        path: file.path,
+                      })
+                    }
                   >
-                    <EllipsisVerticalIcon className="h-4 w-4 text-gray-500 dark:text-gray-400" />
-                  </button>
-                </div>
-              </motion.div>
-            </ContextMenu>
-          ))}
-        </div>
-      )}
+                    <ContextMenu
+                      items={getFileContextMenuItems(file)}
+                      enableLeftClick={true}
+                      itemType="file"
+                    >
+                      <motion.div
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        className={`group ${
+                          selectedKeys.has(file.key)
+                            ? "ring-2 ring-primary-500 bg-primary-50 dark:bg-primary-900/20 "
+                            : ""
+                        }${
+                          viewMode === "grid"
+                            ? "p-4 rounded-lg border border-gray-200 dark:border-gray-700 hover:border-primary-300 dark:hover:border-primary-600 transition-colors"
+                            : "flex items-center p-3 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+                        }`}
+                      >
+                        <div
+                          className={
+                            viewMode === "grid"
+                              ? "text-center relative"
+                              : "flex items-center flex-1"
+                          }
+                        >
+                          <input
+                            type="checkbox"
+                            checked={selectedKeys.has(file.key)}
+                            readOnly
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleToggleSelect(file.key, e.shiftKey);
+                            }}
+                            className={`${
+                              viewMode === "grid"
+                                ? "absolute top-2 left-2"
+                                : "mr-3"
+                            } h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500`}
+                          />
+                          {file.mimeType?.startsWith("image/") ? (
+                            <div
+                              className={`${
+                                viewMode === "grid"
+                                  ? "mx-auto mb-2 h-24 w-full"
+                                  : "mr-3 h-8 w-8"
+                              } flex items-center justify-center overflow-hidden rounded text-2xl`}
+                            >
+                              <FileThumbnail
+                                fileKey={file.key}
+                                name={file.name}
+                                lastModified={file.lastModified}
+                                size={viewMode === "grid" ? "medium" : "small"}
+                                pixels={viewMode === "grid" ? 384 : 128}
+                                className="h-full w-full object-cover"
+                                fallback={getFileIcon(file.mimeType)}
+                              />
+                            </div>
+                          ) : (
+                            <div
+                              className={`${
+                                viewMode === "grid" ? "mx-auto mb-2" : "mr-3"
+                              } text-2xl`}
+                            >
+                              {getFileIcon(file.mimeType)}
+                            </div>
+                          )}
+                          <div className={viewMode === "list" ? "flex-1" : ""}>
+                            <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                              {starredKeys.has(file.key) && (
+                                <StarSolidIcon className="inline h-3.5 w-3.5 mr-1 -mt-0.5 text-yellow-500" />
+                              )}
+                              {file.name}
+                            </p>
+                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                              {formatFileSize(file.size)}
+                              {file.storageClass && (
+                                <span
+                                  className={`ml-2 px-1.5 py-0.5 rounded ${
+                                    ARCHIVE_STORAGE_CLASSES.includes(
+                                      file.storageClass
+                                    )
+                                      ? "bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300"
+                                      : "bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300"
+                                  }`}
+                                >
+                                  {getStorageClassLabel(file.storageClass)}
+                                </span>
+                              )}
+                            </p>
+                            {isSearching && file.path && (
+                              <p className="text-xs text-gray-400 dark:text-gray-500 truncate">
+                                {file.path}
+                              </p>
+                            )}
+                          </div>
+                          <button
+                            onClick={(e) => e.stopPropagation()}
+                            className={`${
+                              viewMode === "grid"
+                                ? "absolute top-2 right-2"
+                                : "ml-2"
+                            } p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700 transition-all opacity-80 hover:opacity-100`}
+                          >
+                            <EllipsisVerticalIcon className="h-4 w-4 text-gray-500 dark:text-gray-400" />
+                          </button>
+                        </div>
+                      </motion.div>
+                    </ContextMenu>
+                  </div>
+                ))}
+              </div>
+            )}
 
-      {/* Load More Button */}
-      {hasMore && !isLoading && (
-        <div className="text-center">
-          <Button variant="outline" onClick={loadMore} disabled={isLoading}>
-            Load More
-          </Button>
+          {/* Infinite Scroll */}
+          {canLoadMore && (
+            <div ref={loadMoreSentinelRef} className="py-6 text-center">
+              {isLoading &&
+                (displayItems.length > 0 || displayFolders.length > 0) && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Loading more...
+                  </p>
+                )}
+            </div>
+          )}
         </div>
-      )}
+      </div>
 
       {/* Modals */}
       <S3FileUpload
@@ -583,6 +1381,98 @@ export default function S3FilesPage() {
         title={`Rename ${renameItem?.type || "item"}`}
         type={renameItem?.type || "file"}
       />
+      <S3ShareModal
+        isOpen={shareItem !== null}
+        onClose={() => setShareItem(null)}
+        item={shareItem}
+      />
+      <FilePreviewModal
+        isOpen={previewFile !== null}
+        onClose={() => setPreviewFile(null)}
+        file={
+          previewFile && {
+            key: previewFile.key,
+            name: previewFile.name,
+            mimeType: previewFile.mimeType || "application/octet-stream",
+            size: previewFile.size,
+          }
+        }
+      />
+
+      <S3FolderDetailsPanel
+        isOpen={detailsFolder !== null}
+        onClose={() => setDetailsFolder(null)}
+        folder={detailsFolder}
+        onOpenFolder={openFolderPath}
+      />
+      <S3TagEditor
+        isOpen={tagFile !== null}
+        onClose={() => setTagFile(null)}
+        file={tagFile}
+        onTagsChanged={loadTags}
+      />
+      <S3VersionHistory
+        isOpen={versionFile !== null}
+        onClose={() => setVersionFile(null)}
+        file={versionFile}
+        onVersionChanged={refresh}
+      />
+      <S3BatchActionModal
+        isOpen={batchModalAction !== null}
+        onClose={() => setBatchModalAction(null)}
+        action={batchModalAction || "move"}
+        itemCount={selectedKeys.size}
+        currentPath={currentPath}
+        onConfirm={async (value) => {
+          if (batchModalAction === "tag") {
+            await handleBatchAction("tag", {
+              tags: value.split(",").map((tag) => tag.trim()),
+            });
+            loadTags();
+          } else if (batchModalAction) {
+            await handleBatchAction(batchModalAction, {
+              destinationPath: value,
+            });
+          }
+        }}
+      />
+      <S3StorageClassModal
+        isOpen={storageClassTarget !== null}
+        onClose={() => setStorageClassTarget(null)}
+        itemCount={storageClassTarget?.keys.length || 0}
+        currentClass={storageClassTarget?.currentClass}
+        onConfirm={async (storageClass) => {
+          if (!storageClassTarget) return;
+          await handleBatchAction(
+            "storage-class",
+            { storageClass },
+            storageClassTarget.fromSelection
+              ? undefined
+              : storageClassTarget.keys
+          );
+        }}
+      />
+      <S3RestoreModal
+        isOpen={restoreFile !== null}
+        onClose={() => setRestoreFile(null)}
+        file={restoreFile}
+        onDownload={() => restoreFile && handleDownload(restoreFile)}
+      />
+      <DeleteModal
+        isOpen={showBatchDeleteModal}
+        onClose={() => setShowBatchDeleteModal(false)}
+        onConfirm={async () => {
+          await handleBatchAction("delete");
+          setShowBatchDeleteModal(false);
+        }}
+        title="Delete selected items"
+        message={`Are you sure you want to delete these ${selectedKeys.size} items? Folders are moved with everything inside them and can be restored from the trash.`}
+        itemName={`${selectedKeys.size} selected item${
+          selectedKeys.size === 1 ? "" : "s"
+        }`}
+        type="file"
+        loading={batchRunning}
+      />
       <DeleteModal
         isOpen={showDeleteModal}
         onClose={() => {
@@ -601,7 +1491,7 @@ export default function S3FilesPage() {
           refresh();
         }}
         title={`Delete ${deleteItem?.type || "item"}`}
-        message={`Are you sure you want to delete this ${deleteItem?.type}? This action cannot be undone.`}
+        message={`Are you sure you want to delete this ${deleteItem?.type}? It will be moved to the trash, where you can restore it.`}
         itemName={deleteItem?.name || ""}
         type={deleteItem?.type || "file"}
       />
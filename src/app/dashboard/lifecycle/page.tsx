@@ -0,0 +1,261 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { motion } from "framer-motion";
+import {
+  ArrowPathRoundedSquareIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  InformationCircleIcon,
+  PlusIcon,
+} from "@heroicons/react/24/outline";
+import Card from "@/components/ui/Card";
+import Button from "@/components/ui/Button";
+import { SkeletonSettings } from "@/components/ui/Skeleton";
+import LifecycleRuleForm, {
+  LifecycleRuleDraft,
+  createRuleDraft,
+  toLifecycleRule,
+} from "@/components/dashboard/LifecycleRuleForm";
+import { useS3Lifecycle } from "@/hooks/useS3Lifecycle";
+
+export default function LifecyclePage() {
+  const router = useRouter();
+  const { config, loading, error, loadRules, saveRules } = useS3Lifecycle();
+  const [drafts, setDrafts] = useState<LifecycleRuleDraft[]>([]);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [notification, setNotification] = useState<{
+    type: "success" | "error";
+    message: string;
+  } | null>(null);
+
+  useEffect(() => {
+    if (config) {
+      setDrafts(config.rules.map((rule) => createRuleDraft(rule)));
+      setDirty(false);
+    }
+  }, [config]);
+
+  useEffect(() => {
+    if (notification) {
+      const timer = setTimeout(() => {
+        setNotification(null);
+      }, 5000);
+      return () => clearTimeout(timer);
+    }
+  }, [notification]);
+
+  const updateDrafts = (next: LifecycleRuleDraft[]) => {
+    setDrafts(next);
+    setDirty(true);
+  };
+
+  const handleAddRule = () => {
+    const used = new Set(drafts.map((draft) => draft.id));
+    let index = drafts.length + 1;
+    while (used.has(`rule-${index}`)) index++;
+
+    updateDrafts([...drafts, { ...createRuleDraft(), id: `rule-${index}` }]);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    const result = await saveRules(drafts.map(toLifecycleRule));
+    setSaving(false);
+
+    setNotification({
+      type: result.success ? "success" : "error",
+      message:
+        result.message ||
+        (result.success
+          ? "Lifecycle rules saved"
+          : "Failed to save lifecycle rules"),
+    });
+  };
+
+  if (loading && !config) {
+    return <SkeletonSettings />;
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+      >
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div className="flex items-center space-x-3">
+            <ArrowPathRoundedSquareIcon className="h-8 w-8 text-primary-600 dark:text-primary-400" />
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+                Lifecycle Rules
+              </h1>
+              <p className="mt-2 text-gray-600 dark:text-gray-400">
+                Move files to cheaper storage and clean up old data
+                automatically.
+              </p>
+            </div>
+          </div>
+          {config && (
+            <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                onClick={loadRules}
+                disabled={!dirty || saving}
+              >
+                Discard
+              </Button>
+              <Button
+                variant="primary"
+                onClick={handleSave}
+                loading={saving}
+                disabled={!dirty}
+              >
+                Save Changes
+              </Button>
+            </div>
+          )}
+        </div>
+      </motion.div>
+
+      {/* Notification */}
+      {notification && (
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -20 }}
+          className={`p-4 rounded-lg flex items-center space-x-3 glass backdrop-blur-md ${
+            notification.type === "success"
+              ? "border-green-200 dark:border-green-800"
+              : "border-red-200 dark:border-red-800"
+          }`}
+        >
+          {notification.type === "success" ? (
+            <CheckCircleIcon className="h-5 w-5 text-green-500 flex-shrink-0" />
+          ) : (
+            <ExclamationTriangleIcon className="h-5 w-5 text-red-500 flex-shrink-0" />
+          )}
+          <p
+            className={`text-sm font-medium ${
+              notification.type === "success"
+                ? "text-green-800 dark:text-green-200"
+                : "text-red-800 dark:text-red-200"
+            }`}
+          >
+            {notification.message}
+          </p>
+          <button
+            onClick={() => setNotification(null)}
+            className={`ml-auto text-sm underline ${
+              notification.type === "success"
+                ? "text-green-700 dark:text-green-300"
+                : "text-red-700 dark:text-red-300"
+            }`}
+          >
+            Dismiss
+          </button>
+        </motion.div>
+      )}
+
+      {error && !config ? (
+        <Card className="p-6">
+          <div className="flex items-start space-x-3">
+            <ExclamationTriangleIcon className="h-6 w-6 text-red-500 flex-shrink-0 mt-0.5" />
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                Lifecycle rules unavailable
+              </h3>
+              <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                {error}
+              </p>
+              <div className="mt-4 flex gap-2">
+                <Button variant="outline" size="sm" onClick={loadRules}>
+                  Try Again
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => router.push("/dashboard/settings")}
+                >
+                  Open Settings
+                </Button>
+              </div>
+            </div>
+          </div>
+        </Card>
+      ) : (
+        <>
+          {/* Scope */}
+          <Card className="p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800">
+            <div className="flex items-start space-x-3">
+              <InformationCircleIcon className="h-5 w-5 text-blue-500 flex-shrink-0 mt-0.5" />
+              <div className="text-sm text-blue-700 dark:text-blue-300 space-y-1">
+                <p>
+                  Rules only apply to your DRIVN files. S3 runs them about once
+                  a day, so changes can take up to 48 hours to show.
+                </p>
+                {!!config?.otherRuleCount && (
+                  <p>
+                    Your bucket has {config.otherRuleCount} other lifecycle rule
+                    {config.otherRuleCount === 1 ? "" : "s"} that can&apos;t be
+                    edited here. They are kept when you save.
+                  </p>
+                )}
+              </div>
+            </div>
+          </Card>
+
+          {/* Rules */}
+          <div className="space-y-4">
+            {drafts.length === 0 ? (
+              <Card className="p-8 text-center">
+                <ArrowPathRoundedSquareIcon className="h-12 w-12 text-gray-400 mx-auto mb-3" />
+                <p className="text-gray-600 dark:text-gray-400">
+                  No lifecycle rules yet. Add one to archive or expire files
+                  automatically.
+                </p>
+              </Card>
+            ) : (
+              drafts.map((draft, index) => (
+                <motion.div
+                  key={draft.draftId}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.3 }}
+                >
+                  <LifecycleRuleForm
+                    rule={draft}
+                    disabled={saving}
+                    onChange={(rule) =>
+                      updateDrafts(
+                        drafts.map((existing, i) =>
+                          i === index ? rule : existing
+                        )
+                      )
+                    }
+                    onRemove={() =>
+                      updateDrafts(drafts.filter((_, i) => i !== index))
+                    }
+                  />
+                </motion.div>
+              ))
+            )}
+          </div>
+
+          <Button
+            variant="outline"
+            onClick={handleAddRule}
+            disabled={saving}
+            leftIcon={<PlusIcon className="h-4 w-4" />}
+          >
+            Add Rule
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -48,6 +48,13 @@ const getQuickActions = (
   },
 ];
 
+interface StorageQuota {
+  used: number;
+  limit: number;
+  percentUsed: number;
+  isCustom: boolean;
+}
+
 interface DashboardStats {
   totalFiles: number;
   totalFolders: number;
@@ -68,17 +75,21 @@ export default function DashboardPage() {
     totalDownloads: 0,
   });
   const [hasS3Config, setHasS3Config] = useState(false);
+  const [quota, setQuota] = useState<StorageQuota | null>(null);
 
   const loadDashboardData = async () => {
     try {
       setLoading(true);
-      const [analyticsResponse, configResponse] = await Promise.all([
-        fetch("/api/s3-analytics?timeRange=7d"),
-        fetch("/api/s3-config"),
-      ]);
+      const [analyticsResponse, configResponse, quotaResponse] =
+        await Promise.all([
+          fetch("/api/s3-analytics?timeRange=7d"),
+          fetch("/api/s3-config"),
+          fetch("/api/s3-quota"),
+        ]);
 
       const analyticsData = await analyticsResponse.json();
       const configData = await configResponse.json();
+      const quotaData = await quotaResponse.json();
 
       if (analyticsData.success) {
         setStats({
@@ -92,6 +103,10 @@ export default function DashboardPage() {
       if (configData.success) {
         setHasS3Config(configData.hasConfig);
       }
+
+      if (quotaData.success) {
+        setQuota(quotaData.data);
+      }
     } catch (error) {
       logger.error("Error loading dashboard data:", error);
     } finally {
@@ -220,6 +235,56 @@ export default function DashboardPage() {
             ))}
           </motion.div>
 
+          {/* Storage Quota */}
+          {quota && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.5, delay: 0.15 }}
+              className="mt-8"
+            >
+              <Card className="p-6">
+                <div className="flex items-center justify-between mb-3">
+                  <h2 className="text-lg font-medium text-gray-900 dark:text-white">
+                    Storage Quota
+                  </h2>
+                  <span className="text-sm text-gray-500 dark:text-gray-400">
+                    {quota.limit > 0
+                      ? `${formatBytes(quota.used)} of ${formatBytes(
+                          quota.limit
+                        )} used`
+                      : `${formatBytes(quota.used)} used · Unlimited`}
+                  </span>
+                </div>
+                {quota.limit > 0 && (
+                  <>
+                    <div className="w-full h-3 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                      <div
+                        className={`h-full rounded-full transition-all ${
+                          quota.percentUsed >= 95
+                            ? "bg-red-500"
+                            : quota.percentUsed >= 80
+                              ? "bg-yellow-500"
+                              : "bg-primary-500"
+                        }`}
+                        style={{
+                          width: `${Math.min(quota.percentUsed, 100)}%`,
+                        }}
+                      />
+                    </div>
+                    <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+                      {quota.percentUsed >= 100
+                        ? "Your storage is full. Delete files to upload more."
+                        : `${quota.percentUsed}% used · ${formatBytes(
+                            quota.limit - quota.used
+                          )} available`}
+                    </p>
+                  </>
+                )}
+              </Card>
+            </motion.div>
+          )}
+
           {/* Quick Actions */}
           <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -0,0 +1,109 @@
+"use client";
+
+import React from "react";
+import { ArrowPathIcon, ClockIcon } from "@heroicons/react/24/outline";
+import Card from "@/components/ui/Card";
+import Button from "@/components/ui/Button";
+import S3QuickAccessList from "@/components/dashboard/S3QuickAccessList";
+import { useS3Files } from "@/hooks/useS3Files";
+import { useS3Starred } from "@/hooks/useS3Starred";
+import { useS3Recent, RecentAction, RecentFileItem } from "@/hooks/useS3Recent";
+
+const ACTION_LABELS: Record<RecentAction, string> = {
+  upload: "Uploaded",
+  download: "Downloaded",
+  rename: "Renamed",
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export default function RecentPage() {
+  const { recentFiles, loading, error, loadRecent } = useS3Recent();
+  const { starredKeys, setStarred } = useS3Starred();
+  const { getDownloadUrl } = useS3Files("", { autoLoad: false });
+
+  const handleToggleStar = async (file: RecentFileItem) => {
+    const result = await setStarred(file.key, !starredKeys.has(file.key));
+    if (!result.success) {
+      alert(result.message || "Failed to update star");
+    }
+  };
+
+  const handleDownload = async (file: RecentFileItem) => {
+    const result = await getDownloadUrl(file.key);
+    if (result.success && result.url) {
+      window.open(result.url, "_blank");
+      loadRecent();
+    } else {
+      alert(result.message || "Failed to download file");
+    }
+  };
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            Recent
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Files you have recently uploaded, downloaded or renamed
+          </p>
+        </div>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={loadRecent}
+          leftIcon={<ArrowPathIcon className="h-4 w-4" />}
+          disabled={loading}
+          className="text-gray-600 dark:text-gray-400"
+        >
+          {loading ? "Loading..." : "Refresh"}
+        </Button>
+      </div>
+
+      {error && (
+        <div className="mt-6 p-4 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      <Card className="mt-6" padding="none">
+        {loading && recentFiles.length === 0 ? (
+          <div className="p-12 text-center text-gray-500 dark:text-gray-400">
+            Loading recent files...
+          </div>
+        ) : recentFiles.length === 0 ? (
+          <div className="p-12 text-center">
+            <ClockIcon className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900 dark:text-white">
+              No recent files
+            </h3>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Files you upload, download or rename will show up here
+            </p>
+          </div>
+        ) : (
+          <S3QuickAccessList
+            files={recentFiles}
+            renderDetail={(file) =>
+              `${ACTION_LABELS[file.lastAction]} ${formatDate(file.lastActivityAt)}`
+            }
+            starredKeys={starredKeys}
+            onToggleStar={handleToggleStar}
+            onDownload={handleDownload}
+          />
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -13,9 +13,23 @@ import {
   TrashIcon,
   CheckCircleIcon,
   ExclamationTriangleIcon,
+  ClockIcon,
+  ArrowPathIcon,
 } from "@heroicons/react/24/outline";
 import { logger } from "@/utils/logger";
 
+type VersioningStatus = "Enabled" | "Suspended" | "Disabled";
+
+interface DriftReport {
+  status: "completed" | "failed";
+  scanned: number;
+  missing: number;
+  orphaned: number;
+  mismatched: number;
+  error?: string;
+  createdAt: string;
+}
+
 interface S3ConfigStatus {
   hasConfig: boolean;
   config?: {
@@ -29,6 +43,11 @@ interface S3ConfigStatus {
 export default function SettingsPage() {
   const [configStatus, setConfigStatus] = useState<S3ConfigStatus | null>(null);
   const [loading, setLoading] = useState(true);
+  const [versioningStatus, setVersioningStatus] =
+    useState<VersioningStatus | null>(null);
+  const [updatingVersioning, setUpdatingVersioning] = useState(false);
+  const [driftReport, setDriftReport] = useState<DriftReport | null>(null);
+  const [reconciling, setReconciling] = useState(false);
   const [notification, setNotification] = useState<{
     type: "success" | "error";
     message: string;
@@ -153,6 +172,133 @@ export default function SettingsPage() {
     }
   };
 
+  useEffect(() => {
+    if (configStatus?.hasConfig) {
+      loadVersioningStatus();
+      loadDriftReport();
+    } else {
+      setVersioningStatus(null);
+      setDriftReport(null);
+    }
+  }, [configStatus?.hasConfig]);
+
+  const loadVersioningStatus = async () => {
+    try {
+      const response = await fetch("/api/s3-config/versioning", {
+        credentials: "include",
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setVersioningStatus(result.data.status);
+      } else {
+        logger.error("Failed to load versioning status:", result.message);
+        setVersioningStatus(null);
+      }
+    } catch (error) {
+      logger.error("Error loading versioning status:", error);
+      setVersioningStatus(null);
+    }
+  };
+
+  const handleToggleVersioning = async () => {
+    const enabled = versioningStatus !== "Enabled";
+
+    if (
+      !enabled &&
+      !confirm(
+        "Suspend versioning? Existing versions are kept, but new changes will overwrite the current version."
+      )
+    ) {
+      return;
+    }
+
+    setUpdatingVersioning(true);
+    try {
+      const response = await fetch("/api/s3-config/versioning", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({ enabled }),
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        setVersioningStatus(result.data.status);
+        setNotification({
+          type: "success",
+          message: enabled
+            ? "Bucket versioning enabled!"
+            : "Bucket versioning suspended.",
+        });
+      } else {
+        setNotification({
+          type: "error",
+          message: result.message || "Failed to update versioning",
+        });
+      }
+    } catch (error) {
+      logger.error("Update versioning error:", error);
+      setNotification({
+        type: "error",
+        message: "Failed to update versioning. Please try again.",
+      });
+    } finally {
+      setUpdatingVersioning(false);
+    }
+  };
+
+  const loadDriftReport = async () => {
+    try {
+      const response = await fetch("/api/s3-config/reconcile", {
+        credentials: "include",
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setDriftReport(result.data.report);
+      } else {
+        logger.error("Failed to load reconciliation report:", result.message);
+      }
+    } catch (error) {
+      logger.error("Error loading reconciliation report:", error);
+    }
+  };
+
+  const handleReconcile = async () => {
+    setReconciling(true);
+    try {
+      const response = await fetch("/api/s3-config/reconcile", {
+        method: "POST",
+        credentials: "include",
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        setDriftReport(result.data.report);
+        setNotification({ type: "success", message: result.message });
+      } else {
+        setNotification({
+          type: "error",
+          message: result.message || "Failed to reconcile metadata",
+        });
+        await loadDriftReport();
+      }
+    } catch (error) {
+      logger.error("Reconcile metadata error:", error);
+      setNotification({
+        type: "error",
+        message: "Failed to reconcile metadata. Please try again.",
+      });
+    } finally {
+      setReconciling(false);
+    }
+  };
+
   useEffect(() => {
     if (notification) {
       const timer = setTimeout(() => {
@@ -281,6 +427,96 @@ export default function SettingsPage() {
         </motion.div>
       )}
 
+      {/* Bucket Versioning */}
+      {configStatus?.hasConfig && versioningStatus && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5, delay: 0.15 }}
+        >
+          <Card className="p-6">
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex items-start space-x-3">
+                <ClockIcon className="h-6 w-6 text-primary-500 flex-shrink-0 mt-0.5" />
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                    Bucket Versioning
+                  </h3>
+                  <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                    {versioningStatus === "Enabled"
+                      ? "Every change keeps the previous version, so files can be restored from their version history."
+                      : versioningStatus === "Suspended"
+                        ? "Versioning is suspended. Existing versions are kept, but new changes overwrite the current version."
+                        : "Versioning is off. Turn it on to keep previous versions of every file you change or delete."}
+                  </p>
+                  {versioningStatus !== "Enabled" && (
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                      Older versions count toward your bucket&apos;s storage.
+                    </p>
+                  )}
+                </div>
+              </div>
+              <Button
+                variant={versioningStatus === "Enabled" ? "outline" : "primary"}
+                size="sm"
+                onClick={handleToggleVersioning}
+                loading={updatingVersioning}
+              >
+                {versioningStatus === "Enabled"
+                  ? "Suspend Versioning"
+                  : "Enable Versioning"}
+              </Button>
+            </div>
+          </Card>
+        </motion.div>
+      )}
+
+      {/* Metadata Sync */}
+      {configStatus?.hasConfig && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5, delay: 0.15 }}
+        >
+          <Card className="p-6">
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex items-start space-x-3">
+                <ArrowPathIcon className="h-6 w-6 text-primary-500 flex-shrink-0 mt-0.5" />
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                    Metadata Sync
+                  </h3>
+                  <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                    Compares your bucket with the file details used for search,
+                    tags and analytics, and fixes files that were added, removed
+                    or changed outside the app.
+                  </p>
+                  {driftReport ? (
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                      {driftReport.status === "failed"
+                        ? `Last run failed on ${new Date(driftReport.createdAt).toLocaleString()}: ${driftReport.error || "Unknown error"}`
+                        : `Last run ${new Date(driftReport.createdAt).toLocaleString()}: ${driftReport.scanned} files scanned, ${driftReport.missing} added, ${driftReport.orphaned} removed, ${driftReport.mismatched} updated.`}
+                    </p>
+                  ) : (
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                      Not synced yet.
+                    </p>
+                  )}
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleReconcile}
+                loading={reconciling}
+              >
+                Reconcile Now
+              </Button>
+            </div>
+          </Card>
+        </motion.div>
+      )}
+
       {/* S3 Configuration Form */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -0,0 +1,218 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  ArrowPathIcon,
+  CheckIcon,
+  ClipboardIcon,
+  DocumentIcon,
+  FolderIcon,
+  LinkIcon,
+  LockClosedIcon,
+  NoSymbolIcon,
+} from "@heroicons/react/24/outline";
+import Card from "@/components/ui/Card";
+import Button from "@/components/ui/Button";
+import { useS3Shares, ShareLinkItem, ShareStatus } from "@/hooks/useS3Shares";
+
+const STATUS_STYLES: Record<ShareStatus, string> = {
+  active:
+    "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300",
+  expired: "bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300",
+  revoked: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300",
+  exhausted:
+    "bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300",
+};
+
+const STATUS_LABELS: Record<ShareStatus, string> = {
+  active: "Active",
+  expired: "Expired",
+  revoked: "Revoked",
+  exhausted: "Limit reached",
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export default function SharesPage() {
+  const { shares, loading, error, loadShares, revokeShare } = useS3Shares();
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [showInactive, setShowInactive] = useState(false);
+
+  const visibleShares = showInactive
+    ? shares
+    : shares.filter((share) => share.status === "active");
+
+  const handleCopy = (share: ShareLinkItem) => {
+    navigator.clipboard
+      .writeText(`${window.location.origin}/s/${share.token}`)
+      .then(() => {
+        setCopiedId(share.id);
+        setTimeout(() => setCopiedId(null), 2000);
+      });
+  };
+
+  const handleRevoke = async (share: ShareLinkItem) => {
+    if (
+      !confirm(
+        `Revoke the share link for "${share.name}"? Anyone using it will lose access.`
+      )
+    ) {
+      return;
+    }
+
+    setRevokingId(share.id);
+    const result = await revokeShare(share.id);
+    setRevokingId(null);
+    if (!result.success) {
+      alert(result.message || "Failed to revoke share link");
+    }
+  };
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            Shared Links
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Manage the public links you have created for your files and folders
+          </p>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+            <input
+              type="checkbox"
+              checked={showInactive}
+              onChange={(e) => setShowInactive(e.target.checked)}
+              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            Show inactive
+          </label>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={loadShares}
+            leftIcon={<ArrowPathIcon className="h-4 w-4" />}
+            disabled={loading}
+            className="text-gray-600 dark:text-gray-400"
+          >
+            {loading ? "Loading..." : "Refresh"}
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-6 p-4 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      <Card className="mt-6" padding="none">
+        {loading && shares.length === 0 ? (
+          <div className="p-12 text-center text-gray-500 dark:text-gray-400">
+            Loading share links...
+          </div>
+        ) : visibleShares.length === 0 ? (
+          <div className="p-12 text-center">
+            <LinkIcon className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900 dark:text-white">
+              No share links
+            </h3>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Use &quot;Share&quot; on a file or folder to create a public link
+            </p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {visibleShares.map((share) => {
+              const Icon = share.isFolder ? FolderIcon : DocumentIcon;
+              return (
+                <li
+                  key={share.id}
+                  className="flex flex-col sm:flex-row sm:items-center gap-3 px-6 py-4"
+                >
+                  <div className="flex items-center gap-3 flex-1 min-w-0">
+                    <Icon
+                      className={`h-8 w-8 flex-shrink-0 ${
+                        share.isFolder ? "text-blue-500" : "text-gray-400"
+                      }`}
+                    />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white truncate flex items-center gap-2">
+                        <span className="truncate">{share.name}</span>
+                        {share.hasPassword && (
+                          <LockClosedIcon
+                            className="h-4 w-4 text-gray-400 flex-shrink-0"
+                            title="Password protected"
+                          />
+                        )}
+                        <span
+                          className={`px-2 py-0.5 text-xs rounded-full flex-shrink-0 ${STATUS_STYLES[share.status]}`}
+                        >
+                          {STATUS_LABELS[share.status]}
+                        </span>
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                        {share.path} · {share.downloadCount}
+                        {share.maxDownloads
+                          ? ` / ${share.maxDownloads}`
+                          : ""}{" "}
+                        download{share.downloadCount === 1 ? "" : "s"}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Created {formatDate(share.createdAt)} ·{" "}
+                        {share.expiresAt
+                          ? `Expires ${formatDate(share.expiresAt)}`
+                          : "Never expires"}
+                      </p>
+                    </div>
+                  </div>
+
+                  {share.status === "active" && (
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleCopy(share)}
+                        leftIcon={
+                          copiedId === share.id ? (
+                            <CheckIcon className="h-4 w-4 text-green-500" />
+                          ) : (
+                            <ClipboardIcon className="h-4 w-4" />
+                          )
+                        }
+                      >
+                        {copiedId === share.id ? "Copied" : "Copy Link"}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRevoke(share)}
+                        disabled={revokingId === share.id}
+                        leftIcon={<NoSymbolIcon className="h-4 w-4" />}
+                        className="text-red-600 dark:text-red-400"
+                      >
+                        Revoke
+                      </Button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </Card>
+    </div>
+  );
+}
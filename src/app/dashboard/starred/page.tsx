@@ -0,0 +1,97 @@
+"use client";
+
+import React from "react";
+import { ArrowPathIcon, StarIcon } from "@heroicons/react/24/outline";
+import Card from "@/components/ui/Card";
+import Button from "@/components/ui/Button";
+import S3QuickAccessList from "@/components/dashboard/S3QuickAccessList";
+import { useS3Files } from "@/hooks/useS3Files";
+import { useS3Starred, StarredFileItem } from "@/hooks/useS3Starred";
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+export default function StarredPage() {
+  const { starredFiles, starredKeys, loading, error, loadStarred, setStarred } =
+    useS3Starred();
+  const { getDownloadUrl } = useS3Files("", { autoLoad: false });
+
+  const handleToggleStar = async (file: StarredFileItem) => {
+    const result = await setStarred(file.key, !starredKeys.has(file.key));
+    if (!result.success) {
+      alert(result.message || "Failed to update star");
+    }
+  };
+
+  const handleDownload = async (file: StarredFileItem) => {
+    const result = await getDownloadUrl(file.key);
+    if (result.success && result.url) {
+      window.open(result.url, "_blank");
+    } else {
+      alert(result.message || "Failed to download file");
+    }
+  };
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            Starred
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Files you have starred for quick access
+          </p>
+        </div>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={loadStarred}
+          leftIcon={<ArrowPathIcon className="h-4 w-4" />}
+          disabled={loading}
+          className="text-gray-600 dark:text-gray-400"
+        >
+          {loading ? "Loading..." : "Refresh"}
+        </Button>
+      </div>
+
+      {error && (
+        <div className="mt-6 p-4 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      <Card className="mt-6" padding="none">
+        {loading && starredFiles.length === 0 ? (
+          <div className="p-12 text-center text-gray-500 dark:text-gray-400">
+            Loading starred files...
+          </div>
+        ) : starredFiles.length === 0 ? (
+          <div className="p-12 text-center">
+            <StarIcon className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900 dark:text-white">
+              No starred files
+            </h3>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Use &quot;Star&quot; on a file to find it here later
+            </p>
+          </div>
+        ) : (
+          <S3QuickAccessList
+            files={starredFiles}
+            renderDetail={(file) => `Starred ${formatDate(file.starredAt)}`}
+            starredKeys={starredKeys}
+            onToggleStar={handleToggleStar}
+            onDownload={handleDownload}
+          />
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  ArrowPathIcon,
+  ArrowUturnLeftIcon,
+  DocumentIcon,
+  FolderIcon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+import Card from "@/components/ui/Card";
+import Button from "@/components/ui/Button";
+import DeleteModal from "@/components/ui/DeleteModal";
+import { useS3Trash, TrashItem } from "@/hooks/useS3Trash";
+
+const formatBytes = (bytes: number) => {
+  if (bytes === 0) return "0 Bytes";
+  const k = 1024;
+  const sizes = ["Bytes", "KB", "MB", "GB", "TB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+const daysUntil = (value: string) =>
+  Math.max(
+    0,
+    Math.ceil((new Date(value).getTime() - Date.now()) / (24 * 60 * 60 * 1000))
+  );
+
+export default function TrashPage() {
+  const {
+    items,
+    retentionDays,
+    loading,
+    error,
+    loadTrash,
+    restoreItem,
+    deleteItem,
+    emptyTrash,
+  } = useS3Trash();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [itemToDelete, setItemToDelete] = useState<TrashItem | null>(null);
+  const [showEmptyModal, setShowEmptyModal] = useState(false);
+  const [emptying, setEmptying] = useState(false);
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusyId(item.id);
+    const result = await restoreItem(item.id);
+    setBusyId(null);
+    if (!result.success) {
+      alert(result.message || "Failed to restore item");
+    }
+  };
+
+  const handleDeleteForever = async () => {
+    if (!itemToDelete) return;
+    setBusyId(itemToDelete.id);
+    const result = await deleteItem(itemToDelete.id);
+    setBusyId(null);
+    setItemToDelete(null);
+    if (!result.success) {
+      alert(result.message || "Failed to delete item");
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    setEmptying(true);
+    const result = await emptyTrash();
+    setEmptying(false);
+    setShowEmptyModal(false);
+    if (!result.success) {
+      alert(result.message || "Failed to empty trash");
+    }
+  };
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            Trash
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            {retentionDays
+              ? `Items are permanently deleted ${retentionDays} day${
+                  retentionDays === 1 ? "" : "s"
+                } after they are moved here`
+              : "Deleted files and folders can be restored from here"}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={loadTrash}
+            leftIcon={<ArrowPathIcon className="h-4 w-4" />}
+            disabled={loading}
+            className="text-gray-600 dark:text-gray-400"
+          >
+            {loading ? "Loading..." : "Refresh"}
+          </Button>
+          <Button
+            variant="danger"
+            size="sm"
+            onClick={() => setShowEmptyModal(true)}
+            leftIcon={<TrashIcon className="h-4 w-4" />}
+            disabled={items.length === 0 || emptying}
+          >
+            Empty Trash
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-6 p-4 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      <Card className="mt-6" padding="none">
+        {loading && items.length === 0 ? (
+          <div className="p-12 text-center text-gray-500 dark:text-gray-400">
+            Loading trash...
+          </div>
+        ) : items.length === 0 ? (
+          <div className="p-12 text-center">
+            <TrashIcon className="mx-auto h-12 w-12 text-gray-400" />
+            <h3 className="mt-2 text-sm font-medium text-gray-900 dark:text-white">
+              Trash is empty
+            </h3>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Deleted files and folders will appear here
+            </p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {items.map((item) => {
+              const Icon = item.isFolder ? FolderIcon : DocumentIcon;
+              const remaining = daysUntil(item.expiresAt);
+              return (
+                <li
+                  key={item.id}
+                  className="flex flex-col sm:flex-row sm:items-center gap-3 px-6 py-4"
+                >
+                  <div className="flex items-center gap-3 flex-1 min-w-0">
+                    <Icon
+                      className={`h-8 w-8 flex-shrink-0 ${
+                        item.isFolder ? "text-blue-500" : "text-gray-400"
+                      }`}
+                    />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                        {item.name}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                        From {item.originalPath} · {formatBytes(item.size)}
+                        {item.isFolder &&
+                          ` · ${item.fileCount} file${
+                            item.fileCount === 1 ? "" : "s"
+                          }`}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Deleted {formatDate(item.deletedAt)} ·{" "}
+                        {remaining === 0
+                          ? "Deleted permanently soon"
+                          : `${remaining} day${
+                              remaining === 1 ? "" : "s"
+                            } left`}
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRestore(item)}
+                      disabled={busyId === item.id}
+                      leftIcon={<ArrowUturnLeftIcon className="h-4 w-4" />}
+                    >
+                      Restore
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setItemToDelete(item)}
+                      disabled={busyId === item.id}
+                      className="text-red-600 dark:text-red-400"
+                    >
+                      Delete Forever
+                    </Button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </Card>
+
+      <DeleteModal
+        isOpen={!!itemToDelete}
+        onClose={() => setItemToDelete(null)}
+        onConfirm={handleDeleteForever}
+        title="Delete forever"
+        message={`Are you sure you want to permanently delete this ${
+          itemToDelete?.isFolder ? "folder" : "file"
+        }? This action cannot be undone.`}
+        itemName={itemToDelete?.name || ""}
+        type={itemToDelete?.isFolder ? "folder" : "file"}
+        loading={!!itemToDelete && busyId === itemToDelete.id}
+      />
+      <DeleteModal
+        isOpen={showEmptyModal}
+        onClose={() => setShowEmptyModal(false)}
+        onConfirm={handleEmptyTrash}
+        title="Empty trash"
+        message="Are you sure you want to permanently delete everything in the trash? This action cannot be undone."
+        itemName={`${items.length} item${items.length === 1 ? "" : "s"}`}
+        type="file"
+        loading={emptying}
+      />
+    </div>
+  );
+}
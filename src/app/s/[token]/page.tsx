@@ -0,0 +1,329 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import {
+  ArrowDownTrayIcon,
+  ArrowPathIcon,
+  DocumentIcon,
+  FolderIcon,
+  LockClosedIcon,
+  XCircleIcon,
+} from "@heroicons/react/24/outline";
+import Card from "@/components/ui/Card";
+import Button from "@/components/ui/Button";
+
+interface ShareInfo {
+  name: string;
+  isFolder: boolean;
+  size?: number;
+  mimeType?: string;
+  expiresAt?: string;
+  requiresPassword: boolean;
+  remainingDownloads?: number;
+}
+
+interface SharedFile {
+  path: string;
+  name: string;
+  size: number;
+  lastModified: string;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes === 0) return "0 Bytes";
+  const k = 1024;
+  const sizes = ["Bytes", "KB", "MB", "GB", "TB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+};
+
+export default function SharedLinkPage() {
+  const { token } = useParams<{ token: string }>();
+  const [share, setShare] = useState<ShareInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [password, setPassword] = useState("");
+  const [unlocked, setUnlocked] = useState(false);
+  const [passwordError, setPasswordError] = useState("");
+  const [files, setFiles] = useState<SharedFile[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const loadFiles = useCallback(
+    async (sharePassword?: string) => {
+      const response = await fetch(`/api/share/${token}/files`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ password: sharePassword }),
+      });
+      return response.json();
+    },
+    [token]
+  );
+
+  useEffect(() => {
+    const loadShare = async () => {
+      try {
+        const response = await fetch(`/api/share/${token}`);
+        const result = await response.json();
+
+        if (!result.success) {
+          setError(result.message || "This share link is not available");
+          return;
+        }
+
+        setShare(result.data);
+
+        if (!result.data.requiresPassword) {
+          setUnlocked(true);
+          if (result.data.isFolder) {
+            const listing = await loadFiles();
+            if (listing.success) {
+              setFiles(listing.data.files || []);
+              setTruncated(!!listing.data.truncated);
+            } else {
+              setError(listing.message || "Failed to load shared files");
+            }
+          }
+        }
+      } catch {
+        setError("Failed to load share link. Please try again.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadShare();
+  }, [token, loadFiles]);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!share || !password) return;
+
+    setBusy("unlock");
+    setPasswordError("");
+
+    try {
+      if (share.isFolder) {
+        const listing = await loadFiles(password);
+        if (listing.success) {
+          setFiles(listing.data.files || []);
+          setTruncated(!!listing.data.truncated);
+          setUnlocked(true);
+        } else if (listing.error === "INVALID_PASSWORD") {
+          setPasswordError(listing.message);
+        } else {
+          setError(listing.message || "Failed to load shared files");
+        }
+      } else {
+        await handleDownload();
+      }
+    } catch {
+      setPasswordError("Something went wrong. Please try again.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDownload = async (path?: string) => {
+    setBusy(path || "download");
+
+    try {
+      const response = await fetch(`/api/share/${token}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          password: share?.requiresPassword ? password : undefined,
+          path,
+        }),
+      });
+      const result = await response.json();
+
+      if (result.success && result.url) {
+        setUnlocked(true);
+        setShare((prev) =>
+          prev && prev.remainingDownloads !== undefined
+            ? { ...prev, remainingDownloads: prev.remainingDownloads - 1 }
+            : prev
+        );
+        window.location.href = result.url;
+      } else if (result.error === "INVALID_PASSWORD") {
+        setUnlocked(false);
+        setPasswordError(result.message);
+      } else {
+        setError(result.message || "Download failed");
+      }
+    } catch {
+      setError("Download failed. Please try again.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <div className="flex justify-center py-8">
+          <ArrowPathIcon className="w-12 h-12 text-primary-600 animate-spin" />
+        </div>
+      );
+    }
+
+    if (error || !share) {
+      return (
+        <div className="space-y-4">
+          <XCircleIcon className="w-16 h-16 text-red-600 mx-auto" />
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            Link Unavailable
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            {error || "This share link is not available"}
+          </p>
+        </div>
+      );
+    }
+
+    const Icon = share.isFolder ? FolderIcon : DocumentIcon;
+
+    return (
+      <div className="space-y-6">
+        <div className="space-y-2">
+          <Icon
+            className={`w-16 h-16 mx-auto ${
+              share.isFolder ? "text-blue-500" : "text-primary-600"
+            }`}
+          />
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white break-all">
+            {share.name}
+          </h1>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {share.size !== undefined && formatBytes(share.size)}
+            {share.size !== undefined && share.expiresAt && " · "}
+            {share.expiresAt &&
+              `Available until ${new Date(share.expiresAt).toLocaleString()}`}
+          </p>
+          {share.remainingDownloads !== undefined && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {share.remainingDownloads} download
+              {share.remainingDownloads === 1 ? "" : "s"} remaining
+            </p>
+          )}
+        </div>
+
+        {share.requiresPassword && !unlocked ? (
+          <form onSubmit={handleUnlock} className="space-y-4 text-left">
+            <label
+              htmlFor="sharePassword"
+              className="flex items-center text-sm font-medium text-gray-700 dark:text-gray-300"
+            >
+              <LockClosedIcon className="h-4 w-4 mr-2" />
+              This link is password protected
+            </label>
+            <input
+              type="password"
+              id="sharePassword"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Enter password"
+              autoFocus
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+            {passwordError && (
+              <p className="text-sm text-red-600 dark:text-red-400">
+                {passwordError}
+              </p>
+            )}
+            <Button
+              type="submit"
+              variant="primary"
+              className="w-full"
+              loading={busy === "unlock"}
+              disabled={!password}
+            >
+              {share.isFolder ? "Open Folder" : "Download"}
+            </Button>
+          </form>
+        ) : share.isFolder ? (
+          <div className="text-left">
+            {files.length === 0 ? (
+              <p className="text-center text-sm text-gray-500 dark:text-gray-400">
+                This folder is empty
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700 max-h-96 overflow-y-auto">
+                {files.map((file) => (
+                  <li
+                    key={file.path}
+                    className="flex items-center justify-between gap-3 py-3"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                        {file.path}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {formatBytes(file.size)}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDownload(file.path)}
+                      disabled={busy !== null}
+                      leftIcon={<ArrowDownTrayIcon className="h-4 w-4" />}
+                    >
+                      Download
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {truncated && (
+              <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+                Only the first {files.length} files are shown.
+              </p>
+            )}
+          </div>
+        ) : (
+          <Button
+            variant="primary"
+            className="w-full"
+            onClick={() => handleDownload()}
+            loading={busy === "download"}
+            leftIcon={<ArrowDownTrayIcon className="h-4 w-4" />}
+          >
+            Download
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary-50 via-white to-secondary-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 flex items-center justify-center p-4">
+      <Card className="w-full max-w-lg mx-auto backdrop-blur-xl text-center">
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95 }}
+          animate={{ opacity: 1, scale: 1 }}
+          transition={{ duration: 0.4 }}
+          className="space-y-6"
+        >
+          {renderContent()}
+
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Shared with{" "}
+            <Link href="/" className="font-semibold text-primary-600">
+              DRIVN
+            </Link>
+          </p>
+        </motion.div>
+      </Card>
+    </div>
+  );
+}
@@ -18,6 +18,8 @@ export interface IUser extends Document {
     bucketName?: string;
     endpoint?: string;
   };
+  storageQuota?: number | null;
+  quotaWarningLevel: number;
 }
 
 const UserSchema = new Schema<IUser>({
@@ -62,6 +64,17 @@ const UserSchema = new Schema<IUser>({
     bucketName: String,
     endpoint: String,
   },
+  // Storage quota in bytes, unset to use the admin default, 0 for unlimited
+  storageQuota: {
+    type: Number,
+    min: 0,
+    default: null,
+  },
+  // Highest usage warning (percent) emailed since usage last dropped
+  quotaWarningLevel: {
+    type: Number,
+    default: 0,
+  },
 }, {
   timestamps: true,
 });
@@ -188,6 +188,91 @@ class EmailService {
       throw new Error("Failed to send forgot password email");
     }
   }
+
+  async sendQuotaWarningEmail(
+    email: string,
+    usage: { percentUsed: number; used: string; quota: string }
+  ): Promise<void> {
+    const currentYear = new Date().getFullYear();
+    const filesUrl = `${APP_URL}/dashboard/files-s3`;
+
+    const mailOptions = {
+      from: process.env.EMAIL_FROM,
+      to: email,
+      subject: `Your ${APP_NAME} storage is ${usage.percentUsed}% full`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Storage Almost Full</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+            <h1 style="color: white; margin: 0; font-size: 28px;">${APP_NAME}</h1>
+            <p style="color: rgba(255,255,255,0.9); margin: 10px 0 0 0;">Secure Cloud Storage</p>
+          </div>
+
+          <div style="background: white; padding: 40px; border-radius: 0 0 10px 10px; box-shadow: 0 4px 6px rgba(0,0,0,0.1);">
+            <h2 style="color: #333; margin-bottom: 20px;">Your Storage Is Almost Full</h2>
+
+            <p>You are using <strong>${usage.used}</strong> of your <strong>${usage.quota}</strong> storage quota (${usage.percentUsed}%). Once the quota is reached, new uploads will be rejected.</p>
+
+            <div style="background: #f1f1f4; border-radius: 8px; height: 12px; overflow: hidden; margin: 30px 0;">
+              <div style="background: ${usage.percentUsed >= 95 ? "#dc2626" : "#f59e0b"}; height: 12px; width: ${Math.min(usage.percentUsed, 100)}%;"></div>
+            </div>
+
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${filesUrl}"
+                style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+                      color: white;
+                      padding: 15px 30px;
+                      text-decoration: none;
+                      border-radius: 8px;
+                      font-weight: bold;
+                      display: inline-block;
+                      transition: transform 0.2s;">
+                Manage Files
+              </a>
+            </div>
+
+            <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;">
+
+            <p style="color: #666; font-size: 14px; margin-bottom: 0;">
+              To free up space, delete files you no longer need or ask your administrator for a larger quota.
+            </p>
+          </div>
+
+          <div style="text-align: center; padding: 20px; color: #666; font-size: 12px;">
+            <p>&copy; ${currentYear} ${APP_NAME}. All rights reserved.</p>
+            <p>100% Open Source • S3-Compatible Storage</p>
+          </div>
+        </body>
+        </html>
+      `,
+      text: `
+        Your ${APP_NAME} storage is almost full
+
+        You are using ${usage.used} of your ${usage.quota} storage quota (${usage.percentUsed}%).
+        Once the quota is reached, new uploads will be rejected.
+
+        To free up space, delete files you no longer need or ask your administrator for a larger quota:
+        ${filesUrl}
+
+        Best regards,
+        The ${APP_NAME} Team
+      `,
+    };
+
+    try {
+      await this.transporter.sendMail(mailOptions);
+      logger.info("Quota warning email sent to:", email);
+    } catch (error) {
+      logger.error("Error sending quota warning email:", error);
+      throw new Error("Failed to send quota warning email");
+    }
+  }
 }
 
 export const emailService = new EmailService();
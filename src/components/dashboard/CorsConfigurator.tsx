@@ -24,6 +24,7 @@ const CorsConfigurator: React.FC<CorsConfiguratorProps> = ({ appUrl }) => {
       <AllowedMethod>PUT</AllowedMethod>
       <AllowedMethod>DELETE</AllowedMethod>
       <AllowedHeader>*</AllowedHeader>
+      <ExposeHeader>ETag</ExposeHeader>
       <MaxAgeSeconds>3000</MaxAgeSeconds>
   </CORSRule>
 </CORSConfiguration>
@@ -45,6 +46,9 @@ const CorsConfigurator: React.FC<CorsConfiguratorProps> = ({ appUrl }) => {
     "AllowedOrigins": [
       ${appUrl}
     ],
+    "ExposeHeaders": [
+      "ETag"
+    ],
     "MaxAgeSeconds": 3000
   }
 ]
@@ -10,8 +10,13 @@ import {
   CloudIcon,
   CogIcon,
   FolderIcon,
+  TrashIcon,
+  LinkIcon,
   ChartBarIcon,
+  ClockIcon,
+  StarIcon,
   XMarkIcon,
+  ArrowPathRoundedSquareIcon,
 } from "@heroicons/react/24/outline";
 
 interface DashboardSidebarProps {
@@ -22,7 +27,16 @@ interface DashboardSidebarProps {
 const navigation = [
   { name: "Overview", href: "/dashboard", icon: HomeIcon },
   { name: "Files", href: "/dashboard/files-s3", icon: FolderIcon },
+  { name: "Recent", href: "/dashboard/recent", icon: ClockIcon },
+  { name: "Starred", href: "/dashboard/starred", icon: StarIcon },
   { name: "Storage", href: "/dashboard/storage", icon: CloudIcon },
+  {
+    name: "Lifecycle",
+    href: "/dashboard/lifecycle",
+    icon: ArrowPathRoundedSquareIcon,
+  },
+  { name: "Shared Links", href: "/dashboard/shares", icon: LinkIcon },
+  { name: "Trash", href: "/dashboard/trash", icon: TrashIcon },
   { name: "Analytics", href: "/dashboard/analytics-s3", icon: ChartBarIcon },
   { name: "Settings", href: "/dashboard/settings", icon: CogIcon },
 ];
@@ -11,40 +11,55 @@ import {
 import Button from "@/components/ui/Button";
 import { Skeleton } from "@/components/ui/SkeletonLoader";
 import Image from "next/image";
+import MediaPlayer from "@/components/dashboard/MediaPlayer";
+import TextPreview from "@/components/dashboard/TextPreview";
+import type { FilePreview } from "@/services/s3PreviewOperations";
 import { logger } from "@/utils/logger";
 
 interface FilePreviewModalProps {
   isOpen: boolean;
   onClose: () => void;
   file: {
-    _id: string;
+    key: string;
     name: string;
     mimeType: string;
     size: number;
   } | null;
 }
 
+const isMediaType = (mimeType: string) =>
+  mimeType.startsWith("video/") || mimeType.startsWith("audio/");
+
 export default function FilePreviewModal({
   isOpen,
   onClose,
   file,
 }: FilePreviewModalProps) {
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [preview, setPreview] = useState<FilePreview | null>(null);
+  const [unsupported, setUnsupported] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const loadPreview = useCallback(async () => {
     if (!file) return;
 
+    // Media streams straight from the stream route
+    if (isMediaType(file.mimeType)) return;
+
     setLoading(true);
     setError(null);
+    setUnsupported(false);
 
     try {
-      const response = await fetch(`/api/files/${file._id}/preview`);
+      const response = await fetch(
+        `/api/s3-files/preview?key=${encodeURIComponent(file.key)}`
+      );
       const data = await response.json();
 
       if (data.success) {
-        setPreviewUrl(data.url);
+        setPreview(data.data);
+      } else if (response.status === 415) {
+        setUnsupported(true);
       } else {
         setError(data.message || "Failed to load preview");
       }
@@ -60,7 +75,8 @@ export default function FilePreviewModal({
     if (isOpen && file) {
       loadPreview();
     } else {
-      setPreviewUrl(null);
+      setPreview(null);
+      setUnsupported(false);
       setError(null);
     }
   }, [isOpen, file, loadPreview]);
@@ -69,7 +85,11 @@ export default function FilePreviewModal({
     if (!file) return;
 
     try {
-      const response = await fetch(`/api/files/${file._id}/download`);
+      const encodedKey = file.key
+        .split("/")
+        .map((segment) => encodeURIComponent(segment))
+        .join("/");
+      const response = await fetch(`/api/s3-files/download/${encodedKey}`);
       const data = await response.json();
 
       if (data.success && data.url) {
@@ -93,15 +113,6 @@ export default function FilePreviewModal({
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
   };
 
-  const isPreviewable = (mimeType: string) => {
-    return (
-      mimeType.startsWith("image/") ||
-      mimeType === "application/pdf" ||
-      mimeType.startsWith("text/") ||
-      mimeType === "application/json"
-    );
-  };
-
   if (!isOpen || !file) return null;
 
   return (
@@ -183,7 +194,7 @@ export default function FilePreviewModal({
                   Download File
                 </Button>
               </div>
-            ) : !isPreviewable(file.mimeType) ? (
+            ) : unsupported ? (
               <div className="flex flex-col items-center justify-center h-96 text-center">
                 <DocumentIcon className="h-16 w-16 text-gray-400 mb-4" />
                 <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
@@ -200,35 +211,48 @@ export default function FilePreviewModal({
                   Download File
                 </Button>
               </div>
-            ) : previewUrl ? (
-              <div className="max-h-96 overflow-auto rounded-lg border border-gray-200 dark:border-gray-700">
-                {file.mimeType.startsWith("image/") ? (
+            ) : isMediaType(file.mimeType) ? (
+              <MediaPlayer
+                key={file.key}
+                fileKey={file.key}
+                name={file.name}
+                mimeType={file.mimeType}
+              />
+            ) : preview?.type === "url" ? (
+              <div className="max-h-[70vh] overflow-auto rounded-lg border border-gray-200 dark:border-gray-700">
+                {preview.mimeType.startsWith("image/") ? (
                   <Image
-                    src={previewUrl}
+                    src={preview.url}
                     alt={file.name}
-                    className="w-full h-auto max-h-96 object-contain"
-                  />
-                ) : file.mimeType === "application/pdf" ? (
-                  <iframe
-                    src={previewUrl}
-                    className="w-full h-96"
-                    title={file.name}
+                    width={1280}
+                    height={960}
+                    unoptimized
+                    className="w-full h-auto max-h-[70vh] object-contain"
                   />
-                ) : file.mimeType.startsWith("text/") ||
-                  file.mimeType === "application/json" ? (
+                ) : (
                   <iframe
-                    src={previewUrl}
-                    className="w-full h-96"
+                    src={preview.url}
+                    className="w-full h-[70vh]"
                     title={file.name}
                   />
-                ) : (
-                  <div className="flex items-center justify-center h-96">
-                    <p className="text-gray-500 dark:text-gray-400">
-                      Unable to preview this file type
-                    </p>
-                  </div>
                 )}
               </div>
+            ) : preview?.type === "text" ? (
+              <div className="space-y-2">
+                <div className="max-h-[70vh] overflow-auto rounded-lg border border-gray-200 dark:border-gray-700">
+                  <TextPreview
+                    kind={preview.kind}
+                    content={preview.content}
+                    language={preview.language}
+                    truncated={preview.truncated}
+                  />
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {preview.truncated &&
+                    `Showing the start of this ${formatFileSize(preview.size)} file. Download it to see everything. `}
+                  Encoding: {preview.charset}
+                </p>
+              </div>
             ) : null}
           </div>
         </motion.div>
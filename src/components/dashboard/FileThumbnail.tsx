@@ -0,0 +1,53 @@
+"use client";
+
+import React, { useState } from "react";
+import Image from "next/image";
+
+interface FileThumbnailProps {
+  fileKey: string;
+  name: string;
+  lastModified: Date | string;
+  size: "small" | "medium" | "large";
+  pixels: number;
+  className?: string;
+  fallback: React.ReactNode;
+}
+
+/**
+ * Thumbnail served by the thumbnail route. The modified time is part of the
+ * URL so a browser-cached thumbnail is dropped when the file changes.
+ */
+export default function FileThumbnail({
+  fileKey,
+  name,
+  lastModified,
+  size,
+  pixels,
+  className,
+  fallback,
+}: FileThumbnailProps) {
+  const [failed, setFailed] = useState(false);
+
+  if (failed) {
+    return <>{fallback}</>;
+  }
+
+  const params = new URLSearchParams({
+    key: fileKey,
+    size,
+    v: String(new Date(lastModified).getTime()),
+  });
+
+  return (
+    <Image
+      src={`/api/s3-files/thumbnail?${params}`}
+      alt={name}
+      width={pixels}
+      height={pixels}
+      unoptimized
+      loading="lazy"
+      onError={() => setFailed(true)}
+      className={className}
+    />
+  );
+}
@@ -0,0 +1,313 @@
+"use client";
+
+import React from "react";
+import { PlusIcon, TrashIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import Card from "@/components/ui/Card";
+import Button from "@/components/ui/Button";
+import {
+  S3LifecycleRule,
+  S3TransitionStorageClass,
+} from "@/hooks/useS3Lifecycle";
+import { STORAGE_CLASS_OPTIONS } from "@/hooks/useS3StorageClass";
+
+/**
+ * A rule being edited; day counts are kept as typed so fields can be empty
+ */
+export interface LifecycleRuleDraft {
+  /** Stable React key, since the rule name can change */
+  draftId: string;
+  id: string;
+  enabled: boolean;
+  prefix: string;
+  transitions: { days: string; storageClass: S3TransitionStorageClass }[];
+  expirationDays: string;
+  noncurrentExpirationDays: string;
+  noncurrentVersionsToKeep: string;
+  abortIncompleteMultipartDays: string;
+}
+
+interface LifecycleRuleFormProps {
+  rule: LifecycleRuleDraft;
+  onChange: (rule: LifecycleRuleDraft) => void;
+  onRemove: () => void;
+  disabled?: boolean;
+}
+
+const TRANSITION_OPTIONS = STORAGE_CLASS_OPTIONS.filter(
+  (option) => option.value !== "STANDARD"
+) as { value: S3TransitionStorageClass; label: string }[];
+
+const inputClassName =
+  "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent";
+
+const labelClassName =
+  "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+let nextDraftId = 0;
+
+export function createRuleDraft(rule?: S3LifecycleRule): LifecycleRuleDraft {
+  const toText = (value?: number) => (value === undefined ? "" : `${value}`);
+  nextDraftId++;
+
+  return {
+    draftId: `rule-${nextDraftId}`,
+    id: rule?.id || "",
+    enabled: rule?.enabled ?? true,
+    prefix: rule?.prefix || "",
+    transitions: (rule?.transitions || []).map((transition) => ({
+      days: `${transition.days}`,
+      storageClass: transition.storageClass,
+    })),
+    expirationDays: toText(rule?.expirationDays),
+    noncurrentExpirationDays: toText(rule?.noncurrentExpirationDays),
+    noncurrentVersionsToKeep: toText(rule?.noncurrentVersionsToKeep),
+    abortIncompleteMultipartDays: toText(rule?.abortIncompleteMultipartDays),
+  };
+}
+
+/**
+ * Turn a draft back into a rule; empty fields leave the action out
+ */
+export function toLifecycleRule(draft: LifecycleRuleDraft): S3LifecycleRule {
+  const toNumber = (value: string) =>
+    value.trim() === "" ? undefined : Number(value);
+
+  return {
+    id: draft.id.trim(),
+    enabled: draft.enabled,
+    prefix: draft.prefix.trim(),
+    transitions: draft.transitions.map((transition) => ({
+      days: Number(transition.days),
+      storageClass: transition.storageClass,
+    })),
+    expirationDays: toNumber(draft.expirationDays),
+    noncurrentExpirationDays: toNumber(draft.noncurrentExpirationDays),
+    noncurrentVersionsToKeep: toNumber(draft.noncurrentVersionsToKeep),
+    abortIncompleteMultipartDays: toNumber(draft.abortIncompleteMultipartDays),
+  };
+}
+
+export default function LifecycleRuleForm({
+  rule,
+  onChange,
+  onRemove,
+  disabled = false,
+}: LifecycleRuleFormProps) {
+  const update = (changes: Partial<LifecycleRuleDraft>) =>
+    onChange({ ...rule, ...changes });
+
+  const unusedClasses = TRANSITION_OPTIONS.filter(
+    (option) =>
+      !rule.transitions.some(
+        (transition) => transition.storageClass === option.value
+      )
+  );
+
+  const updateTransition = (
+    index: number,
+    changes: Partial<LifecycleRuleDraft["transitions"][number]>
+  ) =>
+    update({
+      transitions: rule.transitions.map((transition, i) =>
+        i === index ? { ...transition, ...changes } : transition
+      ),
+    });
+
+  return (
+    <Card className="p-6">
+      <fieldset disabled={disabled} className="space-y-5">
+        {/* Name and status */}
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+          <div className="flex-1">
+            <label className={labelClassName}>Rule name</label>
+            <input
+              type="text"
+              value={rule.id}
+              onChange={(e) => update({ id: e.target.value })}
+              placeholder="e.g. archive-old-photos"
+              maxLength={64}
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex-1">
+            <label className={labelClassName}>Folder</label>
+            <input
+              type="text"
+              value={rule.prefix}
+              onChange={(e) => update({ prefix: e.target.value })}
+              placeholder="Empty for all files, e.g. photos/2024"
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex items-center gap-4">
+            <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={(e) => update({ enabled: e.target.checked })}
+                className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+              />
+              <span>Enabled</span>
+            </label>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onRemove}
+              leftIcon={<TrashIcon className="h-4 w-4" />}
+              className="text-red-600 dark:text-red-400"
+            >
+              Remove
+            </Button>
+          </div>
+        </div>
+
+        {/* Transitions */}
+        <div>
+          <p className={labelClassName}>Transitions</p>
+          {rule.transitions.length === 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+              Files stay in their current storage class.
+            </p>
+          )}
+          <div className="space-y-2">
+            {rule.transitions.map((transition, index) => (
+              <div key={index} className="flex items-center gap-2 text-sm">
+                <span className="text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                  After
+                </span>
+                <input
+                  type="number"
+                  min={1}
+                  value={transition.days}
+                  onChange={(e) =>
+                    updateTransition(index, { days: e.target.value })
+                  }
+                  className={`${inputClassName} w-24`}
+                />
+                <span className="text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                  days move to
+                </span>
+                <select
+                  value={transition.storageClass}
+                  onChange={(e) =>
+                    updateTransition(index, {
+                      storageClass: e.target.value as S3TransitionStorageClass,
+                    })
+                  }
+                  className={inputClassName}
+                >
+                  {TRANSITION_OPTIONS.filter(
+                    (option) =>
+                      option.value === transition.storageClass ||
+                      unusedClasses.includes(option)
+                  ).map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() =>
+                    update({
+                      transitions: rule.transitions.filter(
+                        (_, i) => i !== index
+                      ),
+                    })
+                  }
+                  title="Remove transition"
+                  className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                >
+                  <XMarkIcon className="h-5 w-5" />
+                </button>
+              </div>
+            ))}
+          </div>
+          {unusedClasses.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="mt-2"
+              onClick={() =>
+                update({
+                  transitions: [
+                    ...rule.transitions,
+                    { days: "30", storageClass: unusedClasses[0].value },
+                  ],
+                })
+              }
+              leftIcon={<PlusIcon className="h-4 w-4" />}
+            >
+              Add Transition
+            </Button>
+          )}
+        </div>
+
+        {/* Cleanup */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className={labelClassName}>Delete files after (days)</label>
+            <input
+              type="number"
+              min={1}
+              value={rule.expirationDays}
+              onChange={(e) => update({ expirationDays: e.target.value })}
+              placeholder="Never"
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className={labelClassName}>
+              Abort unfinished uploads after (days)
+            </label>
+            <input
+              type="number"
+              min={1}
+              value={rule.abortIncompleteMultipartDays}
+              onChange={(e) =>
+                update({ abortIncompleteMultipartDays: e.target.value })
+              }
+              placeholder="Never"
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className={labelClassName}>
+              Delete old versions after (days)
+            </label>
+            <input
+              type="number"
+              min={1}
+              value={rule.noncurrentExpirationDays}
+              onChange={(e) =>
+                update({ noncurrentExpirationDays: e.target.value })
+              }
+              placeholder="Never"
+              className={inputClassName}
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Counted from when a newer version replaced them. Only applies with
+              versioning.
+            </p>
+          </div>
+          <div>
+            <label className={labelClassName}>
+              Always keep the newest old versions
+            </label>
+            <input
+              type="number"
+              min={1}
+              max={100}
+              value={rule.noncurrentVersionsToKeep}
+              onChange={(e) =>
+                update({ noncurrentVersionsToKeep: e.target.value })
+              }
+              placeholder="None"
+              className={inputClassName}
+            />
+          </div>
+        </div>
+      </fieldset>
+    </Card>
+  );
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import React, { useState } from "react";
+import { MusicalNoteIcon } from "@heroicons/react/24/outline";
+
+interface MediaPlayerProps {
+  fileKey: string;
+  name: string;
+  mimeType: string;
+  onError?: () => void;
+}
+
+/**
+ * Plays video and audio through the stream route, which forwards Range
+ * requests to S3 so seeking only fetches the part being watched
+ */
+export default function MediaPlayer({
+  fileKey,
+  name,
+  mimeType,
+  onError,
+}: MediaPlayerProps) {
+  const [failed, setFailed] = useState(false);
+  const params = new URLSearchParams({ key: fileKey });
+  const streamUrl = `/api/s3-files/stream?${params}`;
+
+  const handleError = () => {
+    setFailed(true);
+    onError?.();
+  };
+
+  if (failed) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <p className="text-gray-500 dark:text-gray-400">
+          This file cannot be played in your browser
+        </p>
+      </div>
+    );
+  }
+
+  if (mimeType.startsWith("audio/")) {
+    return (
+      <div className="flex flex-col items-center justify-center space-y-6 py-12">
+        <MusicalNoteIcon className="h-16 w-16 text-primary-500" />
+        <p className="text-sm text-gray-600 dark:text-gray-400 truncate max-w-full">
+          {name}
+        </p>
+        <audio
+          controls
+          preload="metadata"
+          src={streamUrl}
+          onError={handleError}
+          className="w-full"
+        >
+          Your browser does not support audio playback.
+        </audio>
+      </div>
+    );
+  }
+
+  return (
+    <video
+      controls
+      playsInline
+      preload="metadata"
+      src={streamUrl}
+      poster={`/api/s3-files/poster?${params}`}
+      onError={handleError}
+      className="w-full max-h-[70vh] rounded-lg bg-black"
+    >
+      Your browser does not support video playback.
+    </video>
+  );
+}
@@ -0,0 +1,181 @@
+"use client";
+
+import React, { useState } from "react";
+import { motion } from "framer-motion";
+import {
+  XMarkIcon,
+  FolderIcon,
+  TagIcon,
+  DocumentDuplicateIcon,
+} from "@heroicons/react/24/outline";
+import Button from "@/components/ui/Button";
+
+interface S3BatchActionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  action: "move" | "copy" | "tag";
+  itemCount: number;
+  currentPath: string;
+  onConfirm: (value: string) => Promise<void>;
+}
+
+export default function S3BatchActionModal({
+  isOpen,
+  onClose,
+  action,
+  itemCount,
+  currentPath,
+  onConfirm,
+}: S3BatchActionModalProps) {
+  const [value, setValue] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  const isTag = action === "tag";
+  const title = isTag
+    ? `Tag ${itemCount} item${itemCount === 1 ? "" : "s"}`
+    : `${action === "move" ? "Move" : "Copy"} ${itemCount} item${
+        itemCount === 1 ? "" : "s"
+      }`;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const trimmedValue = value.trim();
+    if (isTag && !trimmedValue) {
+      setError("Enter at least one tag");
+      return;
+    }
+
+    if (!isTag && /[<>:"\\|?*]/.test(trimmedValue)) {
+      setError("Destination path contains invalid characters");
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError("");
+
+    try {
+      await onConfirm(trimmedValue);
+      setValue("");
+      onClose();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSubmitting) {
+      setValue("");
+      setError("");
+      onClose();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-md bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="backdrop-blur-md rounded-lg shadow-xl w-full max-w-md"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold text-white">{title}</h2>
+          <button
+            onClick={handleClose}
+            disabled={isSubmitting}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 disabled:opacity-50"
+          >
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {!isTag && (
+            <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+              <div className="flex items-center">
+                <FolderIcon className="h-5 w-5 text-primary-500 mr-2" />
+                <span className="text-sm text-gray-600 dark:text-gray-400">
+                  Current folder: {currentPath || "root"}
+                </span>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label
+              htmlFor="batchActionValue"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+            >
+              {isTag ? "Tags" : "Destination Folder"}
+            </label>
+            <input
+              id="batchActionValue"
+              type="text"
+              value={value}
+              onChange={(e) => {
+                setValue(e.target.value);
+                setError("");
+              }}
+              placeholder={isTag ? "e.g. invoices, 2024" : "e.g. /archive/2024"}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-500 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              disabled={isSubmitting}
+              autoFocus
+            />
+            {error && (
+              <p className="mt-2 text-sm text-red-600 dark:text-red-400">
+                {error}
+              </p>
+            )}
+          </div>
+
+          <div className="text-xs text-gray-500 dark:text-gray-400 space-y-1">
+            {isTag ? (
+              <p>• Separate tags with commas. Folders are skipped.</p>
+            ) : (
+              <p>• Leave empty to use the root folder</p>
+            )}
+          </div>
+
+          {/* Actions */}
+          <div className="flex items-center justify-end gap-3 pt-4">
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={handleClose}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              variant="primary"
+              disabled={(isTag && !value.trim()) || isSubmitting}
+              loading={isSubmitting}
+              leftIcon={
+                isTag ? (
+                  <TagIcon className="h-4 w-4" />
+                ) : (
+                  <DocumentDuplicateIcon className="h-4 w-4" />
+                )
+              }
+            >
+              {isSubmitting
+                ? "Working..."
+                : isTag
+                  ? "Apply Tags"
+                  : action === "move"
+                    ? "Move"
+                    : "Copy"}
+            </Button>
+          </div>
+        </form>
+      </motion.div>
+    </div>
+  );
+}
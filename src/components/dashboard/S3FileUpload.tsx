@@ -1,17 +1,39 @@
 "use client";
 
-import React, { useState, useRef, useCallback } from "react";
+import React, {
+  useState,
+  useRef,
+  useCallback,
+  useEffect,
+  useMemo,
+} from "react";
 import { motion } from "framer-motion";
 import {
   ArrowUpTrayIcon,
   XMarkIcon,
   DocumentIcon,
+  FolderIcon,
   CheckCircleIcon,
   ExclamationCircleIcon,
 } from "@heroicons/react/24/outline";
 import Button from "@/components/ui/Button";
 import ProgressBar from "@/components/ui/ProgressBar";
 import { logger } from "@/utils/logger";
+import {
+  MULTIPART_THRESHOLD,
+  PendingUpload,
+  discardPendingUpload,
+  getPendingUploads,
+  uploadFileMultipart,
+} from "@/utils/multipartUpload";
+import {
+  FileWithPath,
+  collectDroppedFiles,
+  collectInputFiles,
+  joinUploadPath,
+} from "@/utils/folderUpload";
+
+const MAX_CONCURRENT_UPLOADS = 4;
 
 interface S3FileUploadProps {
   isOpen: boolean;
@@ -22,6 +44,7 @@ interface S3FileUploadProps {
 
 interface UploadFile {
   file: File;
+  relativeDir: string;
   id: string;
   progress: number;
   status: "pending" | "uploading" | "success" | "error";
@@ -37,13 +60,33 @@ export default function S3FileUpload({
   const [uploadFiles, setUploadFiles] = useState<UploadFile[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [dragOver, setDragOver] = useState(false);
+  const [pendingUploads, setPendingUploads] = useState<PendingUpload[]>([]);
+  const [emptyDirs, setEmptyDirs] = useState<string[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setPendingUploads(getPendingUploads());
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    // React does not know the non-standard directory attributes
+    folderInputRef.current?.setAttribute("webkitdirectory", "");
+    folderInputRef.current?.setAttribute("directory", "");
+  }, [isOpen]);
 
-  const handleFileSelect = useCallback((files: FileList | null) => {
-    if (!files) return;
+  const handleDiscardPending = useCallback(async (upload: PendingUpload) => {
+    await discardPendingUpload(upload);
+    setPendingUploads(getPendingUploads());
+  }, []);
 
-    const newFiles: UploadFile[] = Array.from(files).map((file) => ({
+  const handleFileSelect = useCallback((files: FileWithPath[]) => {
+    const newFiles: UploadFile[] = files.map(({ file, relativeDir }) => ({
       file,
+      relativeDir,
       id: Math.random().toString(36).substr(2, 9),
       progress: 0,
       status: "pending",
@@ -52,11 +95,29 @@ export default function S3FileUpload({
     setUploadFiles((prev) => [...prev, ...newFiles]);
   }, []);
 
+  const handleInputChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      if (e.target.files) {
+        handleFileSelect(collectInputFiles(e.target.files));
+      }
+      e.target.value = "";
+    },
+    [handleFileSelect]
+  );
+
   const handleDrop = useCallback(
-    (e: React.DragEvent) => {
+    async (e: React.DragEvent) => {
       e.preventDefault();
       setDragOver(false);
-      handleFileSelect(e.dataTransfer.files);
+      try {
+        const dropped = await collectDroppedFiles(e.dataTransfer);
+        handleFileSelect(dropped.files);
+        if (dropped.emptyDirs.length > 0) {
+          setEmptyDirs((prev) => [...prev, ...dropped.emptyDirs]);
+        }
+      } catch (error) {
+        logger.error("Could not read dropped items:", error);
+      }
     },
     [handleFileSelect]
   );
@@ -83,101 +144,215 @@ export default function S3FileUpload({
       prev.map((f) => ({ ...f, status: "uploading" as const }))
     );
 
-    const uploadPromises = uploadFiles.map((uploadFile) => {
-      return new Promise(async (resolve, reject) => {
-        try {
-          const presignedUrlResponse = await fetch(
-            "/api/s3-files/presigned-url",
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                fileName: uploadFile.file.name,
-                fileType: uploadFile.file.type,
-                fileSize: uploadFile.file.size,
-                path: currentPath,
-              }),
-            }
-          );
-
-          if (!presignedUrlResponse.ok) {
-            const errorData = await presignedUrlResponse.json();
-            throw new Error(
-              errorData.message || "Failed to get pre-signed URL"
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    const setProgress = (id: string, progress: number) => {
+      setUploadFiles((prev) =>
+        prev.map((f) => (f.id === id ? { ...f, progress } : f))
+      );
+    };
+
+    const folders = Array.from(
+      new Set([
+        ...uploadFiles.map((f) => f.relativeDir).filter(Boolean),
+        ...emptyDirs,
+      ])
+    );
+
+    let folderCreationFailed = false;
+    if (folders.length > 0) {
+      try {
+        const response = await fetch("/api/s3-folders/tree", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ folders, parentPath: currentPath }),
+        });
+        const result = await response.json();
+        if (!result.success) {
+          throw new Error(result.message || "Failed to create folders");
+        }
+      } catch (error) {
+        logger.error("Folder structure creation failed:", error);
+        folderCreationFailed = true;
+        setUploadFiles((prev) =>
+          prev.map((f) =>
+            f.relativeDir
+              ? {
+                  ...f,
+                  status: "error" as const,
+                  error:
+                    error instanceof Error
+                      ? error.message
+                      : "Failed to create folders",
+                }
+              : f
+          )
+        );
+      }
+    }
+
+    const uploadSingle = async (uploadFile: UploadFile, path: string) => {
+      const presignedUrlResponse = await fetch("/api/s3-files/presigned-url", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          fileName: uploadFile.file.name,
+          fileType: uploadFile.file.type,
+          fileSize: uploadFile.file.size,
+          path,
+        }),
+      });
+
+      if (!presignedUrlResponse.ok) {
+        const errorData = await presignedUrlResponse.json();
+        throw new Error(errorData.message || "Failed to get pre-signed URL");
+      }
+
+      const { data } = await presignedUrlResponse.json();
+      const { url, fields } = data as {
+        url: string;
+        fields: Record<string, string>;
+      };
+
+      // The file has to be the last field of a presigned POST
+      const formData = new FormData();
+      Object.entries(fields).forEach(([name, value]) =>
+        formData.append(name, value)
+      );
+      formData.append("file", uploadFile.file);
+
+      await new Promise((resolve, reject) => {
+        const xhr = new XMLHttpRequest();
+        xhr.open("POST", url, true);
+
+        xhr.upload.onprogress = (event) => {
+          if (event.lengthComputable) {
+            setProgress(
+              uploadFile.id,
+              Math.round((event.loaded / event.total) * 100)
             );
           }
+        };
+
+        xhr.onload = () => {
+          if (xhr.status >= 200 && xhr.status < 300) {
+            resolve(xhr.response);
+          } else {
+            const code = /<Code>([^<]+)<\/Code>/.exec(xhr.responseText)?.[1];
+            reject(
+              new Error(
+                code === "EntityTooLarge"
+                  ? "File is larger than the allowed upload limit"
+                  : "S3 upload failed"
+              )
+            );
+          }
+        };
 
-          const { data } = await presignedUrlResponse.json();
-          const { url } = data;
-
-          const xhr = new XMLHttpRequest();
-          xhr.open("PUT", url, true);
-          xhr.setRequestHeader("Content-Type", uploadFile.file.type);
-
-          xhr.upload.onprogress = (event) => {
-            if (event.lengthComputable) {
-              const progress = Math.round((event.loaded / event.total) * 100);
-              setUploadFiles((prev) =>
-                prev.map((f) =>
-                  f.id === uploadFile.id ? { ...f, progress } : f
-                )
-              );
-            }
-          };
-
-          xhr.onload = () => {
-            if (xhr.status === 200) {
-              setUploadFiles((prev) =>
-                prev.map((f) =>
-                  f.id === uploadFile.id
-                    ? { ...f, status: "success" as const, progress: 100 }
-                    : f
-                )
-              );
-              resolve(xhr.response);
-            } else {
-              reject(new Error("S3 upload failed"));
-            }
-          };
-
-          xhr.onerror = () => {
-            reject(new Error("S3 upload failed"));
-          };
-
-          xhr.send(uploadFile.file);
-        } catch (error) {
-          logger.error("Upload error:", error);
-          setUploadFiles((prev) =>
-            prev.map((f) =>
-              f.id === uploadFile.id
-                ? {
-                    ...f,
-                    status: "error" as const,
-                    error:
-                      error instanceof Error ? error.message : "Upload failed",
-                  }
-                : f
-            )
-          );
-          reject(error);
-        }
+        xhr.onerror = () => {
+          reject(new Error("S3 upload failed"));
+        };
+
+        abortController.signal.addEventListener("abort", () => xhr.abort());
+        xhr.onabort = () => reject(new Error("Upload cancelled"));
+
+        xhr.send(formData);
       });
-    });
 
-    try {
-      await Promise.all(uploadPromises);
-    } catch (error) {
-      logger.error("One or more uploads failed", error);
-    }
+      // Lets the server record metadata and render thumbnails
+      try {
+        await fetch("/api/s3-files/upload-complete", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ key: data.key }),
+        });
+      } catch (error) {
+        logger.warn("Could not record completed upload:", error);
+      }
+    };
+
+    const uploadOne = async (uploadFile: UploadFile) => {
+      const path = joinUploadPath(currentPath, uploadFile.relativeDir);
+      try {
+        if (uploadFile.file.size >= MULTIPART_THRESHOLD) {
+          await uploadFileMultipart(uploadFile.file, path, {
+            signal: abortController.signal,
+            onProgress: (progress) => setProgress(uploadFile.id, progress),
+          });
+        } else {
+          await uploadSingle(uploadFile, path);
+        }
+
+        setUploadFiles((prev) =>
+          prev.map((f) =>
+            f.id === uploadFile.id
+              ? { ...f, status: "success" as const, progress: 100 }
+              : f
+          )
+        );
+      } catch (error) {
+        logger.error("Upload error:", error);
+        setUploadFiles((prev) =>
+          prev.map((f) =>
+            f.id === uploadFile.id
+              ? {
+                  ...f,
+                  status: "error" as const,
+                  error:
+                    error instanceof Error ? error.message : "Upload failed",
+                }
+              : f
+          )
+        );
+        throw error;
+      }
+    };
+
+    const queue = uploadFiles.filter(
+      (f) => !(folderCreationFailed && f.relativeDir)
+    );
+    const worker = async () => {
+      while (queue.length > 0 && !abortController.signal.aborted) {
+        const uploadFile = queue.shift()!;
+        try {
+          await uploadOne(uploadFile);
+        } catch (error) {
+          logger.error("One or more uploads failed", error);
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from(
+        { length: Math.min(MAX_CONCURRENT_UPLOADS, queue.length) },
+        worker
+      )
+    );
 
     setIsUploading(false);
+    abortControllerRef.current = null;
+
+    if (abortController.signal.aborted) {
+      setPendingUploads(getPendingUploads());
+      return;
+    }
 
     setTimeout(() => {
       onUploadComplete();
       onClose();
       setUploadFiles([]);
+      setEmptyDirs([]);
     }, 1500);
-  }, [uploadFiles, currentPath, onUploadComplete, onClose]);
+  }, [uploadFiles, emptyDirs, currentPath, onUploadComplete, onClose]);
+
+  const handleCancel = useCallback(() => {
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort();
+      return;
+    }
+    onClose();
+  }, [onClose]);
 
   const getStatusIcon = (status: UploadFile["status"]) => {
     switch (status) {
@@ -198,6 +373,46 @@ export default function S3FileUpload({
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
   };
 
+  const folderGroups = useMemo(() => {
+    const groups = new Map<
+      string,
+      {
+        total: number;
+        done: number;
+        failed: number;
+        bytes: number;
+        loaded: number;
+      }
+    >();
+    for (const uploadFile of uploadFiles) {
+      if (!uploadFile.relativeDir) continue;
+      const group = groups.get(uploadFile.relativeDir) || {
+        total: 0,
+        done: 0,
+        failed: 0,
+        bytes: 0,
+        loaded: 0,
+      };
+      group.total++;
+      group.bytes += uploadFile.file.size;
+      group.loaded += (uploadFile.file.size * uploadFile.progress) / 100;
+      if (uploadFile.status === "success") group.done++;
+      if (uploadFile.status === "error") group.failed++;
+      groups.set(uploadFile.relativeDir, group);
+    }
+    return Array.from(groups.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([dir, group]) => ({
+        dir,
+        ...group,
+        progress: group.bytes
+          ? Math.round((group.loaded / group.bytes) * 100)
+          : group.done === group.total
+            ? 100
+            : 0,
+      }));
+  }, [uploadFiles]);
+
   if (!isOpen) return null;
 
   return (
@@ -237,7 +452,7 @@ export default function S3FileUpload({
             <ArrowUpTrayIcon className="mx-auto h-12 w-12 text-gray-400 mb-4" />
             <div>
               <p className="text-lg font-medium text-white mb-2">
-                Drop files here or click to browse
+                Drop files or folders here or click to browse
               </p>
               <p className="text-gray-500 dark:text-gray-400 mb-4">
                 Upload to:{" "}
@@ -254,17 +469,116 @@ export default function S3FileUpload({
                   Choose Files
                 </span>
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => folderInputRef.current?.click()}
+                className="ml-3"
+              >
+                <span className="flex items-center">
+                  <FolderIcon className="h-4 w-4 mr-2" />
+                  Choose Folder
+                </span>
+              </Button>
             </div>
 
             <input
               ref={fileInputRef}
               type="file"
               multiple
-              onChange={(e) => handleFileSelect(e.target.files)}
+              onChange={handleInputChange}
+              className="hidden"
+            />
+            <input
+              ref={folderInputRef}
+              type="file"
+              multiple
+              onChange={handleInputChange}
               className="hidden"
             />
           </div>
 
+          {/* Unfinished Uploads */}
+          {pendingUploads.length > 0 && (
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium text-gray-900 dark:text-white">
+                Unfinished Uploads ({pendingUploads.length})
+              </h3>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Select the same file again in its original folder to resume
+                where it stopped.
+              </p>
+              <div className="space-y-2 max-h-40 overflow-y-auto">
+                {pendingUploads.map((upload) => (
+                  <div
+                    key={upload.fingerprint}
+                    className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700 rounded-lg"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                        {upload.fileName}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {formatFileSize(upload.fileSize)} •{" "}
+                        {upload.path
+                          ? `/${upload.path.replace(/^\/+/, "")}`
+                          : "/root"}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleDiscardPending(upload)}
+                      disabled={isUploading}
+                      className="ml-3 text-xs text-gray-400 hover:text-red-500"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Folder Progress */}
+          {folderGroups.length > 0 && (
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium text-gray-900 dark:text-white">
+                Folders ({folderGroups.length})
+              </h3>
+              <div className="space-y-2 max-h-40 overflow-y-auto">
+                {folderGroups.map((group) => (
+                  <div
+                    key={group.dir}
+                    className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700 rounded-lg"
+                  >
+                    <div className="flex items-center flex-1 min-w-0">
+                      <FolderIcon className="h-5 w-5 text-primary-500" />
+                      <div className="ml-3 flex-1 min-w-0">
+                        <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                          {group.dir}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {group.done}/{group.total} files •{" "}
+                          {formatFileSize(group.bytes)}
+                          {group.failed > 0 && (
+                            <span className="text-red-500">
+                              {" "}
+                              • {group.failed} failed
+                            </span>
+                          )}
+                        </p>
+                      </div>
+                    </div>
+                    {isUploading && (
+                      <div className="ml-3 w-20">
+                        <ProgressBar progress={group.progress} size="sm" />
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* File List */}
           {uploadFiles.length > 0 && (
             <div className="space-y-3">
@@ -284,6 +598,9 @@ export default function S3FileUpload({
                           {uploadFile.file.name}
                         </p>
                         <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {uploadFile.relativeDir
+                            ? `${uploadFile.relativeDir}/ • `
+                            : ""}
                           {formatFileSize(uploadFile.file.size)}
                         </p>
                         {uploadFile.error && (
@@ -317,8 +634,8 @@ export default function S3FileUpload({
 
         {/* Footer */}
         <div className="flex items-center justify-end gap-3 p-6 border-t border-gray-200 dark:border-gray-700">
-          <Button variant="ghost" onClick={onClose} disabled={isUploading}>
-            Cancel
+          <Button variant="ghost" onClick={handleCancel}>
+            {isUploading ? "Pause" : "Cancel"}
           </Button>
           <Button
             variant="primary"
@@ -0,0 +1,181 @@
+"use client";
+
+import React, { useEffect } from "react";
+import { motion } from "framer-motion";
+import { XMarkIcon, FolderIcon } from "@heroicons/react/24/outline";
+import Button from "@/components/ui/Button";
+import S3FolderTreemap from "@/components/dashboard/S3FolderTreemap";
+import { useS3FolderStats } from "@/hooks/useS3FolderStats";
+
+interface S3FolderDetailsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  folder: { name: string; path: string } | null;
+  onOpenFolder: (path: string) => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes === 0) return "0 Bytes";
+  const k = 1024;
+  const sizes = ["Bytes", "KB", "MB", "GB", "TB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+};
+
+export default function S3FolderDetailsPanel({
+  isOpen,
+  onClose,
+  folder,
+  onOpenFolder,
+}: S3FolderDetailsPanelProps) {
+  const { stats, loading, error, loadStats } = useS3FolderStats();
+
+  useEffect(() => {
+    if (isOpen && folder) {
+      loadStats(folder.path);
+    }
+  }, [isOpen, folder, loadStats]);
+
+  if (!isOpen || !folder) return null;
+
+  const handleOpenFolder = (path: string) => {
+    onClose();
+    onOpenFolder(path);
+  };
+
+  // Stats come back for the normalized path, e.g. "/photos" for "photos/"
+  const folderPath = "/" + folder.path.split("/").filter(Boolean).join("/");
+  const current = stats && stats.path === folderPath ? stats : null;
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-md bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="backdrop-blur-md rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold text-white">Folder Details</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+          >
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Folder Info */}
+          <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+            <div className="flex items-center">
+              <FolderIcon className="h-5 w-5 text-primary-500 mr-2" />
+              <span className="text-sm text-gray-600 dark:text-gray-400 truncate">
+                {folder.path}
+              </span>
+            </div>
+          </div>
+
+          {error ? (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            </div>
+          ) : loading || !current ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Calculating folder size...
+            </p>
+          ) : (
+            <>
+              <dl className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                {[
+                  {
+                    label: "Total size",
+                    value: formatBytes(current.totalSize),
+                  },
+                  { label: "Files", value: current.fileCount.toString() },
+                  {
+                    label: "Subfolders",
+                    value: current.folderCount.toString(),
+                  },
+                  {
+                    label: "Last modified",
+                    value: current.lastModified
+                      ? new Date(current.lastModified).toLocaleDateString()
+                      : "—",
+                  },
+                ].map((item) => (
+                  <div key={item.label}>
+                    <dt className="text-xs text-gray-500 dark:text-gray-400">
+                      {item.label}
+                    </dt>
+                    <dd className="text-sm font-medium text-gray-900 dark:text-white">
+                      {item.value}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+
+              {current.children.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Largest subfolders
+                  </h3>
+                  <ul className="space-y-2">
+                    {current.children.slice(0, 5).map((child) => (
+                      <li key={child.path}>
+                        <button
+                          type="button"
+                          onClick={() => handleOpenFolder(child.path)}
+                          className="w-full text-left"
+                        >
+                          <div className="flex justify-between text-sm">
+                            <span className="text-gray-900 dark:text-white truncate">
+                              {child.name}
+                            </span>
+                            <span className="text-gray-500 dark:text-gray-400 ml-2 flex-shrink-0">
+                              {formatBytes(child.size)} · {child.fileCount}{" "}
+                              {child.fileCount === 1 ? "file" : "files"}
+                            </span>
+                          </div>
+                          <div className="mt-1 h-1.5 rounded-full bg-gray-200 dark:bg-gray-700">
+                            <div
+                              className="h-1.5 rounded-full bg-primary-500"
+                              style={{
+                                width: `${
+                                  current.totalSize > 0
+                                    ? (child.size / current.totalSize) * 100
+                                    : 0
+                                }%`,
+                              }}
+                            />
+                          </div>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Storage map
+                </h3>
+                <S3FolderTreemap
+                  stats={current}
+                  onOpenFolder={handleOpenFolder}
+                />
+              </div>
+            </>
+          )}
+
+          <div className="flex justify-end">
+            <Button variant="outline" onClick={onClose}>
+              Close
+            </Button>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
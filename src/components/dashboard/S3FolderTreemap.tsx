@@ -0,0 +1,223 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { FolderStats } from "@/hooks/useS3FolderStats";
+
+interface S3FolderTreemapProps {
+  stats: FolderStats;
+  onOpenFolder: (path: string) => void;
+}
+
+interface TreemapTile {
+  label: string;
+  size: number;
+  fileCount: number;
+  /** Set for subfolders, which open when clicked */
+  path?: string;
+}
+
+interface TreemapRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Beyond this many subfolders the smallest are merged into one tile
+const MAX_TILES = 30;
+// Layout space, in the same 16:9 ratio as the container
+const LAYOUT_WIDTH = 160;
+const LAYOUT_HEIGHT = 90;
+
+const TILE_COLORS = [
+  "bg-primary-500",
+  "bg-blue-500",
+  "bg-emerald-500",
+  "bg-amber-500",
+  "bg-rose-500",
+  "bg-violet-500",
+  "bg-cyan-500",
+  "bg-lime-600",
+];
+
+const formatBytes = (bytes: number) => {
+  if (bytes === 0) return "0 Bytes";
+  const k = 1024;
+  const sizes = ["Bytes", "KB", "MB", "GB", "TB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+};
+
+/**
+ * Highest aspect ratio in a row of areas laid along a side of the given
+ * length; lower is closer to square
+ */
+const worstRatio = (row: number[], length: number) => {
+  const sum = row.reduce((total, area) => total + area, 0);
+  const max = Math.max(...row);
+  const min = Math.min(...row);
+  return Math.max(
+    (length * length * max) / (sum * sum),
+    (sum * sum) / (length * length * min)
+  );
+};
+
+/**
+ * Squarified treemap layout: areas (sorted largest first) are added to a
+ * row along the shorter side while that keeps the tiles closer to square
+ */
+const squarify = (values: number[], width: number, height: number) => {
+  const total = values.reduce((sum, value) => sum + value, 0);
+  const areas = values.map((value) => (value / total) * width * height);
+  const rects: TreemapRect[] = [];
+  let x = 0;
+  let y = 0;
+  let freeWidth = width;
+  let freeHeight = height;
+  let row: number[] = [];
+
+  const layoutRow = () => {
+    const sum = row.reduce((total, area) => total + area, 0);
+    if (freeWidth >= freeHeight) {
+      const columnWidth = sum / freeHeight;
+      let offset = y;
+      for (const area of row) {
+        const tileHeight = area / columnWidth;
+        rects.push({ x, y: offset, width: columnWidth, height: tileHeight });
+        offset += tileHeight;
+      }
+      x += columnWidth;
+      freeWidth -= columnWidth;
+    } else {
+      const rowHeight = sum / freeWidth;
+      let offset = x;
+      for (const area of row) {
+        const tileWidth = area / rowHeight;
+        rects.push({ x: offset, y, width: tileWidth, height: rowHeight });
+        offset += tileWidth;
+      }
+      y += rowHeight;
+      freeHeight -= rowHeight;
+    }
+    row = [];
+  };
+
+  for (let i = 0; i < areas.length;) {
+    const length = Math.min(freeWidth, freeHeight);
+    if (
+      row.length === 0 ||
+      worstRatio([...row, areas[i]], length) <= worstRatio(row, length)
+    ) {
+      row.push(areas[i]);
+      i++;
+    } else {
+      layoutRow();
+    }
+  }
+  if (row.length > 0) layoutRow();
+
+  return rects;
+};
+
+/**
+ * Treemap of where a folder's storage goes: one tile per subfolder, sized
+ * by everything inside it, plus one for the files directly in the folder
+ */
+export default function S3FolderTreemap({
+  stats,
+  onOpenFolder,
+}: S3FolderTreemapProps) {
+  const tiles = useMemo(() => {
+    const sized = stats.children.filter((child) => child.size > 0);
+    const result: TreemapTile[] = sized.slice(0, MAX_TILES).map((child) => ({
+      label: child.name,
+      size: child.size,
+      fileCount: child.fileCount,
+      path: child.path,
+    }));
+
+    const rest = sized.slice(MAX_TILES);
+    if (rest.length > 0) {
+      result.push({
+        label: `${rest.length} more folders`,
+        size: rest.reduce((sum, child) => sum + child.size, 0),
+        fileCount: rest.reduce((sum, child) => sum + child.fileCount, 0),
+      });
+    }
+    if (stats.directSize > 0) {
+      result.push({
+        label: "Files in this folder",
+        size: stats.directSize,
+        fileCount: stats.directFileCount,
+      });
+    }
+
+    return result.sort((a, b) => b.size - a.size);
+  }, [stats]);
+
+  const rects = useMemo(
+    () =>
+      tiles.length > 0
+        ? squarify(
+            tiles.map((tile) => tile.size),
+            LAYOUT_WIDTH,
+            LAYOUT_HEIGHT
+          )
+        : [],
+    [tiles]
+  );
+
+  if (tiles.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Nothing in this folder takes up space yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="relative w-full aspect-video overflow-hidden rounded-lg bg-gray-100 dark:bg-gray-800">
+      {tiles.map((tile, index) => {
+        const rect = rects[index];
+        const showLabel =
+          rect.width / LAYOUT_WIDTH > 0.1 && rect.height / LAYOUT_HEIGHT > 0.1;
+        const percent = Math.round((tile.size / stats.totalSize) * 100);
+        return (
+          <button
+            key={tile.path || tile.label}
+            type="button"
+            onClick={() => tile.path && onOpenFolder(tile.path)}
+            disabled={!tile.path}
+            title={`${tile.label}: ${formatBytes(tile.size)}, ${tile.fileCount} file${
+              tile.fileCount === 1 ? "" : "s"
+            } (${percent}%)`}
+            className="absolute p-0.5 disabled:cursor-default"
+            style={{
+              left: `${(rect.x / LAYOUT_WIDTH) * 100}%`,
+              top: `${(rect.y / LAYOUT_HEIGHT) * 100}%`,
+              width: `${(rect.width / LAYOUT_WIDTH) * 100}%`,
+              height: `${(rect.height / LAYOUT_HEIGHT) * 100}%`,
+            }}
+          >
+            <div
+              className={`h-full w-full overflow-hidden rounded p-2 text-left text-white transition-opacity ${
+                tile.path
+                  ? `${TILE_COLORS[index % TILE_COLORS.length]} hover:opacity-90`
+                  : "bg-gray-400 dark:bg-gray-600"
+              }`}
+            >
+              {showLabel && (
+                <>
+                  <p className="text-sm font-medium truncate">{tile.label}</p>
+                  <p className="text-xs opacity-90 truncate">
+                    {formatBytes(tile.size)} · {percent}%
+                  </p>
+                </>
+              )}
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
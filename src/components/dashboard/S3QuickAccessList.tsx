@@ -0,0 +1,112 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import {
+  ArrowDownTrayIcon,
+  DocumentIcon,
+  FolderOpenIcon,
+  StarIcon,
+} from "@heroicons/react/24/outline";
+import { StarIcon as StarSolidIcon } from "@heroicons/react/24/solid";
+import Button from "@/components/ui/Button";
+import { S3FileItem } from "@/hooks/useS3Files";
+
+interface S3QuickAccessListProps<T extends S3FileItem> {
+  files: T[];
+  /** Extra line under the file location, e.g. when it was last used */
+  renderDetail: (file: T) => React.ReactNode;
+  starredKeys: Set<string>;
+  onToggleStar: (file: T) => void;
+  onDownload: (file: T) => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes === 0) return "0 Bytes";
+  const k = 1024;
+  const sizes = ["Bytes", "KB", "MB", "GB", "TB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+};
+
+/**
+ * Folder of a file path such as "/photos/2024/beach.jpg", in the form the
+ * files page navigates to ("photos/2024")
+ */
+const getFolderPath = (path: string) =>
+  path.split("/").filter(Boolean).slice(0, -1).join("/");
+
+/**
+ * File rows for the Starred and Recent views, each linking to the folder
+ * the file is in now
+ */
+export default function S3QuickAccessList<T extends S3FileItem>({
+  files,
+  renderDetail,
+  starredKeys,
+  onToggleStar,
+  onDownload,
+}: S3QuickAccessListProps<T>) {
+  return (
+    <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+      {files.map((file) => {
+        const folderPath = getFolderPath(file.path);
+        const starred = starredKeys.has(file.key);
+        return (
+          <li
+            key={file.key}
+            className="flex flex-col sm:flex-row sm:items-center gap-3 px-6 py-4"
+          >
+            <div className="flex items-center gap-3 flex-1 min-w-0">
+              <DocumentIcon className="h-8 w-8 flex-shrink-0 text-gray-400" />
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                  {file.name}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                  /{folderPath} · {formatBytes(file.size)}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {renderDetail(file)}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => onToggleStar(file)}
+                title={starred ? "Remove from Starred" : "Add to Starred"}
+                className="p-2 rounded-lg text-gray-400 hover:text-yellow-500 hover:bg-gray-100 dark:hover:bg-gray-800"
+              >
+                {starred ? (
+                  <StarSolidIcon className="h-5 w-5 text-yellow-500" />
+                ) : (
+                  <StarIcon className="h-5 w-5" />
+                )}
+              </button>
+              <Link
+                href={`/dashboard/files-s3?path=${encodeURIComponent(folderPath)}`}
+              >
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  leftIcon={<FolderOpenIcon className="h-4 w-4" />}
+                >
+                  Open folder
+                </Button>
+              </Link>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onDownload(file)}
+                leftIcon={<ArrowDownTrayIcon className="h-4 w-4" />}
+              >
+                Download
+              </Button>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,231 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import {
+  XMarkIcon,
+  ArchiveBoxIcon,
+  ArrowPathIcon,
+  ArrowDownTrayIcon,
+} from "@heroicons/react/24/outline";
+import Button from "@/components/ui/Button";
+import {
+  useS3StorageClass,
+  S3RestoreTier,
+  RESTORE_TIER_OPTIONS,
+  getStorageClassLabel,
+} from "@/hooks/useS3StorageClass";
+
+interface S3RestoreModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  file: { key: string; name: string } | null;
+  onDownload: () => void;
+}
+
+const inputClassName =
+  "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent";
+
+export default function S3RestoreModal({
+  isOpen,
+  onClose,
+  file,
+  onDownload,
+}: S3RestoreModalProps) {
+  const { status, loading, error, loadStatus, restore } = useS3StorageClass();
+  const [tier, setTier] = useState<S3RestoreTier>("Standard");
+  const [days, setDays] = useState("7");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    if (isOpen && file) {
+      setMessage("");
+      loadStatus(file.key);
+    }
+  }, [isOpen, file, loadStatus]);
+
+  if (!isOpen || !file) return null;
+
+  const current = status && status.key === file.key ? status : null;
+  const isDeepArchive = current?.storageClass === "DEEP_ARCHIVE";
+  const canDownload =
+    current?.restoreStatus === "restored" ||
+    current?.restoreStatus === "not-archived";
+
+  const handleRestore = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setMessage("");
+
+    try {
+      const result = await restore(file.key, tier, parseInt(days, 10));
+      setMessage(result.message || "");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDownload = () => {
+    onClose();
+    onDownload();
+  };
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-md bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="backdrop-blur-md rounded-lg shadow-xl w-full max-w-md"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold text-white">Archived File</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+          >
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* File Info */}
+          <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+            <div className="flex items-center">
+              <ArchiveBoxIcon className="h-5 w-5 text-primary-500 mr-2" />
+              <span className="text-sm text-gray-600 dark:text-gray-400 truncate">
+                {file.name}
+              </span>
+            </div>
+            {current && (
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                Storage class: {getStorageClassLabel(current.storageClass)}
+              </p>
+            )}
+          </div>
+
+          {error ? (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            </div>
+          ) : loading || !current ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Checking restore status...
+            </p>
+          ) : (
+            <>
+              <div className="flex items-start justify-between gap-3">
+                <p className="text-sm text-gray-700 dark:text-gray-300">
+                  {current.restoreStatus === "archived" &&
+                    "This file is archived. Restore a temporary copy to download it."}
+                  {current.restoreStatus === "in-progress" &&
+                    "A restore is in progress. The file can be downloaded once it finishes."}
+                  {current.restoreStatus === "restored" &&
+                    `A restored copy is available${
+                      current.restoreExpiresAt
+                        ? ` until ${new Date(current.restoreExpiresAt).toLocaleString()}`
+                        : ""
+                    }.`}
+                  {current.restoreStatus === "not-archived" &&
+                    "This file is not archived and can be downloaded directly."}
+                </p>
+                {current.restoreStatus === "in-progress" && (
+                  <button
+                    type="button"
+                    onClick={() => loadStatus(file.key)}
+                    title="Check again"
+                    className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                  >
+                    <ArrowPathIcon className="h-5 w-5" />
+                  </button>
+                )}
+              </div>
+
+              {(current.restoreStatus === "archived" ||
+                current.restoreStatus === "restored") && (
+                <form onSubmit={handleRestore} className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Retrieval tier
+                    </label>
+                    <select
+                      value={tier}
+                      onChange={(e) => setTier(e.target.value as S3RestoreTier)}
+                      className={inputClassName}
+                      disabled={isSubmitting}
+                    >
+                      {RESTORE_TIER_OPTIONS.map((option) => (
+                        <option
+                          key={option.value}
+                          value={option.value}
+                          disabled={
+                            isDeepArchive && option.value === "Expedited"
+                          }
+                        >
+                          {option.label} ({option.description})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Keep restored copy for (days)
+                    </label>
+                    <input
+                      type="number"
+                      min={1}
+                      max={365}
+                      value={days}
+                      onChange={(e) => setDays(e.target.value)}
+                      className={inputClassName}
+                      disabled={isSubmitting}
+                    />
+                  </div>
+
+                  <Button
+                    type="submit"
+                    variant="outline"
+                    disabled={
+                      isSubmitting ||
+                      !days ||
+                      (isDeepArchive && tier === "Expedited")
+                    }
+                    loading={isSubmitting}
+                    leftIcon={<ArrowPathIcon className="h-4 w-4" />}
+                  >
+                    {current.restoreStatus === "restored"
+                      ? "Extend Restore"
+                      : "Restore"}
+                  </Button>
+                </form>
+              )}
+
+              {message && (
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {message}
+                </p>
+              )}
+            </>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <Button variant="ghost" onClick={onClose}>
+              Close
+            </Button>
+            <Button
+              variant="primary"
+              onClick={handleDownload}
+              disabled={!canDownload}
+              leftIcon={<ArrowDownTrayIcon className="h-4 w-4" />}
+            >
+              Download
+            </Button>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
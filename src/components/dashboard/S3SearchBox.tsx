@@ -0,0 +1,139 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { MagnifyingGlassIcon } from "@heroicons/react/24/outline";
+import type { SearchSuggestion } from "@/utils/searchQuery";
+import { logger } from "@/utils/logger";
+
+interface S3SearchBoxProps {
+  value: string;
+  onChange: (value: string) => void;
+  error?: string | null;
+}
+
+const SUGGESTION_DELAY_MS = 150;
+
+/**
+ * Search input with autocomplete for filters such as type:, size: and tag:
+ */
+export default function S3SearchBox({
+  value,
+  onChange,
+  error,
+}: S3SearchBoxProps) {
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [focused, setFocused] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!focused || !/\S$/.test(value)) {
+      setSuggestions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `/api/s3-search/suggestions?q=${encodeURIComponent(value)}`,
+          { signal: controller.signal }
+        );
+        const result = await response.json();
+        if (result.success) {
+          setSuggestions(result.data.suggestions);
+          setActiveIndex(0);
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          logger.error("Error loading search suggestions:", error);
+        }
+      }
+    }, SUGGESTION_DELAY_MS);
+
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
+  }, [value, focused]);
+
+  const applySuggestion = (suggestion: SearchSuggestion) => {
+    onChange(suggestion.value);
+    setSuggestions([]);
+    inputRef.current?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((index) => (index + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex(
+        (index) => (index - 1 + suggestions.length) % suggestions.length
+      );
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      applySuggestion(suggestions[activeIndex]);
+    } else if (e.key === "Escape") {
+      setSuggestions([]);
+    }
+  };
+
+  return (
+    <div className="relative flex-1 max-w-md">
+      <MagnifyingGlassIcon className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" />
+      <input
+        ref={inputRef}
+        type="text"
+        placeholder="Search files... e.g. report type:pdf size:>5MB"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setFocused(true)}
+        onBlur={() => setFocused(false)}
+        aria-invalid={!!error}
+        className={`w-full pl-10 pr-4 py-2 border rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white placeholder-gray-500 focus:ring-2 focus:ring-primary-500 focus:border-transparent ${
+          error
+            ? "border-red-400 dark:border-red-600"
+            : "border-gray-300 dark:border-gray-600"
+        }`}
+      />
+
+      {suggestions.length > 0 && (
+        <ul className="absolute z-20 mt-1 w-full rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-lg overflow-hidden">
+          {suggestions.map((suggestion, index) => (
+            <li key={suggestion.value}>
+              <button
+                type="button"
+                // Keep focus in the input so the list is not closed first
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => applySuggestion(suggestion)}
+                className={`w-full px-3 py-2 text-left text-sm flex items-center justify-between gap-4 ${
+                  index === activeIndex
+                    ? "bg-primary-50 dark:bg-primary-900/20"
+                    : "hover:bg-gray-50 dark:hover:bg-gray-700"
+                }`}
+              >
+                <span className="font-mono text-gray-900 dark:text-white">
+                  {suggestion.label}
+                </span>
+                {suggestion.description && (
+                  <span className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {suggestion.description}
+                  </span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <p className="mt-1 text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
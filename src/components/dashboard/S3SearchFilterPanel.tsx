@@ -0,0 +1,193 @@
+"use client";
+
+import React, { useState } from "react";
+import Button from "@/components/ui/Button";
+import type { S3SearchFilters, S3SearchSort } from "@/hooks/useS3Search";
+
+interface S3SearchFilterPanelProps {
+  filters: S3SearchFilters;
+  onChange: (filters: S3SearchFilters) => void;
+  currentPath: string;
+}
+
+const MEGABYTE = 1024 * 1024;
+
+const TYPE_OPTIONS = [
+  { value: "", label: "Any type" },
+  { value: "image/*", label: "Images" },
+  { value: "video/*", label: "Videos" },
+  { value: "audio/*", label: "Audio" },
+  { value: "application/pdf", label: "PDF" },
+  { value: "text/*", label: "Text" },
+  { value: "application/zip", label: "ZIP archives" },
+];
+
+const SORT_OPTIONS: Array<{ value: S3SearchSort; label: string }> = [
+  { value: "relevance", label: "Best match" },
+  { value: "name", label: "Name" },
+  { value: "date", label: "Newest first" },
+  { value: "size", label: "Largest first" },
+];
+
+const inputClassName =
+  "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent";
+
+const labelClassName =
+  "block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1";
+
+function toDateInput(iso?: string): string {
+  if (!iso) return "";
+  const date = new Date(iso);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function toMegabytes(bytes?: number): string {
+  return bytes === undefined ? "" : String(bytes / MEGABYTE);
+}
+
+function toBytes(megabytes: string): number | undefined {
+  const value = parseFloat(megabytes);
+  return isNaN(value) || value < 0 ? undefined : Math.round(value * MEGABYTE);
+}
+
+/**
+ * Filters applied on top of the search box. Dates are sent as the start of
+ * the "from" day and the end of the "to" day.
+ */
+export default function S3SearchFilterPanel({
+  filters,
+  onChange,
+  currentPath,
+}: S3SearchFilterPanelProps) {
+  // Sizes are kept as typed so partial input such as "0." is not lost
+  const [minSizeText, setMinSizeText] = useState(toMegabytes(filters.minSize));
+  const [maxSizeText, setMaxSizeText] = useState(toMegabytes(filters.maxSize));
+
+  const update = (changes: Partial<S3SearchFilters>) =>
+    onChange({ ...filters, ...changes });
+
+  const folder = currentPath ? `/${currentPath}` : "";
+
+  return (
+    <div className="mt-4 p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+      <div>
+        <label className={labelClassName}>Type</label>
+        <select
+          value={filters.mimeType || ""}
+          onChange={(e) => update({ mimeType: e.target.value || undefined })}
+          className={inputClassName}
+        >
+          {TYPE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className={labelClassName}>Size (MB)</label>
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            min={0}
+            step="any"
+            placeholder="Min"
+            value={minSizeText}
+            onChange={(e) => {
+              setMinSizeText(e.target.value);
+              update({ minSize: toBytes(e.target.value) });
+            }}
+            className={inputClassName}
+          />
+          <span className="text-gray-400">–</span>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            placeholder="Max"
+            value={maxSizeText}
+            onChange={(e) => {
+              setMaxSizeText(e.target.value);
+              update({ maxSize: toBytes(e.target.value) });
+            }}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClassName}>Modified</label>
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={toDateInput(filters.modifiedAfter)}
+            onChange={(e) =>
+              update({
+                modifiedAfter: e.target.value
+                  ? new Date(`${e.target.value}T00:00:00`).toISOString()
+                  : undefined,
+              })
+            }
+            className={inputClassName}
+          />
+          <span className="text-gray-400">–</span>
+          <input
+            type="date"
+            value={toDateInput(filters.modifiedBefore)}
+            onChange={(e) =>
+              update({
+                modifiedBefore: e.target.value
+                  ? new Date(`${e.target.value}T23:59:59.999`).toISOString()
+                  : undefined,
+              })
+            }
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClassName}>Sort by</label>
+        <select
+          value={filters.sort || "relevance"}
+          onChange={(e) => update({ sort: e.target.value as S3SearchSort })}
+          className={inputClassName}
+        >
+          {SORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="sm:col-span-2 lg:col-span-4 flex items-center justify-between">
+        <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+          <input
+            type="checkbox"
+            checked={!!filters.folder}
+            disabled={!folder}
+            onChange={(e) =>
+              update({ folder: e.target.checked ? folder : undefined })
+            }
+            className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+          />
+          {folder ? `Only search in ${folder}` : "Searching all folders"}
+        </label>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => {
+            setMinSizeText("");
+            setMaxSizeText("");
+            onChange({});
+          }}
+        >
+          Clear filters
+        </Button>
+      </div>
+    </div>
+  );
+}
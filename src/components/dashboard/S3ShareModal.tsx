@@ -0,0 +1,270 @@
+"use client";
+
+import React, { useState } from "react";
+import { motion } from "framer-motion";
+import {
+  XMarkIcon,
+  LinkIcon,
+  ClipboardIcon,
+  CheckIcon,
+} from "@heroicons/react/24/outline";
+import Button from "@/components/ui/Button";
+import { logger } from "@/utils/logger";
+
+interface S3ShareModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  item: { key: string; name: string; type: "file" | "folder" } | null;
+}
+
+const EXPIRY_OPTIONS = [
+  { label: "Never", hours: 0 },
+  { label: "1 hour", hours: 1 },
+  { label: "1 day", hours: 24 },
+  { label: "7 days", hours: 24 * 7 },
+  { label: "30 days", hours: 24 * 30 },
+];
+
+export default function S3ShareModal({
+  isOpen,
+  onClose,
+  item,
+}: S3ShareModalProps) {
+  const [expiresInHours, setExpiresInHours] = useState(24 * 7);
+  const [password, setPassword] = useState("");
+  const [maxDownloads, setMaxDownloads] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState("");
+  const [shareUrl, setShareUrl] = useState("");
+  const [copied, setCopied] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!item) return;
+
+    const downloadLimit = maxDownloads ? parseInt(maxDownloads) : undefined;
+    if (
+      downloadLimit !== undefined &&
+      (isNaN(downloadLimit) || downloadLimit < 1)
+    ) {
+      setError("Download limit must be at least 1");
+      return;
+    }
+
+    if (password && password.length < 4) {
+      setError("Password must be at least 4 characters");
+      return;
+    }
+
+    setIsCreating(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/s3-shares", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          key: item.key,
+          expiresInHours: expiresInHours || undefined,
+          password: password || undefined,
+          maxDownloads: downloadLimit,
+        }),
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        setShareUrl(`${window.location.origin}/s/${result.data.token}`);
+      } else {
+        setError(result.message || "Failed to create share link");
+      }
+    } catch (error) {
+      logger.error("Error creating share link:", error);
+      setError("Network error. Please try again.");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const copyToClipboard = () => {
+    navigator.clipboard.writeText(shareUrl).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    });
+  };
+
+  const handleClose = () => {
+    if (!isCreating) {
+      setExpiresInHours(24 * 7);
+      setPassword("");
+      setMaxDownloads("");
+      setError("");
+      setShareUrl("");
+      setCopied(false);
+      onClose();
+    }
+  };
+
+  if (!isOpen || !item) return null;
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-md bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="backdrop-blur-md rounded-lg shadow-xl w-full max-w-md"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold text-white">
+            Share {item.type === "folder" ? "Folder" : "File"}
+          </h2>
+          <button
+            onClick={handleClose}
+            disabled={isCreating}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 disabled:opacity-50"
+          >
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Item Info */}
+          <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+            <div className="flex items-center">
+              <LinkIcon className="h-5 w-5 text-primary-500 mr-2" />
+              <span className="text-sm text-gray-600 dark:text-gray-400 truncate">
+                {item.name}
+              </span>
+            </div>
+          </div>
+
+          {shareUrl ? (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Anyone with this link can download{" "}
+                {item.type === "folder" ? "files in this folder" : "this file"}.
+              </p>
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={shareUrl}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={copyToClipboard}
+                  leftIcon={
+                    copied ? (
+                      <CheckIcon className="h-4 w-4 text-green-500" />
+                    ) : (
+                      <ClipboardIcon className="h-4 w-4" />
+                    )
+                  }
+                >
+                  {copied ? "Copied" : "Copy"}
+                </Button>
+              </div>
+              <div className="flex justify-end">
+                <Button type="button" variant="primary" onClick={handleClose}>
+                  Done
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div>
+                <label
+                  htmlFor="shareExpiry"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                >
+                  Link expires
+                </label>
+                <select
+                  id="shareExpiry"
+                  value={expiresInHours}
+                  onChange={(e) => setExpiresInHours(Number(e.target.value))}
+                  disabled={isCreating}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-primary-500"
+                >
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <option key={option.hours} value={option.hours}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label
+                  htmlFor="sharePassword"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                >
+                  Password (optional)
+                </label>
+                <input
+                  type="password"
+                  id="sharePassword"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Leave empty for no password"
+                  autoComplete="new-password"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  disabled={isCreating}
+                />
+              </div>
+
+              <div>
+                <label
+                  htmlFor="shareMaxDownloads"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                >
+                  Download limit (optional)
+                </label>
+                <input
+                  type="number"
+                  id="shareMaxDownloads"
+                  min={1}
+                  value={maxDownloads}
+                  onChange={(e) => setMaxDownloads(e.target.value)}
+                  placeholder="Unlimited"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  disabled={isCreating}
+                />
+              </div>
+
+              {error && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                  <p className="text-sm text-red-600 dark:text-red-400">
+                    {error}
+                  </p>
+                </div>
+              )}
+
+              <div className="flex items-center justify-end space-x-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleClose}
+                  disabled={isCreating}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" variant="primary" loading={isCreating}>
+                  Create Link
+                </Button>
+              </div>
+            </form>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
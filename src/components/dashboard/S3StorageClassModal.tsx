@@ -0,0 +1,158 @@
+"use client";
+
+import React, { useState } from "react";
+import { motion } from "framer-motion";
+import { XMarkIcon, ArchiveBoxIcon } from "@heroicons/react/24/outline";
+import Button from "@/components/ui/Button";
+import {
+  S3StorageClass,
+  STORAGE_CLASS_OPTIONS,
+  ARCHIVE_STORAGE_CLASSES,
+} from "@/hooks/useS3StorageClass";
+
+interface S3StorageClassModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  itemCount: number;
+  /** Preselected class, e.g. the class of the single file being changed */
+  currentClass?: string;
+  onConfirm: (storageClass: S3StorageClass) => Promise<void>;
+}
+
+export default function S3StorageClassModal({
+  isOpen,
+  onClose,
+  itemCount,
+  currentClass,
+  onConfirm,
+}: S3StorageClassModalProps) {
+  const [storageClass, setStorageClass] = useState<S3StorageClass | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const selectedClass =
+    storageClass ||
+    STORAGE_CLASS_OPTIONS.find((option) => option.value === currentClass)
+      ?.value ||
+    "STANDARD";
+  const isArchive = ARCHIVE_STORAGE_CLASSES.includes(selectedClass);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      await onConfirm(selectedClass);
+      setStorageClass(null);
+      onClose();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSubmitting) {
+      setStorageClass(null);
+      onClose();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-md bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="backdrop-blur-md rounded-lg shadow-xl w-full max-w-md"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold text-white">
+            Storage class for {itemCount} item{itemCount === 1 ? "" : "s"}
+          </h2>
+          <button
+            onClick={handleClose}
+            disabled={isSubmitting}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 disabled:opacity-50"
+          >
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          <fieldset className="space-y-2" disabled={isSubmitting}>
+            {STORAGE_CLASS_OPTIONS.map((option) => (
+              <label
+                key={option.value}
+                className={`flex items-start p-3 rounded-lg border cursor-pointer ${
+                  selectedClass === option.value
+                    ? "border-primary-500 bg-primary-50 dark:bg-primary-900/20"
+                    : "border-gray-200 dark:border-gray-700"
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="storageClass"
+                  value={option.value}
+                  checked={selectedClass === option.value}
+                  onChange={() => setStorageClass(option.value)}
+                  className="mt-1 mr-3"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-900 dark:text-white">
+                    {option.label}
+                    {option.value === currentClass && (
+                      <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                        (current)
+                      </span>
+                    )}
+                  </span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">
+                    {option.description}
+                  </span>
+                </span>
+              </label>
+            ))}
+          </fieldset>
+
+          <div className="text-xs text-gray-500 dark:text-gray-400 space-y-1">
+            <p>• Folders change every file inside them.</p>
+            <p>
+              • Archived files have to be restored before their class can be
+              changed again.
+            </p>
+            {isArchive && (
+              <p className="text-amber-600 dark:text-amber-400">
+                • Files in this class cannot be downloaded until they are
+                restored.
+              </p>
+            )}
+          </div>
+
+          {/* Actions */}
+          <div className="flex items-center justify-end gap-3 pt-4">
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={handleClose}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              variant="primary"
+              disabled={isSubmitting}
+              loading={isSubmitting}
+              leftIcon={<ArchiveBoxIcon className="h-4 w-4" />}
+            >
+              {isSubmitting ? "Working..." : "Change Class"}
+            </Button>
+          </div>
+        </form>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { XMarkIcon, TagIcon } from "@heroicons/react/24/outline";
+import Button from "@/components/ui/Button";
+import { logger } from "@/utils/logger";
+
+interface S3TagEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  file: { key: string; name: string } | null;
+  onTagsChanged: () => void;
+}
+
+export default function S3TagEditor({
+  isOpen,
+  onClose,
+  file,
+  onTagsChanged,
+}: S3TagEditorProps) {
+  const [tags, setTags] = useState<string[]>([]);
+  const [newTags, setNewTags] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!isOpen || !file) return;
+
+    const loadTags = async () => {
+      setLoading(true);
+      setError("");
+      try {
+        const response = await fetch(
+          `/api/s3-files/tags?key=${encodeURIComponent(file.key)}`
+        );
+        const result = await response.json();
+
+        if (result.success) {
+          setTags(result.data.tags || []);
+        } else {
+          setError(result.message || "Failed to load tags");
+        }
+      } catch (error) {
+        logger.error("Error loading file tags:", error);
+        setError("Network error. Please try again.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadTags();
+  }, [isOpen, file]);
+
+  const updateTags = async (changed: string[], method: "POST" | "DELETE") => {
+    if (!file) return;
+
+    setSaving(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/s3-files/tags", {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ key: file.key, tags: changed }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setTags(result.data.tags || []);
+        onTagsChanged();
+        return true;
+      } else {
+        setError(result.message || "Failed to update tags");
+      }
+    } catch (error) {
+      logger.error("Error updating file tags:", error);
+      setError("Network error. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+    return false;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const added = newTags
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+    if (added.length === 0) return;
+
+    if (await updateTags(added, "POST")) {
+      setNewTags("");
+    }
+  };
+
+  const handleClose = () => {
+    if (!saving) {
+      setTags([]);
+      setNewTags("");
+      setError("");
+      onClose();
+    }
+  };
+
+  if (!isOpen || !file) return null;
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-md bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="backdrop-blur-md rounded-lg shadow-xl w-full max-w-md"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold text-white">Edit Tags</h2>
+          <button
+            onClick={handleClose}
+            disabled={saving}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 disabled:opacity-50"
+          >
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* File Info */}
+          <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+            <div className="flex items-center">
+              <TagIcon className="h-5 w-5 text-primary-500 mr-2" />
+              <span className="text-sm text-gray-600 dark:text-gray-400 truncate">
+                {file.name}
+              </span>
+            </div>
+          </div>
+
+          {loading ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Loading tags...
+            </p>
+          ) : tags.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              This file has no tags yet.
+            </p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {tags.map((tag) => (
+                <span
+                  key={tag}
+                  className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full bg-primary-100 dark:bg-primary-900/30 text-sm text-primary-700 dark:text-primary-300"
+                >
+                  {tag}
+                  <button
+                    type="button"
+                    onClick={() => updateTags([tag], "DELETE")}
+                    disabled={saving}
+                    aria-label={`Remove tag ${tag}`}
+                    className="hover:text-primary-900 dark:hover:text-primary-100 disabled:opacity-50"
+                  >
+                    <XMarkIcon className="h-3.5 w-3.5" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label
+                htmlFor="newTags"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+              >
+                Add tags
+              </label>
+              <input
+                type="text"
+                id="newTags"
+                value={newTags}
+                onChange={(e) => setNewTags(e.target.value)}
+                placeholder="invoices, 2024"
+                disabled={saving || loading}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Separate tags with commas
+              </p>
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                <p className="text-sm text-red-600 dark:text-red-400">
+                  {error}
+                </p>
+              </div>
+            )}
+
+            <div className="flex items-center justify-end space-x-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleClose}
+                disabled={saving}
+              >
+                Done
+              </Button>
+              <Button
+                type="submit"
+                variant="primary"
+                loading={saving}
+                disabled={!newTags.trim() || loading}
+              >
+                Add
+              </Button>
+            </div>
+          </form>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import React from "react";
+import { TagIcon } from "@heroicons/react/24/outline";
+import type { TagCountItem } from "@/hooks/useS3Tags";
+
+interface S3TagSidebarProps {
+  tags: TagCountItem[];
+  selected: string[];
+  onToggle: (tag: string) => void;
+  onClear: () => void;
+  loading?: boolean;
+}
+
+/**
+ * Tag cloud shown next to the file list. Selecting tags shows only files
+ * carrying all of them.
+ */
+export default function S3TagSidebar({
+  tags,
+  selected,
+  onToggle,
+  onClear,
+  loading,
+}: S3TagSidebarProps) {
+  const selectedSet = new Set(selected.map((tag) => tag.toLowerCase()));
+
+  return (
+    <aside className="lg:w-56 lg:flex-shrink-0 mt-8">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-white">
+          <TagIcon className="h-4 w-4" />
+          Tags
+        </h2>
+        {selected.length > 0 && (
+          <button
+            onClick={onClear}
+            className="text-xs text-primary-600 dark:text-primary-400 hover:underline"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {loading && tags.length === 0 ? (
+        <p className="text-xs text-gray-500 dark:text-gray-400">Loading...</p>
+      ) : tags.length === 0 ? (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          No tags yet. Tag files from their menu or by selecting several.
+        </p>
+      ) : (
+        <ul className="flex flex-wrap gap-2 lg:flex-col lg:gap-1">
+          {tags.map(({ tag, count }) => {
+            const active = selectedSet.has(tag.toLowerCase());
+            return (
+              <li key={tag}>
+                <button
+                  onClick={() => onToggle(tag)}
+                  aria-pressed={active}
+                  className={`w-full flex items-center justify-between gap-3 px-3 py-1.5 rounded-lg text-sm ${
+                    active
+                      ? "bg-primary-100 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300"
+                      : "text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+                  }`}
+                >
+                  <span className="truncate">{tag}</span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {count}
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </aside>
+  );
+}
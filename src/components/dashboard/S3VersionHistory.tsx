@@ -0,0 +1,326 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import {
+  XMarkIcon,
+  ClockIcon,
+  ArrowDownTrayIcon,
+  ArrowUturnLeftIcon,
+  TrashIcon,
+  ExclamationTriangleIcon,
+} from "@heroicons/react/24/outline";
+import Button from "@/components/ui/Button";
+import { logger } from "@/utils/logger";
+
+interface FileVersion {
+  versionId: string;
+  isLatest: boolean;
+  isDeleteMarker: boolean;
+  size: number;
+  lastModified: string;
+  etag?: string;
+}
+
+type VersioningStatus = "Enabled" | "Suspended" | "Disabled";
+
+interface S3VersionHistoryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  file: { key: string; name: string } | null;
+  onVersionChanged: () => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes === 0) return "0 Bytes";
+  const k = 1024;
+  const sizes = ["Bytes", "KB", "MB", "GB", "TB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+};
+
+export default function S3VersionHistory({
+  isOpen,
+  onClose,
+  file,
+  onVersionChanged,
+}: S3VersionHistoryProps) {
+  const [versions, setVersions] = useState<FileVersion[]>([]);
+  const [versioningStatus, setVersioningStatus] =
+    useState<VersioningStatus | null>(null);
+  const [truncated, setTruncated] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [busyVersion, setBusyVersion] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  const loadVersions = useCallback(async () => {
+    if (!file) return;
+
+    setLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch(
+        `/api/s3-files/versions?key=${encodeURIComponent(file.key)}`
+      );
+      const result = await response.json();
+
+      if (result.success) {
+        setVersions(result.data.versions || []);
+        setVersioningStatus(result.data.versioningStatus || null);
+        setTruncated(!!result.data.truncated);
+      } else {
+        setError(result.message || "Failed to load versions");
+      }
+    } catch (error) {
+      logger.error("Error loading versions:", error);
+      setError("Network error. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, [file]);
+
+  useEffect(() => {
+    if (isOpen && file) {
+      loadVersions();
+    }
+  }, [isOpen, file, loadVersions]);
+
+  const handleDownload = async (version: FileVersion) => {
+    if (!file) return;
+
+    setBusyVersion(version.versionId);
+    try {
+      const params = new URLSearchParams({
+        key: file.key,
+        versionId: version.versionId,
+      });
+      const response = await fetch(`/api/s3-files/versions/download?${params}`);
+      const result = await response.json();
+
+      if (result.success && result.url) {
+        window.open(result.url, "_blank");
+      } else {
+        setError(result.message || "Failed to download version");
+      }
+    } catch (error) {
+      logger.error("Error downloading version:", error);
+      setError("Network error. Please try again.");
+    } finally {
+      setBusyVersion(null);
+    }
+  };
+
+  const handleRestore = async (version: FileVersion) => {
+    if (!file) return;
+
+    setBusyVersion(version.versionId);
+    try {
+      const response = await fetch("/api/s3-files/versions", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ key: file.key, versionId: version.versionId }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        onVersionChanged();
+        await loadVersions();
+      } else {
+        setError(result.message || "Failed to restore version");
+      }
+    } catch (error) {
+      logger.error("Error restoring version:", error);
+      setError("Network error. Please try again.");
+    } finally {
+      setBusyVersion(null);
+    }
+  };
+
+  const handleDelete = async (version: FileVersion) => {
+    if (!file) return;
+
+    if (
+      !confirm(
+        "Are you sure you want to permanently delete this version? This action cannot be undone."
+      )
+    ) {
+      return;
+    }
+
+    setBusyVersion(version.versionId);
+    try {
+      const params = new URLSearchParams({
+        key: file.key,
+        versionId: version.versionId,
+      });
+      const response = await fetch(`/api/s3-files/versions?${params}`, {
+        method: "DELETE",
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        if (version.isLatest) {
+          onVersionChanged();
+        }
+        await loadVersions();
+      } else {
+        setError(result.message || "Failed to delete version");
+      }
+    } catch (error) {
+      logger.error("Error deleting version:", error);
+      setError("Network error. Please try again.");
+    } finally {
+      setBusyVersion(null);
+    }
+  };
+
+  const handleClose = () => {
+    setVersions([]);
+    setVersioningStatus(null);
+    setError("");
+    onClose();
+  };
+
+  if (!isOpen || !file) return null;
+
+  return (
+    <div className="fixed inset-0 backdrop-blur-md bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="backdrop-blur-md rounded-lg shadow-xl w-full max-w-2xl max-h-[80vh] flex flex-col"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center min-w-0">
+            <ClockIcon className="h-6 w-6 text-primary-500 mr-2 flex-shrink-0" />
+            <h2 className="text-xl font-semibold text-white truncate">
+              Version history: {file.name}
+            </h2>
+          </div>
+          <button
+            onClick={handleClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+          >
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {versioningStatus && versioningStatus !== "Enabled" && (
+            <div className="flex items-start space-x-3 p-4 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800">
+              <ExclamationTriangleIcon className="h-5 w-5 text-yellow-500 flex-shrink-0 mt-0.5" />
+              <div className="text-sm text-yellow-800 dark:text-yellow-200">
+                <p>
+                  {versioningStatus === "Suspended"
+                    ? "Versioning is suspended for this bucket. New changes overwrite the current version."
+                    : "Versioning is not enabled for this bucket, so only the current version is kept."}
+                </p>
+                <Link
+                  href="/dashboard/settings"
+                  className="font-medium underline"
+                >
+                  Enable versioning in settings
+                </Link>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            </div>
+          )}
+
+          {loading && versions.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 dark:text-gray-400 py-8">
+              Loading versions...
+            </p>
+          ) : versions.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 dark:text-gray-400 py-8">
+              No versions found
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {versions.map((version) => (
+                <li
+                  key={version.versionId}
+                  className="flex flex-col sm:flex-row sm:items-center gap-3 py-3"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white">
+                      {new Date(version.lastModified).toLocaleString()}
+                      {version.isLatest && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-primary-100 text-primary-700 dark:bg-primary-900/30 dark:text-primary-300">
+                          Current
+                        </span>
+                      )}
+                      {version.isDeleteMarker && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300">
+                          Deleted
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {version.isDeleteMarker
+                        ? "Delete marker"
+                        : formatBytes(version.size)}{" "}
+                      · {version.versionId}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    {!version.isDeleteMarker && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDownload(version)}
+                        disabled={busyVersion !== null}
+                        leftIcon={<ArrowDownTrayIcon className="h-4 w-4" />}
+                      >
+                        Download
+                      </Button>
+                    )}
+                    {!version.isDeleteMarker && !version.isLatest && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRestore(version)}
+                        disabled={busyVersion !== null}
+                        leftIcon={<ArrowUturnLeftIcon className="h-4 w-4" />}
+                      >
+                        Restore
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(version)}
+                      disabled={busyVersion !== null}
+                      className="text-red-600 dark:text-red-400"
+                      leftIcon={<TrashIcon className="h-4 w-4" />}
+                    >
+                      Delete
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {truncated && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Only the most recent versions are shown.
+            </p>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
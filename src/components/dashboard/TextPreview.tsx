@@ -0,0 +1,243 @@
+"use client";
+
+import React, { useMemo } from "react";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import hljs from "highlight.js/lib/common";
+import "highlight.js/styles/github-dark.css";
+import type { TextPreviewKind } from "@/services/s3PreviewOperations";
+
+interface TextPreviewProps {
+  kind: TextPreviewKind;
+  content: string;
+  language?: string;
+  truncated: boolean;
+}
+
+// Rendering thousands of table rows locks up the modal
+const MAX_CSV_ROWS = 500;
+
+/**
+ * Split CSV into rows, honouring quoted fields that contain commas, escaped
+ * quotes or line breaks
+ */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function CodeBlock({ code, language }: { code: string; language?: string }) {
+  const html = useMemo(() => {
+    if (language && hljs.getLanguage(language)) {
+      return hljs.highlight(code, { language, ignoreIllegals: true }).value;
+    }
+    return hljs.highlightAuto(code).value;
+  }, [code, language]);
+
+  return (
+    <pre className="hljs text-sm p-4 overflow-auto">
+      <code dangerouslySetInnerHTML={{ __html: html }} />
+    </pre>
+  );
+}
+
+function CsvTable({
+  content,
+  truncated,
+}: {
+  content: string;
+  truncated: boolean;
+}) {
+  const rows = useMemo(() => {
+    const parsed = parseCsv(content);
+    // The last row of a partial read is usually cut short
+    return truncated ? parsed.slice(0, -1) : parsed;
+  }, [content, truncated]);
+
+  if (rows.length === 0) {
+    return (
+      <p className="p-4 text-sm text-gray-500 dark:text-gray-400">
+        This file is empty
+      </p>
+    );
+  }
+
+  const [header, ...body] = rows;
+
+  return (
+    <div className="overflow-auto">
+      <table className="min-w-full text-sm divide-y divide-gray-200 dark:divide-gray-700">
+        <thead className="bg-gray-50 dark:bg-gray-800 sticky top-0">
+          <tr>
+            {header.map((cell, index) => (
+              <th
+                key={index}
+                className="px-3 py-2 text-left font-medium text-gray-900 dark:text-white whitespace-nowrap"
+              >
+                {cell}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+          {body.slice(0, MAX_CSV_ROWS).map((row, rowIndex) => (
+            <tr key={rowIndex}>
+              {row.map((cell, cellIndex) => (
+                <td
+                  key={cellIndex}
+                  className="px-3 py-1.5 text-gray-700 dark:text-gray-300 whitespace-nowrap"
+                >
+                  {cell}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {body.length > MAX_CSV_ROWS && (
+        <p className="p-3 text-xs text-gray-500 dark:text-gray-400">
+          Showing the first {MAX_CSV_ROWS} of {body.length} rows
+        </p>
+      )}
+    </div>
+  );
+}
+
+function MarkdownView({ content }: { content: string }) {
+  return (
+    <div className="p-6 text-gray-800 dark:text-gray-200 space-y-4">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        components={{
+          h1: (props) => <h1 className="text-2xl font-bold" {...props} />,
+          h2: (props) => <h2 className="text-xl font-semibold" {...props} />,
+          h3: (props) => <h3 className="text-lg font-semibold" {...props} />,
+          ul: (props) => <ul className="list-disc pl-6 space-y-1" {...props} />,
+          ol: (props) => (
+            <ol className="list-decimal pl-6 space-y-1" {...props} />
+          ),
+          a: (props) => (
+            <a
+              className="text-primary-600 dark:text-primary-400 underline"
+              target="_blank"
+              rel="noopener noreferrer"
+              {...props}
+            />
+          ),
+          blockquote: (props) => (
+            <blockquote
+              className="border-l-4 border-gray-300 dark:border-gray-600 pl-4 italic"
+              {...props}
+            />
+          ),
+          table: (props) => (
+            <table
+              className="min-w-full text-sm border border-gray-200 dark:border-gray-700"
+              {...props}
+            />
+          ),
+          th: (props) => (
+            <th
+              className="px-3 py-2 border border-gray-200 dark:border-gray-700 text-left"
+              {...props}
+            />
+          ),
+          td: (props) => (
+            <td
+              className="px-3 py-2 border border-gray-200 dark:border-gray-700"
+              {...props}
+            />
+          ),
+          // Fenced blocks are rendered by CodeBlock with its own <pre>
+          pre: ({ children }) => <>{children}</>,
+          code: ({ className, children }) => {
+            const language = /language-(\w+)/.exec(className || "")?.[1];
+            const code = String(children);
+            return language || code.includes("\n") ? (
+              <CodeBlock code={code.replace(/\n$/, "")} language={language} />
+            ) : (
+              <code className="px-1 py-0.5 rounded bg-gray-100 dark:bg-gray-800 text-sm">
+                {children}
+              </code>
+            );
+          },
+        }}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
+
+/**
+ * Renders the text returned by the preview route according to its kind
+ */
+export default function TextPreview({
+  kind,
+  content,
+  language,
+  truncated,
+}: TextPreviewProps) {
+  const json = useMemo(() => {
+    if (kind !== "json" || truncated) return null;
+    try {
+      return JSON.stringify(JSON.parse(content), null, 2);
+    } catch {
+      return null;
+    }
+  }, [kind, content, truncated]);
+
+  switch (kind) {
+    case "markdown":
+      return <MarkdownView content={content} />;
+    case "csv":
+      return <CsvTable content={content} truncated={truncated} />;
+    case "json":
+      return <CodeBlock code={json ?? content} language="json" />;
+    case "code":
+      return <CodeBlock code={content} language={language} />;
+    default:
+      return (
+        <pre className="p-4 text-sm text-gray-800 dark:text-gray-200 whitespace-pre-wrap break-words">
+          {content}
+        </pre>
+      );
+  }
+}
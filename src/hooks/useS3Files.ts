@@ -1,5 +1,6 @@
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { logger } from "@/utils/logger";
+import { S3StorageClass, S3StorageStatus } from "./useS3StorageClass";
 
 export interface S3FileItem {
   key: string;
@@ -10,6 +11,10 @@ export interface S3FileItem {
   isFolder: boolean;
   path: string;
   metadata?: Record<string, string>;
+  /** Files below a folder, at any depth */
+  fileCount?: number;
+  /** S3 storage class, unset for STANDARD */
+  storageClass?: string;
 }
 
 export interface S3ListResult {
@@ -20,12 +25,50 @@ export interface S3ListResult {
   totalCount?: number;
 }
 
+export type S3BatchAction =
+  "delete" | "move" | "copy" | "tag" | "download" | "storage-class";
+
+export interface S3BatchItemResult {
+  key: string;
+  success: boolean;
+  message: string;
+  newKey?: string;
+  url?: string;
+  error?: string;
+}
+
+export type S3ListSort = "name" | "size" | "date" | "type";
+export type S3SortOrder = "asc" | "desc";
+
 export interface UseS3FilesOptions {
   autoLoad?: boolean;
   maxKeys?: number;
   includeMetadata?: boolean;
+  sort?: S3ListSort;
+  order?: S3SortOrder;
+}
+
+interface ListingSnapshot {
+  files: S3FileItem[];
+  folders: S3FileItem[];
+  hasMore: boolean;
+  nextToken?: string;
+  scrollY: number;
+  savedAt: number;
 }
 
+// Listings of recently visited folders, so going back to one shows the same
+// pages at the same scroll position instead of starting from the top
+const listingSnapshots = new Map<string, ListingSnapshot>();
+const MAX_SNAPSHOTS = 20;
+const SNAPSHOT_TTL = 5 * 60 * 1000;
+
+const getSnapshotKey = (
+  path: string,
+  sort: S3ListSort | undefined,
+  order: S3SortOrder
+) => `${path}|${sort || ""}|${order}`;
+
 export function useS3Files(
   initialPath: string = "",
   options: UseS3FilesOptions = {}
@@ -36,15 +79,29 @@ export function useS3Files(
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(false);
-  const [nextToken, setNextToken] = useState<string | undefined>();
 
   const { autoLoad = true, maxKeys = 50, includeMetadata = false } = options;
+  // Unset until a sort is picked, so the listing comes straight from S3 in
+  // key order instead of through the file metadata
+  const [sort, setSort] = useState<S3ListSort | undefined>(options.sort);
+  const [order, setOrder] = useState<S3SortOrder>(options.order || "asc");
+
+  const nextTokenRef = useRef<string | undefined>(undefined);
+  const loadingRef = useRef(false);
+  // Only the latest request may update the listing, so a slow page of the
+  // previous folder cannot land in the new one
+  const requestIdRef = useRef(0);
+  // Snapshot key of the listing currently shown
+  const listingKeyRef = useRef<string | null>(null);
+  // Set when navigation restored a snapshot, so the auto-load skips it
+  const restoredRef = useRef(false);
 
   const loadFiles = useCallback(
     async (
       path: string = currentPath,
       reset: boolean = true,
-      forceRefresh: boolean = false
+      forceRefresh: boolean = false,
+      keepSnapshots: boolean = false
     ) => {
       logger.info("🔄 loadFiles called:", {
         path,
@@ -53,6 +110,14 @@ export function useS3Files(
         currentPath,
       });
 
+      // A forced reload follows a change, which may have moved or deleted
+      // items shown in other folders' snapshots
+      if (reset && forceRefresh && !keepSnapshots) {
+        listingSnapshots.clear();
+      }
+
+      const requestId = ++requestIdRef.current;
+      loadingRef.current = true;
       setLoading(true);
       setError(null);
 
@@ -63,19 +128,26 @@ export function useS3Files(
           includeMetadata: includeMetadata.toString(),
         });
 
+        if (sort) {
+          params.append("sort", sort);
+          params.append("order", order);
+        }
+
         if (forceRefresh) {
           params.append("_t", Date.now().toString());
           params.append("noCache", "true");
         }
 
-        if (!reset && nextToken) {
-          params.append("continuationToken", nextToken);
+        if (!reset && nextTokenRef.current) {
+          params.append("continuationToken", nextTokenRef.current);
         }
 
         logger.info("📡 Fetching S3 files with params:", params.toString());
         const response = await fetch(`/api/s3-files?${params}`);
         const result = await response.json();
 
+        if (requestId !== requestIdRef.current) return;
+
         logger.info("📥 S3 files response:", {
           success: result.success,
           fileCount: result.data?.files?.length,
@@ -83,54 +155,114 @@ export function useS3Files(
         });
 
         if (result.success) {
+          listingKeyRef.current = getSnapshotKey(path, sort, order);
+          nextTokenRef.current = result.data.nextToken;
           if (reset) {
             logger.info("🔄 Resetting files and folders state");
             setFiles(result.data.files || []);
             setFolders(result.data.folders || []);
-            setNextToken(undefined);
           } else {
             logger.info("➕ Appending to existing files and folders");
             setFiles((prev) => [...prev, ...(result.data.files || [])]);
             setFolders((prev) => [...prev, ...(result.data.folders || [])]);
           }
           setHasMore(result.data.hasMore || false);
-          if (result.data.nextToken) {
-            setNextToken(result.data.nextToken);
-          }
         } else {
           logger.error("❌ Failed to load files:", result.message);
           setError(result.message || "Failed to load files");
         }
       } catch (err) {
+        if (requestId !== requestIdRef.current) return;
         logger.error("❌ Error loading files:", err);
         setError(err instanceof Error ? err.message : "Failed to load files");
       } finally {
-        setLoading(false);
+        if (requestId === requestIdRef.current) {
+          loadingRef.current = false;
+          setLoading(false);
+        }
       }
     },
-    [currentPath, maxKeys, includeMetadata, nextToken]
+    [currentPath, maxKeys, includeMetadata, sort, order]
   );
 
+  // Keep the snapshot of the shown listing up to date, including
+  // optimistic changes
+  useEffect(() => {
+    const key = listingKeyRef.current;
+    if (!key) return;
+
+    const previous = listingSnapshots.get(key);
+    listingSnapshots.delete(key);
+    listingSnapshots.set(key, {
+      files,
+      folders,
+      hasMore,
+      nextToken: nextTokenRef.current,
+      scrollY: previous?.scrollY ?? 0,
+      savedAt: Date.now(),
+    });
+    if (listingSnapshots.size > MAX_SNAPSHOTS) {
+      listingSnapshots.delete(listingSnapshots.keys().next().value!);
+    }
+  }, [files, folders, hasMore]);
+
   const loadMore = useCallback(() => {
-    if (hasMore && !loading) {
+    if (hasMore && !loadingRef.current) {
       logger.info("📄 Loading more items for path:", currentPath);
       loadFiles(currentPath, false, false);
     }
-  }, [hasMore, loading, loadFiles, currentPath]);
+  }, [hasMore, loadFiles, currentPath]);
 
   const navigateToPath = useCallback(
     (newPath: string) => {
       logger.info("🧭 Navigating to path:", { from: currentPath, to: newPath });
+
+      if (newPath === currentPath) {
+        loadFiles(newPath, true, true, true);
+        return;
+      }
+
+      const current = listingKeyRef.current
+        ? listingSnapshots.get(listingKeyRef.current)
+        : undefined;
+      if (current) {
+        current.scrollY = window.scrollY;
+      }
+
+      const key = getSnapshotKey(newPath, sort, order);
+      const snapshot = listingSnapshots.get(key);
+      if (snapshot && Date.now() - snapshot.savedAt < SNAPSHOT_TTL) {
+        logger.info("⏪ Restoring listing snapshot for path:", newPath);
+        requestIdRef.current++;
+        loadingRef.current = false;
+        restoredRef.current = true;
+        listingKeyRef.current = key;
+        nextTokenRef.current = snapshot.nextToken;
+        setFiles(snapshot.files);
+        setFolders(snapshot.folders);
+        setHasMore(snapshot.hasMore);
+        setLoading(false);
+        setError(null);
+        requestAnimationFrame(() => window.scrollTo(0, snapshot.scrollY));
+      } else {
+        window.scrollTo(0, 0);
+      }
+
       setCurrentPath(newPath);
-      setNextToken(undefined);
-      loadFiles(newPath, true, true);
     },
-    [loadFiles, currentPath]
+    [loadFiles, currentPath, sort, order]
+  );
+
+  const changeSort = useCallback(
+    (newSort: S3ListSort, newOrder: S3SortOrder) => {
+      setSort(newSort);
+      setOrder(newOrder);
+    },
+    []
   );
 
   const refresh = useCallback(() => {
     logger.info("🔄 Manual refresh triggered for path:", currentPath);
-    setNextToken(undefined);
     loadFiles(currentPath, true, true);
   }, [loadFiles, currentPath]);
 
@@ -405,6 +537,185 @@ export function useS3Files(
     [currentPath, loadFiles]
   );
 
+  const moveFile = useCallback(
+    async (s3Key: string, destinationPath: string) => {
+      logger.info("📦 Moving file:", { s3Key, destinationPath });
+
+      setFiles((prevFiles) => prevFiles.filter((file) => file.key !== s3Key));
+
+      try {
+        const response = await fetch("/api/s3-files/move", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ key: s3Key, destinationPath }),
+        });
+
+        const result = await response.json();
+        logger.info("📦 Move file result:", result);
+
+        await loadFiles(currentPath, true, true);
+
+        if (result.success) {
+          return { success: true, data: result.data };
+        } else {
+          logger.error("❌ Move failed:", result.message);
+          return { success: false, message: result.message };
+        }
+      } catch (error) {
+        logger.error("❌ Move error:", error);
+        await loadFiles(currentPath, true, true);
+        return {
+          success: false,
+          message: error instanceof Error ? error.message : "Move failed",
+        };
+      }
+    },
+    [currentPath, loadFiles]
+  );
+
+  const moveFolder = useCallback(
+    async (folderPath: string, destinationPath: string) => {
+      logger.info("📦📁 Moving folder:", { folderPath, destinationPath });
+
+      setFolders((prevFolders) =>
+        prevFolders.filter((folder) => folder.path !== folderPath)
+      );
+
+      try {
+        const response = await fetch("/api/s3-folders/move", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ folderPath, destinationPath }),
+        });
+
+        const result = await response.json();
+        logger.info("📦📁 Move folder result:", result);
+
+        await loadFiles(currentPath, true, true);
+
+        if (result.success) {
+          return { success: true, data: result.data };
+        } else {
+          logger.error("❌ Folder move failed:", result.message);
+          return { success: false, message: result.message };
+        }
+      } catch (error) {
+        logger.error("❌ Folder move error:", error);
+        await loadFiles(currentPath, true, true);
+        return {
+          success: false,
+          message:
+            error instanceof Error ? error.message : "Move folder failed",
+        };
+      }
+    },
+    [currentPath, loadFiles]
+  );
+
+  const runBatch = useCallback(
+    async (
+      action: S3BatchAction,
+      keys: string[],
+      batchOptions: {
+        destinationPath?: string;
+        tags?: string[];
+        permanent?: boolean;
+        storageClass?: S3StorageClass;
+      } = {}
+    ) => {
+      logger.info("📦 Running batch operation:", {
+        action,
+        count: keys.length,
+      });
+
+      if (action === "delete" || action === "move") {
+        const affected = new Set(keys);
+        setFiles((prevFiles) =>
+          prevFiles.filter((file) => !affected.has(file.key))
+        );
+        setFolders((prevFolders) =>
+          prevFolders.filter((folder) => !affected.has(folder.key))
+        );
+      }
+
+      try {
+        const response = await fetch("/api/s3-files/batch", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action, keys, ...batchOptions }),
+        });
+
+        const result = await response.json();
+        logger.info("📦 Batch result:", {
+          success: result.success,
+          succeeded: result.data?.succeeded,
+          failed: result.data?.failed,
+        });
+
+        if (action !== "download" && action !== "tag") {
+          await loadFiles(currentPath, true, true);
+        }
+
+        if (result.success) {
+          return {
+            success: true,
+            results: (result.data.results || []) as S3BatchItemResult[],
+            succeeded: result.data.succeeded as number,
+            failed: result.data.failed as number,
+            message: result.message,
+          };
+        } else {
+          logger.error("❌ Batch operation failed:", result.message);
+          return { success: false, message: result.message };
+        }
+      } catch (error) {
+        logger.error("❌ Batch operation error:", error);
+        await loadFiles(currentPath, true, true);
+        return {
+          success: false,
+          message:
+            error instanceof Error ? error.message : "Batch operation failed",
+        };
+      }
+    },
+    [currentPath, loadFiles]
+  );
+
+  const downloadZip = useCallback(
+    (source: { folderPath?: string; keys?: string[] }) => {
+      logger.info("🗜️ Starting ZIP download:", source);
+
+      // Let the browser handle the streamed response as a regular download
+      if (source.folderPath !== undefined) {
+        const link = document.createElement("a");
+        link.href = `/api/s3-files/zip?${new URLSearchParams({
+          path: source.folderPath,
+        })}`;
+        link.download = "";
+        document.body.appendChild(link);
+        link.click();
+        link.remove();
+        return;
+      }
+
+      const form = document.createElement("form");
+      form.method = "POST";
+      form.action = "/api/s3-files/zip";
+      form.style.display = "none";
+      (source.keys || []).forEach((key) => {
+        const input = document.createElement("input");
+        input.type = "hidden";
+        input.name = "keys";
+        input.value = key;
+        form.appendChild(input);
+      });
+      document.body.appendChild(form);
+      form.submit();
+      form.remove();
+    },
+    []
+  );
+
   const getDownloadUrl = useCallback(async (s3Key: string) => {
     try {
       const keySegments = s3Key
@@ -418,7 +729,13 @@ export function useS3Files(
       if (result.success) {
         return { success: true, url: result.url };
       } else {
-        return { success: false, message: result.message };
+        // Archived files come back with their restore status
+        return {
+          success: false,
+          message: result.message,
+          error: result.error as string | undefined,
+          storage: result.data as S3StorageStatus | undefined,
+        };
       }
     } catch (error) {
       return {
@@ -429,14 +746,17 @@ export function useS3Files(
     }
   }, []);
 
+  // Loads the first page whenever the folder or the sort order changes;
+  // loadFiles only changes along with those
   useEffect(() => {
-    if (autoLoad) {
-      logger.info("🚀 Auto-loading files for path:", currentPath);
-      const loadData = async () => {
-        await loadFiles(currentPath, true, true);
-      };
-      loadData();
+    if (!autoLoad) return;
+    if (restoredRef.current) {
+      restoredRef.current = false;
+      return;
     }
+
+    logger.info("🚀 Auto-loading files for path:", currentPath);
+    loadFiles(currentPath, true, true, true);
   }, [autoLoad, currentPath, loadFiles]);
 
   return {
@@ -446,9 +766,12 @@ export function useS3Files(
     loading,
     error,
     hasMore,
+    sort: sort || "name",
+    order,
     loadFiles,
     loadMore,
     navigateToPath,
+    changeSort,
     refresh,
     uploadFiles,
     deleteFile,
@@ -456,6 +779,10 @@ export function useS3Files(
     createFolder,
     deleteFolder,
     renameFolder,
+    moveFile,
+    moveFolder,
+    runBatch,
+    downloadZip,
     getDownloadUrl,
   };
 }
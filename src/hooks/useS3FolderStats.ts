@@ -0,0 +1,60 @@
+import { useState, useCallback } from "react";
+import { logger } from "@/utils/logger";
+
+export interface FolderStatsChild {
+  name: string;
+  path: string;
+  size: number;
+  fileCount: number;
+  lastModified?: string;
+}
+
+export interface FolderStats {
+  path: string;
+  totalSize: number;
+  fileCount: number;
+  folderCount: number;
+  directSize: number;
+  directFileCount: number;
+  lastModified?: string;
+  children: FolderStatsChild[];
+}
+
+export function useS3FolderStats() {
+  const [stats, setStats] = useState<FolderStats | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStats = useCallback(async (path: string) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/s3-folders/stats?path=${encodeURIComponent(path)}`
+      );
+      const result = await response.json();
+
+      if (result.success) {
+        setStats(result.data);
+      } else {
+        logger.error("❌ Failed to load folder stats:", result.message);
+        setError(result.message || "Failed to load folder statistics");
+      }
+    } catch (err) {
+      logger.error("❌ Error loading folder stats:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load folder statistics"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return {
+    stats,
+    loading,
+    error,
+    loadStats,
+  };
+}
@@ -0,0 +1,95 @@
+import { useState, useCallback, useEffect } from "react";
+import { logger } from "@/utils/logger";
+import { S3StorageClass } from "./useS3StorageClass";
+
+export type S3TransitionStorageClass = Exclude<S3StorageClass, "STANDARD">;
+
+export interface S3LifecycleTransition {
+  days: number;
+  storageClass: S3TransitionStorageClass;
+}
+
+export interface S3LifecycleRule {
+  id: string;
+  enabled: boolean;
+  /** Folder relative to the user's root, "" for all files */
+  prefix: string;
+  transitions: S3LifecycleTransition[];
+  expirationDays?: number;
+  noncurrentExpirationDays?: number;
+  noncurrentVersionsToKeep?: number;
+  abortIncompleteMultipartDays?: number;
+}
+
+export interface S3LifecycleConfig {
+  rules: S3LifecycleRule[];
+  otherRuleCount: number;
+}
+
+export function useS3Lifecycle() {
+  const [config, setConfig] = useState<S3LifecycleConfig | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRules = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/s3-config/lifecycle");
+      const result = await response.json();
+
+      if (result.success) {
+        setConfig(result.data);
+      } else {
+        logger.error("❌ Failed to load lifecycle rules:", result.message);
+        setError(result.message || "Failed to load lifecycle rules");
+      }
+    } catch (err) {
+      logger.error("❌ Error loading lifecycle rules:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load lifecycle rules"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const saveRules = useCallback(async (rules: S3LifecycleRule[]) => {
+    try {
+      const response = await fetch("/api/s3-config/lifecycle", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rules }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setConfig(result.data);
+        return { success: true, message: result.message };
+      } else {
+        logger.error("❌ Failed to save lifecycle rules:", result.message);
+        return { success: false, message: result.message };
+      }
+    } catch (err) {
+      logger.error("❌ Error saving lifecycle rules:", err);
+      return {
+        success: false,
+        message:
+          err instanceof Error ? err.message : "Failed to save lifecycle rules",
+      };
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  return {
+    config,
+    loading,
+    error,
+    loadRules,
+    saveRules,
+  };
+}
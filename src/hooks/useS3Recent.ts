@@ -0,0 +1,51 @@
+import { useState, useCallback, useEffect } from "react";
+import { logger } from "@/utils/logger";
+import { S3FileItem } from "./useS3Files";
+
+export type RecentAction = "upload" | "download" | "rename";
+
+export interface RecentFileItem extends S3FileItem {
+  lastAction: RecentAction;
+  lastActivityAt: string;
+}
+
+export function useS3Recent(limit: number = 50) {
+  const [recentFiles, setRecentFiles] = useState<RecentFileItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRecent = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/s3-recent?limit=${limit}`);
+      const result = await response.json();
+
+      if (result.success) {
+        setRecentFiles(result.data.files || []);
+      } else {
+        logger.error("❌ Failed to load recent files:", result.message);
+        setError(result.message || "Failed to load recent files");
+      }
+    } catch (err) {
+      logger.error("❌ Error loading recent files:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load recent files"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [limit]);
+
+  useEffect(() => {
+    loadRecent();
+  }, [loadRecent]);
+
+  return {
+    recentFiles,
+    loading,
+    error,
+    loadRecent,
+  };
+}
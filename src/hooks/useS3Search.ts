@@ -8,13 +8,33 @@ export interface S3SearchResult {
   totalMatches: number;
 }
 
+export type S3SearchSort = 'relevance' | 'name' | 'date' | 'size';
+
+export interface S3SearchFilters {
+  /** Exact type, substring, or a wildcard such as "image/*" */
+  mimeType?: string;
+  minSize?: number;
+  maxSize?: number;
+  modifiedAfter?: string;
+  modifiedBefore?: string;
+  /** Restrict results to this folder and its subfolders */
+  folder?: string;
+  /** Files must carry every one of these tags */
+  tags?: string[];
+  sort?: S3SearchSort;
+}
+
 export interface UseS3SearchOptions {
   debounceMs?: number;
   maxKeys?: number;
-  includeMetadata?: boolean;
   minQueryLength?: number;
 }
 
+const hasActiveFilters = (filters: S3SearchFilters) =>
+  Object.entries(filters).some(
+    ([key, value]) => key !== 'sort' && value !== undefined && value !== ''
+  );
+
 export function useS3Search(options: UseS3SearchOptions = {}) {
   const [results, setResults] = useState<S3FileItem[]>([]);
   const [loading, setLoading] = useState(false);
@@ -23,20 +43,22 @@ export function useS3Search(options: UseS3SearchOptions = {}) {
   const [nextToken, setNextToken] = useState<string | undefined>();
   const [totalMatches, setTotalMatches] = useState(0);
   const [currentQuery, setCurrentQuery] = useState('');
+  const [currentFilters, setCurrentFilters] = useState<S3SearchFilters>({});
 
   const {
     debounceMs = 300,
     maxKeys = 50,
-    includeMetadata = false,
     minQueryLength = 2,
   } = options;
 
   const performSearch = useCallback(async (
     query: string,
+    filters: S3SearchFilters,
     reset: boolean = true,
     token?: string
   ) => {
-    if (!query || query.length < minQueryLength) {
+    const filtered = hasActiveFilters(filters);
+    if ((!query && !filtered) || (query && query.length < minQueryLength)) {
       setResults([]);
       setHasMore(false);
       setTotalMatches(0);
@@ -48,14 +70,21 @@ export function useS3Search(options: UseS3SearchOptions = {}) {
     setError(null);
 
     try {
-      const params = new URLSearchParams({
-        q: query,
-        maxKeys: maxKeys.toString(),
-        includeMetadata: includeMetadata.toString(),
-      });
+      const params = new URLSearchParams({ limit: maxKeys.toString() });
+      if (query) {
+        params.append('q', query);
+      }
+
+      for (const [key, value] of Object.entries(filters)) {
+        if (Array.isArray(value)) {
+          value.forEach(item => params.append(key, item));
+        } else if (value !== undefined && value !== '') {
+          params.append(key, String(value));
+        }
+      }
 
       if (token) {
-        params.append('continuationToken', token);
+        params.append('cursor', token);
       }
 
       const response = await fetch(`/api/s3-search?${params}`);
@@ -68,7 +97,7 @@ export function useS3Search(options: UseS3SearchOptions = {}) {
           setResults(prev => [...prev, ...(result.data.files || [])]);
         }
         setHasMore(result.data.hasMore || false);
-        setNextToken(result.data.nextToken);
+        setNextToken(result.data.nextCursor);
         setTotalMatches(result.data.totalResults || 0);
       } else {
         setError(result.message || 'Search failed');
@@ -88,19 +117,20 @@ export function useS3Search(options: UseS3SearchOptions = {}) {
     } finally {
       setLoading(false);
     }
-  }, [maxKeys, includeMetadata, minQueryLength]);
+  }, [maxKeys, minQueryLength]);
 
-  const search = useCallback((query: string) => {
+  // The effect below runs the search once typing pauses
+  const search = useCallback((query: string, filters: S3SearchFilters = {}) => {
     setCurrentQuery(query);
+    setCurrentFilters(filters);
     setNextToken(undefined);
-    performSearch(query, true);
-  }, [performSearch]);
+  }, []);
 
   const loadMore = useCallback(() => {
-    if (hasMore && !loading && nextToken && currentQuery) {
-      performSearch(currentQuery, false, nextToken);
+    if (hasMore && !loading && nextToken) {
+      performSearch(currentQuery, currentFilters, false, nextToken);
     }
-  }, [hasMore, loading, nextToken, currentQuery, performSearch]);
+  }, [hasMore, loading, nextToken, currentQuery, currentFilters, performSearch]);
 
   const clearResults = useCallback(() => {
     setResults([]);
@@ -108,21 +138,25 @@ export function useS3Search(options: UseS3SearchOptions = {}) {
     setTotalMatches(0);
     setError(null);
     setCurrentQuery('');
+    setCurrentFilters({});
     setNextToken(undefined);
   }, []);
 
   useEffect(() => {
-    if (!currentQuery) {
-      clearResults();
+    if (!currentQuery && !hasActiveFilters(currentFilters)) {
+      setResults([]);
+      setHasMore(false);
+      setTotalMatches(0);
+      setError(null);
       return;
     }
 
     const timeoutId = setTimeout(() => {
-      performSearch(currentQuery, true);
+      performSearch(currentQuery, currentFilters, true);
     }, debounceMs);
 
     return () => clearTimeout(timeoutId);
-  }, [currentQuery, debounceMs, performSearch, clearResults]);
+  }, [currentQuery, currentFilters, debounceMs, performSearch]);
 
   return {
     results,
@@ -0,0 +1,90 @@
+import { useState, useCallback, useEffect } from "react";
+import { logger } from "@/utils/logger";
+
+export type ShareStatus = "active" | "expired" | "revoked" | "exhausted";
+
+export interface ShareLinkItem {
+  id: string;
+  token: string;
+  s3Key: string;
+  path: string;
+  name: string;
+  isFolder: boolean;
+  expiresAt?: string;
+  hasPassword: boolean;
+  maxDownloads?: number;
+  downloadCount: number;
+  lastAccessedAt?: string;
+  revokedAt?: string;
+  createdAt: string;
+  status: ShareStatus;
+}
+
+export function useS3Shares() {
+  const [shares, setShares] = useState<ShareLinkItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadShares = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/s3-shares");
+      const result = await response.json();
+
+      if (result.success) {
+        setShares(result.data || []);
+      } else {
+        logger.error("❌ Failed to load share links:", result.message);
+        setError(result.message || "Failed to load share links");
+      }
+    } catch (err) {
+      logger.error("❌ Error loading share links:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load share links"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const revokeShare = useCallback(async (id: string) => {
+    logger.info("🔒 Revoking share link:", id);
+
+    try {
+      const response = await fetch(`/api/s3-shares/${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setShares((prev) =>
+          prev.map((share) => (share.id === id ? result.data : share))
+        );
+        return { success: true };
+      } else {
+        logger.error("❌ Revoke failed:", result.message);
+        return { success: false, message: result.message };
+      }
+    } catch (error) {
+      logger.error("❌ Revoke error:", error);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : "Revoke failed",
+      };
+    }
+  }, []);
+
+  useEffect(() => {
+    loadShares();
+  }, [loadShares]);
+
+  return {
+    shares,
+    loading,
+    error,
+    loadShares,
+    revokeShare,
+  };
+}
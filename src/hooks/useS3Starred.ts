@@ -0,0 +1,90 @@
+import { useState, useCallback, useEffect, useMemo } from "react";
+import { logger } from "@/utils/logger";
+import { S3FileItem } from "./useS3Files";
+
+export interface StarredFileItem extends S3FileItem {
+  starredAt: string;
+}
+
+export function useS3Starred() {
+  const [starredFiles, setStarredFiles] = useState<StarredFileItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStarred = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/s3-starred");
+      const result = await response.json();
+
+      if (result.success) {
+        setStarredFiles(result.data.files || []);
+      } else {
+        logger.error("❌ Failed to load starred files:", result.message);
+        setError(result.message || "Failed to load starred files");
+      }
+    } catch (err) {
+      logger.error("❌ Error loading starred files:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load starred files"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const setStarred = useCallback(
+    async (key: string, starred: boolean) => {
+      logger.info(starred ? "⭐ Starring file:" : "☆ Unstarring file:", key);
+
+      try {
+        const response = await fetch("/api/s3-starred", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ key, starred }),
+        });
+        const result = await response.json();
+
+        if (result.success) {
+          if (starred) {
+            loadStarred();
+          } else {
+            setStarredFiles((prev) => prev.filter((file) => file.key !== key));
+          }
+          return { success: true };
+        } else {
+          logger.error("❌ Star update failed:", result.message);
+          return { success: false, message: result.message };
+        }
+      } catch (error) {
+        logger.error("❌ Star update error:", error);
+        return {
+          success: false,
+          message:
+            error instanceof Error ? error.message : "Failed to update star",
+        };
+      }
+    },
+    [loadStarred]
+  );
+
+  const starredKeys = useMemo(
+    () => new Set(starredFiles.map((file) => file.key)),
+    [starredFiles]
+  );
+
+  useEffect(() => {
+    loadStarred();
+  }, [loadStarred]);
+
+  return {
+    starredFiles,
+    starredKeys,
+    loading,
+    error,
+    loadStarred,
+    setStarred,
+  };
+}
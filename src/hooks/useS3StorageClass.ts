@@ -0,0 +1,170 @@
+import { useState, useCallback } from "react";
+import { logger } from "@/utils/logger";
+
+export type S3StorageClass =
+  | "STANDARD"
+  | "STANDARD_IA"
+  | "ONEZONE_IA"
+  | "INTELLIGENT_TIERING"
+  | "GLACIER_IR"
+  | "GLACIER"
+  | "DEEP_ARCHIVE";
+
+export type S3RestoreTier = "Expedited" | "Standard" | "Bulk";
+
+export type S3RestoreStatus =
+  "not-archived" | "archived" | "in-progress" | "restored";
+
+export interface S3StorageStatus {
+  key: string;
+  storageClass: string;
+  restoreStatus: S3RestoreStatus;
+  restoreExpiresAt?: string;
+}
+
+export const STORAGE_CLASS_OPTIONS: {
+  value: S3StorageClass;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "STANDARD",
+    label: "Standard",
+    description: "Frequently accessed files",
+  },
+  {
+    value: "STANDARD_IA",
+    label: "Standard-IA",
+    description: "Infrequent access, 30-day minimum",
+  },
+  {
+    value: "ONEZONE_IA",
+    label: "One Zone-IA",
+    description: "Infrequent access in a single zone, 30-day minimum",
+  },
+  {
+    value: "INTELLIGENT_TIERING",
+    label: "Intelligent-Tiering",
+    description: "Moved between tiers automatically by access",
+  },
+  {
+    value: "GLACIER_IR",
+    label: "Glacier Instant Retrieval",
+    description: "Archive with instant access, 90-day minimum",
+  },
+  {
+    value: "GLACIER",
+    label: "Glacier Flexible Retrieval",
+    description: "Archive, restore takes minutes to hours",
+  },
+  {
+    value: "DEEP_ARCHIVE",
+    label: "Glacier Deep Archive",
+    description: "Cheapest archive, restore takes up to 48 hours",
+  },
+];
+
+export const RESTORE_TIER_OPTIONS: {
+  value: S3RestoreTier;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "Expedited",
+    label: "Expedited",
+    description: "1–5 minutes, not for Deep Archive",
+  },
+  {
+    value: "Standard",
+    label: "Standard",
+    description: "3–5 hours, 12 hours for Deep Archive",
+  },
+  {
+    value: "Bulk",
+    label: "Bulk",
+    description: "5–12 hours, 48 hours for Deep Archive",
+  },
+];
+
+/**
+ * Classes whose files have to be restored before they can be downloaded
+ */
+export const ARCHIVE_STORAGE_CLASSES = ["GLACIER", "DEEP_ARCHIVE"];
+
+export function getStorageClassLabel(storageClass?: string): string {
+  return (
+    STORAGE_CLASS_OPTIONS.find((option) => option.value === storageClass)
+      ?.label ||
+    storageClass ||
+    "Standard"
+  );
+}
+
+export function useS3StorageClass() {
+  const [status, setStatus] = useState<S3StorageStatus | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatus = useCallback(async (key: string) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/s3-files/restore?key=${encodeURIComponent(key)}`
+      );
+      const result = await response.json();
+
+      if (result.success) {
+        setStatus(result.data);
+      } else {
+        logger.error("❌ Failed to load storage status:", result.message);
+        setError(result.message || "Failed to load storage status");
+      }
+    } catch (err) {
+      logger.error("❌ Error loading storage status:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load storage status"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const restore = useCallback(
+    async (key: string, tier: S3RestoreTier, days: number) => {
+      try {
+        const response = await fetch("/api/s3-files/restore", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ key, tier, days }),
+        });
+        const result = await response.json();
+
+        if (result.success) {
+          setStatus(result.data);
+          return { success: true, message: result.message };
+        } else {
+          logger.error("❌ Failed to request restore:", result.message);
+          return { success: false, message: result.message };
+        }
+      } catch (err) {
+        logger.error("❌ Error requesting restore:", err);
+        return {
+          success: false,
+          message:
+            err instanceof Error ? err.message : "Failed to request restore",
+        };
+      }
+    },
+    []
+  );
+
+  return {
+    status,
+    loading,
+    error,
+    loadStatus,
+    restore,
+  };
+}
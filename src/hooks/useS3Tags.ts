@@ -0,0 +1,46 @@
+import { useState, useCallback, useEffect } from "react";
+import { logger } from "@/utils/logger";
+
+export interface TagCountItem {
+  tag: string;
+  count: number;
+}
+
+export function useS3Tags() {
+  const [tags, setTags] = useState<TagCountItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTags = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/s3-tags");
+      const result = await response.json();
+
+      if (result.success) {
+        setTags(result.data.tags || []);
+      } else {
+        logger.error("❌ Failed to load tags:", result.message);
+        setError(result.message || "Failed to load tags");
+      }
+    } catch (err) {
+      logger.error("❌ Error loading tags:", err);
+      setError(err instanceof Error ? err.message : "Failed to load tags");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTags();
+  }, [loadTags]);
+
+  return {
+    tags,
+    loading,
+    error,
+    loadTags,
+  };
+}
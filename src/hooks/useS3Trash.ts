@@ -0,0 +1,143 @@
+import { useState, useCallback, useEffect } from "react";
+import { logger } from "@/utils/logger";
+
+export interface TrashItem {
+  id: string;
+  name: string;
+  isFolder: boolean;
+  originalPath: string;
+  size: number;
+  fileCount: number;
+  mimeType?: string;
+  deletedAt: string;
+  expiresAt: string;
+}
+
+export function useS3Trash() {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTrash = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/s3-trash");
+      const result = await response.json();
+
+      if (result.success) {
+        setItems(result.data.items || []);
+        setRetentionDays(result.data.retentionDays ?? null);
+      } else {
+        logger.error("❌ Failed to load trash:", result.message);
+        setError(result.message || "Failed to load trash");
+      }
+    } catch (err) {
+      logger.error("❌ Error loading trash:", err);
+      setError(err instanceof Error ? err.message : "Failed to load trash");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const restoreItem = useCallback(
+    async (id: string) => {
+      logger.info("♻️ Restoring trash item:", id);
+
+      try {
+        const response = await fetch(
+          `/api/s3-trash/${encodeURIComponent(id)}`,
+          { method: "POST" }
+        );
+        const result = await response.json();
+
+        if (result.success) {
+          setItems((prev) => prev.filter((item) => item.id !== id));
+          return { success: true, restoredPath: result.data?.restoredPath };
+        } else {
+          logger.error("❌ Restore failed:", result.message);
+          await loadTrash();
+          return { success: false, message: result.message };
+        }
+      } catch (error) {
+        logger.error("❌ Restore error:", error);
+        return {
+          success: false,
+          message: error instanceof Error ? error.message : "Restore failed",
+        };
+      }
+    },
+    [loadTrash]
+  );
+
+  const deleteItem = useCallback(
+    async (id: string) => {
+      logger.info("🗑️ Permanently deleting trash item:", id);
+      setItems((prev) => prev.filter((item) => item.id !== id));
+
+      try {
+        const response = await fetch(
+          `/api/s3-trash/${encodeURIComponent(id)}`,
+          { method: "DELETE" }
+        );
+        const result = await response.json();
+
+        if (result.success) {
+          return { success: true };
+        } else {
+          logger.error("❌ Permanent delete failed:", result.message);
+          await loadTrash();
+          return { success: false, message: result.message };
+        }
+      } catch (error) {
+        logger.error("❌ Permanent delete error:", error);
+        await loadTrash();
+        return {
+          success: false,
+          message: error instanceof Error ? error.message : "Delete failed",
+        };
+      }
+    },
+    [loadTrash]
+  );
+
+  const emptyTrash = useCallback(async () => {
+    logger.info("🧹 Emptying trash");
+
+    try {
+      const response = await fetch("/api/s3-trash", { method: "DELETE" });
+      const result = await response.json();
+
+      if (result.success) {
+        setItems([]);
+        return { success: true };
+      } else {
+        logger.error("❌ Empty trash failed:", result.message);
+        return { success: false, message: result.message };
+      }
+    } catch (error) {
+      logger.error("❌ Empty trash error:", error);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : "Empty trash failed",
+      };
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  return {
+    items,
+    retentionDays,
+    loading,
+    error,
+    loadTrash,
+    restoreItem,
+    deleteItem,
+    emptyTrash,
+  };
+}
@@ -2,7 +2,11 @@ import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
 import { jwtVerify } from "jose";
 import { logger } from "@/utils/logger";
-import { checkRateLimit, getPolicyForPath } from "@/utils/rateLimitEdge";
+import {
+  checkRateLimit,
+  getPolicyForPath,
+  THUMBNAIL_PATH,
+} from "@/utils/rateLimitEdge";
 
 const JWT_SECRET = process.env.JWT_SECRET
   ? new TextEncoder().encode(process.env.JWT_SECRET)
@@ -52,7 +56,11 @@ export async function middleware(request: NextRequest) {
       policy = getPolicyForPath("/api/user/profile");
     }
 
-    const rateLimitResult = await checkRateLimit(userId, policy);
+    // A gallery loads many thumbnails at once, so they get their own budget
+    const rateLimitResult = await checkRateLimit(
+      pathname === THUMBNAIL_PATH ? `${userId}:thumbnails` : userId,
+      policy
+    );
 
     if (!rateLimitResult.allowed) {
       logger.warn("Rate limit exceeded:", {
@@ -11,7 +11,14 @@ export interface IActivityLog extends Document {
     | "create_folder"
     | "delete_folder"
     | "rename"
-    | "rename_folder";
+    | "rename_folder"
+    | "copy"
+    | "copy_folder"
+    | "move"
+    | "restore"
+    | "share"
+    | "share_access"
+    | "share_revoke";
   fileName: string;
   filePath?: string;
   fileSize?: number;
@@ -65,6 +72,13 @@ const ActivityLogSchema = new Schema<IActivityLog>(
         "delete_folder",
         "rename",
         "rename_folder",
+        "copy",
+        "copy_folder",
+        "move",
+        "restore",
+        "share",
+        "share_access",
+        "share_revoke",
       ],
       required: true,
       index: true,
@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema, Types, Model } from "mongoose";
+import { escapeRegex } from "@/utils/escapeRegex";
 
 export interface IFileMetadata extends Document {
   _id: string;
@@ -9,13 +10,62 @@ export interface IFileMetadata extends Document {
   fileSize: number;
   mimeType: string;
   lastModified: Date;
+  /** S3 storage class, unset for STANDARD */
+  storageClass?: string;
+  /** ETag of the object the row was synced from, to tell edits from copies */
+  etag?: string;
   tags?: string[];
+  /** Set while the file is starred by its owner */
+  starredAt?: Date;
   searchableContent?: string;
   isIndexed: boolean;
+  thumbnails?: {
+    small: string;
+    medium: string;
+    large: string;
+    generatedAt: Date;
+  };
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type FileSearchSort = "relevance" | "name" | "date" | "size";
+
+export interface FileSearchOptions {
+  /** "text" uses the text index, "name" matches part of the file name */
+  match?: "text" | "name";
+  mimeType?: string;
+  /** Exact MIME types or wildcards such as "image/*", any of which match */
+  mimeTypes?: string[];
+  /** Every tag must be present, ignoring case */
+  tags?: string[];
+  minSize?: number;
+  maxSize?: number;
+  modifiedAfter?: Date;
+  modifiedBefore?: Date;
+  /** Only search below this folder, e.g. "/finance" */
+  folder?: string;
+  sort?: FileSearchSort;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface FileSearchPage {
+  files: IFileMetadata[];
+  total: number;
+  nextCursor?: string;
+}
+
+export type FolderListSort = "name" | "size" | "date" | "type";
+
+export interface FolderListOptions {
+  sort?: FolderListSort;
+  /** Defaults to A-Z for name and type, largest and newest first otherwise */
+  order?: "asc" | "desc";
+  limit?: number;
+  cursor?: string;
+}
+
 export interface IFileMetadataModel extends Model<IFileMetadata> {
   syncFromS3Object(
     userId: string,
@@ -24,18 +74,27 @@ export interface IFileMetadataModel extends Model<IFileMetadata> {
       Size: number;
       LastModified: Date;
       ContentType?: string;
+      StorageClass?: string;
+      ETag?: string;
     }
   ): Promise<IFileMetadata>;
 
+  syncManyFromS3Objects(
+    userId: string,
+    s3Objects: Parameters<IFileMetadataModel["syncFromS3Object"]>[1][]
+  ): Promise<void>;
+
   searchFiles(
     userId: string,
     query: string,
-    options?: {
-      mimeType?: string;
-      limit?: number;
-      skip?: number;
-    }
-  ): Promise<IFileMetadata[]>;
+    options?: FileSearchOptions
+  ): Promise<FileSearchPage>;
+
+  listFolder(
+    userId: string,
+    folderPath: string,
+    options?: FolderListOptions
+  ): Promise<FileSearchPage>;
 
   getStorageStats(userId: string): Promise<{
     totalFiles: number;
@@ -46,6 +105,8 @@ export interface IFileMetadataModel extends Model<IFileMetadata> {
   getFileTypeStats(
     userId: string
   ): Promise<Array<{ _id: string; count: number; size: number }>>;
+
+  getTagCounts(userId: string): Promise<Array<{ tag: string; count: number }>>;
 }
 
 const FileMetadataSchema = new Schema<IFileMetadata>(
@@ -89,6 +150,13 @@ const FileMetadataSchema = new Schema<IFileMetadata>(
       required: true,
       index: true,
     },
+    storageClass: {
+      type: String,
+      trim: true,
+    },
+    etag: {
+      type: String,
+    },
     tags: [
       {
         type: String,
@@ -96,6 +164,9 @@ const FileMetadataSchema = new Schema<IFileMetadata>(
         maxlength: 50,
       },
     ],
+    starredAt: {
+      type: Date,
+    },
     searchableContent: {
       type: String,
       trim: true,
@@ -105,6 +176,18 @@ const FileMetadataSchema = new Schema<IFileMetadata>(
       default: false,
       index: true,
     },
+    thumbnails: {
+      type: new Schema(
+        {
+          small: { type: String, required: true },
+          medium: { type: String, required: true },
+          large: { type: String, required: true },
+          generatedAt: { type: Date, required: true },
+        },
+        { _id: false }
+      ),
+      default: undefined,
+    },
   },
   {
     timestamps: true,
@@ -119,6 +202,9 @@ FileMetadataSchema.index({
 FileMetadataSchema.index({ userId: 1, mimeType: 1 });
 FileMetadataSchema.index({ userId: 1, lastModified: -1 });
 FileMetadataSchema.index({ userId: 1, fileSize: -1 });
+FileMetadataSchema.index({ userId: 1, tags: 1 });
+FileMetadataSchema.index({ userId: 1, starredAt: -1 });
+FileMetadataSchema.index({ userId: 1, filePath: 1 });
 FileMetadataSchema.index({ s3Key: 1 }, { unique: true });
 
 FileMetadataSchema.virtual("extension").get(function () {
@@ -140,15 +226,12 @@ FileMetadataSchema.virtual("category").get(function () {
   return "other";
 });
 
-FileMetadataSchema.statics.syncFromS3Object = async function (
-  userId: string,
-  s3Object: {
-    Key: string;
-    Size: number;
-    LastModified: Date;
-    ContentType?: string;
-  }
-) {
+type SyncedObject = Parameters<IFileMetadataModel["syncFromS3Object"]>[1];
+
+/**
+ * Update that makes a file's row match its S3 object
+ */
+function toSyncUpdate(userId: string, s3Object: SyncedObject) {
   const fileName = s3Object.Key.split("/").pop() || s3Object.Key;
   const filePath = "/" + s3Object.Key.split("/").slice(1).join("/");
 
@@ -163,43 +246,348 @@ FileMetadataSchema.statics.syncFromS3Object = async function (
     isIndexed: false,
   };
 
-  return this.findOneAndUpdate({ s3Key: s3Object.Key }, metadata, {
-    upsert: true,
-    new: true,
-  });
+  // The object may have new content, so drop thumbnails of the old one
+  const unset: Record<string, 1> = { thumbnails: 1 };
+  // Only callers that know the storage class change it
+  if (s3Object.StorageClass === "STANDARD") {
+    unset.storageClass = 1;
+  } else if (s3Object.StorageClass) {
+    Object.assign(metadata, { storageClass: s3Object.StorageClass });
+  }
+  // A stale ETag would hide the next edit, so an unknown one is cleared
+  if (s3Object.ETag) {
+    Object.assign(metadata, { etag: s3Object.ETag });
+  } else {
+    unset.etag = 1;
+  }
+
+  return { $set: metadata, $unset: unset };
+}
+
+FileMetadataSchema.statics.syncFromS3Object = async function (
+  userId: string,
+  s3Object: SyncedObject
+) {
+  return this.findOneAndUpdate(
+    { s3Key: s3Object.Key },
+    toSyncUpdate(userId, s3Object),
+    {
+      upsert: true,
+      new: true,
+    }
+  );
 };
 
+/**
+ * Sync many objects in one round trip, for files found in bulk such as a
+ * folder written straight to the bucket
+ */
+FileMetadataSchema.statics.syncManyFromS3Objects = async function (
+  userId: string,
+  s3Objects: SyncedObject[]
+): Promise<void> {
+  if (s3Objects.length === 0) return;
+
+  await this.bulkWrite(
+    s3Objects.map((s3Object) => ({
+      updateOne: {
+        filter: { s3Key: s3Object.Key },
+        update: toSyncUpdate(userId, s3Object),
+        upsert: true,
+      },
+    })),
+    { ordered: false }
+  );
+};
+
+type SortField = "fileName" | "lastModified" | "fileSize" | "mimeType";
+
+const SORT_FIELDS: Record<
+  Exclude<FileSearchSort, "relevance"> | FolderListSort,
+  { field: SortField; direction: 1 | -1 }
+> = {
+  name: { field: "fileName", direction: 1 },
+  date: { field: "lastModified", direction: -1 },
+  size: { field: "fileSize", direction: -1 },
+  type: { field: "mimeType", direction: 1 },
+};
+
+interface SearchCursor {
+  /** Offset into relevance-ranked results */
+  offset?: number;
+  /** Sort value and ID of the last result for the other orders */
+  value?: string | number;
+  id?: string;
+}
+
+function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/**
+ * Thrown for a cursor this model did not hand out, so callers can answer
+ * with a client error instead of a failed query
+ */
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid cursor");
+    this.name = "InvalidCursorError";
+  }
+}
+
+/**
+ * Read a cursor back, or null when it is not one `encodeCursor` produced
+ * for `field` (an offset cursor when no field is given)
+ */
+function decodeCursor(cursor: string, field?: SortField): SearchCursor | null {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+  if (!decoded || typeof decoded !== "object") return null;
+
+  const { offset, value, id } = decoded as Record<string, unknown>;
+  if (!field) {
+    return typeof offset === "number" && Number.isInteger(offset) && offset >= 0
+      ? { offset }
+      : null;
+  }
+
+  const validValue =
+    field === "fileName" || field === "mimeType"
+      ? typeof value === "string"
+      : typeof value === "number" && Number.isFinite(value);
+  if (!validValue || typeof id !== "string" || !Types.ObjectId.isValid(id)) {
+    return null;
+  }
+  return { value: value as string | number, id };
+}
+
+/**
+ * Decode the cursor passed by the caller, rejecting one that does not match
+ * the requested order
+ */
+function readCursor(cursor?: string, field?: SortField): SearchCursor | null {
+  if (!cursor) return null;
+  const decoded = decodeCursor(cursor, field);
+  if (!decoded) throw new InvalidCursorError();
+  return decoded;
+}
+
+/**
+ * Conditions for the results after the cursor in (field, _id) order
+ */
+function getCursorConditions(
+  field: SortField,
+  direction: 1 | -1,
+  cursor: SearchCursor | null
+): Record<string, unknown> | null {
+  if (!cursor?.id || cursor.value === undefined) return null;
+
+  const value =
+    field === "lastModified" ? new Date(cursor.value) : cursor.value;
+  const comparison = direction === 1 ? "$gt" : "$lt";
+  return {
+    $or: [
+      { [field]: { [comparison]: value } },
+      {
+        [field]: value,
+        _id: { [comparison]: new Types.ObjectId(cursor.id) },
+      },
+    ],
+  };
+}
+
+/**
+ * Cursor for the page after `files`, which holds one extra result when
+ * there is a next page
+ */
+function getNextCursor(
+  files: IFileMetadata[],
+  limit: number,
+  field: SortField
+): string | undefined {
+  if (files.length <= limit) return undefined;
+
+  const last = files[limit - 1];
+  return encodeCursor({
+    value: field === "lastModified" ? last.lastModified.getTime() : last[field],
+    id: String(last._id),
+  });
+}
+
+/**
+ * Search a user's files with filters and cursor pagination. Relevance
+ * ordering pages by offset since text scores cannot be range-queried;
+ * the other orders page from the last result so new uploads do not shift
+ * later pages.
+ */
 FileMetadataSchema.statics.searchFiles = async function (
   userId: string,
   query: string,
-  options: {
-    mimeType?: string;
-    limit?: number;
-    skip?: number;
-  } = {}
-) {
-  const { mimeType, limit = 20, skip = 0 } = options;
+  options: FileSearchOptions = {}
+): Promise<FileSearchPage> {
+  const {
+    match = "text",
+    mimeType,
+    mimeTypes,
+    tags,
+    minSize,
+    maxSize,
+    modifiedAfter,
+    modifiedBefore,
+    folder,
+    limit = 50,
+  } = options;
 
-  const searchConditions: Record<string, unknown> = {
+  const conditions: Record<string, unknown> = {
     userId: new Types.ObjectId(userId),
   };
 
-  if (query) {
-    searchConditions.$or = [
-      { fileName: { $regex: query, $options: "i" } },
-      { searchableContent: { $regex: query, $options: "i" } },
-      { tags: { $in: [new RegExp(query, "i")] } },
-    ];
+  if (query && match === "text") {
+    conditions.$text = { $search: query };
+  } else if (query) {
+    conditions.fileName = { $regex: escapeRegex(query), $options: "i" };
   }
 
   if (mimeType) {
-    searchConditions.mimeType = { $regex: mimeType, $options: "i" };
+    conditions.mimeType = mimeType.endsWith("/*")
+      ? { $regex: `^${escapeRegex(mimeType.slice(0, -1))}`, $options: "i" }
+      : { $regex: escapeRegex(mimeType), $options: "i" };
+  }
+
+  if (mimeTypes?.length) {
+    const anyType = {
+      $in: mimeTypes.map((type) =>
+        type.endsWith("/*")
+          ? new RegExp(`^${escapeRegex(type.slice(0, -1))}`, "i")
+          : new RegExp(`^${escapeRegex(type)}$`, "i")
+      ),
+    };
+    if (conditions.mimeType) {
+      conditions.$and = [{ mimeType: anyType }];
+    } else {
+      conditions.mimeType = anyType;
+    }
+  }
+
+  if (tags?.length) {
+    conditions.tags = {
+      $all: tags.map((tag) => new RegExp(`^${escapeRegex(tag)}$`, "i")),
+    };
+  }
+
+  if (minSize !== undefined || maxSize !== undefined) {
+    conditions.fileSize = {
+      ...(minSize !== undefined && { $gte: minSize }),
+      ...(maxSize !== undefined && { $lte: maxSize }),
+    };
+  }
+
+  if (modifiedAfter || modifiedBefore) {
+    conditions.lastModified = {
+      ...(modifiedAfter && { $gte: modifiedAfter }),
+      ...(modifiedBefore && { $lte: modifiedBefore }),
+    };
   }
 
-  return this.find(searchConditions)
-    .sort({ lastModified: -1 })
-    .limit(limit)
-    .skip(skip);
+  const folderPath = folder?.replace(/\/+$/, "");
+  if (folderPath) {
+    conditions.filePath = {
+      $regex: `^${escapeRegex(folderPath.startsWith("/") ? folderPath : `/${folderPath}`)}/`,
+    };
+  }
+
+  const total = await this.countDocuments(conditions);
+  // Name matches have no score, so they fall back to alphabetical order
+  const canRank = !!query && match === "text";
+  const fallbackSort = query ? "name" : "date";
+  const sort =
+    (options.sort || "relevance") === "relevance" && !canRank
+      ? fallbackSort
+      : options.sort || "relevance";
+
+  if (sort === "relevance") {
+    const offset = readCursor(options.cursor)?.offset || 0;
+    const files = await this.find(conditions, {
+      score: { $meta: "textScore" },
+    })
+      .sort({ score: { $meta: "textScore" }, _id: 1 })
+      .skip(offset)
+      .limit(limit + 1);
+
+    return {
+      files: files.slice(0, limit),
+      total,
+      nextCursor:
+        files.length > limit
+          ? encodeCursor({ offset: offset + limit })
+          : undefined,
+    };
+  }
+
+  const { field, direction } = SORT_FIELDS[sort];
+  const cursor = readCursor(options.cursor, field);
+  const pageConditions = {
+    ...conditions,
+    ...getCursorConditions(field, direction, cursor),
+  };
+
+  const files: IFileMetadata[] = await this.find(pageConditions)
+    .sort({ [field]: direction, _id: direction })
+    .limit(limit + 1);
+
+  return {
+    files: files.slice(0, limit),
+    total,
+    nextCursor: getNextCursor(files, limit, field),
+  };
+};
+
+/**
+ * Page through the files directly in a folder in a stable sorted order,
+ * so folders too large to sort on the client can be scrolled through.
+ * Names and types compare case-insensitively.
+ */
+FileMetadataSchema.statics.listFolder = async function (
+  userId: string,
+  folderPath: string,
+  options: FolderListOptions = {}
+): Promise<FileSearchPage> {
+  const { sort = "name", order, limit = 50 } = options;
+  const segments = folderPath.split("/").filter(Boolean);
+  const prefix = segments.length > 0 ? `/${segments.join("/")}/` : "/";
+
+  const conditions = {
+    userId: new Types.ObjectId(userId),
+    filePath: { $regex: `^${escapeRegex(prefix)}[^/]+$` },
+  };
+
+  const { field, direction: defaultDirection } = SORT_FIELDS[sort];
+  const direction: 1 | -1 = order
+    ? order === "asc"
+      ? 1
+      : -1
+    : defaultDirection;
+  const collation = { locale: "en", strength: 2 };
+  const cursor = readCursor(options.cursor, field);
+
+  const total = await this.countDocuments(conditions);
+  const files: IFileMetadata[] = await this.find({
+    ...conditions,
+    ...getCursorConditions(field, direction, cursor),
+  })
+    .collation(collation)
+    .sort({ [field]: direction, _id: direction })
+    .limit(limit + 1);
+
+  return {
+    files: files.slice(0, limit),
+    total,
+    nextCursor: getNextCursor(files, limit, field),
+  };
 };
 
 FileMetadataSchema.statics.getStorageStats = async function (userId: string) {
@@ -255,6 +643,26 @@ FileMetadataSchema.statics.getFileTypeStats = async function (userId: string) {
   ]);
 };
 
+/**
+ * Number of files carrying each tag. Tags that differ only in case are
+ * counted together, as search matches them that way too.
+ */
+FileMetadataSchema.statics.getTagCounts = async function (userId: string) {
+  return this.aggregate([
+    { $match: { userId: new Types.ObjectId(userId), tags: { $ne: [] } } },
+    { $unwind: "$tags" },
+    {
+      $group: {
+        _id: { $toLower: "$tags" },
+        tag: { $first: "$tags" },
+        count: { $sum: 1 },
+      },
+    },
+    { $sort: { count: -1, _id: 1 } },
+    { $project: { _id: 0, tag: 1, count: 1 } },
+  ]);
+};
+
 export default mongoose.models.FileMetadata ||
   mongoose.model<IFileMetadata, IFileMetadataModel>(
     "FileMetadata",
@@ -0,0 +1,101 @@
+import mongoose, { Document, Schema, Types, Model } from "mongoose";
+
+export type ReconciliationTrigger = "scheduled" | "user" | "admin";
+
+export interface IReconciliationReport extends Document {
+  _id: string;
+  userId: Types.ObjectId;
+  trigger: ReconciliationTrigger;
+  status: "completed" | "failed";
+  /** Objects found in the bucket, excluding folder markers and trash */
+  scanned: number;
+  /** Rows created for objects that had no metadata */
+  missing: number;
+  /** Rows removed because their object is gone */
+  orphaned: number;
+  /** Rows whose size or modified date no longer matched the object */
+  mismatched: number;
+  /** A few affected keys of each kind, to show what changed */
+  samples: {
+    missing: string[];
+    orphaned: string[];
+    mismatched: string[];
+  };
+  durationMs: number;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IReconciliationReportModel extends Model<IReconciliationReport> {
+  getLatest(userId: string): Promise<IReconciliationReport | null>;
+}
+
+const ReconciliationReportSchema = new Schema<IReconciliationReport>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    trigger: {
+      type: String,
+      enum: ["scheduled", "user", "admin"],
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["completed", "failed"],
+      required: true,
+    },
+    scanned: { type: Number, min: 0, default: 0 },
+    missing: { type: Number, min: 0, default: 0 },
+    orphaned: { type: Number, min: 0, default: 0 },
+    mismatched: { type: Number, min: 0, default: 0 },
+    samples: {
+      type: new Schema(
+        {
+          missing: { type: [String], default: [] },
+          orphaned: { type: [String], default: [] },
+          mismatched: { type: [String], default: [] },
+        },
+        { _id: false }
+      ),
+      default: () => ({}),
+    },
+    durationMs: { type: Number, min: 0, default: 0 },
+    error: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+ReconciliationReportSchema.index({ userId: 1, createdAt: -1 });
+// Old reports are only kept for 90 days
+ReconciliationReportSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: 90 * 24 * 60 * 60 }
+);
+
+ReconciliationReportSchema.statics.getLatest = async function (userId: string) {
+  return this.findOne({ userId: new Types.ObjectId(userId) }).sort({
+    createdAt: -1,
+  });
+};
+
+let ReconciliationReport: IReconciliationReportModel;
+
+if (mongoose.models.ReconciliationReport) {
+  ReconciliationReport = mongoose.models
+    .ReconciliationReport as unknown as IReconciliationReportModel;
+} else {
+  ReconciliationReport = mongoose.model<
+    IReconciliationReport,
+    IReconciliationReportModel
+  >("ReconciliationReport", ReconciliationReportSchema);
+}
+
+export default ReconciliationReport;
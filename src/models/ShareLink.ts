@@ -0,0 +1,132 @@
+import mongoose, { Document, Schema, Types, Model } from "mongoose";
+
+export interface IShareLink extends Document {
+  _id: string;
+  userId: Types.ObjectId;
+  token: string;
+  s3Key: string;
+  name: string;
+  isFolder: boolean;
+  expiresAt?: Date;
+  passwordHash?: string;
+  maxDownloads?: number;
+  downloadCount: number;
+  lastAccessedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IShareLinkModel extends Model<IShareLink> {
+  findByToken(token: string): Promise<IShareLink | null>;
+  getUserShares(userId: string): Promise<IShareLink[]>;
+  claimDownload(id: string): Promise<IShareLink | null>;
+}
+
+const ShareLinkSchema = new Schema<IShareLink>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    token: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    s3Key: {
+      type: String,
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    isFolder: {
+      type: Boolean,
+      default: false,
+    },
+    expiresAt: {
+      type: Date,
+    },
+    passwordHash: {
+      type: String,
+      select: false,
+    },
+    maxDownloads: {
+      type: Number,
+      min: 1,
+    },
+    downloadCount: {
+      type: Number,
+      min: 0,
+      default: 0,
+    },
+    lastAccessedAt: {
+      type: Date,
+    },
+    revokedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+ShareLinkSchema.index({ userId: 1, createdAt: -1 });
+ShareLinkSchema.index({ userId: 1, s3Key: 1 });
+
+ShareLinkSchema.statics.findByToken = async function (token: string) {
+  return this.findOne({ token }).select("+passwordHash");
+};
+
+ShareLinkSchema.statics.getUserShares = async function (userId: string) {
+  return this.find({ userId: new Types.ObjectId(userId) })
+    .select("+passwordHash")
+    .sort({ createdAt: -1 });
+};
+
+/**
+ * Count one download against the link, failing when the link has been
+ * revoked, has expired or has no downloads left. The check and increment
+ * happen in one update so concurrent requests cannot overrun the limit.
+ */
+ShareLinkSchema.statics.claimDownload = async function (id: string) {
+  const now = new Date();
+  return this.findOneAndUpdate(
+    {
+      _id: id,
+      revokedAt: { $exists: false },
+      $and: [
+        {
+          $or: [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: now } }],
+        },
+        {
+          $or: [
+            { maxDownloads: { $exists: false } },
+            { $expr: { $lt: ["$downloadCount", "$maxDownloads"] } },
+          ],
+        },
+      ],
+    },
+    { $inc: { downloadCount: 1 }, $set: { lastAccessedAt: now } },
+    { new: true }
+  );
+};
+
+let ShareLink: IShareLinkModel;
+
+if (mongoose.models.ShareLink) {
+  ShareLink = mongoose.models.ShareLink as unknown as IShareLinkModel;
+} else {
+  ShareLink = mongoose.model<IShareLink, IShareLinkModel>(
+    "ShareLink",
+    ShareLinkSchema
+  );
+}
+
+export default ShareLink;
@@ -0,0 +1,108 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+import { DEFAULT_MAX_FILE_SIZE } from "@/utils/uploadLimits";
+
+export interface ISystemSettings extends Document {
+  _id: string;
+  key: string;
+  trashRetentionDays: number;
+  maxFileSize: number;
+  allowedFileTypes: string[];
+  defaultStorageQuota: number;
+  reconcileIntervalHours: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type SystemSettingsValues = Pick<
+  ISystemSettings,
+  | "trashRetentionDays"
+  | "maxFileSize"
+  | "allowedFileTypes"
+  | "defaultStorageQuota"
+  | "reconcileIntervalHours"
+>;
+
+export interface ISystemSettingsModel extends Model<ISystemSettings> {
+  getSettings(): Promise<ISystemSettings>;
+  updateSettings(
+    updates: Partial<SystemSettingsValues>
+  ): Promise<ISystemSettings>;
+}
+
+const SETTINGS_KEY = "global";
+
+const SystemSettingsSchema = new Schema<ISystemSettings>(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+      default: SETTINGS_KEY,
+    },
+    trashRetentionDays: {
+      type: Number,
+      min: 1,
+      max: 3650,
+      default: () => parseInt(process.env.TRASH_RETENTION_DAYS || "30"),
+    },
+    maxFileSize: {
+      type: Number,
+      min: 1,
+      default: () =>
+        parseInt(process.env.MAX_FILE_SIZE || String(DEFAULT_MAX_FILE_SIZE)),
+    },
+    allowedFileTypes: {
+      type: [String],
+      default: () => ["*"],
+    },
+    // Bytes per user, 0 for unlimited
+    defaultStorageQuota: {
+      type: Number,
+      min: 0,
+      default: () => parseInt(process.env.DEFAULT_STORAGE_QUOTA || "0"),
+    },
+    // Hours between metadata reconciliations per user, 0 to turn them off
+    reconcileIntervalHours: {
+      type: Number,
+      min: 0,
+      max: 8760,
+      default: () =>
+        parseInt(process.env.METADATA_RECONCILE_INTERVAL_HOURS || "24"),
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+SystemSettingsSchema.statics.getSettings = async function () {
+  return this.findOneAndUpdate(
+    { key: SETTINGS_KEY },
+    { $setOnInsert: { key: SETTINGS_KEY } },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+};
+
+SystemSettingsSchema.statics.updateSettings = async function (
+  updates: Partial<SystemSettingsValues>
+) {
+  return this.findOneAndUpdate(
+    { key: SETTINGS_KEY },
+    { $set: updates },
+    { upsert: true, new: true, setDefaultsOnInsert: true, runValidators: true }
+  );
+};
+
+let SystemSettings: ISystemSettingsModel;
+
+if (mongoose.models.SystemSettings) {
+  SystemSettings = mongoose.models
+    .SystemSettings as unknown as ISystemSettingsModel;
+} else {
+  SystemSettings = mongoose.model<ISystemSettings, ISystemSettingsModel>(
+    "SystemSettings",
+    SystemSettingsSchema
+  );
+}
+
+export default SystemSettings;
@@ -0,0 +1,108 @@
+import mongoose, { Document, Schema, Types, Model } from "mongoose";
+
+export interface ITrashItem extends Document {
+  _id: string;
+  userId: Types.ObjectId;
+  name: string;
+  isFolder: boolean;
+  originalKey: string;
+  originalPath: string;
+  trashPrefix: string;
+  size: number;
+  fileCount: number;
+  mimeType?: string;
+  deletedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ITrashItemModel extends Model<ITrashItem> {
+  findExpired(retentionDays: number, limit?: number): Promise<ITrashItem[]>;
+  getUserTrash(userId: string): Promise<ITrashItem[]>;
+}
+
+const TrashItemSchema = new Schema<ITrashItem>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    isFolder: {
+      type: Boolean,
+      default: false,
+    },
+    originalKey: {
+      type: String,
+      required: true,
+    },
+    originalPath: {
+      type: String,
+      required: true,
+    },
+    trashPrefix: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    size: {
+      type: Number,
+      min: 0,
+      default: 0,
+    },
+    fileCount: {
+      type: Number,
+      min: 0,
+      default: 0,
+    },
+    mimeType: {
+      type: String,
+      trim: true,
+    },
+    deletedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+TrashItemSchema.index({ userId: 1, deletedAt: -1 });
+TrashItemSchema.index({ deletedAt: 1 });
+
+TrashItemSchema.statics.findExpired = async function (
+  retentionDays: number,
+  limit: number = 100
+) {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  return this.find({ deletedAt: { $lte: cutoff } })
+    .sort({ deletedAt: 1 })
+    .limit(limit);
+};
+
+TrashItemSchema.statics.getUserTrash = async function (userId: string) {
+  return this.find({ userId: new Types.ObjectId(userId) }).sort({
+    deletedAt: -1,
+  });
+};
+
+let TrashItem: ITrashItemModel;
+
+if (mongoose.models.TrashItem) {
+  TrashItem = mongoose.models.TrashItem as unknown as ITrashItemModel;
+} else {
+  TrashItem = mongoose.model<ITrashItem, ITrashItemModel>(
+    "TrashItem",
+    TrashItemSchema
+  );
+}
+
+export default TrashItem;
@@ -0,0 +1,200 @@
+import { ListObjectsV2Command, GetObjectCommand } from "@aws-sdk/client-s3";
+import { getS3Client, getS3BucketName } from "../utils/s3ClientFactory";
+import { redisCache } from "../utils/redisCache";
+import ActivityLog, { IActivityLogModel } from "../models/ActivityLog";
+import { createZipStream, ZipEntry } from "../utils/zipStream";
+import { isTrashKey } from "./s3TrashOperations";
+import { logger } from "@/utils/logger";
+
+export interface ArchiveResult {
+  success: boolean;
+  message: string;
+  stream?: ReadableStream<Uint8Array>;
+  fileName?: string;
+  fileCount?: number;
+  error?: string;
+}
+
+interface ArchiveObject {
+  key: string;
+  name: string;
+  size?: number;
+  lastModified?: Date;
+}
+
+export class S3ArchiveOperations {
+  /**
+   * Stream a ZIP archive of a folder or of a selection of files and folders
+   * Objects are read from S3 one by one while the archive is being sent
+   */
+  static async createZipArchive(
+    userId: string,
+    source: { folderPath?: string; keys?: string[] },
+    signal?: AbortSignal
+  ): Promise<ArchiveResult> {
+    try {
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      let selection: string[];
+      let archiveName: string;
+
+      if (source.folderPath !== undefined) {
+        const normalizedFolderPath = `/${source.folderPath}`
+          .replace(/\/+/g, "/")
+          .replace(/\/$/, "");
+        selection = [`${userId}${normalizedFolderPath}/`];
+        archiveName = normalizedFolderPath.split("/").pop() || "My Files";
+      } else {
+        selection = Array.from(new Set(source.keys || []));
+        archiveName =
+          selection.length === 1
+            ? selection[0].replace(/\/$/, "").split("/").pop() || "download"
+            : "download";
+      }
+
+      if (
+        selection.length === 0 ||
+        selection.some(
+          (key) => !key.startsWith(`${userId}/`) || isTrashKey(userId, key)
+        )
+      ) {
+        return {
+          success: false,
+          message: "Access denied",
+          error: "ACCESS_DENIED",
+        };
+      }
+
+      const objects: ArchiveObject[] = [];
+      const usedNames = new Set<string>();
+      const addObject = (object: ArchiveObject) => {
+        let name = object.name;
+        for (let n = 1; usedNames.has(name); n++) {
+          const dot = object.name.lastIndexOf(".");
+          name =
+            dot > 0 && !object.name.endsWith("/")
+              ? `${object.name.slice(0, dot)} (${n})${object.name.slice(dot)}`
+              : `${object.name.replace(/\/$/, "")} (${n})${
+                  object.name.endsWith("/") ? "/" : ""
+                }`;
+        }
+        usedNames.add(name);
+        objects.push({ ...object, name });
+      };
+
+      for (const key of selection) {
+        if (!key.endsWith("/")) {
+          addObject({
+            key,
+            name: key.split("/").pop() || key,
+          });
+          continue;
+        }
+
+        // Entries inside a folder keep the folder itself as their root
+        const parentPrefix =
+          key === `${userId}/`
+            ? key
+            : key.slice(0, key.slice(0, -1).lastIndexOf("/") + 1);
+        let continuationToken: string | undefined;
+
+        do {
+          const listCommand = new ListObjectsV2Command({
+            Bucket: bucketName,
+            Prefix: key,
+            ContinuationToken: continuationToken,
+          });
+
+          const response = await s3Client.send(listCommand, {
+            abortSignal: signal,
+          });
+
+          for (const object of response.Contents || []) {
+            if (!object.Key || isTrashKey(userId, object.Key)) continue;
+            const name = object.Key.slice(parentPrefix.length);
+            if (!name) continue;
+            addObject({
+              key: object.Key,
+              name,
+              size: object.Key.endsWith("/") ? 0 : object.Size || 0,
+              lastModified: object.LastModified,
+            });
+          }
+
+          continuationToken = response.NextContinuationToken;
+        } while (continuationToken);
+      }
+
+      if (objects.length === 0) {
+        return {
+          success: false,
+          message: "Nothing to download",
+          error: "EMPTY_ARCHIVE",
+        };
+      }
+
+      logger.info("🗜️ Streaming ZIP archive:", {
+        archiveName,
+        entries: objects.length,
+      });
+
+      const entries: ZipEntry[] = objects.map((object) => ({
+        name: object.name,
+        size: object.size,
+        lastModified: object.lastModified,
+        open: async () => {
+          if (object.key.endsWith("/")) return [];
+
+          const getObjectCommand = new GetObjectCommand({
+            Bucket: bucketName,
+            Key: object.key,
+          });
+          const response = await s3Client.send(getObjectCommand, {
+            abortSignal: signal,
+          });
+
+          return response.Body as unknown as AsyncIterable<Uint8Array>;
+        },
+      }));
+
+      await (ActivityLog as unknown as IActivityLogModel).logActivity(
+        userId,
+        "download",
+        `${archiveName}.zip`,
+        {
+          metadata: {
+            archive: true,
+            fileCount: objects.length,
+            sources: selection,
+          },
+        }
+      );
+
+      await redisCache.invalidate(`activity:${userId}:*`);
+
+      return {
+        success: true,
+        message: "ZIP archive stream created",
+        stream: createZipStream(entries, signal),
+        fileName: `${archiveName}.zip`,
+        fileCount: objects.length,
+      };
+    } catch (error) {
+      logger.error("ZIP archive error:", error);
+      return {
+        success: false,
+        message: "Failed to create ZIP archive",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+}
@@ -0,0 +1,396 @@
+import { DeleteObjectsCommand } from "@aws-sdk/client-s3";
+import { getS3Client, getS3BucketName } from "../utils/s3ClientFactory";
+import { redisCache } from "../utils/redisCache";
+import ActivityLog, { IActivityLogModel } from "../models/ActivityLog";
+import FileMetadata, { IFileMetadataModel } from "../models/FileMetadata";
+import { S3FileOperations } from "./s3FileOperations";
+import { S3FolderOperations } from "./s3FolderOperations";
+import { S3TrashOperations, isTrashKey } from "./s3TrashOperations";
+import { S3TagOperations } from "./s3TagOperations";
+import { deleteFileMetadata } from "./s3ThumbnailOperations";
+import {
+  S3StorageClassOperations,
+  FileStorageClass,
+} from "./s3StorageClassOperations";
+import { logger } from "@/utils/logger";
+
+export type BatchAction =
+  "delete" | "move" | "copy" | "tag" | "download" | "storage-class";
+
+export const BATCH_ACTIONS: BatchAction[] = [
+  "delete",
+  "move",
+  "copy",
+  "tag",
+  "download",
+  "storage-class",
+];
+
+export const MAX_BATCH_KEYS = 1000;
+
+export interface BatchOptions {
+  destinationPath?: string;
+  tags?: string[];
+  permanent?: boolean;
+  storageClass?: FileStorageClass;
+}
+
+export interface BatchItemResult {
+  key: string;
+  success: boolean;
+  message: string;
+  newKey?: string;
+  url?: string;
+  error?: string;
+}
+
+export interface BatchResult {
+  success: boolean;
+  message: string;
+  results?: BatchItemResult[];
+  succeeded?: number;
+  failed?: number;
+  error?: string;
+}
+
+const DELETE_BATCH_SIZE = 1000;
+
+/**
+ * Folder keys end with a slash, e.g. `${userId}/photos/2024/`
+ */
+function isFolderKey(key: string): boolean {
+  return key.endsWith("/");
+}
+
+function toFolderPath(userId: string, key: string): string {
+  return key.substring(userId.length).replace(/\/$/, "");
+}
+
+export class S3BatchOperations {
+  /**
+   * Run a single action against a list of file and folder keys
+   * Every key gets its own result so partial failures can be reported
+   */
+  static async runBatch(
+    userId: string,
+    action: BatchAction,
+    keys: string[],
+    options: BatchOptions = {}
+  ): Promise<BatchResult> {
+    try {
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      const uniqueKeys = Array.from(new Set(keys));
+      const results: BatchItemResult[] = [];
+      const ownedKeys: string[] = [];
+
+      for (const key of uniqueKeys) {
+        if (
+          key.startsWith(`${userId}/`) &&
+          key !== `${userId}/` &&
+          !isTrashKey(userId, key)
+        ) {
+          ownedKeys.push(key);
+        } else {
+          results.push({
+            key,
+            success: false,
+            message: "Access denied",
+            error: "ACCESS_DENIED",
+          });
+        }
+      }
+
+      const fileKeys = ownedKeys.filter((key) => !isFolderKey(key));
+      const folderKeys = ownedKeys.filter(isFolderKey);
+
+      logger.info(`📦 Running batch ${action}:`, {
+        files: fileKeys.length,
+        folders: folderKeys.length,
+      });
+
+      switch (action) {
+        case "delete":
+          if (options.permanent) {
+            results.push(
+              ...(await S3BatchOperations.deleteFiles(userId, fileKeys))
+            );
+          } else {
+            for (const key of fileKeys) {
+              const result = await S3TrashOperations.trashFile(userId, key);
+              results.push({
+                key,
+                success: result.success,
+                message: result.message,
+                error: result.error,
+              });
+            }
+          }
+          for (const key of folderKeys) {
+            const result = options.permanent
+              ? await S3FolderOperations.deleteFolder(
+                  userId,
+                  toFolderPath(userId, key)
+                )
+              : await S3TrashOperations.trashFolder(
+                  userId,
+                  toFolderPath(userId, key)
+                );
+            results.push({
+              key,
+              success: result.success,
+              message: result.message,
+              error: result.error,
+            });
+          }
+          break;
+
+        case "move":
+        case "copy": {
+          const destinationPath = options.destinationPath ?? "";
+          const destinationPrefix = `${userId}/${destinationPath}/`.replace(
+            /\/+/g,
+            "/"
+          );
+          if (isTrashKey(userId, destinationPrefix)) {
+            return {
+              success: false,
+              message: `Items cannot be ${action === "move" ? "moved" : "copied"} into the trash`,
+              error: "INVALID_DESTINATION",
+            };
+          }
+          for (const key of fileKeys) {
+            const result =
+              action === "move"
+                ? await S3FileOperations.moveFile(userId, key, destinationPath)
+                : await S3FileOperations.copyFile(userId, key, destinationPath);
+            results.push({
+              key,
+              success: result.success,
+              message: result.message,
+              newKey: result.file?.key,
+              error: result.error,
+            });
+          }
+          for (const key of folderKeys) {
+            const folderPath = toFolderPath(userId, key);
+            const result =
+              action === "move"
+                ? await S3FolderOperations.moveFolder(
+                    userId,
+                    folderPath,
+                    destinationPath
+                  )
+                : await S3FolderOperations.copyFolder(
+                    userId,
+                    folderPath,
+                    destinationPath
+                  );
+            results.push({
+              key,
+              success: result.success,
+              message: result.message,
+              newKey: result.folder?.key,
+              error: result.error,
+            });
+          }
+          break;
+        }
+
+        case "tag": {
+          const tagResult = await S3TagOperations.addTags(
+            userId,
+            fileKeys,
+            options.tags || []
+          );
+          results.push(...(tagResult.results || []));
+          results.push(
+            ...folderKeys.map((key) => ({
+              key,
+              success: false,
+              message: "Folders cannot be tagged",
+              error: "UNSUPPORTED_FOR_FOLDER",
+            }))
+          );
+          break;
+        }
+
+        case "storage-class":
+          for (const key of fileKeys) {
+            const result = await S3StorageClassOperations.changeStorageClass(
+              userId,
+              key,
+              options.storageClass || "STANDARD"
+            );
+            results.push({
+              key,
+              success: result.success,
+              message: result.message,
+              error: result.error,
+            });
+          }
+          for (const key of folderKeys) {
+            const result =
+              await S3StorageClassOperations.changeFolderStorageClass(
+                userId,
+                toFolderPath(userId, key),
+                options.storageClass || "STANDARD"
+              );
+            results.push({
+              key,
+              success: result.success,
+              message: result.message,
+              error: result.error,
+            });
+          }
+          break;
+
+        case "download":
+          for (const key of fileKeys) {
+            const result = await S3FileOperations.getDownloadUrl(userId, key);
+            results.push({
+              key,
+              success: result.success,
+              message: result.message,
+              url: result.url,
+            });
+          }
+          results.push(
+            ...folderKeys.map((key) => ({
+              key,
+              success: false,
+              message: "Folders cannot be downloaded individually",
+              error: "UNSUPPORTED_FOR_FOLDER",
+            }))
+          );
+          break;
+      }
+
+      await redisCache.invalidate(`list:${userId}:/`);
+      await redisCache.invalidate(`list:${userId}:`);
+      await redisCache.invalidate(`analytics:${userId}:*`);
+
+      const succeeded = results.filter((r) => r.success).length;
+      const failed = results.length - succeeded;
+
+      return {
+        success: true,
+        message:
+          failed === 0
+            ? `Batch ${action} completed for ${succeeded} item(s)`
+            : `Batch ${action} completed with ${failed} failure(s)`,
+        results,
+        succeeded,
+        failed,
+      };
+    } catch (error) {
+      logger.error("Batch operation error:", error);
+      return {
+        success: false,
+        message: `Failed to run batch ${action}`,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Delete files in batches of up to 1000 keys per DeleteObjects request
+   */
+  private static async deleteFiles(
+    userId: string,
+    keys: string[]
+  ): Promise<BatchItemResult[]> {
+    const s3Client = await getS3Client(userId);
+    const bucketName = await getS3BucketName(userId);
+    const results: BatchItemResult[] = [];
+
+    if (!s3Client || !bucketName || keys.length === 0) {
+      return results;
+    }
+
+    for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+      const chunk = keys.slice(i, i + DELETE_BATCH_SIZE);
+
+      try {
+        const deleteCommand = new DeleteObjectsCommand({
+          Bucket: bucketName,
+          Delete: {
+            Objects: chunk.map((Key) => ({ Key })),
+            Quiet: false,
+          },
+        });
+
+        const response = await s3Client.send(deleteCommand);
+        const deletedKeys = (response.Deleted || [])
+          .map((deleted) => deleted.Key)
+          .filter((key): key is string => !!key);
+
+        for (const error of response.Errors || []) {
+          if (!error.Key) continue;
+          results.push({
+            key: error.Key,
+            success: false,
+            message: error.Message || "Failed to delete file",
+            error: error.Code,
+          });
+        }
+
+        const metadataRows = await (
+          FileMetadata as unknown as IFileMetadataModel
+        )
+          .find({ s3Key: { $in: deletedKeys } })
+          .select("s3Key fileName fileSize")
+          .lean<Array<{ s3Key: string; fileName: string; fileSize: number }>>();
+        const metadataByKey = new Map(
+          metadataRows.map((row) => [row.s3Key, row])
+        );
+
+        for (const key of deletedKeys) {
+          const metadata = metadataByKey.get(key);
+          await (ActivityLog as unknown as IActivityLogModel).logActivity(
+            userId,
+            "delete",
+            metadata?.fileName || key.split("/").pop() || key,
+            {
+              fileSize: metadata?.fileSize || 0,
+              s3Key: key,
+              metadata: { batch: true },
+            }
+          );
+          results.push({
+            key,
+            success: true,
+            message: "File deleted successfully",
+          });
+        }
+
+        await deleteFileMetadata(s3Client, bucketName, userId, {
+          s3Key: { $in: deletedKeys },
+        });
+      } catch (error) {
+        logger.error("Batch delete chunk error:", error);
+        results.push(
+          ...chunk.map((key) => ({
+            key,
+            success: false,
+            message: "Failed to delete file",
+            error: error instanceof Error ? error.message : "Unknown error",
+          }))
+        );
+      }
+    }
+
+    await redisCache.invalidate(`activity:${userId}:*`);
+
+    return results;
+  }
+}
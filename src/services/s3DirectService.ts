@@ -4,6 +4,106 @@
 import { S3FileOperations } from "./s3FileOperations";
 import { S3FolderOperations } from "./s3FolderOperations";
 import { S3ListingOperations } from "./s3ListingOperations";
+import { S3BatchOperations } from "./s3BatchOperations";
+export type { ArchiveResult } from "./s3ArchiveOperations";
+export type {
+  TrashItemSummary,
+  TrashListResult,
+  RestoreResult,
+} from "./s3TrashOperations";
+export type {
+  VersioningStatus,
+  S3ObjectVersion,
+  VersioningStatusResult,
+  VersionListResult,
+  VersionActionResult,
+} from "./s3VersionOperations";
+export type {
+  ShareStatus,
+  ShareLinkSummary,
+  CreateShareOptions,
+  ShareResult,
+  ShareListResult,
+  PublicShareInfo,
+  PublicShareResult,
+  SharedFile,
+  SharedFileListResult,
+  ShareDownloadResult,
+  ShareRequestInfo,
+} from "./s3ShareOperations";
+export type { StorageQuota, QuotaResult } from "./s3QuotaOperations";
+export type { ThumbnailSize, ThumbnailResult } from "./s3ThumbnailOperations";
+export type { MediaStreamResult, PosterFrameResult } from "./s3MediaOperations";
+export type { IndexingResult, ReindexResult } from "./s3IndexingOperations";
+export type {
+  TextPreviewKind,
+  FilePreview,
+  PreviewResult,
+} from "./s3PreviewOperations";
+export type {
+  TagCount,
+  TagItemResult,
+  TagUpdateResult,
+  FileTagsResult,
+  TagCloudResult,
+} from "./s3TagOperations";
+export type {
+  StarredFileItem,
+  StarResult,
+  StarredListResult,
+} from "./s3StarOperations";
+export type {
+  RecentAction,
+  RecentFileItem,
+  RecentFilesResult,
+} from "./s3RecentOperations";
+export type {
+  DriftReport,
+  ReconcileResult,
+  ReconcileDueResult,
+} from "./s3ReconciliationOperations";
+export type {
+  FolderStatsChild,
+  FolderStats,
+  FolderStatsResult,
+} from "./s3FolderStatsOperations";
+export type {
+  S3EventRecord,
+  S3EventPayload,
+  S3EventIngestResult,
+} from "./s3EventOperations";
+export type {
+  FileStorageClass,
+  RestoreTier,
+  RestoreStatus,
+  StorageStatus,
+  StorageStatusResult,
+  StorageClassChangeResult,
+} from "./s3StorageClassOperations";
+export type {
+  TransitionStorageClass,
+  LifecycleTransition,
+  LifecycleRuleInput,
+  LifecycleConfig,
+  LifecycleResult,
+} from "./s3LifecycleOperations";
+import { S3ArchiveOperations } from "./s3ArchiveOperations";
+import { S3TrashOperations } from "./s3TrashOperations";
+import { S3VersionOperations } from "./s3VersionOperations";
+import { S3ShareOperations } from "./s3ShareOperations";
+import { S3QuotaOperations } from "./s3QuotaOperations";
+import { S3ThumbnailOperations } from "./s3ThumbnailOperations";
+import { S3MediaOperations } from "./s3MediaOperations";
+import { S3PreviewOperations } from "./s3PreviewOperations";
+import { S3IndexingOperations } from "./s3IndexingOperations";
+import { S3TagOperations } from "./s3TagOperations";
+import { S3StarOperations } from "./s3StarOperations";
+import { S3RecentOperations } from "./s3RecentOperations";
+import { S3ReconciliationOperations } from "./s3ReconciliationOperations";
+import { S3EventOperations } from "./s3EventOperations";
+import { S3FolderStatsOperations } from "./s3FolderStatsOperations";
+import { S3StorageClassOperations } from "./s3StorageClassOperations";
+import { S3LifecycleOperations } from "./s3LifecycleOperations";
 import { redisCache } from "../utils/redisCache";
 import { S3ConfigService } from "./s3ConfigService";
 import { logger } from "@/utils/logger";
@@ -13,9 +113,26 @@ export type {
   S3FileItem,
   UploadResult,
   DeleteResult,
+  MultipartUploadSession,
+  MultipartPart,
 } from "./s3FileOperations";
-export type { FolderResult, DeleteFolderResult } from "./s3FolderOperations";
-export type { ListResult, SearchResult } from "./s3ListingOperations";
+export type {
+  FolderResult,
+  FolderTreeResult,
+  DeleteFolderResult,
+} from "./s3FolderOperations";
+export type {
+  ListResult,
+  SearchOptions,
+  SearchResult,
+  SearchSuggestionResult,
+} from "./s3ListingOperations";
+export type {
+  BatchAction,
+  BatchOptions,
+  BatchItemResult,
+  BatchResult,
+} from "./s3BatchOperations";
 
 /**
  * Main S3 Direct Service
@@ -24,15 +141,93 @@ export type { ListResult, SearchResult } from "./s3ListingOperations";
 export class S3DirectService {
   static deleteFile = S3FileOperations.deleteFile;
   static renameFile = S3FileOperations.renameFile;
+  static copyFile = S3FileOperations.copyFile;
+  static moveFile = S3FileOperations.moveFile;
   static getDownloadUrl = S3FileOperations.getDownloadUrl;
   static getUploadPresignedUrl = S3FileOperations.getUploadPresignedUrl;
+  static confirmUpload = S3FileOperations.confirmUpload;
+  static createMultipartUpload = S3FileOperations.createMultipartUpload;
+  static getMultipartPartUrls = S3FileOperations.getMultipartPartUrls;
+  static listMultipartParts = S3FileOperations.listMultipartParts;
+  static completeMultipartUpload = S3FileOperations.completeMultipartUpload;
+  static abortMultipartUpload = S3FileOperations.abortMultipartUpload;
 
   static createFolder = S3FolderOperations.createFolder;
+  static createFolderTree = S3FolderOperations.createFolderTree;
   static deleteFolder = S3FolderOperations.deleteFolder;
   static renameFolder = S3FolderOperations.renameFolder;
+  static copyFolder = S3FolderOperations.copyFolder;
+  static moveFolder = S3FolderOperations.moveFolder;
+
+  static runBatch = S3BatchOperations.runBatch;
+  static createZipArchive = S3ArchiveOperations.createZipArchive;
+
+  static trashFile = S3TrashOperations.trashFile;
+  static trashFolder = S3TrashOperations.trashFolder;
+  static listTrash = S3TrashOperations.listTrash;
+  static restoreTrashItem = S3TrashOperations.restoreItem;
+  static deleteTrashItem = S3TrashOperations.deleteItem;
+  static emptyTrash = S3TrashOperations.emptyTrash;
+  static purgeExpiredTrash = S3TrashOperations.purgeExpired;
+
+  static getVersioningStatus = S3VersionOperations.getVersioningStatus;
+  static setVersioning = S3VersionOperations.setVersioning;
+  static listVersions = S3VersionOperations.listVersions;
+  static getVersionDownloadUrl = S3VersionOperations.getVersionDownloadUrl;
+  static restoreVersion = S3VersionOperations.restoreVersion;
+  static deleteVersion = S3VersionOperations.deleteVersion;
+
+  static createShare = S3ShareOperations.createShare;
+  static listShares = S3ShareOperations.listShares;
+  static revokeShare = S3ShareOperations.revokeShare;
+  static getPublicShare = S3ShareOperations.getPublicShare;
+  static listSharedFiles = S3ShareOperations.listSharedFiles;
+  static getSharedDownloadUrl = S3ShareOperations.getSharedDownloadUrl;
+
+  static getQuota = S3QuotaOperations.getQuota;
+  static setUserQuota = S3QuotaOperations.setUserQuota;
+
+  static generateThumbnails = S3ThumbnailOperations.generateThumbnails;
+  static getThumbnail = S3ThumbnailOperations.getThumbnail;
+
+  static getMediaStream = S3MediaOperations.getMediaStream;
+  static findPosterFrame = S3MediaOperations.findPosterFrame;
+
+  static getPreview = S3PreviewOperations.getPreview;
+
+  static indexPendingContent = S3IndexingOperations.indexPending;
+  static reindexUser = S3IndexingOperations.reindexUser;
+
+  static addTags = S3TagOperations.addTags;
+  static removeTags = S3TagOperations.removeTags;
+  static getFileTags = S3TagOperations.getFileTags;
+  static getTagCloud = S3TagOperations.getTagCloud;
+
+  static setStarred = S3StarOperations.setStarred;
+  static listStarred = S3StarOperations.listStarred;
+  static listRecent = S3RecentOperations.listRecent;
+
+  static reconcileUser = S3ReconciliationOperations.reconcileUser;
+  static reconcileDue = S3ReconciliationOperations.reconcileDue;
+  static getReconciliationReport = S3ReconciliationOperations.getLatestReport;
+
+  static verifyS3EventRequest = S3EventOperations.verifyRequest;
+  static ingestS3Events = S3EventOperations.ingestEvents;
+
+  static getFolderStats = S3FolderStatsOperations.getFolderStats;
+
+  static getStorageStatus = S3StorageClassOperations.getStorageStatus;
+  static changeStorageClass = S3StorageClassOperations.changeStorageClass;
+  static changeFolderStorageClass =
+    S3StorageClassOperations.changeFolderStorageClass;
+  static restoreObject = S3StorageClassOperations.restoreObject;
+
+  static getLifecycleRules = S3LifecycleOperations.getLifecycleRules;
+  static setLifecycleRules = S3LifecycleOperations.setLifecycleRules;
 
   static listFiles = S3ListingOperations.listFiles;
   static searchFiles = S3ListingOperations.searchFiles;
+  static getSearchSuggestions = S3ListingOperations.getSearchSuggestions;
 
   static clearCache = async () => await redisCache.clear();
   static invalidateCache = async (pattern: string) =>
@@ -0,0 +1,230 @@
+import crypto from "crypto";
+import { HeadObjectCommand } from "@aws-sdk/client-s3";
+import { Types } from "mongoose";
+import { getS3Client, getS3BucketName } from "../utils/s3ClientFactory";
+import { redisCache } from "../utils/redisCache";
+import FileMetadata from "../models/FileMetadata";
+import { isTrashKey } from "./s3TrashOperations";
+import {
+  deleteFileMetadata,
+  resyncFileMetadata,
+} from "./s3ThumbnailOperations";
+import { updateCopiedMetadata } from "./s3StorageClassOperations";
+import { logger } from "@/utils/logger";
+
+/**
+ * One record of an S3 event notification, as sent by AWS or MinIO
+ */
+export interface S3EventRecord {
+  eventName?: string;
+  eventTime?: string;
+  s3?: {
+    bucket?: { name?: string };
+    object?: { key?: string; size?: number };
+  };
+}
+
+export interface S3EventPayload {
+  Records?: S3EventRecord[];
+}
+
+export interface S3EventIngestResult {
+  success: boolean;
+  message: string;
+  processed: number;
+  skipped: number;
+  error?: string;
+}
+
+export const S3_EVENT_SIGNATURE_HEADER = "x-drivn-signature";
+
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return (
+    bufferA.length === bufferB.length &&
+    crypto.timingSafeEqual(bufferA, bufferB)
+  );
+}
+
+/**
+ * Keys in event payloads are URL-encoded, with spaces sent as "+"
+ */
+function decodeEventKey(key: string): string | null {
+  try {
+    return decodeURIComponent(key.replace(/\+/g, " "));
+  } catch {
+    return null;
+  }
+}
+
+export class S3EventOperations {
+  /**
+   * Check that an event request came from a sender that knows the webhook
+   * secret. Senders that can sign send an HMAC-SHA256 of the raw body as
+   * "sha256=<hex>"; MinIO can only send a fixed token, so "Bearer <secret>"
+   * in the Authorization header is accepted as well.
+   */
+  static verifyRequest(
+    rawBody: string,
+    signature: string | null,
+    authorization: string | null
+  ): boolean {
+    const secret = process.env.S3_EVENTS_WEBHOOK_SECRET;
+    if (!secret) return false;
+
+    if (signature) {
+      const expected =
+        "sha256=" +
+        crypto.createHmac("sha256", secret).update(rawBody).digest("hex");
+      return safeEqual(signature.trim().toLowerCase(), expected);
+    }
+
+    if (authorization) {
+      return safeEqual(authorization.trim(), `Bearer ${secret}`);
+    }
+
+    return false;
+  }
+
+  /**
+   * Apply ObjectCreated and ObjectRemoved events to the owners' metadata.
+   * Events only say which keys changed: each key is looked up again, so
+   * late or repeated events cannot bring back a file that is gone.
+   */
+  static async ingestEvents(
+    payload: S3EventPayload
+  ): Promise<S3EventIngestResult> {
+    let processed = 0;
+    let skipped = 0;
+
+    try {
+      // Keys to check per owner, with the buckets the events came from
+      const keysByUser = new Map<
+        string,
+        { buckets: Set<string>; keys: Set<string> }
+      >();
+
+      for (const record of payload.Records || []) {
+        const eventName = (record.eventName || "").replace(/^s3:/, "");
+        const rawKey = record.s3?.object?.key;
+        const key = rawKey ? decodeEventKey(rawKey) : null;
+        const userId = key?.split("/")[0];
+
+        if (
+          !key ||
+          !userId ||
+          !(
+            eventName.startsWith("ObjectCreated:") ||
+            eventName.startsWith("ObjectRemoved:")
+          ) ||
+          !Types.ObjectId.isValid(userId) ||
+          key.endsWith("/") ||
+          isTrashKey(userId, key)
+        ) {
+          skipped++;
+          continue;
+        }
+
+        const entry = keysByUser.get(userId) || {
+          buckets: new Set<string>(),
+          keys: new Set<string>(),
+        };
+        entry.buckets.add(record.s3?.bucket?.name || "");
+        entry.keys.add(key);
+        keysByUser.set(userId, entry);
+      }
+
+      for (const [userId, { buckets, keys }] of keysByUser) {
+        const s3Client = await getS3Client(userId);
+        const bucketName = await getS3BucketName(userId);
+
+        // Only the bucket the owner configured can change their files
+        if (
+          !s3Client ||
+          !bucketName ||
+          buckets.size !== 1 ||
+          !buckets.has(bucketName)
+        ) {
+          skipped += keys.size;
+          continue;
+        }
+
+        for (const key of keys) {
+          try {
+            const head = await s3Client.send(
+              new HeadObjectCommand({ Bucket: bucketName, Key: key })
+            );
+            const size = head.ContentLength || 0;
+            const lastModified = head.LastModified || new Date();
+            // HEAD leaves out the storage class for STANDARD objects
+            const storageClass = head.StorageClass || "STANDARD";
+            const existing = await FileMetadata.findOne({ s3Key: key })
+              .select("fileSize lastModified storageClass etag")
+              .lean<{
+                fileSize: number;
+                lastModified: Date;
+                storageClass?: string;
+                etag?: string;
+              }>();
+
+            // Rows synced before ETags were stored can only compare sizes
+            if (
+              !existing ||
+              existing.fileSize !== size ||
+              (!!existing.etag && existing.etag !== head.ETag)
+            ) {
+              await resyncFileMetadata(s3Client, bucketName, userId, {
+                Key: key,
+                Size: size,
+                LastModified: lastModified,
+                ContentType: head.ContentType,
+                StorageClass: storageClass,
+                ETag: head.ETag,
+              });
+            } else if (
+              new Date(existing.lastModified).getTime() !==
+                lastModified.getTime() ||
+              (existing.storageClass || "STANDARD") !== storageClass ||
+              !existing.etag
+            ) {
+              await updateCopiedMetadata(
+                key,
+                lastModified,
+                storageClass,
+                head.ETag
+              );
+            }
+          } catch (error) {
+            if (!(error instanceof Error && error.name === "NotFound")) {
+              throw error;
+            }
+            await deleteFileMetadata(s3Client, bucketName, userId, {
+              s3Key: key,
+            });
+          }
+          processed++;
+        }
+
+        await redisCache.invalidate(`list:${userId}:`);
+        await redisCache.invalidate(`analytics:${userId}:*`);
+      }
+
+      return {
+        success: true,
+        message: `Processed ${processed} event(s)`,
+        processed,
+        skipped,
+      };
+    } catch (error) {
+      logger.error("Ingest S3 events error:", error);
+      return {
+        success: false,
+        message: "Failed to process S3 events",
+        processed,
+        skipped,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+}
@@ -1,16 +1,32 @@
 import {
-  PutObjectCommand,
   DeleteObjectCommand,
   CopyObjectCommand,
   HeadObjectCommand,
   GetObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  ListPartsCommand,
+  UploadPartCopyCommand,
   S3Client,
+  StorageClass,
 } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { createPresignedPost } from "@aws-sdk/s3-presigned-post";
 import { getS3Client, getS3BucketName } from "../utils/s3ClientFactory";
 import { redisCache } from "../utils/redisCache";
 import ActivityLog, { IActivityLogModel } from "../models/ActivityLog";
-import FileMetadata from "../models/FileMetadata";
+import FileMetadata, { IFileMetadataModel } from "../models/FileMetadata";
+import SystemSettings from "../models/SystemSettings";
+import { checkUploadLimits, UploadLimitError } from "@/utils/uploadLimits";
+import { S3QuotaOperations } from "./s3QuotaOperations";
+import { isTrashKey } from "./s3TrashOperations";
+import {
+  S3ThumbnailOperations,
+  deleteFileMetadata,
+  canGenerateThumbnail,
+} from "./s3ThumbnailOperations";
 import { logger } from "@/utils/logger";
 
 export interface S3FileItem {
@@ -22,6 +38,10 @@ export interface S3FileItem {
   isFolder: boolean;
   path: string;
   metadata?: Record<string, string>;
+  /** Files below a folder, at any depth */
+  fileCount?: number;
+  /** S3 storage class, unset for STANDARD */
+  storageClass?: string;
 }
 
 export interface UploadResult {
@@ -38,6 +58,133 @@ export interface DeleteResult {
   error?: string;
 }
 
+export interface MultipartUploadSession {
+  uploadId: string;
+  key: string;
+  partSize: number;
+  totalParts: number;
+}
+
+export interface MultipartPart {
+  PartNumber: number;
+  ETag: string;
+}
+
+const MIN_PART_SIZE = 8 * 1024 * 1024;
+const MAX_PARTS = 10000;
+
+function getPartSize(fileSize: number): number {
+  return Math.max(MIN_PART_SIZE, Math.ceil(fileSize / MAX_PARTS));
+}
+
+/**
+ * Total size of the given parts of an in-progress multipart upload
+ */
+async function getUploadedPartsSize(
+  s3Client: S3Client,
+  bucketName: string,
+  key: string,
+  uploadId: string,
+  partNumbers: Set<number>
+): Promise<number> {
+  let total = 0;
+  let partNumberMarker: string | undefined;
+
+  do {
+    const response = await s3Client.send(
+      new ListPartsCommand({
+        Bucket: bucketName,
+        Key: key,
+        UploadId: uploadId,
+        PartNumberMarker: partNumberMarker,
+      })
+    );
+
+    for (const part of response.Parts || []) {
+      if (part.PartNumber && partNumbers.has(part.PartNumber)) {
+        total += part.Size || 0;
+      }
+    }
+
+    partNumberMarker = response.IsTruncated
+      ? response.NextPartNumberMarker
+      : undefined;
+  } while (partNumberMarker);
+
+  return total;
+}
+
+/**
+ * Store metadata and log the activity for a freshly uploaded object, then
+ * render thumbnails in the background
+ */
+async function recordUploadedFile(
+  s3Client: S3Client,
+  bucketName: string,
+  userId: string,
+  s3Key: string
+): Promise<S3FileItem> {
+  const fileName = s3Key.split("/").pop() || s3Key;
+  const uploadedFile: S3FileItem = {
+    key: s3Key,
+    name: fileName,
+    size: 0,
+    lastModified: new Date(),
+    isFolder: false,
+    path: s3Key.replace(`${userId}/`, "/"),
+  };
+
+  try {
+    const headCommand = new HeadObjectCommand({
+      Bucket: bucketName,
+      Key: s3Key,
+    });
+    const headResult = await s3Client.send(headCommand);
+
+    uploadedFile.size = headResult.ContentLength || 0;
+    uploadedFile.mimeType = headResult.ContentType;
+    uploadedFile.lastModified = headResult.LastModified || new Date();
+
+    await (FileMetadata as unknown as IFileMetadataModel).syncFromS3Object(
+      userId,
+      {
+        Key: s3Key,
+        Size: uploadedFile.size,
+        LastModified: uploadedFile.lastModified,
+        ContentType: uploadedFile.mimeType,
+        ETag: headResult.ETag,
+      }
+    );
+  } catch (headError) {
+    logger.warn("Could not get file metadata after upload:", headError);
+  }
+
+  await (ActivityLog as unknown as IActivityLogModel).logActivity(
+    userId,
+    "upload",
+    fileName,
+    {
+      fileSize: uploadedFile.size,
+      mimeType: uploadedFile.mimeType,
+      s3Key,
+    }
+  );
+
+  await redisCache.invalidate(`activity:${userId}:*`);
+  await redisCache.invalidate(`list:${userId}:/`);
+  await redisCache.invalidate(`analytics:${userId}:*`);
+
+  if (canGenerateThumbnail(uploadedFile.mimeType)) {
+    S3ThumbnailOperations.generateThumbnails(userId, s3Key).then((result) => {
+      if (!result.success) {
+        logger.warn("Thumbnail generation skipped:", result.message);
+      }
+    });
+  }
+
+  return uploadedFile;
+}
+
 async function fileExists(
   s3Client: S3Client,
   bucketName: string,
@@ -59,7 +206,7 @@ async function fileExists(
   }
 }
 
-async function getUniqueS3Key(
+export async function getUniqueS3Key(
   s3Client: S3Client,
   bucketName: string,
   originalKey: string
@@ -80,6 +227,146 @@ async function getUniqueS3Key(
   return s3Key;
 }
 
+const MAX_SINGLE_COPY_SIZE = 5 * 1024 * 1024 * 1024;
+const COPY_PART_SIZE = 512 * 1024 * 1024;
+
+function toCopySource(
+  bucketName: string,
+  key: string,
+  versionId?: string
+): string {
+  const source = `${bucketName}/${key.split("/").map(encodeURIComponent).join("/")}`;
+  return versionId
+    ? `${source}?versionId=${encodeURIComponent(versionId)}`
+    : source;
+}
+
+/**
+ * Copy an object server-side, switching to multipart copy for objects
+ * larger than the 5 GB single-request CopyObject limit. Pass a version ID
+ * to copy an older version of the source instead of the current one. The
+ * copy keeps the source's storage class unless another one is given.
+ */
+export async function copyS3Object(
+  s3Client: S3Client,
+  bucketName: string,
+  sourceKey: string,
+  destinationKey: string,
+  metadata?: Record<string, string>,
+  sourceVersionId?: string,
+  storageClass?: StorageClass
+): Promise<{
+  size: number;
+  contentType?: string;
+  lastModified: Date;
+  storageClass: string;
+  etag?: string;
+}> {
+  const head = await s3Client.send(
+    new HeadObjectCommand({
+      Bucket: bucketName,
+      Key: sourceKey,
+      VersionId: sourceVersionId,
+    })
+  );
+  const size = head.ContentLength || 0;
+  const copySource = toCopySource(bucketName, sourceKey, sourceVersionId);
+  // HEAD leaves out the storage class for STANDARD objects
+  const targetClass = storageClass || head.StorageClass || "STANDARD";
+
+  if (size <= MAX_SINGLE_COPY_SIZE) {
+    const copyResult = await s3Client.send(
+      new CopyObjectCommand({
+        Bucket: bucketName,
+        CopySource: copySource,
+        Key: destinationKey,
+        StorageClass: targetClass,
+        ...(metadata
+          ? {
+              MetadataDirective: "REPLACE",
+              ContentType: head.ContentType,
+              Metadata: { ...head.Metadata, ...metadata },
+            }
+          : { MetadataDirective: "COPY" }),
+      })
+    );
+    return {
+      size,
+      contentType: head.ContentType,
+      lastModified: copyResult.CopyObjectResult?.LastModified || new Date(),
+      storageClass: targetClass,
+      etag: copyResult.CopyObjectResult?.ETag,
+    };
+  }
+
+  let etag: string | undefined;
+  const { UploadId } = await s3Client.send(
+    new CreateMultipartUploadCommand({
+      Bucket: bucketName,
+      Key: destinationKey,
+      ContentType: head.ContentType,
+      Metadata: { ...head.Metadata, ...metadata },
+      StorageClass: targetClass,
+    })
+  );
+
+  try {
+    const parts: MultipartPart[] = [];
+    for (
+      let start = 0, partNumber = 1;
+      start < size;
+      start += COPY_PART_SIZE, partNumber++
+    ) {
+      const end = Math.min(start + COPY_PART_SIZE, size) - 1;
+      const partResult = await s3Client.send(
+        new UploadPartCopyCommand({
+          Bucket: bucketName,
+          Key: destinationKey,
+          UploadId,
+          PartNumber: partNumber,
+          CopySource: copySource,
+          CopySourceRange: `bytes=${start}-${end}`,
+        })
+      );
+      parts.push({
+        PartNumber: partNumber,
+        ETag: partResult.CopyPartResult?.ETag || "",
+      });
+    }
+
+    const completed = await s3Client.send(
+      new CompleteMultipartUploadCommand({
+        Bucket: bucketName,
+        Key: destinationKey,
+        UploadId,
+        MultipartUpload: { Parts: parts },
+      })
+    );
+    etag = completed.ETag;
+  } catch (error) {
+    await s3Client
+      .send(
+        new AbortMultipartUploadCommand({
+          Bucket: bucketName,
+          Key: destinationKey,
+          UploadId,
+        })
+      )
+      .catch((abortError) =>
+        logger.warn("Could not abort multipart copy:", abortError)
+      );
+    throw error;
+  }
+
+  return {
+    size,
+    contentType: head.ContentType,
+    lastModified: new Date(),
+    storageClass: targetClass,
+    etag,
+  };
+}
+
 export class S3FileOperations {
   /**
    * Delete a file from S3
@@ -89,6 +376,14 @@ export class S3FileOperations {
     s3Key: string
   ): Promise<DeleteResult> {
     try {
+      if (!s3Key.startsWith(`${userId}/`) || isTrashKey(userId, s3Key)) {
+        return {
+          success: false,
+          message: "Access denied",
+          error: "ACCESS_DENIED",
+        };
+      }
+
       const s3Client = await getS3Client(userId);
       const bucketName = await getS3BucketName(userId);
 
@@ -133,7 +428,7 @@ export class S3FileOperations {
 
       await redisCache.invalidate(`activity:${userId}:*`);
 
-      await FileMetadata.findOneAndDelete({ s3Key });
+      await deleteFileMetadata(s3Client, bucketName, userId, { s3Key });
 
       await redisCache.invalidate(`list:${userId}:/`);
       await redisCache.invalidate(`analytics:${userId}:*`);
@@ -162,6 +457,14 @@ export class S3FileOperations {
     newName: string
   ): Promise<UploadResult> {
     try {
+      if (!s3Key.startsWith(`${userId}/`) || isTrashKey(userId, s3Key)) {
+        return {
+          success: false,
+          message: "Access denied",
+          error: "ACCESS_DENIED",
+        };
+      }
+
       const s3Client = await getS3Client(userId);
       const bucketName = await getS3BucketName(userId);
 
@@ -200,7 +503,7 @@ export class S3FileOperations {
         },
       });
 
-      await s3Client.send(copyCommand);
+      const copyResult = await s3Client.send(copyCommand);
 
       const deleteCommand = new DeleteObjectCommand({
         Bucket: bucketName,
@@ -215,6 +518,9 @@ export class S3FileOperations {
         newName,
         {
           s3Key: newS3Key,
+          metadata: {
+            oldKey: s3Key,
+          },
         }
       );
 
@@ -222,7 +528,14 @@ export class S3FileOperations {
 
       await FileMetadata.findOneAndUpdate(
         { s3Key },
-        { s3Key: newS3Key, fileName: newName },
+        {
+          s3Key: newS3Key,
+          fileName: newName,
+          filePath: "/" + newS3Key.split("/").slice(1).join("/"),
+          ...(copyResult.CopyObjectResult?.ETag && {
+            etag: copyResult.CopyObjectResult.ETag,
+          }),
+        },
         { upsert: true }
       );
 
@@ -272,6 +585,240 @@ export class S3FileOperations {
     }
   }
 
+  /**
+   * Copy a file to another folder (or next to itself) in S3
+   */
+  static async copyFile(
+    userId: string,
+    s3Key: string,
+    destinationPath?: string
+  ): Promise<UploadResult> {
+    try {
+      if (!s3Key.startsWith(`${userId}/`) || isTrashKey(userId, s3Key)) {
+        return {
+          success: false,
+          message: "Access denied",
+          error: "ACCESS_DENIED",
+        };
+      }
+
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      const fileName = s3Key.split("/").pop() || s3Key;
+      const targetPrefix =
+        destinationPath !== undefined
+          ? `${userId}${`/${destinationPath}`
+              .replace(/\/+/g, "/")
+              .replace(/\/$/, "")}/`
+          : s3Key.substring(0, s3Key.lastIndexOf("/") + 1);
+
+      if (isTrashKey(userId, targetPrefix)) {
+        return {
+          success: false,
+          message: "Files cannot be copied into the trash",
+          error: "INVALID_DESTINATION",
+        };
+      }
+
+      const newS3Key = await getUniqueS3Key(
+        s3Client,
+        bucketName,
+        `${targetPrefix}${fileName}`
+      );
+
+      const copied = await copyS3Object(s3Client, bucketName, s3Key, newS3Key, {
+        "copied-from": s3Key.replace(`${userId}/`, "/"),
+        "copied-at": new Date().toISOString(),
+      });
+
+      const newFileName = newS3Key.split("/").pop() || newS3Key;
+
+      await (ActivityLog as unknown as IActivityLogModel).logActivity(
+        userId,
+        "copy",
+        newFileName,
+        {
+          fileSize: copied.size,
+          mimeType: copied.contentType,
+          s3Key: newS3Key,
+          metadata: {
+            sourceKey: s3Key,
+          },
+        }
+      );
+
+      await redisCache.invalidate(`activity:${userId}:*`);
+
+      await (FileMetadata as unknown as IFileMetadataModel).syncFromS3Object(
+        userId,
+        {
+          Key: newS3Key,
+          Size: copied.size,
+          LastModified: copied.lastModified,
+          ContentType: copied.contentType,
+          StorageClass: copied.storageClass,
+          ETag: copied.etag,
+        }
+      );
+
+      await redisCache.invalidate(`list:${userId}:/`);
+      await redisCache.invalidate(`analytics:${userId}:*`);
+
+      return {
+        success: true,
+        message: "File copied successfully",
+        file: {
+          key: newS3Key,
+          name: newFileName,
+          size: copied.size,
+          lastModified: copied.lastModified,
+          mimeType: copied.contentType,
+          isFolder: false,
+          path: newS3Key.replace(`${userId}/`, "/"),
+        },
+      };
+    } catch (error) {
+      logger.error("Copy file error:", error);
+      return {
+        success: false,
+        message: "Failed to copy file",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Move a file into another folder in S3
+   */
+  static async moveFile(
+    userId: string,
+    s3Key: string,
+    destinationPath: string
+  ): Promise<UploadResult> {
+    try {
+      if (!s3Key.startsWith(`${userId}/`) || isTrashKey(userId, s3Key)) {
+        return {
+          success: false,
+          message: "Access denied",
+          error: "ACCESS_DENIED",
+        };
+      }
+
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      const fileName = s3Key.split("/").pop() || s3Key;
+      const targetPrefix = `${userId}${`/${destinationPath}`
+        .replace(/\/+/g, "/")
+        .replace(/\/$/, "")}/`;
+
+      if (isTrashKey(userId, targetPrefix)) {
+        return {
+          success: false,
+          message: "Files cannot be moved into the trash",
+          error: "INVALID_DESTINATION",
+        };
+      }
+
+      if (s3Key.substring(0, s3Key.lastIndexOf("/") + 1) === targetPrefix) {
+        return {
+          success: false,
+          message: "File is already in this folder",
+          error: "SAME_LOCATION",
+        };
+      }
+
+      const newS3Key = await getUniqueS3Key(
+        s3Client,
+        bucketName,
+        `${targetPrefix}${fileName}`
+      );
+
+      const moved = await copyS3Object(s3Client, bucketName, s3Key, newS3Key);
+
+      const deleteCommand = new DeleteObjectCommand({
+        Bucket: bucketName,
+        Key: s3Key,
+      });
+
+      await s3Client.send(deleteCommand);
+
+      const newFileName = newS3Key.split("/").pop() || newS3Key;
+      const newPath = newS3Key.replace(`${userId}/`, "/");
+
+      await (ActivityLog as unknown as IActivityLogModel).logActivity(
+        userId,
+        "move",
+        newFileName,
+        {
+          filePath: newPath,
+          fileSize: moved.size,
+          mimeType: moved.contentType,
+          s3Key: newS3Key,
+          metadata: {
+            isFolder: false,
+            oldKey: s3Key,
+          },
+        }
+      );
+
+      await redisCache.invalidate(`activity:${userId}:*`);
+
+      await FileMetadata.findOneAndUpdate(
+        { s3Key },
+        {
+          s3Key: newS3Key,
+          fileName: newFileName,
+          filePath: newPath,
+          ...(moved.etag && { etag: moved.etag }),
+        },
+        { upsert: false }
+      );
+
+      await redisCache.invalidate(`list:${userId}:/`);
+      await redisCache.invalidate(`list:${userId}:`);
+      await redisCache.invalidate(`analytics:${userId}:*`);
+
+      return {
+        success: true,
+        message: "File moved successfully",
+        file: {
+          key: newS3Key,
+          name: newFileName,
+          size: moved.size,
+          lastModified: moved.lastModified,
+          mimeType: moved.contentType,
+          isFolder: false,
+          path: newPath,
+        },
+      };
+    } catch (error) {
+      logger.error("Move file error:", error);
+      return {
+        success: false,
+        message: "Failed to move file",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
   /**
    * Get download URL for a file
    */
@@ -330,7 +877,9 @@ export class S3FileOperations {
   }
 
   /**
-   * Get a pre-signed URL for uploading a file to S3
+   * Get a pre-signed POST for uploading a file to S3. The admin's size and
+   * type limits are checked here, and the signed policy pins the body to the
+   * declared size so S3 itself rejects anything larger.
    */
   static async getUploadPresignedUrl(
     userId: string,
@@ -341,8 +890,10 @@ export class S3FileOperations {
   ): Promise<{
     success: boolean;
     url?: string;
+    fields?: Record<string, string>;
     key?: string;
     message: string;
+    error?: UploadLimitError | "S3_CONFIG_MISSING" | "INVALID_PATH";
   }> {
     try {
       const s3Client = await getS3Client(userId);
@@ -352,21 +903,191 @@ export class S3FileOperations {
         return {
           success: false,
           message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
         };
       }
 
+      const settings = await SystemSettings.getSettings();
+      const violation = checkUploadLimits(fileName, fileType, fileSize, {
+        maxFileSize: settings.maxFileSize,
+        allowedFileTypes: settings.allowedFileTypes,
+      });
+      if (violation) {
+        return { success: false, ...violation };
+      }
+
+      const quotaViolation = await S3QuotaOperations.checkUploadQuota(
+        userId,
+        fileSize
+      );
+      if (quotaViolation) {
+        return { success: false, ...quotaViolation };
+      }
+
       const sanitizedPath = currentPath.replace(/\/+/g, "/").replace(/\/$/, "");
       const originalS3Key = `${userId}${
         sanitizedPath === "/" || sanitizedPath === "" ? "" : sanitizedPath
       }/${fileName}`;
 
+      if (isTrashKey(userId, originalS3Key)) {
+        return {
+          success: false,
+          message: "Files cannot be uploaded into the trash",
+          error: "INVALID_PATH",
+        };
+      }
+
       const s3Key = await getUniqueS3Key(s3Client, bucketName, originalS3Key);
 
-      const putObjectCommand = new PutObjectCommand({
+      const { url, fields } = await createPresignedPost(s3Client, {
+        Bucket: bucketName,
+        Key: s3Key,
+        Conditions: [["content-length-range", 0, fileSize]],
+        Fields: {
+          "Content-Type": fileType,
+          "x-amz-meta-original-name": fileName.replace(/[^\w\-_.]/g, "_"),
+          "x-amz-meta-user-id": userId,
+          "x-amz-meta-uploaded-at": new Date().toISOString(),
+          "x-amz-meta-file-size": fileSize.toString(),
+        },
+        Expires: 3600,
+      });
+
+      return {
+        success: true,
+        url,
+        fields,
+        key: s3Key,
+        message: "Pre-signed URL generated successfully",
+      };
+    } catch (error) {
+      logger.error("Generate pre-signed URL error:", error);
+      return {
+        success: false,
+        message: "Failed to generate pre-signed URL",
+      };
+    }
+  }
+
+  /**
+   * Record a file the browser uploaded straight to S3 with a pre-signed POST
+   */
+  static async confirmUpload(
+    userId: string,
+    s3Key: string
+  ): Promise<UploadResult> {
+    try {
+      if (!s3Key.startsWith(`${userId}/`) || isTrashKey(userId, s3Key)) {
+        return {
+          success: false,
+          message: "Access denied",
+          error: "ACCESS_DENIED",
+        };
+      }
+
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      if (!(await fileExists(s3Client, bucketName, s3Key))) {
+        return {
+          success: false,
+          message: "Uploaded file not found",
+          error: "NOT_FOUND",
+        };
+      }
+
+      const uploadedFile = await recordUploadedFile(
+        s3Client,
+        bucketName,
+        userId,
+        s3Key
+      );
+
+      return {
+        success: true,
+        message: "Upload recorded successfully",
+        file: uploadedFile,
+      };
+    } catch (error) {
+      logger.error("Confirm upload error:", error);
+      return {
+        success: false,
+        message: "Failed to record upload",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Start a multipart upload for a large file
+   */
+  static async createMultipartUpload(
+    userId: string,
+    fileName: string,
+    fileType: string,
+    fileSize: number,
+    currentPath: string = "/"
+  ): Promise<{
+    success: boolean;
+    session?: MultipartUploadSession;
+    message: string;
+    error?: UploadLimitError | "INVALID_PATH";
+  }> {
+    try {
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+        };
+      }
+
+      const settings = await SystemSettings.getSettings();
+      const violation = checkUploadLimits(fileName, fileType, fileSize, {
+        maxFileSize: settings.maxFileSize,
+        allowedFileTypes: settings.allowedFileTypes,
+      });
+      if (violation) {
+        return { success: false, ...violation };
+      }
+
+      const quotaViolation = await S3QuotaOperations.checkUploadQuota(
+        userId,
+        fileSize
+      );
+      if (quotaViolation) {
+        return { success: false, ...quotaViolation };
+      }
+
+      const sanitizedPath = currentPath.replace(/\/+/g, "/").replace(/\/$/, "");
+      const originalS3Key = `${userId}${
+        sanitizedPath === "/" || sanitizedPath === "" ? "" : sanitizedPath
+      }/${fileName}`;
+
+      if (isTrashKey(userId, originalS3Key)) {
+        return {
+          success: false,
+          message: "Files cannot be uploaded into the trash",
+          error: "INVALID_PATH",
+        };
+      }
+
+      const s3Key = await getUniqueS3Key(s3Client, bucketName, originalS3Key);
+
+      const createCommand = new CreateMultipartUploadCommand({
         Bucket: bucketName,
         Key: s3Key,
         ContentType: fileType,
-        ContentLength: fileSize,
         Metadata: {
           "original-name": fileName.replace(/[^\w\-_.]/g, "_"),
           "user-id": userId,
@@ -375,21 +1096,317 @@ export class S3FileOperations {
         },
       });
 
-      const signedUrl = await getSignedUrl(s3Client, putObjectCommand, {
-        expiresIn: 3600,
+      const response = await s3Client.send(createCommand);
+
+      if (!response.UploadId) {
+        return {
+          success: false,
+          message: "S3 did not return an upload ID",
+        };
+      }
+
+      const partSize = getPartSize(fileSize);
+
+      return {
+        success: true,
+        session: {
+          uploadId: response.UploadId,
+          key: s3Key,
+          partSize,
+          totalParts: Math.max(1, Math.ceil(fileSize / partSize)),
+        },
+        message: "Multipart upload created successfully",
+      };
+    } catch (error) {
+      logger.error("Create multipart upload error:", error);
+      return {
+        success: false,
+        message: "Failed to create multipart upload",
+      };
+    }
+  }
+
+  /**
+   * Get pre-signed URLs for uploading individual parts
+   */
+  static async getMultipartPartUrls(
+    userId: string,
+    s3Key: string,
+    uploadId: string,
+    partNumbers: number[]
+  ): Promise<{
+    success: boolean;
+    urls?: Record<number, string>;
+    message: string;
+  }> {
+    try {
+      if (!s3Key.startsWith(`${userId}/`) || isTrashKey(userId, s3Key)) {
+        return { success: false, message: "Access denied" };
+      }
+
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+        };
+      }
+
+      const urls: Record<number, string> = {};
+      for (const partNumber of partNumbers) {
+        const uploadPartCommand = new UploadPartCommand({
+          Bucket: bucketName,
+          Key: s3Key,
+          UploadId: uploadId,
+          PartNumber: partNumber,
+        });
+
+        urls[partNumber] = await getSignedUrl(s3Client, uploadPartCommand, {
+          expiresIn: 3600,
+        });
+      }
+
+      return {
+        success: true,
+        urls,
+        message: "Part URLs generated successfully",
+      };
+    } catch (error) {
+      logger.error("Generate part URLs error:", error);
+      return {
+        success: false,
+        message: "Failed to generate part URLs",
+      };
+    }
+  }
+
+  /**
+   * List the parts already uploaded, used to resume an interrupted upload
+   */
+  static async listMultipartParts(
+    userId: string,
+    s3Key: string,
+    uploadId: string
+  ): Promise<{
+    success: boolean;
+    parts?: MultipartPart[];
+    message: string;
+  }> {
+    try {
+      if (!s3Key.startsWith(`${userId}/`) || isTrashKey(userId, s3Key)) {
+        return { success: false, message: "Access denied" };
+      }
+
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+        };
+      }
+
+      const parts: MultipartPart[] = [];
+      let partNumberMarker: string | undefined;
+
+      do {
+        const listCommand = new ListPartsCommand({
+          Bucket: bucketName,
+          Key: s3Key,
+          UploadId: uploadId,
+          PartNumberMarker: partNumberMarker,
+        });
+
+        const response = await s3Client.send(listCommand);
+
+        for (const part of response.Parts || []) {
+          if (part.PartNumber && part.ETag) {
+            parts.push({ PartNumber: part.PartNumber, ETag: part.ETag });
+          }
+        }
+
+        partNumberMarker = response.IsTruncated
+          ? response.NextPartNumberMarker
+          : undefined;
+      } while (partNumberMarker);
+
+      return {
+        success: true,
+        parts,
+        message: "Uploaded parts retrieved successfully",
+      };
+    } catch (error) {
+      logger.error("List multipart parts error:", error);
+      return {
+        success: false,
+        message: "Failed to list uploaded parts",
+      };
+    }
+  }
+
+  /**
+   * Complete a multipart upload once every part has been uploaded
+   */
+  static async completeMultipartUpload(
+    userId: string,
+    s3Key: string,
+    uploadId: string,
+    parts: MultipartPart[]
+  ): Promise<UploadResult> {
+    try {
+      if (!s3Key.startsWith(`${userId}/`) || isTrashKey(userId, s3Key)) {
+        return {
+          success: false,
+          message: "Access denied",
+          error: "ACCESS_DENIED",
+        };
+      }
+
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      // Part URLs cannot be limited in size, so check the assembled total
+      // against the size limit and quota before completing, and throw the
+      // upload away if it does not fit
+      const settings = await SystemSettings.getSettings();
+      const uploadedSize = await getUploadedPartsSize(
+        s3Client,
+        bucketName,
+        s3Key,
+        uploadId,
+        new Set(parts.map((part) => part.PartNumber))
+      );
+
+      const violation =
+        checkUploadLimits(s3Key, "", uploadedSize, {
+          maxFileSize: settings.maxFileSize,
+          allowedFileTypes: ["*"],
+        }) ||
+        (await S3QuotaOperations.checkUploadQuota(userId, uploadedSize, {
+          reserve: false,
+        }));
+
+      if (violation) {
+        await s3Client
+          .send(
+            new AbortMultipartUploadCommand({
+              Bucket: bucketName,
+              Key: s3Key,
+              UploadId: uploadId,
+            })
+          )
+          .catch((abortError) =>
+            logger.warn("Could not abort rejected upload:", abortError)
+          );
+
+        return { success: false, ...violation };
+      }
+
+      const completeCommand = new CompleteMultipartUploadCommand({
+        Bucket: bucketName,
+        Key: s3Key,
+        UploadId: uploadId,
+        MultipartUpload: {
+          Parts: [...parts].sort((a, b) => a.PartNumber - b.PartNumber),
+        },
       });
 
+      await s3Client.send(completeCommand);
+
+      // The size declared when the upload was created is stored on the
+      // object, so it can only be compared once the parts are assembled
+      const head = await s3Client.send(
+        new HeadObjectCommand({ Bucket: bucketName, Key: s3Key })
+      );
+      const declaredSize = Number(head.Metadata?.["file-size"]);
+
+      if (head.ContentLength !== declaredSize) {
+        await s3Client
+          .send(new DeleteObjectCommand({ Bucket: bucketName, Key: s3Key }))
+          .catch((deleteError) =>
+            logger.warn("Could not delete mismatched upload:", deleteError)
+          );
+
+        return {
+          success: false,
+          message: "Uploaded data does not match the declared file size",
+          error: "SIZE_MISMATCH",
+        };
+      }
+
+      const uploadedFile = await recordUploadedFile(
+        s3Client,
+        bucketName,
+        userId,
+        s3Key
+      );
+
       return {
         success: true,
-        url: signedUrl,
-        key: s3Key,
-        message: "Pre-signed URL generated successfully",
+        message: "Multipart upload completed successfully",
+        file: uploadedFile,
       };
     } catch (error) {
-      logger.error("Generate pre-signed URL error:", error);
+      logger.error("Complete multipart upload error:", error);
       return {
         success: false,
-        message: "Failed to generate pre-signed URL",
+        message: "Failed to complete multipart upload",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Abort a multipart upload and discard its uploaded parts
+   */
+  static async abortMultipartUpload(
+    userId: string,
+    s3Key: string,
+    uploadId: string
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      if (!s3Key.startsWith(`${userId}/`) || isTrashKey(userId, s3Key)) {
+        return { success: false, message: "Access denied" };
+      }
+
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+        };
+      }
+
+      const abortCommand = new AbortMultipartUploadCommand({
+        Bucket: bucketName,
+        Key: s3Key,
+        UploadId: uploadId,
+      });
+
+      await s3Client.send(abortCommand);
+
+      return {
+        success: true,
+        message: "Multipart upload aborted successfully",
+      };
+    } catch (error) {
+      logger.error("Abort multipart upload error:", error);
+      return {
+        success: false,
+        message: "Failed to abort multipart upload",
       };
     }
   }
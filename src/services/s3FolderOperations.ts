@@ -3,12 +3,17 @@ import {
   PutObjectCommand,
   DeleteObjectsCommand,
   CopyObjectCommand,
+  S3Client,
 } from "@aws-sdk/client-s3";
 import { getS3Client, getS3BucketName } from "../utils/s3ClientFactory";
 import { redisCache } from "../utils/redisCache";
 import ActivityLog, { IActivityLogModel } from "../models/ActivityLog";
 import FileMetadata, { IFileMetadataModel } from "../models/FileMetadata";
+import { copyS3Object } from "./s3FileOperations";
+import { isTrashKey } from "./s3TrashOperations";
+import { deleteFileMetadata } from "./s3ThumbnailOperations";
 import { logger } from "@/utils/logger";
+import { escapeRegex } from "@/utils/escapeRegex";
 
 export interface S3FolderItem {
   key: string;
@@ -26,6 +31,13 @@ export interface FolderResult {
   error?: string;
 }
 
+export interface FolderTreeResult {
+  success: boolean;
+  message: string;
+  createdFolders?: S3FolderItem[];
+  error?: string;
+}
+
 export interface DeleteFolderResult {
   success: boolean;
   message: string;
@@ -33,6 +45,32 @@ export interface DeleteFolderResult {
   error?: string;
 }
 
+export async function getUniqueFolderPath(
+  s3Client: S3Client,
+  bucketName: string,
+  userId: string,
+  parentPath: string,
+  folderName: string
+): Promise<string> {
+  let folderPath = `${parentPath}/${folderName}`;
+  let counter = 1;
+
+  while (true) {
+    const existing = await s3Client.send(
+      new ListObjectsV2Command({
+        Bucket: bucketName,
+        Prefix: `${userId}${folderPath}/`,
+        MaxKeys: 1,
+      })
+    );
+    if (!existing.Contents || existing.Contents.length === 0) {
+      return folderPath;
+    }
+    folderPath = `${parentPath}/${folderName}(${counter})`;
+    counter++;
+  }
+}
+
 export class S3FolderOperations {
   /**
    * Create a folder in S3 (folder marker)
@@ -67,6 +105,14 @@ export class S3FolderOperations {
       const sanitizedPath = currentPath.replace(/\/+/g, "/").replace(/\/$/, "");
       const folderKey = `${userId}${sanitizedPath}/${sanitizedFolderName}/`;
 
+      if (isTrashKey(userId, folderKey)) {
+        return {
+          success: false,
+          message: "Folders cannot be created in the trash",
+          error: "INVALID_PATH",
+        };
+      }
+
       try {
         const listCommand = new ListObjectsV2Command({
           Bucket: bucketName,
@@ -136,6 +182,127 @@ export class S3FolderOperations {
     }
   }
 
+  /**
+   * Create a nested folder structure in S3 (folder markers for every level)
+   */
+  static async createFolderTree(
+    userId: string,
+    folderPaths: string[],
+    currentPath: string = "/"
+  ): Promise<FolderTreeResult> {
+    try {
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message:
+            "S3 configuration not found. Please configure your storage settings.",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      const sanitizedPath = `/${currentPath}`
+        .replace(/\/+/g, "/")
+        .replace(/\/$/, "");
+
+      if (isTrashKey(userId, `${userId}${sanitizedPath}/`)) {
+        return {
+          success: false,
+          message: "Folders cannot be created in the trash",
+          error: "INVALID_PATH",
+        };
+      }
+
+      const relativePaths = new Set<string>();
+      for (const folderPath of folderPaths) {
+        const segments = folderPath
+          .split("/")
+          .map((segment) => segment.trim().replace(/[\\]/g, "_"))
+          .filter((segment) => segment && segment !== "." && segment !== "..");
+
+        for (let i = 1; i <= segments.length; i++) {
+          relativePaths.add(segments.slice(0, i).join("/"));
+        }
+      }
+
+      const orderedPaths = Array.from(relativePaths).sort(
+        (a, b) => a.split("/").length - b.split("/").length
+      );
+
+      const createdFolders: S3FolderItem[] = [];
+
+      for (const relativePath of orderedPaths) {
+        const folderPath = `${sanitizedPath}/${relativePath}`;
+        const folderKey = `${userId}${folderPath}/`;
+        const folderName = relativePath.split("/").pop() || relativePath;
+
+        try {
+          const listCommand = new ListObjectsV2Command({
+            Bucket: bucketName,
+            Prefix: folderKey,
+            MaxKeys: 1,
+          });
+          const existingObjects = await s3Client.send(listCommand);
+
+          if (existingObjects.Contents && existingObjects.Contents.length > 0) {
+            continue;
+          }
+        } catch (error) {
+          logger.warn("Could not check for existing folder:", error);
+        }
+
+        const putCommand = new PutObjectCommand({
+          Bucket: bucketName,
+          Key: folderKey,
+          Body: "",
+          ContentType: "application/x-directory",
+          Metadata: {
+            "folder-name": folderName,
+            "user-id": userId,
+            "created-at": new Date().toISOString(),
+          },
+        });
+
+        await s3Client.send(putCommand);
+
+        await (ActivityLog as unknown as IActivityLogModel).logActivity(
+          userId,
+          "create_folder",
+          folderName,
+          {
+            filePath: folderPath,
+            s3Key: folderKey,
+          }
+        );
+
+        createdFolders.push({
+          key: folderKey,
+          name: folderName,
+          path: folderPath,
+          isFolder: true,
+        });
+      }
+
+      await redisCache.invalidate(`activity:${userId}:*`);
+      await redisCache.invalidate(`list:${userId}:/`);
+
+      return {
+        success: true,
+        message: `${createdFolders.length} folder(s) created successfully`,
+        createdFolders,
+      };
+    } catch (error) {
+      logger.error("Create folder tree error:", error);
+      return {
+        success: false,
+        message: "Failed to create folder structure",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
   /**
    * Delete a folder and all its contents from S3
    */
@@ -160,6 +327,14 @@ export class S3FolderOperations {
         .replace(/\/$/, "");
       const folderPrefix = `${userId}${normalizedFolderPath}/`;
 
+      if (isTrashKey(userId, folderPrefix)) {
+        return {
+          success: false,
+          message: "Use the trash to delete trashed items",
+          error: "INVALID_PATH",
+        };
+      }
+
       logger.info("🗑️ Deleting folder with prefix:", folderPrefix);
 
       const allObjects: Array<{
@@ -269,10 +444,10 @@ export class S3FolderOperations {
 
       await redisCache.invalidate(`activity:${userId}:*`);
 
-      await (FileMetadata as unknown as IFileMetadataModel).deleteMany({
+      await deleteFileMetadata(s3Client, bucketName, userId, {
         userId,
         s3Key: {
-          $regex: `^${folderPrefix.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`,
+          $regex: `^${escapeRegex(folderPrefix)}`,
         },
       });
 
@@ -437,6 +612,17 @@ export class S3FolderOperations {
       const newFolderPath = "/" + pathParts.join("/");
       const newFolderPrefix = `${userId}${newFolderPath}/`;
 
+      if (
+        isTrashKey(userId, oldFolderPrefix) ||
+        isTrashKey(userId, newFolderPrefix)
+      ) {
+        return {
+          success: false,
+          message: "This folder cannot be renamed",
+          error: "INVALID_PATH",
+        };
+      }
+
       const listCommand = new ListObjectsV2Command({
         Bucket: bucketName,
         Prefix: oldFolderPrefix,
@@ -524,7 +710,10 @@ export class S3FolderOperations {
         if (result) {
           await FileMetadata.findOneAndUpdate(
             { s3Key: result.oldKey },
-            { s3Key: result.newKey },
+            {
+              s3Key: result.newKey,
+              filePath: "/" + result.newKey.split("/").slice(1).join("/"),
+            },
             { upsert: false }
           );
         }
@@ -553,4 +742,419 @@ export class S3FolderOperations {
       };
     }
   }
+
+  /**
+   * Copy a folder and all its contents to another location in S3
+   */
+  static async copyFolder(
+    userId: string,
+    folderPath: string,
+    destinationPath?: string
+  ): Promise<FolderResult> {
+    try {
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      const normalizedFolderPath = `/${folderPath}`
+        .replace(/\/+/g, "/")
+        .replace(/\/$/, "");
+      const sourcePrefix = `${userId}${normalizedFolderPath}/`;
+      const folderName =
+        normalizedFolderPath.split("/").filter(Boolean).pop() || "";
+
+      if (!folderName) {
+        return {
+          success: false,
+          message: "Cannot copy the root folder",
+          error: "INVALID_PATH",
+        };
+      }
+
+      if (isTrashKey(userId, sourcePrefix)) {
+        return {
+          success: false,
+          message: "Trashed folders can only be restored",
+          error: "INVALID_PATH",
+        };
+      }
+
+      const parentPath =
+        destinationPath !== undefined
+          ? `/${destinationPath}`.replace(/\/+/g, "/").replace(/\/$/, "")
+          : normalizedFolderPath.substring(
+              0,
+              normalizedFolderPath.lastIndexOf("/")
+            );
+
+      const newFolderPath = await getUniqueFolderPath(
+        s3Client,
+        bucketName,
+        userId,
+        parentPath,
+        folderName
+      );
+      const destinationPrefix = `${userId}${newFolderPath}/`;
+
+      if (isTrashKey(userId, destinationPrefix)) {
+        return {
+          success: false,
+          message: "Folders cannot be copied into the trash",
+          error: "INVALID_DESTINATION",
+        };
+      }
+
+      if (destinationPrefix.startsWith(sourcePrefix)) {
+        return {
+          success: false,
+          message: "Cannot copy a folder into itself",
+          error: "INVALID_DESTINATION",
+        };
+      }
+
+      const allObjects: Array<{ Key?: string }> = [];
+      let continuationToken: string | undefined;
+
+      do {
+        const objects = await s3Client.send(
+          new ListObjectsV2Command({
+            Bucket: bucketName,
+            Prefix: sourcePrefix,
+            ContinuationToken: continuationToken,
+          })
+        );
+
+        if (objects.Contents) {
+          allObjects.push(...objects.Contents);
+        }
+
+        continuationToken = objects.NextContinuationToken;
+      } while (continuationToken);
+
+      if (allObjects.length === 0) {
+        return {
+          success: false,
+          message: "Folder not found",
+          error: "FOLDER_NOT_FOUND",
+        };
+      }
+
+      const batchSize = 10;
+      let filesCopied = 0;
+
+      for (let i = 0; i < allObjects.length; i += batchSize) {
+        const batch = allObjects.slice(i, i + batchSize);
+
+        await Promise.all(
+          batch.map(async (obj) => {
+            if (!obj.Key || obj.Key === sourcePrefix) return;
+
+            const newKey =
+              destinationPrefix + obj.Key.slice(sourcePrefix.length);
+            const copied = await copyS3Object(
+              s3Client,
+              bucketName,
+              obj.Key,
+              newKey
+            );
+
+            if (!newKey.endsWith("/")) {
+              filesCopied++;
+              await (
+                FileMetadata as unknown as IFileMetadataModel
+              ).syncFromS3Object(userId, {
+                Key: newKey,
+                Size: copied.size,
+                LastModified: copied.lastModified,
+                ContentType: copied.contentType,
+                StorageClass: copied.storageClass,
+                ETag: copied.etag,
+              });
+            }
+          })
+        );
+      }
+
+      const newFolderName = newFolderPath.split("/").pop() || folderName;
+
+      await s3Client.send(
+        new PutObjectCommand({
+          Bucket: bucketName,
+          Key: destinationPrefix,
+          Body: "",
+          ContentType: "application/x-directory",
+          Metadata: {
+            "folder-name": newFolderName,
+            "user-id": userId,
+            "created-at": new Date().toISOString(),
+          },
+        })
+      );
+
+      await (ActivityLog as unknown as IActivityLogModel).logActivity(
+        userId,
+        "copy_folder",
+        newFolderName,
+        {
+          filePath: newFolderPath,
+          s3Key: destinationPrefix,
+          metadata: {
+            sourcePath: normalizedFolderPath,
+            filesCopied,
+          },
+        }
+      );
+
+      await redisCache.invalidate(`activity:${userId}:*`);
+      await redisCache.invalidate(`list:${userId}:/`);
+      await redisCache.invalidate(`analytics:${userId}:*`);
+
+      return {
+        success: true,
+        message: `Folder copied successfully. ${filesCopied} file(s) copied.`,
+        folder: {
+          key: destinationPrefix,
+          name: newFolderName,
+          path: newFolderPath,
+          isFolder: true,
+        },
+      };
+    } catch (error) {
+      logger.error("Copy folder error:", error);
+      return {
+        success: false,
+        message: "Failed to copy folder",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Move a folder and all its contents into another folder in S3
+   */
+  static async moveFolder(
+    userId: string,
+    folderPath: string,
+    destinationPath: string
+  ): Promise<FolderResult> {
+    try {
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      const normalizedFolderPath = `/${folderPath}`
+        .replace(/\/+/g, "/")
+        .replace(/\/$/, "");
+      const parentPath = `/${destinationPath}`
+        .replace(/\/+/g, "/")
+        .replace(/\/$/, "");
+      const sourcePrefix = `${userId}${normalizedFolderPath}/`;
+      const folderName =
+        normalizedFolderPath.split("/").filter(Boolean).pop() || "";
+
+      if (!folderName) {
+        return {
+          success: false,
+          message: "Cannot move the root folder",
+          error: "INVALID_PATH",
+        };
+      }
+
+      if (isTrashKey(userId, sourcePrefix)) {
+        return {
+          success: false,
+          message: "Trashed folders can only be restored",
+          error: "INVALID_PATH",
+        };
+      }
+
+      if (isTrashKey(userId, `${userId}${parentPath}/`)) {
+        return {
+          success: false,
+          message: "Folders cannot be moved into the trash",
+          error: "INVALID_DESTINATION",
+        };
+      }
+
+      if (`${userId}${parentPath}/`.startsWith(sourcePrefix)) {
+        return {
+          success: false,
+          message: "Cannot move a folder into itself",
+          error: "INVALID_DESTINATION",
+        };
+      }
+
+      const currentParent = normalizedFolderPath.substring(
+        0,
+        normalizedFolderPath.lastIndexOf("/")
+      );
+      if (currentParent === parentPath) {
+        return {
+          success: false,
+          message: "Folder is already in this location",
+          error: "SAME_LOCATION",
+        };
+      }
+
+      const newFolderPath = await getUniqueFolderPath(
+        s3Client,
+        bucketName,
+        userId,
+        parentPath,
+        folderName
+      );
+      const destinationPrefix = `${userId}${newFolderPath}/`;
+
+      const allObjects: Array<{ Key?: string }> = [];
+      let continuationToken: string | undefined;
+
+      do {
+        const objects = await s3Client.send(
+          new ListObjectsV2Command({
+            Bucket: bucketName,
+            Prefix: sourcePrefix,
+            ContinuationToken: continuationToken,
+          })
+        );
+
+        if (objects.Contents) {
+          allObjects.push(...objects.Contents);
+        }
+
+        continuationToken = objects.NextContinuationToken;
+      } while (continuationToken);
+
+      if (allObjects.length === 0) {
+        return {
+          success: false,
+          message: "Folder not found",
+          error: "FOLDER_NOT_FOUND",
+        };
+      }
+
+      const movedObjects: Array<{
+        oldKey: string;
+        newKey: string;
+        etag?: string;
+      }> = [];
+      const copyBatchSize = 10;
+
+      for (let i = 0; i < allObjects.length; i += copyBatchSize) {
+        const batch = allObjects.slice(i, i + copyBatchSize);
+
+        await Promise.all(
+          batch.map(async (obj) => {
+            if (!obj.Key || obj.Key === sourcePrefix) return;
+
+            const newKey =
+              destinationPrefix + obj.Key.slice(sourcePrefix.length);
+            const moved = await copyS3Object(
+              s3Client,
+              bucketName,
+              obj.Key,
+              newKey
+            );
+            movedObjects.push({ oldKey: obj.Key, newKey, etag: moved.etag });
+          })
+        );
+      }
+
+      await s3Client.send(
+        new PutObjectCommand({
+          Bucket: bucketName,
+          Key: destinationPrefix,
+          Body: "",
+          ContentType: "application/x-directory",
+        })
+      );
+
+      const objectsToDelete = movedObjects.map((obj) => ({ Key: obj.oldKey }));
+      objectsToDelete.push({ Key: sourcePrefix });
+
+      const deleteBatchSize = 1000;
+      for (let i = 0; i < objectsToDelete.length; i += deleteBatchSize) {
+        await s3Client.send(
+          new DeleteObjectsCommand({
+            Bucket: bucketName,
+            Delete: {
+              Objects: objectsToDelete.slice(i, i + deleteBatchSize),
+              Quiet: true,
+            },
+          })
+        );
+      }
+
+      const newFolderName = newFolderPath.split("/").pop() || folderName;
+      const filesMoved = movedObjects.filter(
+        (obj) => !obj.newKey.endsWith("/")
+      ).length;
+
+      await (ActivityLog as unknown as IActivityLogModel).logActivity(
+        userId,
+        "move",
+        newFolderName,
+        {
+          filePath: newFolderPath,
+          s3Key: destinationPrefix,
+          metadata: {
+            isFolder: true,
+            oldPath: normalizedFolderPath,
+            newPath: newFolderPath,
+            filesMoved,
+          },
+        }
+      );
+
+      await redisCache.invalidate(`activity:${userId}:*`);
+
+      for (const obj of movedObjects) {
+        if (obj.newKey.endsWith("/")) continue;
+        await FileMetadata.findOneAndUpdate(
+          { s3Key: obj.oldKey },
+          {
+            s3Key: obj.newKey,
+            filePath: "/" + obj.newKey.split("/").slice(1).join("/"),
+            ...(obj.etag && { etag: obj.etag }),
+          },
+          { upsert: false }
+        );
+      }
+
+      await redisCache.invalidate(`list:${userId}:/`);
+      await redisCache.invalidate(`list:${userId}:`);
+      await redisCache.invalidate(`analytics:${userId}:*`);
+
+      return {
+        success: true,
+        message: `Folder moved successfully. ${filesMoved} file(s) moved.`,
+        folder: {
+          key: destinationPrefix,
+          name: newFolderName,
+          path: newFolderPath,
+          isFolder: true,
+        },
+      };
+    } catch (error) {
+      logger.error("Move folder error:", error);
+      return {
+        success: false,
+        message: "Failed to move folder",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
 }
@@ -0,0 +1,185 @@
+import { Types } from "mongoose";
+import { redisCache } from "../utils/redisCache";
+import FileMetadata from "../models/FileMetadata";
+import { TRASH_FOLDER } from "./s3TrashOperations";
+import { logger } from "@/utils/logger";
+import { escapeRegex } from "@/utils/escapeRegex";
+
+export interface FolderStatsChild {
+  name: string;
+  path: string;
+  size: number;
+  fileCount: number;
+  lastModified?: Date;
+}
+
+export interface FolderStats {
+  path: string;
+  /** Size of every file below the folder, at any depth */
+  totalSize: number;
+  fileCount: number;
+  folderCount: number;
+  /** Files directly in the folder, outside any subfolder */
+  directSize: number;
+  directFileCount: number;
+  lastModified?: Date;
+  /** Subfolders that contain files, largest first */
+  children: FolderStatsChild[];
+}
+
+export interface FolderStatsResult {
+  success: boolean;
+  message: string;
+  stats?: FolderStats;
+  error?: string;
+}
+
+const FOLDER_STATS_CACHE_TTL = 10 * 60 * 1000;
+
+/**
+ * Cached under the analytics prefix so every operation that already
+ * invalidates a user's analytics also drops stale folder sizes
+ */
+function getFolderStatsCacheKey(userId: string, path: string): string {
+  return `analytics:${userId}:folder:${path}`;
+}
+
+/**
+ * Normalize "photos/2024/", "/photos//2024" etc. to "/photos/2024", and the
+ * root to "/"
+ */
+function normalizeFolderPath(path: string): string {
+  const segments = path.split("/").filter(Boolean);
+  return "/" + segments.join("/");
+}
+
+export class S3FolderStatsOperations {
+  /**
+   * Recursive size and file count of a folder and each of its subfolders,
+   * aggregated from the file metadata
+   */
+  static async getFolderStats(
+    userId: string,
+    path: string = "/"
+  ): Promise<FolderStatsResult> {
+    try {
+      const folderPath = normalizeFolderPath(path);
+      const cacheKey = getFolderStatsCacheKey(userId, folderPath);
+
+      const cached = await redisCache.get(cacheKey);
+      if (cached) {
+        return {
+          success: true,
+          stats: cached as FolderStats,
+          message: "Folder statistics retrieved successfully",
+        };
+      }
+
+      const prefix = folderPath === "/" ? "/" : `${folderPath}/`;
+      // $substrCP counts code points, not UTF-16 units like String.length
+      const prefixLength = Array.from(prefix).length;
+
+      const groups: Array<{
+        _id: string | null;
+        size: number;
+        fileCount: number;
+        lastModified?: Date;
+      }> = await FileMetadata.aggregate([
+        {
+          $match: {
+            userId: new Types.ObjectId(userId),
+            filePath: { $regex: `^${escapeRegex(prefix)}` },
+          },
+        },
+        {
+          $project: {
+            fileSize: 1,
+            lastModified: 1,
+            segments: {
+              $split: [
+                {
+                  $substrCP: [
+                    "$filePath",
+                    prefixLength,
+                    { $strLenCP: "$filePath" },
+                  ],
+                },
+                "/",
+              ],
+            },
+          },
+        },
+        {
+          // Files in a subfolder are grouped under its name, files directly
+          // in the folder under null
+          $group: {
+            _id: {
+              $cond: [
+                { $gt: [{ $size: "$segments" }, 1] },
+                { $arrayElemAt: ["$segments", 0] },
+                null,
+              ],
+            },
+            size: { $sum: "$fileSize" },
+            fileCount: { $sum: 1 },
+            lastModified: { $max: "$lastModified" },
+          },
+        },
+      ]);
+
+      const stats: FolderStats = {
+        path: folderPath,
+        totalSize: 0,
+        fileCount: 0,
+        folderCount: 0,
+        directSize: 0,
+        directFileCount: 0,
+        children: [],
+      };
+
+      for (const group of groups) {
+        if (folderPath === "/" && group._id === TRASH_FOLDER) continue;
+
+        stats.totalSize += group.size;
+        stats.fileCount += group.fileCount;
+        if (
+          group.lastModified &&
+          (!stats.lastModified || group.lastModified > stats.lastModified)
+        ) {
+          stats.lastModified = group.lastModified;
+        }
+
+        if (group._id === null) {
+          stats.directSize = group.size;
+          stats.directFileCount = group.fileCount;
+        } else {
+          stats.children.push({
+            name: group._id,
+            path: `${prefix}${group._id}`,
+            size: group.size,
+            fileCount: group.fileCount,
+            lastModified: group.lastModified,
+          });
+        }
+      }
+
+      stats.children.sort((a, b) => b.size - a.size);
+      stats.folderCount = stats.children.length;
+
+      await redisCache.set(cacheKey, stats, FOLDER_STATS_CACHE_TTL);
+
+      return {
+        success: true,
+        stats,
+        message: "Folder statistics retrieved successfully",
+      };
+    } catch (error) {
+      logger.error("Get folder stats error:", error);
+      return {
+        success: false,
+        message: "Failed to get folder statistics",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+}
@@ -0,0 +1,357 @@
+import { GetObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { extractText, getDocumentProxy } from "unpdf";
+import { Types } from "mongoose";
+import { getS3Client, getS3BucketName } from "../utils/s3ClientFactory";
+import FileMetadata, { IFileMetadata } from "../models/FileMetadata";
+import { decodeText } from "@/utils/textDecoding";
+import { logger } from "@/utils/logger";
+
+type ContentKind = "text" | "markdown" | "json" | "csv" | "html" | "pdf";
+
+export interface IndexingResult {
+  success: boolean;
+  message: string;
+  indexed?: number;
+  failed?: number;
+  error?: string;
+}
+
+export interface ReindexResult {
+  success: boolean;
+  message: string;
+  queued?: number;
+  error?: string;
+}
+
+const DEFAULT_BATCH_SIZE = 50;
+// Only the start of large text files is read
+const MAX_TEXT_BYTES = 1024 * 1024;
+const MAX_PDF_SIZE = 20 * 1024 * 1024;
+/** Longest excerpt stored in searchableContent */
+export const MAX_INDEXED_CHARS = 50000;
+
+const EXTENSION_KINDS: Record<string, ContentKind> = {
+  txt: "text",
+  log: "text",
+  md: "markdown",
+  markdown: "markdown",
+  json: "json",
+  csv: "csv",
+  html: "html",
+  htm: "html",
+  pdf: "pdf",
+};
+
+const MIME_KINDS: Record<string, ContentKind> = {
+  "text/plain": "text",
+  "text/markdown": "markdown",
+  "application/json": "json",
+  "text/csv": "csv",
+  "text/html": "html",
+  "application/pdf": "pdf",
+};
+
+// Matches files the indexer can read, so other types are never fetched
+const INDEXABLE_FILTER = {
+  $or: [
+    { mimeType: { $in: Object.keys(MIME_KINDS) } },
+    {
+      fileName: new RegExp(
+        `\\.(${Object.keys(EXTENSION_KINDS).join("|")})$`,
+        "i"
+      ),
+    },
+  ],
+};
+
+function getContentKind(metadata: IFileMetadata): ContentKind | null {
+  const extension = metadata.fileName.includes(".")
+    ? metadata.fileName.split(".").pop()!.toLowerCase()
+    : "";
+  const mimeType = metadata.mimeType.split(";")[0].trim().toLowerCase();
+  return EXTENSION_KINDS[extension] || MIME_KINDS[mimeType] || null;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function extractHtmlText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code.startsWith("#x") || code.startsWith("#X")) {
+        return String.fromCodePoint(parseInt(code.slice(2), 16));
+      }
+      if (code.startsWith("#")) {
+        return String.fromCodePoint(parseInt(code.slice(1), 10));
+      }
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    });
+}
+
+/**
+ * Keys and values of a JSON document. Files cut short by the read limit
+ * are not valid JSON, so their punctuation is stripped instead.
+ */
+function extractJsonText(json: string): string {
+  const parts: string[] = [];
+  const collect = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(collect);
+    } else if (value && typeof value === "object") {
+      for (const [key, child] of Object.entries(value)) {
+        parts.push(key);
+        collect(child);
+      }
+    } else if (value !== null && value !== undefined) {
+      parts.push(String(value));
+    }
+  };
+
+  try {
+    collect(JSON.parse(json));
+    return parts.join(" ");
+  } catch {
+    return json.replace(/[{}[\]",:]/g, " ");
+  }
+}
+
+async function extractPdfText(bytes: Uint8Array): Promise<string> {
+  const pdf = await getDocumentProxy(bytes);
+  try {
+    const { text } = await extractText(pdf, { mergePages: true });
+    return text;
+  } finally {
+    await pdf.loadingTask.destroy();
+  }
+}
+
+async function readObject(
+  s3Client: S3Client,
+  bucketName: string,
+  metadata: IFileMetadata,
+  kind: ContentKind
+): Promise<{ bytes: Uint8Array; contentType?: string }> {
+  // S3 rejects ranges on empty objects
+  const range =
+    kind === "pdf" || metadata.fileSize === 0
+      ? undefined
+      : `bytes=0-${MAX_TEXT_BYTES - 1}`;
+
+  const response = await s3Client.send(
+    new GetObjectCommand({
+      Bucket: bucketName,
+      Key: metadata.s3Key,
+      Range: range,
+    })
+  );
+
+  return {
+    bytes: await response.Body!.transformToByteArray(),
+    contentType: response.ContentType,
+  };
+}
+
+async function extractContent(
+  s3Client: S3Client,
+  bucketName: string,
+  metadata: IFileMetadata,
+  kind: ContentKind
+): Promise<string> {
+  if (kind === "pdf" && metadata.fileSize > MAX_PDF_SIZE) {
+    return "";
+  }
+
+  const { bytes, contentType } = await readObject(
+    s3Client,
+    bucketName,
+    metadata,
+    kind
+  );
+
+  if (kind === "pdf") {
+    return await extractPdfText(bytes);
+  }
+
+  const { content } = decodeText(
+    bytes,
+    contentType,
+    metadata.fileSize > bytes.length
+  );
+
+  switch (kind) {
+    case "html":
+      return extractHtmlText(content);
+    case "json":
+      return extractJsonText(content);
+    case "csv":
+      return content.replace(/[",]/g, " ");
+    case "markdown":
+      return content.replace(/[#>*_`~|]/g, " ");
+    default:
+      return content;
+  }
+}
+
+/**
+ * Index one file. The file is marked as indexed even when extraction fails
+ * so a broken file is not downloaded again on every run; uploading a new
+ * version or re-indexing the user retries it.
+ */
+async function indexFile(
+  s3Client: S3Client,
+  bucketName: string,
+  metadata: IFileMetadata
+): Promise<boolean> {
+  const kind = getContentKind(metadata);
+  let searchableContent = "";
+  let succeeded = true;
+
+  if (kind) {
+    try {
+      searchableContent = (
+        await extractContent(s3Client, bucketName, metadata, kind)
+      )
+        .replace(/\s+/g, " ")
+        .trim()
+        .slice(0, MAX_INDEXED_CHARS);
+    } catch (error) {
+      logger.warn(`Content indexing failed for ${metadata.s3Key}:`, error);
+      succeeded = false;
+    }
+  }
+
+  // Skip the update if the file was replaced while it was being read
+  await FileMetadata.updateOne(
+    {
+      _id: metadata._id,
+      lastModified: metadata.lastModified,
+      fileSize: metadata.fileSize,
+    },
+    searchableContent
+      ? { $set: { searchableContent, isIndexed: true } }
+      : { $set: { isIndexed: true }, $unset: { searchableContent: 1 } }
+  );
+
+  return succeeded;
+}
+
+export class S3IndexingOperations {
+  /**
+   * Extract text from a batch of files that have not been indexed yet so
+   * search can match on their content
+   */
+  static async indexPending(
+    options: { userId?: string; limit?: number } = {}
+  ): Promise<IndexingResult> {
+    try {
+      const { userId, limit = DEFAULT_BATCH_SIZE } = options;
+
+      const pending: IFileMetadata[] = await FileMetadata.find({
+        isIndexed: false,
+        ...(userId && { userId: new Types.ObjectId(userId) }),
+        ...INDEXABLE_FILTER,
+      })
+        .sort({ updatedAt: 1 })
+        .limit(limit);
+
+      const clients = new Map<
+        string,
+        { s3Client: S3Client; bucketName: string } | null
+      >();
+      let indexed = 0;
+      let failed = 0;
+
+      for (const metadata of pending) {
+        const ownerId = String(metadata.userId);
+
+        if (!clients.has(ownerId)) {
+          const s3Client = await getS3Client(ownerId);
+          const bucketName = await getS3BucketName(ownerId);
+          clients.set(
+            ownerId,
+            s3Client && bucketName ? { s3Client, bucketName } : null
+          );
+        }
+
+        const client = clients.get(ownerId);
+        if (!client) continue;
+
+        if (await indexFile(client.s3Client, client.bucketName, metadata)) {
+          indexed++;
+        } else {
+          failed++;
+        }
+      }
+
+      if (pending.length > 0) {
+        logger.info(`🔎 Indexed ${indexed} files, ${failed} could not be read`);
+      }
+
+      return {
+        success: true,
+        indexed,
+        failed,
+        message: "Content indexing completed",
+      };
+    } catch (error) {
+      logger.error("Content indexing error:", error);
+      return {
+        success: false,
+        message: "Failed to index file contents",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Clear a user's index and rebuild it in the background
+   */
+  static async reindexUser(userId: string): Promise<ReindexResult> {
+    try {
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      const result = await FileMetadata.updateMany(
+        { userId: new Types.ObjectId(userId), ...INDEXABLE_FILTER },
+        { $set: { isIndexed: false }, $unset: { searchableContent: 1 } }
+      );
+
+      void (async () => {
+        for (;;) {
+          const batch = await S3IndexingOperations.indexPending({ userId });
+          if (!batch.success || (!batch.indexed && !batch.failed)) break;
+        }
+      })();
+
+      return {
+        success: true,
+        queued: result.matchedCount,
+        message: `Re-indexing ${result.matchedCount} files`,
+      };
+    } catch (error) {
+      logger.error("Reindex user error:", error);
+      return {
+        success: false,
+        message: "Failed to start re-indexing",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+}
@@ -0,0 +1,470 @@
+import {
+  GetBucketLifecycleConfigurationCommand,
+  PutBucketLifecycleConfigurationCommand,
+  DeleteBucketLifecycleCommand,
+  LifecycleRule,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { getS3Client, getS3BucketName } from "../utils/s3ClientFactory";
+import { FileStorageClass } from "./s3StorageClassOperations";
+import { logger } from "@/utils/logger";
+
+export type TransitionStorageClass = Exclude<FileStorageClass, "STANDARD">;
+
+export const TRANSITION_STORAGE_CLASSES: TransitionStorageClass[] = [
+  "STANDARD_IA",
+  "ONEZONE_IA",
+  "INTELLIGENT_TIERING",
+  "GLACIER_IR",
+  "GLACIER",
+  "DEEP_ARCHIVE",
+];
+
+export interface LifecycleTransition {
+  days: number;
+  storageClass: TransitionStorageClass;
+}
+
+/**
+ * A lifecycle rule as edited in the app. Prefixes are relative to the
+ * user's root, so "" covers all of their files and "photos/" one folder.
+ */
+export interface LifecycleRuleInput {
+  id: string;
+  enabled: boolean;
+  prefix: string;
+  transitions: LifecycleTransition[];
+  /** Delete current versions this many days after creation */
+  expirationDays?: number;
+  /** Delete older versions this many days after they were replaced */
+  noncurrentExpirationDays?: number;
+  /** Older versions to keep regardless of their age */
+  noncurrentVersionsToKeep?: number;
+  abortIncompleteMultipartDays?: number;
+}
+
+export interface LifecycleConfig {
+  rules: LifecycleRuleInput[];
+  /** Rules for other prefixes or with filters the editor does not handle */
+  otherRuleCount: number;
+}
+
+export interface LifecycleResult {
+  success: boolean;
+  message: string;
+  config?: LifecycleConfig;
+  error?: string;
+}
+
+export interface LifecycleRulesParseResult {
+  success: boolean;
+  message?: string;
+  rules?: LifecycleRuleInput[];
+}
+
+export const MAX_LIFECYCLE_RULES = 50;
+const MAX_RULE_ID_LENGTH = 64;
+const MAX_LIFECYCLE_DAYS = 36500;
+// S3 refuses transitions to the IA classes before this many days
+const MIN_IA_TRANSITION_DAYS = 30;
+
+function isDays(value: unknown): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= 1 &&
+    value <= MAX_LIFECYCLE_DAYS
+  );
+}
+
+/**
+ * Normalize "/photos//2024" to "photos/2024/", and the root to ""
+ */
+function normalizeRulePrefix(prefix: string): string {
+  const segments = prefix.split("/").filter(Boolean);
+  return segments.length > 0 ? `${segments.join("/")}/` : "";
+}
+
+/**
+ * Check the rules from a request body. Every rule needs at least one
+ * action, and its steps have to follow S3's ordering rules.
+ */
+export function parseLifecycleRules(rules: unknown): LifecycleRulesParseResult {
+  if (!Array.isArray(rules)) {
+    return { success: false, message: "A list of rules is required" };
+  }
+
+  if (rules.length > MAX_LIFECYCLE_RULES) {
+    return {
+      success: false,
+      message: `At most ${MAX_LIFECYCLE_RULES} rules are allowed`,
+    };
+  }
+
+  const parsed: LifecycleRuleInput[] = [];
+  const ids = new Set<string>();
+
+  for (const rule of rules) {
+    const id = typeof rule?.id === "string" ? rule.id.trim() : "";
+    if (!id || id.length > MAX_RULE_ID_LENGTH) {
+      return {
+        success: false,
+        message: `Rule names must be 1 to ${MAX_RULE_ID_LENGTH} characters`,
+      };
+    }
+    if (ids.has(id)) {
+      return { success: false, message: `Rule name "${id}" is used twice` };
+    }
+    ids.add(id);
+
+    if (
+      typeof rule.prefix !== "string" ||
+      /[<>:"\\|?*]/.test(rule.prefix) ||
+      rule.prefix.split("/").some((segment: string) => segment === "..")
+    ) {
+      return {
+        success: false,
+        message: `Rule "${id}" has an invalid folder`,
+      };
+    }
+
+    const optionalDays = [
+      rule.expirationDays,
+      rule.noncurrentExpirationDays,
+      rule.abortIncompleteMultipartDays,
+    ];
+    if (optionalDays.some((days) => days !== undefined && !isDays(days))) {
+      return {
+        success: false,
+        message: `Days in rule "${id}" must be whole numbers from 1 to ${MAX_LIFECYCLE_DAYS}`,
+      };
+    }
+
+    if (
+      rule.noncurrentVersionsToKeep !== undefined &&
+      (!Number.isInteger(rule.noncurrentVersionsToKeep) ||
+        rule.noncurrentVersionsToKeep < 1 ||
+        rule.noncurrentVersionsToKeep > 100)
+    ) {
+      return {
+        success: false,
+        message: `Versions to keep in rule "${id}" must be from 1 to 100`,
+      };
+    }
+
+    if (
+      rule.noncurrentVersionsToKeep !== undefined &&
+      rule.noncurrentExpirationDays === undefined
+    ) {
+      return {
+        success: false,
+        message: `Rule "${id}" keeps older versions but never deletes them`,
+      };
+    }
+
+    if (!Array.isArray(rule.transitions)) {
+      return {
+        success: false,
+        message: `Rule "${id}" needs a list of transitions`,
+      };
+    }
+
+    const transitions: LifecycleTransition[] = [];
+    for (const transition of rule.transitions) {
+      if (
+        !TRANSITION_STORAGE_CLASSES.includes(transition?.storageClass) ||
+        !isDays(transition.days)
+      ) {
+        return {
+          success: false,
+          message: `Rule "${id}" has an invalid transition`,
+        };
+      }
+      if (
+        (transition.storageClass === "STANDARD_IA" ||
+          transition.storageClass === "ONEZONE_IA") &&
+        transition.days < MIN_IA_TRANSITION_DAYS
+      ) {
+        return {
+          success: false,
+          message: `Rule "${id}" can only move files to ${transition.storageClass} after ${MIN_IA_TRANSITION_DAYS} days`,
+        };
+      }
+      if (transitions.some((t) => t.storageClass === transition.storageClass)) {
+        return {
+          success: false,
+          message: `Rule "${id}" moves files to ${transition.storageClass} twice`,
+        };
+      }
+      transitions.push({
+        days: transition.days,
+        storageClass: transition.storageClass,
+      });
+    }
+    transitions.sort((a, b) => a.days - b.days);
+
+    if (
+      rule.expirationDays !== undefined &&
+      transitions.some((transition) => transition.days >= rule.expirationDays)
+    ) {
+      return {
+        success: false,
+        message: `Rule "${id}" deletes files before they are moved`,
+      };
+    }
+
+    if (
+      transitions.length === 0 &&
+      rule.expirationDays === undefined &&
+      rule.noncurrentExpirationDays === undefined &&
+      rule.abortIncompleteMultipartDays === undefined
+    ) {
+      return {
+        success: false,
+        message: `Rule "${id}" does not do anything`,
+      };
+    }
+
+    parsed.push({
+      id,
+      enabled: rule.enabled !== false,
+      prefix: normalizeRulePrefix(rule.prefix),
+      transitions,
+      expirationDays: rule.expirationDays,
+      noncurrentExpirationDays: rule.noncurrentExpirationDays,
+      noncurrentVersionsToKeep: rule.noncurrentVersionsToKeep,
+      abortIncompleteMultipartDays: rule.abortIncompleteMultipartDays,
+    });
+  }
+
+  return { success: true, rules: parsed };
+}
+
+/**
+ * Rules only filtered by a prefix below the user's root, and only using
+ * day-based actions, can be edited; anything else is left as it is
+ */
+function toRuleInput(
+  userId: string,
+  rule: LifecycleRule
+): LifecycleRuleInput | null {
+  const filter = rule.Filter;
+  if (filter && (filter.And || filter.Tag || filter.ObjectSizeGreaterThan)) {
+    return null;
+  }
+  if (filter?.ObjectSizeLessThan) return null;
+
+  const prefix = filter?.Prefix ?? rule.Prefix;
+  if (!rule.ID || prefix === undefined || !prefix.startsWith(`${userId}/`)) {
+    return null;
+  }
+
+  if (
+    rule.Expiration?.Date ||
+    rule.Expiration?.ExpiredObjectDeleteMarker ||
+    rule.Transitions?.some((transition) => transition.Date) ||
+    rule.NoncurrentVersionTransitions?.length
+  ) {
+    return null;
+  }
+
+  return {
+    id: rule.ID,
+    enabled: rule.Status === "Enabled",
+    prefix: prefix.substring(userId.length + 1),
+    transitions: (rule.Transitions || []).map((transition) => ({
+      days: transition.Days || 0,
+      storageClass: transition.StorageClass as TransitionStorageClass,
+    })),
+    expirationDays: rule.Expiration?.Days,
+    noncurrentExpirationDays: rule.NoncurrentVersionExpiration?.NoncurrentDays,
+    noncurrentVersionsToKeep:
+      rule.NoncurrentVersionExpiration?.NewerNoncurrentVersions,
+    abortIncompleteMultipartDays:
+      rule.AbortIncompleteMultipartUpload?.DaysAfterInitiation,
+  };
+}
+
+function toLifecycleRule(
+  userId: string,
+  rule: LifecycleRuleInput
+): LifecycleRule {
+  return {
+    ID: rule.id,
+    Status: rule.enabled ? "Enabled" : "Disabled",
+    Filter: { Prefix: `${userId}/${rule.prefix}` },
+    ...(rule.transitions.length > 0 && {
+      Transitions: rule.transitions.map((transition) => ({
+        Days: transition.days,
+        StorageClass: transition.storageClass,
+      })),
+    }),
+    ...(rule.expirationDays !== undefined && {
+      Expiration: { Days: rule.expirationDays },
+    }),
+    ...(rule.noncurrentExpirationDays !== undefined && {
+      NoncurrentVersionExpiration: {
+        NoncurrentDays: rule.noncurrentExpirationDays,
+        NewerNoncurrentVersions: rule.noncurrentVersionsToKeep,
+      },
+    }),
+    ...(rule.abortIncompleteMultipartDays !== undefined && {
+      AbortIncompleteMultipartUpload: {
+        DaysAfterInitiation: rule.abortIncompleteMultipartDays,
+      },
+    }),
+  };
+}
+
+/**
+ * A bucket without lifecycle rules answers with an error instead of an
+ * empty list
+ */
+async function readLifecycleRules(
+  s3Client: S3Client,
+  bucketName: string
+): Promise<LifecycleRule[]> {
+  try {
+    const response = await s3Client.send(
+      new GetBucketLifecycleConfigurationCommand({ Bucket: bucketName })
+    );
+    return response.Rules || [];
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.name === "NoSuchLifecycleConfiguration"
+    ) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+function toLifecycleConfig(
+  userId: string,
+  rules: LifecycleRule[]
+): LifecycleConfig {
+  const editable = rules
+    .map((rule) => toRuleInput(userId, rule))
+    .filter((rule): rule is LifecycleRuleInput => rule !== null);
+
+  return {
+    rules: editable,
+    otherRuleCount: rules.length - editable.length,
+  };
+}
+
+export class S3LifecycleOperations {
+  /**
+   * Get the lifecycle rules that apply to the user's files
+   */
+  static async getLifecycleRules(userId: string): Promise<LifecycleResult> {
+    try {
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      const rules = await readLifecycleRules(s3Client, bucketName);
+
+      return {
+        success: true,
+        config: toLifecycleConfig(userId, rules),
+        message: "Lifecycle rules retrieved successfully",
+      };
+    } catch (error) {
+      logger.error("Get lifecycle rules error:", error);
+      return {
+        success: false,
+        message: "Failed to read bucket lifecycle rules",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Replace the lifecycle rules that apply to the user's files. S3 only
+   * stores one configuration per bucket, so rules the editor does not
+   * manage are read back and saved along with the new ones.
+   */
+  static async setLifecycleRules(
+    userId: string,
+    rules: LifecycleRuleInput[]
+  ): Promise<LifecycleResult> {
+    try {
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      const existing = await readLifecycleRules(s3Client, bucketName);
+      const keptRules = existing.filter(
+        (rule) => toRuleInput(userId, rule) === null
+      );
+
+      const clash = rules.find((rule) =>
+        keptRules.some((kept) => kept.ID === rule.id)
+      );
+      if (clash) {
+        return {
+          success: false,
+          message: `Another rule in the bucket is already named "${clash.id}"`,
+          error: "DUPLICATE_RULE_ID",
+        };
+      }
+
+      const nextRules = [
+        ...keptRules,
+        ...rules.map((rule) => toLifecycleRule(userId, rule)),
+      ];
+
+      // S3 does not accept a configuration without rules
+      if (nextRules.length === 0) {
+        if (existing.length > 0) {
+          await s3Client.send(
+            new DeleteBucketLifecycleCommand({ Bucket: bucketName })
+          );
+        }
+      } else {
+        await s3Client.send(
+          new PutBucketLifecycleConfigurationCommand({
+            Bucket: bucketName,
+            LifecycleConfiguration: { Rules: nextRules },
+          })
+        );
+      }
+
+      logger.info(
+        `♻️ Saved ${rules.length} lifecycle rule(s) for user ${userId}`
+      );
+
+      return {
+        success: true,
+        config: toLifecycleConfig(userId, nextRules),
+        message:
+          rules.length > 0
+            ? "Lifecycle rules saved"
+            : "Lifecycle rules removed",
+      };
+    } catch (error) {
+      logger.error("Set lifecycle rules error:", error);
+      return {
+        success: false,
+        message: "Failed to update bucket lifecycle rules",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+}
@@ -1,7 +1,24 @@
-import { ListObjectsV2Command, HeadObjectCommand } from "@aws-sdk/client-s3";
+import {
+  ListObjectsV2Command,
+  HeadObjectCommand,
+  S3Client,
+  _Object,
+} from "@aws-sdk/client-s3";
 import { getS3Client, getS3BucketName } from "../utils/s3ClientFactory";
 import { redisCache } from "../utils/redisCache";
+import { Types } from "mongoose";
+import FileMetadata, {
+  FileSearchSort,
+  FolderListSort,
+  IFileMetadataModel,
+  InvalidCursorError,
+} from "../models/FileMetadata";
+import { getTrashRoot, isTrashKey } from "./s3TrashOperations";
+import { S3FolderStatsOperations } from "./s3FolderStatsOperations";
+import { deleteFileMetadata } from "./s3ThumbnailOperations";
+import { getSearchSuggestions, SearchSuggestion } from "@/utils/searchQuery";
 import { logger } from "@/utils/logger";
+import { escapeRegex } from "@/utils/escapeRegex";
 
 export interface S3FileItem {
   key: string;
@@ -12,6 +29,10 @@ export interface S3FileItem {
   isFolder: boolean;
   path: string;
   metadata?: Record<string, string>;
+  /** Files below a folder, at any depth */
+  fileCount?: number;
+  /** S3 storage class, unset for STANDARD */
+  storageClass?: string;
 }
 
 export interface ListResult {
@@ -29,15 +50,128 @@ export interface ListResult {
   nextToken?: string;
 }
 
+export interface SearchOptions {
+  mimeType?: string;
+  mimeTypes?: string[];
+  tags?: string[];
+  minSize?: number;
+  maxSize?: number;
+  modifiedAfter?: Date;
+  modifiedBefore?: Date;
+  folder?: string;
+  sort?: FileSearchSort;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface SearchSuggestionResult {
+  success: boolean;
+  suggestions: SearchSuggestion[];
+  message?: string;
+}
+
 export interface SearchResult {
   success: boolean;
   files: S3FileItem[];
   totalResults: number;
   query: string;
+  hasMore: boolean;
+  nextCursor?: string;
   message?: string;
   error?: string;
 }
 
+const LIST_CACHE_TTL = 2 * 60 * 1000;
+
+function toFolderItem(
+  userId: string,
+  prefix: string | undefined,
+  s3Prefix: string,
+  normalizedPath: string
+): S3FileItem | null {
+  if (!prefix || prefix === s3Prefix) return null;
+  if (prefix === getTrashRoot(userId)) return null;
+
+  const folderName = prefix.replace(s3Prefix, "").replace("/", "");
+  if (!folderName) return null;
+
+  return {
+    key: prefix,
+    name: folderName,
+    size: 0,
+    lastModified: new Date(),
+    isFolder: true,
+    path: `${
+      normalizedPath === "/" || normalizedPath === "" ? "" : normalizedPath
+    }/${folderName}`,
+  };
+}
+
+/**
+ * File item for a listed object, with the name and type read from its key
+ */
+function toFileItem(
+  object: _Object,
+  s3Prefix: string,
+  normalizedPath: string
+): S3FileItem | null {
+  const s3FileName = object.Key?.replace(s3Prefix, "");
+  if (!object.Key || !s3FileName) return null;
+
+  const parts = s3FileName.split("-");
+  const name = parts.length >= 3 ? parts.slice(2).join("-") : s3FileName;
+  const extension = name.includes(".")
+    ? name.split(".").pop()!.toLowerCase()
+    : "";
+
+  return {
+    key: object.Key,
+    name,
+    size: object.Size || 0,
+    lastModified: object.LastModified || new Date(),
+    isFolder: false,
+    path: `${
+      normalizedPath === "/" || normalizedPath === "" ? "" : normalizedPath
+    }/${name}`,
+    mimeType: S3ListingOperations.getMimeTypeFromExtension(extension),
+    storageClass:
+      object.StorageClass && object.StorageClass !== "STANDARD"
+        ? object.StorageClass
+        : undefined,
+  };
+}
+
+/**
+ * Sort items the way a sorted listing orders its files; folders have no
+ * type, so they keep name order for it
+ */
+function sortItems(
+  items: S3FileItem[],
+  sort: FolderListSort,
+  order?: "asc" | "desc"
+): S3FileItem[] {
+  const ascending = order
+    ? order === "asc"
+    : sort === "name" || sort === "type";
+  const compare = (a: S3FileItem, b: S3FileItem) => {
+    if (sort === "size") return a.size - b.size;
+    if (sort === "date") {
+      return (
+        new Date(a.lastModified).getTime() - new Date(b.lastModified).getTime()
+      );
+    }
+    if (sort === "type") {
+      return (a.mimeType || "").localeCompare(b.mimeType || "");
+    }
+    return a.name.localeCompare(b.name);
+  };
+  return items.sort(
+    (a, b) =>
+      (ascending ? compare(a, b) : compare(b, a)) ||
+      a.name.localeCompare(b.name)
+  );
+}
+
 export class S3ListingOperations {
   /**
    * List files and folders in a specific path
@@ -50,6 +184,9 @@ export class S3ListingOperations {
       continuationToken?: string;
       useCache?: boolean;
       includeMetadata?: boolean;
+      /** List from the file metadata in this order instead of key order */
+      sort?: FolderListSort;
+      order?: "asc" | "desc";
     } = {}
   ): Promise<ListResult> {
     try {
@@ -58,6 +195,8 @@ export class S3ListingOperations {
         continuationToken,
         useCache = true,
         includeMetadata = false,
+        sort,
+        order,
       } = options;
 
       const s3Client = await getS3Client(userId);
@@ -86,7 +225,7 @@ export class S3ListingOperations {
 
       const cacheKey = `list:${userId}:${normalizedPath}:${maxKeys}:${
         continuationToken || ""
-      }:${includeMetadata}`;
+      }:${includeMetadata}${sort ? `:${sort}:${order || ""}` : ""}`;
       if (useCache) {
         const cached = await redisCache.get(cacheKey);
         if (cached) {
@@ -94,6 +233,20 @@ export class S3ListingOperations {
         }
       }
 
+      if (sort) {
+        const result = await S3ListingOperations.listSorted(
+          userId,
+          s3Client,
+          bucketName,
+          normalizedPath,
+          { sort, order, maxKeys, continuationToken }
+        );
+        if (useCache) {
+          await redisCache.set(cacheKey, result, LIST_CACHE_TTL);
+        }
+        return result;
+      }
+
       logger.info(
         "🔍 Listing S3 objects with prefix:",
         s3Prefix,
@@ -125,31 +278,18 @@ export class S3ListingOperations {
       });
 
       const folders: S3FileItem[] = [];
-      if (response.CommonPrefixes) {
-        for (const prefix of response.CommonPrefixes) {
-          if (!prefix.Prefix || prefix.Prefix === s3Prefix) continue;
-
-          const folderName = prefix.Prefix.replace(s3Prefix, "").replace(
-            "/",
-            ""
-          );
-          if (!folderName) continue;
-
-          folders.push({
-            key: prefix.Prefix,
-            name: folderName,
-            size: 0,
-            lastModified: new Date(),
-            isFolder: true,
-            path: `${
-              normalizedPath === "/" || normalizedPath === ""
-                ? ""
-                : normalizedPath
-            }/${folderName}`,
-          });
-        }
+      for (const prefix of response.CommonPrefixes || []) {
+        const folder = toFolderItem(
+          userId,
+          prefix.Prefix,
+          s3Prefix,
+          normalizedPath
+        );
+        if (folder) folders.push(folder);
       }
 
+      await S3ListingOperations.addFolderStats(userId, normalizedPath, folders);
+
       let files: S3FileItem[] = [];
       let totalSize = 0;
 
@@ -206,6 +346,10 @@ export class S3ListingOperations {
                 : normalizedPath
             }/${originalFileName}`,
             mimeType: contentType,
+            storageClass:
+              object.StorageClass && object.StorageClass !== "STANDARD"
+                ? object.StorageClass
+                : undefined,
           };
 
           if (contentType === "application/octet-stream") {
@@ -241,7 +385,7 @@ export class S3ListingOperations {
       };
 
       if (useCache) {
-        await redisCache.set(cacheKey, result, 2 * 60 * 1000);
+        await redisCache.set(cacheKey, result, LIST_CACHE_TTL);
       }
 
       logger.info(
@@ -249,6 +393,20 @@ export class S3ListingOperations {
       );
       return result;
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return {
+          success: false,
+          files: [],
+          folders: [],
+          currentPath: path,
+          breadcrumbs: [],
+          totalSize: 0,
+          totalFiles: 0,
+          totalFolders: 0,
+          message: "Invalid continuation token",
+          error: "INVALID_CURSOR",
+        };
+      }
       logger.error("List files error:", error);
       return {
         success: false,
@@ -265,6 +423,251 @@ export class S3ListingOperations {
     }
   }
 
+  /**
+   * List a folder in sorted order from the file metadata, which works as a
+   * sorted index of the bucket. The first page lists the folder in S3, which
+   * decides what exists: it brings all subfolders, indexes files that have
+   * no metadata yet and drops rows whose object is gone. Files are paged with a metadata cursor as the
+   * continuation token. When the metadata cannot be brought up to date,
+   * the listed files are sorted in one page instead.
+   */
+  private static async listSorted(
+    userId: string,
+    s3Client: S3Client,
+    bucketName: string,
+    normalizedPath: string,
+    options: {
+      sort: FolderListSort;
+      order?: "asc" | "desc";
+      maxKeys: number;
+      continuationToken?: string;
+    }
+  ): Promise<ListResult> {
+    const { sort, order, maxKeys, continuationToken } = options;
+
+    let folders: S3FileItem[] = [];
+    if (!continuationToken) {
+      const listedAt = new Date();
+      const contents = await S3ListingOperations.listFolderContents(
+        userId,
+        s3Client,
+        bucketName,
+        normalizedPath
+      );
+      folders = contents.folders;
+      await S3ListingOperations.addFolderStats(userId, normalizedPath, folders);
+      sortItems(folders, sort, order);
+
+      const synced = await S3ListingOperations.syncFolderMetadata(
+        userId,
+        s3Client,
+        bucketName,
+        normalizedPath,
+        contents.objects,
+        listedAt
+      );
+      if (!synced) {
+        const s3Prefix =
+          [userId, normalizedPath.replace(/^\//, "")]
+            .filter(Boolean)
+            .join("/") + "/";
+        const files = sortItems(
+          contents.objects
+            .map((object) => toFileItem(object, s3Prefix, normalizedPath))
+            .filter((item): item is S3FileItem => item !== null),
+          sort,
+          order
+        );
+        return {
+          success: true,
+          files,
+          folders,
+          currentPath: normalizedPath,
+          breadcrumbs: S3ListingOperations.generateBreadcrumbs(normalizedPath),
+          totalSize: files.reduce((total, file) => total + file.size, 0),
+          totalFiles: files.length,
+          totalFolders: folders.length,
+          hasMore: false,
+        };
+      }
+    }
+
+    const page = await (
+      FileMetadata as unknown as IFileMetadataModel
+    ).listFolder(userId, normalizedPath, {
+      sort,
+      order,
+      limit: maxKeys,
+      cursor: continuationToken,
+    });
+
+    const files: S3FileItem[] = page.files.map((file) => ({
+      key: file.s3Key,
+      name: file.fileName,
+      size: file.fileSize,
+      lastModified: file.lastModified,
+      mimeType: file.mimeType,
+      isFolder: false,
+      path: file.filePath,
+      storageClass: file.storageClass,
+    }));
+
+    logger.info(
+      `📁 Listed ${files.length} of ${page.total} files sorted by ${sort}`
+    );
+    return {
+      success: true,
+      files,
+      folders,
+      currentPath: normalizedPath,
+      breadcrumbs: S3ListingOperations.generateBreadcrumbs(normalizedPath),
+      totalSize: files.reduce((total, file) => total + file.size, 0),
+      totalFiles: page.total,
+      totalFolders: folders.length,
+      hasMore: !!page.nextCursor,
+      nextToken: page.nextCursor,
+    };
+  }
+
+  /**
+   * Every subfolder and file directly in a folder. The whole prefix is
+   * paged through, since folders are interleaved with files in key order.
+   */
+  private static async listFolderContents(
+    userId: string,
+    s3Client: S3Client,
+    bucketName: string,
+    normalizedPath: string
+  ): Promise<{ folders: S3FileItem[]; objects: _Object[] }> {
+    const s3Prefix =
+      [userId, normalizedPath.replace(/^\//, "")].filter(Boolean).join("/") +
+      "/";
+    const folders: S3FileItem[] = [];
+    const objects: _Object[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await s3Client.send(
+        new ListObjectsV2Command({
+          Bucket: bucketName,
+          Prefix: s3Prefix,
+          Delimiter: "/",
+          ContinuationToken: continuationToken,
+        })
+      );
+
+      for (const prefix of response.CommonPrefixes || []) {
+        const folder = toFolderItem(
+          userId,
+          prefix.Prefix,
+          s3Prefix,
+          normalizedPath
+        );
+        if (folder) folders.push(folder);
+      }
+
+      for (const object of response.Contents || []) {
+        if (object.Key && object.Key !== s3Prefix) objects.push(object);
+      }
+
+      continuationToken = response.NextContinuationToken;
+    } while (continuationToken);
+
+    return { folders, objects };
+  }
+
+  /**
+   * Bring the metadata of a folder in line with its S3 listing: files with
+   * no row, such as objects written straight to the bucket, are indexed in
+   * one bulk write, and rows whose object is gone are removed. Rows written
+   * since `listedAt` may belong to objects the listing missed, so they are
+   * kept. Returns false when the metadata could not be brought up to date.
+   */
+  private static async syncFolderMetadata(
+    userId: string,
+    s3Client: S3Client,
+    bucketName: string,
+    normalizedPath: string,
+    objects: _Object[],
+    listedAt: Date
+  ): Promise<boolean> {
+    try {
+      const s3Prefix =
+        [userId, normalizedPath.replace(/^\//, "")].filter(Boolean).join("/") +
+        "/";
+      const knownKeys: string[] = await FileMetadata.distinct("s3Key", {
+        userId: new Types.ObjectId(userId),
+        s3Key: { $regex: `^${escapeRegex(s3Prefix)}[^/]+$` },
+      });
+      const known = new Set(knownKeys);
+      const listed = new Set(objects.map((object) => object.Key));
+
+      await (
+        FileMetadata as unknown as IFileMetadataModel
+      ).syncManyFromS3Objects(
+        userId,
+        objects
+          .filter((object) => object.Key && !known.has(object.Key))
+          .map((object) => {
+            const fileName = object.Key!.split("/").pop() || "";
+            const extension = fileName.includes(".")
+              ? fileName.split(".").pop()!.toLowerCase()
+              : "";
+            return {
+              Key: object.Key!,
+              Size: object.Size || 0,
+              LastModified: object.LastModified || new Date(),
+              ContentType:
+                S3ListingOperations.getMimeTypeFromExtension(extension),
+              StorageClass: object.StorageClass || "STANDARD",
+              ETag: object.ETag,
+            };
+          })
+      );
+
+      const orphanKeys = knownKeys.filter((key) => !listed.has(key));
+      if (orphanKeys.length > 0) {
+        await deleteFileMetadata(s3Client, bucketName, userId, {
+          userId: new Types.ObjectId(userId),
+          s3Key: { $in: orphanKeys },
+          updatedAt: { $lt: listedAt },
+        });
+      }
+      return true;
+    } catch (error) {
+      logger.warn(`Could not sync metadata for ${normalizedPath}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Fill in recursive folder sizes, which come from the metadata rather
+   * than a listing page
+   */
+  private static async addFolderStats(
+    userId: string,
+    normalizedPath: string,
+    folders: S3FileItem[]
+  ): Promise<void> {
+    if (folders.length === 0) return;
+
+    const statsResult = await S3FolderStatsOperations.getFolderStats(
+      userId,
+      normalizedPath
+    );
+    const childStats = new Map(
+      (statsResult.stats?.children || []).map((child) => [child.name, child])
+    );
+    for (const folder of folders) {
+      const child = childStats.get(folder.name);
+      folder.size = child?.size || 0;
+      folder.fileCount = child?.fileCount || 0;
+      if (child?.lastModified) {
+        folder.lastModified = child.lastModified;
+      }
+    }
+  }
+
   /**
    * List all files recursively for a user
    */
@@ -291,7 +694,11 @@ export class S3ListingOperations {
 
       if (response.Contents) {
         const fileItems = response.Contents.filter(
-          (object) => object.Key && object.Size && object.Size > 0
+          (object) =>
+            object.Key &&
+            object.Size &&
+            object.Size > 0 &&
+            !isTrashKey(userId, object.Key)
         ).map((object: import("@aws-sdk/client-s3")._Object) => {
           const key = object.Key || "";
           const name = key.split("/").pop() || "";
@@ -315,120 +722,116 @@ export class S3ListingOperations {
   }
 
   /**
-   * Search files by name
+   * Search file names and indexed contents using the metadata text index.
+   * Partial words do not match the text index, so when nothing matches the
+   * search falls back to a substring match on the file name.
    */
   static async searchFiles(
     userId: string,
     query: string,
-    options: {
-      maxResults?: number;
-      mimeTypeFilter?: string;
-    } = {}
+    options: SearchOptions = {}
   ): Promise<SearchResult> {
     try {
-      const { maxResults = 100, mimeTypeFilter } = options;
+      const { cursor, ...filters } = options;
+      // The cursor records which kind of match produced the first page
+      const match = cursor?.startsWith("n.") ? "name" : "text";
+      const searchModel = FileMetadata as unknown as IFileMetadataModel;
+
+      let page = await searchModel.searchFiles(userId, query, {
+        ...filters,
+        match,
+        cursor: cursor?.slice(2),
+      });
+      let matchedBy = match;
 
-      const s3Client = await getS3Client(userId);
-      const bucketName = await getS3BucketName(userId);
+      if (!cursor && page.total === 0 && query) {
+        page = await searchModel.searchFiles(userId, query, {
+          ...filters,
+          match: "name",
+        });
+        matchedBy = "name";
+      }
 
-      if (!s3Client || !bucketName) {
+      const files: S3FileItem[] = page.files.map((file) => ({
+        key: file.s3Key,
+        name: file.fileName,
+        size: file.fileSize,
+        lastModified: file.lastModified,
+        mimeType: file.mimeType,
+        isFolder: false,
+        path: file.filePath,
+        storageClass: file.storageClass,
+      }));
+
+      logger.info(`🔍 Found ${page.total} matching files`);
+      return {
+        success: true,
+        files,
+        totalResults: page.total,
+        query,
+        hasMore: !!page.nextCursor,
+        nextCursor: page.nextCursor
+          ? `${matchedBy === "name" ? "n" : "t"}.${page.nextCursor}`
+          : undefined,
+      };
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
         return {
           success: false,
           files: [],
           totalResults: 0,
           query,
-          message: "S3 configuration not found",
-          error: "S3_CONFIG_MISSING",
+          hasMore: false,
+          message: "Invalid search cursor",
+          error: "INVALID_CURSOR",
         };
       }
-
-      const cacheKey = `search:${userId}:${query}:${
-        mimeTypeFilter || ""
-      }:${maxResults}`;
-      const cached = await redisCache.get(cacheKey);
-      if (cached) {
-        return cached as SearchResult;
-      }
-
-      logger.info("🔍 Searching S3 objects for query:", query);
-
-      const listCommand = new ListObjectsV2Command({
-        Bucket: bucketName,
-        Prefix: `${userId}/`,
-        MaxKeys: 1000,
-      });
-
-      const response = await s3Client.send(listCommand);
-      const matchingFiles: S3FileItem[] = [];
-
-      if (response.Contents) {
-        const queryLower = query.toLowerCase();
-
-        for (const object of response.Contents) {
-          if (object.Key && !object.Key.endsWith("/")) {
-            const fileName = object.Key.split("/").pop() || "";
-
-            if (fileName.toLowerCase().includes(queryLower)) {
-              const extension = fileName.split(".").pop()?.toLowerCase();
-              const mimeType = extension
-                ? S3ListingOperations.getMimeTypeFromExtension(extension)
-                : undefined;
-
-              if (
-                mimeTypeFilter &&
-                mimeType &&
-                !mimeType.includes(mimeTypeFilter)
-              ) {
-                continue;
-              }
-
-              const pathParts = object.Key.split("/");
-              pathParts.shift();
-              pathParts.pop();
-              const filePath = "/" + pathParts.join("/");
-
-              matchingFiles.push({
-                key: object.Key,
-                name: fileName,
-                size: object.Size || 0,
-                lastModified: object.LastModified || new Date(),
-                mimeType,
-                isFolder: false,
-                path: filePath + "/" + fileName,
-              });
-
-              if (matchingFiles.length >= maxResults) {
-                break;
-              }
-            }
-          }
-        }
-      }
-
-      const result: SearchResult = {
-        success: true,
-        files: matchingFiles.sort((a, b) => a.name.localeCompare(b.name)),
-        totalResults: matchingFiles.length,
-        query,
-      };
-
-      await redisCache.set(cacheKey, result, 1 * 60 * 1000);
-
-      logger.info(`🔍 Found ${matchingFiles.length} matching files`);
-      return result;
-    } catch (error) {
       logger.error("Search files error:", error);
       return {
         success: false,
         files: [],
         totalResults: 0,
         query,
+        hasMore: false,
         message: "Failed to search files",
         error: error instanceof Error ? error.message : "Unknown error",
       };
     }
   }
 
+  /**
+   * Autocomplete the last word of a search query with filter keys, file
+   * types or the user's tags
+   */
+  static async getSearchSuggestions(
+    userId: string,
+    input: string
+  ): Promise<SearchSuggestionResult> {
+    try {
+      const completingTag = /(^|\s)tag:\S*$/i.test(input);
+      const tags: string[] = completingTag
+        ? await FileMetadata.distinct("tags", {
+            userId: new Types.ObjectId(userId),
+          })
+        : [];
+
+      return {
+        success: true,
+        suggestions: getSearchSuggestions(
+          input,
+          tags.sort((a, b) => a.localeCompare(b))
+        ),
+      };
+    } catch (error) {
+      logger.error("Search suggestions error:", error);
+      return {
+        success: false,
+        suggestions: [],
+        message: "Failed to load suggestions",
+      };
+    }
+  }
+
   /**
    * Generate breadcrumbs for navigation
    */
@@ -456,7 +859,7 @@ export class S3ListingOperations {
   /**
    * Get MIME type from file extension
    */
-  private static getMimeTypeFromExtension(extension: string): string {
+  static getMimeTypeFromExtension(extension: string): string {
     const mimeTypes: Record<string, string> = {
       // Images
       jpg: "image/jpeg",
@@ -480,6 +883,7 @@ export class S3ListingOperations {
       // Text
       txt: "text/plain",
       csv: "text/csv",
+      md: "text/markdown",
       json: "application/json",
       xml: "application/xml",
       html: "text/html",
@@ -494,6 +898,7 @@ export class S3ListingOperations {
       wmv: "video/x-ms-wmv",
       flv: "video/x-flv",
       webm: "video/webm",
+      mkv: "video/x-matroska",
 
       // Audio
       mp3: "audio/mpeg",
@@ -501,6 +906,7 @@ export class S3ListingOperations {
       flac: "audio/flac",
       aac: "audio/aac",
       ogg: "audio/ogg",
+      m4a: "audio/mp4",
 
       // Archives
       zip: "application/zip",
@@ -512,4 +918,21 @@ export class S3ListingOperations {
 
     return mimeTypes[extension] || "application/octet-stream";
   }
+
+  /**
+   * Objects uploaded without a content type fall back to their extension
+   */
+  static resolveMimeType(s3Key: string, contentType?: string): string {
+    const mimeType = contentType?.split(";")[0].trim().toLowerCase();
+    if (mimeType && mimeType !== "application/octet-stream") {
+      return mimeType;
+    }
+
+    const name = s3Key.split("/").pop() || "";
+    return name.includes(".")
+      ? S3ListingOperations.getMimeTypeFromExtension(
+          name.split(".").pop()!.toLowerCase()
+        )
+      : "application/octet-stream";
+  }
 }
@@ -0,0 +1,230 @@
+import {
+  GetObjectCommand,
+  HeadObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { getS3Client, getS3BucketName } from "../utils/s3ClientFactory";
+import { S3ListingOperations } from "./s3ListingOperations";
+import { isTrashKey } from "./s3TrashOperations";
+import { logger } from "@/utils/logger";
+
+export interface MediaStreamResult {
+  success: boolean;
+  message: string;
+  status?: 200 | 206;
+  body?: ReadableStream;
+  headers?: Record<string, string>;
+  /** Object size, reported when the requested range cannot be served */
+  size?: number;
+  error?: string;
+}
+
+export interface PosterFrameResult {
+  success: boolean;
+  message: string;
+  posterKey?: string;
+  error?: string;
+}
+
+// S3 serves a single range, so multi-range requests fall back to the whole
+// object as RFC 9110 allows
+const SINGLE_RANGE_PATTERN = /^bytes=(\d+-\d*|-\d+)$/;
+const POSTER_EXTENSIONS = ["jpg", "jpeg", "png", "webp"];
+
+export function isStreamableMimeType(mimeType?: string): boolean {
+  return (
+    !!mimeType &&
+    (mimeType.startsWith("video/") || mimeType.startsWith("audio/"))
+  );
+}
+
+async function objectExists(
+  s3Client: S3Client,
+  bucketName: string,
+  key: string
+): Promise<boolean> {
+  try {
+    await s3Client.send(
+      new HeadObjectCommand({ Bucket: bucketName, Key: key })
+    );
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export class S3MediaOperations {
+  /**
+   * Stream a video or audio file, passing the browser's Range header through
+   * to S3 so players can seek without downloading the whole file. Other types
+   * are refused because the stream is served from the app's own origin.
+   */
+  static async getMediaStream(
+    userId: string,
+    s3Key: string,
+    range?: string | null
+  ): Promise<MediaStreamResult> {
+    try {
+      if (!s3Key.startsWith(`${userId}/`) || isTrashKey(userId, s3Key)) {
+        return {
+          success: false,
+          message: "Access denied",
+          error: "ACCESS_DENIED",
+        };
+      }
+
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      const head = await s3Client.send(
+        new HeadObjectCommand({ Bucket: bucketName, Key: s3Key })
+      );
+      const mimeType = S3ListingOperations.resolveMimeType(
+        s3Key,
+        head.ContentType
+      );
+
+      if (!isStreamableMimeType(mimeType)) {
+        return {
+          success: false,
+          message: "Only video and audio files can be streamed",
+          error: "NOT_SUPPORTED",
+        };
+      }
+
+      const requestedRange =
+        range && SINGLE_RANGE_PATTERN.test(range.trim())
+          ? range.trim()
+          : undefined;
+
+      let response;
+      try {
+        response = await s3Client.send(
+          new GetObjectCommand({
+            Bucket: bucketName,
+            Key: s3Key,
+            Range: requestedRange,
+            IfMatch: head.ETag,
+          })
+        );
+      } catch (error) {
+        if (error instanceof Error && error.name === "InvalidRange") {
+          return {
+            success: false,
+            message: "Requested range not satisfiable",
+            error: "RANGE_NOT_SATISFIABLE",
+            size: head.ContentLength || 0,
+          };
+        }
+        throw error;
+      }
+
+      const headers: Record<string, string> = {
+        "Content-Type": mimeType,
+        "Accept-Ranges": "bytes",
+        "Content-Disposition": "inline",
+      };
+      if (response.ContentLength !== undefined) {
+        headers["Content-Length"] = String(response.ContentLength);
+      }
+      if (response.ContentRange) {
+        headers["Content-Range"] = response.ContentRange;
+      }
+      if (response.ETag) {
+        headers["ETag"] = response.ETag;
+      }
+      if (response.LastModified) {
+        headers["Last-Modified"] = response.LastModified.toUTCString();
+      }
+
+      return {
+        success: true,
+        status: response.ContentRange ? 206 : 200,
+        body: response.Body!.transformToWebStream(),
+        headers,
+        message: "Media stream opened successfully",
+      };
+    } catch (error) {
+      if (error instanceof Error && error.name === "NotFound") {
+        return {
+          success: false,
+          message: "File not found",
+          error: "NOT_FOUND",
+        };
+      }
+
+      logger.error("Media stream error:", error);
+      return {
+        success: false,
+        message: "Failed to stream file",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Find a poster image stored next to a video with the same base name,
+   * such as "meeting.jpg" for "meeting.mp4"
+   */
+  static async findPosterFrame(
+    userId: string,
+    s3Key: string
+  ): Promise<PosterFrameResult> {
+    try {
+      if (!s3Key.startsWith(`${userId}/`) || isTrashKey(userId, s3Key)) {
+        return {
+          success: false,
+          message: "Access denied",
+          error: "ACCESS_DENIED",
+        };
+      }
+
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      const lastDot = s3Key.lastIndexOf(".");
+      const baseKey =
+        lastDot > s3Key.lastIndexOf("/") ? s3Key.slice(0, lastDot) : s3Key;
+
+      for (const extension of POSTER_EXTENSIONS) {
+        const candidate = `${baseKey}.${extension}`;
+        if (await objectExists(s3Client, bucketName, candidate)) {
+          return {
+            success: true,
+            posterKey: candidate,
+            message: "Poster frame found",
+          };
+        }
+      }
+
+      return {
+        success: false,
+        message: "No poster frame available",
+        error: "NOT_FOUND",
+      };
+    } catch (error) {
+      logger.error("Find poster frame error:", error);
+      return {
+        success: false,
+        message: "Failed to find poster frame",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+}
@@ -0,0 +1,257 @@
+import {
+  GetObjectCommand,
+  HeadObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { getS3Client, getS3BucketName } from "../utils/s3ClientFactory";
+import { S3ListingOperations } from "./s3ListingOperations";
+import { isTrashKey } from "./s3TrashOperations";
+import { decodeText } from "@/utils/textDecoding";
+import { logger } from "@/utils/logger";
+
+export type TextPreviewKind = "markdown" | "json" | "csv" | "code" | "text";
+
+export type FilePreview =
+  | {
+      type: "text";
+      kind: TextPreviewKind;
+      content: string;
+      charset: string;
+      /** Highlight.js language name for code previews */
+      language?: string;
+      size: number;
+      truncated: boolean;
+    }
+  | {
+      type: "url";
+      url: string;
+      mimeType: string;
+    };
+
+export interface PreviewResult {
+  success: boolean;
+  message: string;
+  preview?: FilePreview;
+  error?: string;
+}
+
+/** Only the start of text files is read so large logs stay cheap to open */
+export const TEXT_PREVIEW_BYTES = 64 * 1024;
+const PREVIEW_URL_EXPIRY = 15 * 60;
+
+const INLINE_MIME_PREFIXES = ["image/"];
+const INLINE_MIME_TYPES = ["application/pdf"];
+const TEXT_MIME_TYPES = [
+  "application/json",
+  "application/xml",
+  "application/javascript",
+  "application/typescript",
+  "application/x-yaml",
+  "application/x-sh",
+];
+
+const CODE_LANGUAGES: Record<string, string> = {
+  js: "javascript",
+  jsx: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  ts: "typescript",
+  tsx: "typescript",
+  py: "python",
+  rb: "ruby",
+  go: "go",
+  rs: "rust",
+  java: "java",
+  kt: "kotlin",
+  c: "c",
+  h: "c",
+  cpp: "cpp",
+  hpp: "cpp",
+  cs: "csharp",
+  php: "php",
+  swift: "swift",
+  sh: "bash",
+  bash: "bash",
+  sql: "sql",
+  css: "css",
+  scss: "scss",
+  html: "xml",
+  xml: "xml",
+  yml: "yaml",
+  yaml: "yaml",
+  toml: "ini",
+  ini: "ini",
+};
+
+function getExtension(s3Key: string): string {
+  const name = s3Key.split("/").pop() || "";
+  return name.includes(".") ? name.split(".").pop()!.toLowerCase() : "";
+}
+
+/**
+ * Decide how a text file should be rendered. The extension wins over the
+ * content type because code is usually uploaded as text/plain or with no
+ * type at all.
+ */
+function getTextPreviewKind(
+  extension: string,
+  mimeType: string
+): { kind: TextPreviewKind; language?: string } | null {
+  if (extension === "md" || extension === "markdown") {
+    return { kind: "markdown" };
+  }
+  if (extension === "json" || mimeType === "application/json") {
+    return { kind: "json", language: "json" };
+  }
+  if (extension === "csv" || mimeType === "text/csv") {
+    return { kind: "csv" };
+  }
+  if (CODE_LANGUAGES[extension]) {
+    return { kind: "code", language: CODE_LANGUAGES[extension] };
+  }
+  if (mimeType.startsWith("text/") || TEXT_MIME_TYPES.includes(mimeType)) {
+    return { kind: "text" };
+  }
+  if (["txt", "log", "env"].includes(extension)) {
+    return { kind: "text" };
+  }
+  return null;
+}
+
+async function readTextPreview(
+  s3Client: S3Client,
+  bucketName: string,
+  s3Key: string,
+  size: number,
+  etag?: string
+): Promise<Uint8Array> {
+  // S3 rejects ranges on empty objects
+  if (size === 0) {
+    return new Uint8Array();
+  }
+
+  const response = await s3Client.send(
+    new GetObjectCommand({
+      Bucket: bucketName,
+      Key: s3Key,
+      Range: `bytes=0-${TEXT_PREVIEW_BYTES - 1}`,
+      IfMatch: etag,
+    })
+  );
+  return await response.Body!.transformToByteArray();
+}
+
+export class S3PreviewOperations {
+  /**
+   * Get what the preview modal needs to show a file: the decoded start of
+   * text files, or a short-lived inline URL for images and PDFs
+   */
+  static async getPreview(
+    userId: string,
+    s3Key: string
+  ): Promise<PreviewResult> {
+    try {
+      if (!s3Key.startsWith(`${userId}/`) || isTrashKey(userId, s3Key)) {
+        return {
+          success: false,
+          message: "Access denied",
+          error: "ACCESS_DENIED",
+        };
+      }
+
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      const head = await s3Client.send(
+        new HeadObjectCommand({ Bucket: bucketName, Key: s3Key })
+      );
+      const size = head.ContentLength || 0;
+      const mimeType = S3ListingOperations.resolveMimeType(
+        s3Key,
+        head.ContentType
+      );
+      const textKind = getTextPreviewKind(getExtension(s3Key), mimeType);
+
+      if (textKind) {
+        const bytes = await readTextPreview(
+          s3Client,
+          bucketName,
+          s3Key,
+          size,
+          head.ETag
+        );
+        const truncated = size > bytes.length;
+        const { content, charset } = decodeText(
+          bytes,
+          head.ContentType,
+          truncated
+        );
+
+        return {
+          success: true,
+          preview: {
+            type: "text",
+            ...textKind,
+            content,
+            charset,
+            size,
+            truncated,
+          },
+          message: "Preview loaded successfully",
+        };
+      }
+
+      if (
+        INLINE_MIME_TYPES.includes(mimeType) ||
+        INLINE_MIME_PREFIXES.some((prefix) => mimeType.startsWith(prefix))
+      ) {
+        const url = await getSignedUrl(
+          s3Client,
+          new GetObjectCommand({
+            Bucket: bucketName,
+            Key: s3Key,
+            ResponseContentDisposition: "inline",
+            ResponseContentType: mimeType,
+          }),
+          { expiresIn: PREVIEW_URL_EXPIRY }
+        );
+
+        return {
+          success: true,
+          preview: { type: "url", url, mimeType },
+          message: "Preview URL generated successfully",
+        };
+      }
+
+      return {
+        success: false,
+        message: "This file type cannot be previewed",
+        error: "NOT_SUPPORTED",
+      };
+    } catch (error) {
+      if (error instanceof Error && error.name === "NotFound") {
+        return {
+          success: false,
+          message: "File not found",
+          error: "NOT_FOUND",
+        };
+      }
+
+      logger.error("File preview error:", error);
+      return {
+        success: false,
+        message: "Failed to load preview",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+}
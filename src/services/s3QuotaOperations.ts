@@ -0,0 +1,240 @@
+import User from "@/auth/models/User";
+import { emailService } from "@/auth/services/emailService";
+import SystemSettings from "../models/SystemSettings";
+import { redisCache } from "../utils/redisCache";
+import { S3ListingOperations } from "./s3ListingOperations";
+import { formatBytes, UploadLimitViolation } from "@/utils/uploadLimits";
+import { logger } from "@/utils/logger";
+
+export interface StorageQuota {
+  used: number;
+  /** Bytes allowed, 0 when unlimited */
+  limit: number;
+  percentUsed: number;
+  isCustom: boolean;
+}
+
+export interface QuotaResult {
+  success: boolean;
+  message: string;
+  quota?: StorageQuota;
+  error?: string;
+}
+
+/** Usage percentages that trigger a warning email, highest first */
+const WARNING_LEVELS = [95, 80];
+const USAGE_CACHE_TTL = 2 * 60 * 1000;
+
+/**
+ * Cached under the analytics prefix so every operation that already
+ * invalidates a user's analytics also drops the stale usage figure
+ */
+function getUsageCacheKey(userId: string): string {
+  return `analytics:${userId}:usage`;
+}
+
+/**
+ * Bytes promised to uploads that were accepted but may not have landed yet.
+ * Kept apart from the usage figure so it never reads as stored data, and
+ * dropped with it whenever the user's analytics are invalidated.
+ */
+function getReservedCacheKey(userId: string): string {
+  return `analytics:${userId}:reserved`;
+}
+
+function getPercentUsed(used: number, limit: number): number {
+  return limit > 0 ? Math.round((used / limit) * 100) : 0;
+}
+
+async function getStorageUsed(userId: string): Promise<number> {
+  const cached = await redisCache.get(getUsageCacheKey(userId));
+  if (typeof cached === "number") {
+    return cached;
+  }
+
+  const files = await S3ListingOperations.listAllFiles(userId);
+  const used = files.reduce((total, file) => total + file.size, 0);
+  await redisCache.set(getUsageCacheKey(userId), used, USAGE_CACHE_TTL);
+  return used;
+}
+
+async function getEffectiveQuota(
+  userId: string
+): Promise<{ limit: number; isCustom: boolean } | null> {
+  const user = await User.findById(userId).select("storageQuota");
+  if (!user) return null;
+
+  if (typeof user.storageQuota === "number") {
+    return { limit: user.storageQuota, isCustom: true };
+  }
+
+  const settings = await SystemSettings.getSettings();
+  return { limit: settings.defaultStorageQuota, isCustom: false };
+}
+
+/**
+ * Email the user once per warning level crossed. The level is reset when
+ * usage drops again so crossing it a second time sends a new warning.
+ */
+async function notifyQuotaUsage(userId: string, used: number, limit: number) {
+  if (limit <= 0) return;
+
+  const percentUsed = getPercentUsed(used, limit);
+  const level = WARNING_LEVELS.find((threshold) => percentUsed >= threshold);
+
+  if (!level) {
+    await User.updateOne(
+      { _id: userId, quotaWarningLevel: { $gt: 0 } },
+      { $set: { quotaWarningLevel: 0 } }
+    );
+    return;
+  }
+
+  await User.updateOne(
+    { _id: userId, quotaWarningLevel: { $gt: level } },
+    { $set: { quotaWarningLevel: level } }
+  );
+
+  const user = await User.findOneAndUpdate(
+    { _id: userId, quotaWarningLevel: { $lt: level } },
+    { $set: { quotaWarningLevel: level } }
+  ).select("email");
+
+  if (user) {
+    await emailService
+      .sendQuotaWarningEmail(user.email, {
+        percentUsed,
+        used: formatBytes(used),
+        quota: formatBytes(limit),
+      })
+      .catch((error) => logger.warn("Quota warning email failed:", error));
+  }
+}
+
+export class S3QuotaOperations {
+  /**
+   * Get the user's storage usage against their quota
+   */
+  static async getQuota(userId: string): Promise<QuotaResult> {
+    try {
+      const quota = await getEffectiveQuota(userId);
+      if (!quota) {
+        return {
+          success: false,
+          message: "User not found",
+          error: "NOT_FOUND",
+        };
+      }
+
+      const used = await getStorageUsed(userId);
+      await notifyQuotaUsage(userId, used, quota.limit);
+
+      return {
+        success: true,
+        quota: {
+          used,
+          limit: quota.limit,
+          percentUsed: getPercentUsed(used, quota.limit),
+          isCustom: quota.isCustom,
+        },
+        message: "Storage quota retrieved successfully",
+      };
+    } catch (error) {
+      logger.error("Get storage quota error:", error);
+      return {
+        success: false,
+        message: "Failed to get storage quota",
+      };
+    }
+  }
+
+  /**
+   * Check that an upload fits in the user's remaining quota. Accepted
+   * uploads are reserved straight away, since direct uploads finish in the
+   * browser without telling the server. Pass `reserve: false` to check data
+   * that is already in the bucket, such as an assembled multipart upload.
+   */
+  static async checkUploadQuota(
+    userId: string,
+    fileSize: number,
+    options: { reserve?: boolean } = {}
+  ): Promise<UploadLimitViolation | null> {
+    if (!Number.isFinite(fileSize) || fileSize <= 0) {
+      return {
+        error: "INVALID_FILE_SIZE",
+        message: "File size must be a positive number of bytes",
+      };
+    }
+
+    const quota = await getEffectiveQuota(userId);
+    if (!quota || quota.limit <= 0) {
+      return null;
+    }
+
+    const reserve = options.reserve ?? true;
+    const used = await getStorageUsed(userId);
+    const cachedReserved = reserve
+      ? await redisCache.get(getReservedCacheKey(userId))
+      : null;
+    const reserved = typeof cachedReserved === "number" ? cachedReserved : 0;
+
+    if (used + reserved + fileSize > quota.limit) {
+      return {
+        error: "QUOTA_EXCEEDED",
+        message: `Not enough storage left: ${formatBytes(
+          Math.max(quota.limit - used - reserved, 0)
+        )} of your ${formatBytes(quota.limit)} quota remaining`,
+      };
+    }
+
+    if (reserve) {
+      await redisCache.set(
+        getReservedCacheKey(userId),
+        reserved + fileSize,
+        USAGE_CACHE_TTL
+      );
+    }
+    await notifyQuotaUsage(
+      userId,
+      used + reserved + fileSize,
+      quota.limit
+    ).catch((error) => logger.warn("Quota warning check failed:", error));
+
+    return null;
+  }
+
+  /**
+   * Set a user's quota in bytes, or null to fall back to the admin default
+   */
+  static async setUserQuota(
+    userId: string,
+    storageQuota: number | null
+  ): Promise<QuotaResult> {
+    try {
+      const user = await User.findByIdAndUpdate(
+        userId,
+        { $set: { storageQuota } },
+        { new: true, runValidators: true }
+      );
+
+      if (!user) {
+        return {
+          success: false,
+          message: "User not found",
+          error: "NOT_FOUND",
+        };
+      }
+
+      const result = await S3QuotaOperations.getQuota(userId);
+      return result.success
+        ? { ...result, message: "Storage quota updated successfully" }
+        : result;
+    } catch (error) {
+      logger.error("Set storage quota error:", error);
+      return {
+        success: false,
+        message: "Failed to update storage quota",
+      };
+    }
+  }
+}
@@ -0,0 +1,170 @@
+import { Types } from "mongoose";
+import ActivityLog, { IActivityLog } from "../models/ActivityLog";
+import FileMetadata, { IFileMetadata } from "../models/FileMetadata";
+import { isTrashKey } from "./s3TrashOperations";
+import type { S3FileItem } from "./s3FileOperations";
+import { logger } from "@/utils/logger";
+
+export type RecentAction = "upload" | "download" | "rename";
+
+export interface RecentFileItem extends S3FileItem {
+  lastAction: RecentAction;
+  lastActivityAt: Date;
+}
+
+export interface RecentFilesResult {
+  success: boolean;
+  message: string;
+  files?: RecentFileItem[];
+  error?: string;
+}
+
+const RECENT_ACTIONS: RecentAction[] = ["upload", "download", "rename"];
+const RELOCATION_ACTIONS = ["rename", "move", "rename_folder"];
+// How far back the activity log is read to fill the list
+const MAX_SCANNED_EVENTS = 500;
+
+function toFolderPrefix(userId: string, folderPath: string): string {
+  return `${userId}/${folderPath.replace(/^\/+|\/+$/g, "")}/`;
+}
+
+/**
+ * Follow a key through the renames and moves logged after it was used.
+ * File events record the previous key; folder events record the old and
+ * new folder paths, which move every file below them.
+ */
+function resolveCurrentKey(
+  userId: string,
+  key: string,
+  since: Date,
+  relocations: IActivityLog[]
+): string {
+  let current = key;
+
+  for (const event of relocations) {
+    if (event.timestamp <= since || !event.metadata) continue;
+
+    const { oldKey, oldPath, newPath, isFolder } = event.metadata as {
+      oldKey?: string;
+      oldPath?: string;
+      newPath?: string;
+      isFolder?: boolean;
+    };
+
+    if (!isFolder && oldKey === current && event.s3Key) {
+      current = event.s3Key;
+    } else if (oldPath && newPath) {
+      const oldPrefix = toFolderPrefix(userId, oldPath);
+      if (current.startsWith(oldPrefix)) {
+        current =
+          toFolderPrefix(userId, newPath) + current.slice(oldPrefix.length);
+      }
+    }
+  }
+
+  return current;
+}
+
+export class S3RecentOperations {
+  /**
+   * Files the user recently uploaded, downloaded or renamed, newest first.
+   * Each file appears once, at its current location; files deleted since
+   * are left out.
+   */
+  static async listRecent(
+    userId: string,
+    limit: number = 50
+  ): Promise<RecentFilesResult> {
+    try {
+      const userObjectId = new Types.ObjectId(userId);
+
+      const events: IActivityLog[] = await ActivityLog.find({
+        userId: userObjectId,
+        action: { $in: RECENT_ACTIONS },
+        s3Key: { $exists: true, $ne: "" },
+      })
+        .sort({ timestamp: -1 })
+        .limit(MAX_SCANNED_EVENTS)
+        .select("action s3Key timestamp");
+
+      if (events.length === 0) {
+        return {
+          success: true,
+          files: [],
+          message: "No recent files",
+        };
+      }
+
+      const relocations: IActivityLog[] = await ActivityLog.find({
+        userId: userObjectId,
+        action: { $in: RELOCATION_ACTIONS },
+        timestamp: { $gte: events[events.length - 1].timestamp },
+      })
+        .sort({ timestamp: 1 })
+        .select("action s3Key timestamp metadata");
+
+      const latest = new Map<
+        string,
+        { action: RecentAction; timestamp: Date }
+      >();
+
+      for (const event of events) {
+        const key = resolveCurrentKey(
+          userId,
+          event.s3Key!,
+          event.timestamp,
+          relocations
+        );
+        if (
+          !latest.has(key) &&
+          key.startsWith(`${userId}/`) &&
+          !isTrashKey(userId, key)
+        ) {
+          latest.set(key, {
+            action: event.action as RecentAction,
+            timestamp: event.timestamp,
+          });
+        }
+      }
+
+      const metadata: IFileMetadata[] = await FileMetadata.find({
+        userId: userObjectId,
+        s3Key: { $in: Array.from(latest.keys()) },
+      });
+      const metadataByKey = new Map(metadata.map((file) => [file.s3Key, file]));
+
+      const files: RecentFileItem[] = [];
+      for (const [key, activity] of latest) {
+        const file = metadataByKey.get(key);
+        if (!file) continue;
+
+        files.push({
+          key: file.s3Key,
+          name: file.fileName,
+          size: file.fileSize,
+          lastModified: file.lastModified,
+          mimeType: file.mimeType,
+          isFolder: false,
+          path: file.filePath,
+          lastAction: activity.action,
+          lastActivityAt: activity.timestamp,
+        });
+
+        if (files.length >= limit) break;
+      }
+
+      return {
+        success: true,
+        files,
+        message: "Recent files retrieved successfully",
+      };
+    } catch (error) {
+      logger.error("List recent files error:", error);
+      return {
+        success: false,
+        message: "Failed to list recent files",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+}
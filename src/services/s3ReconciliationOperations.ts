@@ -0,0 +1,394 @@
+import { ListObjectsV2Command } from "@aws-sdk/client-s3";
+import { Types } from "mongoose";
+import User from "@/auth/models/User";
+import { getS3Client, getS3BucketName } from "../utils/s3ClientFactory";
+import { redisCache } from "../utils/redisCache";
+import FileMetadata, { IFileMetadataModel } from "../models/FileMetadata";
+import SystemSettings from "../models/SystemSettings";
+import ReconciliationReport, {
+  IReconciliationReport,
+  IReconciliationReportModel,
+  ReconciliationTrigger,
+} from "../models/ReconciliationReport";
+import { S3ListingOperations } from "./s3ListingOperations";
+import { isTrashKey } from "./s3TrashOperations";
+import {
+  deleteFileMetadata,
+  resyncFileMetadata,
+} from "./s3ThumbnailOperations";
+import { updateCopiedMetadata } from "./s3StorageClassOperations";
+import { logger } from "@/utils/logger";
+
+export interface DriftReport {
+  id: string;
+  trigger: ReconciliationTrigger;
+  status: "completed" | "failed";
+  scanned: number;
+  missing: number;
+  orphaned: number;
+  mismatched: number;
+  samples: {
+    missing: string[];
+    orphaned: string[];
+    mismatched: string[];
+  };
+  durationMs: number;
+  error?: string;
+  createdAt: Date;
+}
+
+export interface ReconcileResult {
+  success: boolean;
+  message: string;
+  report?: DriftReport;
+  error?: string;
+}
+
+export interface ReconcileDueResult {
+  success: boolean;
+  message: string;
+  reconciled: number;
+}
+
+const MAX_SAMPLES = 20;
+const DELETE_BATCH_SIZE = 1000;
+// Users reconciled per scheduled run, so one run cannot take too long
+const MAX_USERS_PER_RUN = 20;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Users being reconciled right now in this process
+const runningUsers = new Set<string>();
+
+interface BucketObject {
+  size: number;
+  lastModified: Date;
+  storageClass: string;
+  etag?: string;
+}
+
+function toDriftReport(report: IReconciliationReport): DriftReport {
+  return {
+    id: String(report._id),
+    trigger: report.trigger,
+    status: report.status,
+    scanned: report.scanned,
+    missing: report.missing,
+    orphaned: report.orphaned,
+    mismatched: report.mismatched,
+    samples: {
+      missing: report.samples?.missing || [],
+      orphaned: report.samples?.orphaned || [],
+      mismatched: report.samples?.mismatched || [],
+    },
+    durationMs: report.durationMs,
+    error: report.error,
+    createdAt: report.createdAt,
+  };
+}
+
+export class S3ReconciliationOperations {
+  /**
+   * Compare a user's whole prefix with their metadata rows. Missing rows
+   * are created, rows for deleted objects removed, and rows whose size or
+   * date drifted from the object are synced again.
+   */
+  static async reconcileUser(
+    userId: string,
+    trigger: ReconciliationTrigger = "user"
+  ): Promise<ReconcileResult> {
+    if (runningUsers.has(userId)) {
+      return {
+        success: false,
+        message: "Reconciliation is already running for this user",
+        error: "RECONCILE_IN_PROGRESS",
+      };
+    }
+
+    const s3Client = await getS3Client(userId);
+    const bucketName = await getS3BucketName(userId);
+
+    if (!s3Client || !bucketName) {
+      return {
+        success: false,
+        message: "S3 configuration not found",
+        error: "S3_CONFIG_MISSING",
+      };
+    }
+
+    runningUsers.add(userId);
+    const startedAt = Date.now();
+    const counts = { scanned: 0, missing: 0, orphaned: 0, mismatched: 0 };
+    const samples = {
+      missing: [] as string[],
+      orphaned: [] as string[],
+      mismatched: [] as string[],
+    };
+
+    try {
+      const objects = new Map<string, BucketObject>();
+      let continuationToken: string | undefined;
+
+      do {
+        const response = await s3Client.send(
+          new ListObjectsV2Command({
+            Bucket: bucketName,
+            Prefix: `${userId}/`,
+            ContinuationToken: continuationToken,
+          })
+        );
+
+        for (const object of response.Contents || []) {
+          if (
+            !object.Key ||
+            object.Key.endsWith("/") ||
+            isTrashKey(userId, object.Key)
+          ) {
+            continue;
+          }
+          objects.set(object.Key, {
+            size: object.Size || 0,
+            lastModified: object.LastModified || new Date(),
+            storageClass: object.StorageClass || "STANDARD",
+            etag: object.ETag,
+          });
+        }
+
+        continuationToken = response.NextContinuationToken;
+      } while (continuationToken);
+
+      counts.scanned = objects.size;
+
+      const rows = await FileMetadata.find({
+        userId: new Types.ObjectId(userId),
+      })
+        .select(
+          "s3Key fileSize lastModified mimeType storageClass etag updatedAt"
+        )
+        .lean<
+          Array<{
+            s3Key: string;
+            fileSize: number;
+            lastModified: Date;
+            mimeType: string;
+            storageClass?: string;
+            etag?: string;
+            updatedAt: Date;
+          }>
+        >();
+
+      const metadataModel = FileMetadata as unknown as IFileMetadataModel;
+      const orphanKeys: string[] = [];
+      const knownKeys = new Set<string>();
+
+      for (const row of rows) {
+        knownKeys.add(row.s3Key);
+        // Uploads, renames and events that landed while the bucket was being
+        // listed may not be in the listing, so those rows are left alone
+        if (new Date(row.updatedAt).getTime() >= startedAt) continue;
+
+        const object = objects.get(row.s3Key);
+
+        if (!object) {
+          orphanKeys.push(row.s3Key);
+          continue;
+        }
+
+        // Same-size edits only show in the ETag; rows synced before ETags
+        // were stored can only compare sizes
+        const contentChanged =
+          row.fileSize !== object.size ||
+          (!!row.etag && row.etag !== object.etag);
+        const dateChanged =
+          new Date(row.lastModified).getTime() !==
+          object.lastModified.getTime();
+        // Lifecycle rules move objects between classes without any event
+        const classChanged =
+          (row.storageClass || "STANDARD") !== object.storageClass;
+
+        if (contentChanged) {
+          await resyncFileMetadata(s3Client, bucketName, userId, {
+            Key: row.s3Key,
+            Size: object.size,
+            LastModified: object.lastModified,
+            ContentType: row.mimeType,
+            StorageClass: object.storageClass,
+            ETag: object.etag,
+          });
+        } else if (dateChanged || classChanged || !row.etag) {
+          await updateCopiedMetadata(
+            row.s3Key,
+            object.lastModified,
+            object.storageClass,
+            object.etag
+          );
+        }
+
+        if (contentChanged || dateChanged || classChanged) {
+          counts.mismatched++;
+          if (samples.mismatched.length < MAX_SAMPLES) {
+            samples.mismatched.push(row.s3Key);
+          }
+        }
+      }
+
+      for (const [key, object] of objects) {
+        if (knownKeys.has(key)) continue;
+
+        const fileName = key.split("/").pop() || "";
+        const extension = fileName.includes(".")
+          ? fileName.split(".").pop()!.toLowerCase()
+          : "";
+        await metadataModel.syncFromS3Object(userId, {
+          Key: key,
+          Size: object.size,
+          LastModified: object.lastModified,
+          ContentType: S3ListingOperations.getMimeTypeFromExtension(extension),
+          StorageClass: object.storageClass,
+          ETag: object.etag,
+        });
+        counts.missing++;
+        if (samples.missing.length < MAX_SAMPLES) {
+          samples.missing.push(key);
+        }
+      }
+
+      for (let i = 0; i < orphanKeys.length; i += DELETE_BATCH_SIZE) {
+        await deleteFileMetadata(s3Client, bucketName, userId, {
+          s3Key: { $in: orphanKeys.slice(i, i + DELETE_BATCH_SIZE) },
+          updatedAt: { $lt: new Date(startedAt) },
+        });
+      }
+      counts.orphaned = orphanKeys.length;
+      samples.orphaned = orphanKeys.slice(0, MAX_SAMPLES);
+
+      if (counts.missing || counts.orphaned || counts.mismatched) {
+        await redisCache.invalidate(`list:${userId}:/`);
+        await redisCache.invalidate(`list:${userId}:`);
+        await redisCache.invalidate(`analytics:${userId}:*`);
+      }
+
+      const report = await ReconciliationReport.create({
+        userId: new Types.ObjectId(userId),
+        trigger,
+        status: "completed",
+        ...counts,
+        samples,
+        durationMs: Date.now() - startedAt,
+      });
+
+      logger.info(`🔁 Reconciled metadata for user ${userId}:`, counts);
+
+      return {
+        success: true,
+        report: toDriftReport(report),
+        message:
+          counts.missing || counts.orphaned || counts.mismatched
+            ? `Fixed ${counts.missing + counts.orphaned + counts.mismatched} out-of-sync file(s)`
+            : "Metadata is in sync with the bucket",
+      };
+    } catch (error) {
+      logger.error("Reconcile metadata error:", error);
+      const message = error instanceof Error ? error.message : "Unknown error";
+
+      try {
+        await ReconciliationReport.create({
+          userId: new Types.ObjectId(userId),
+          trigger,
+          status: "failed",
+          ...counts,
+          samples,
+          durationMs: Date.now() - startedAt,
+          error: message,
+        });
+      } catch (reportError) {
+        logger.error("Failed to save reconciliation report:", reportError);
+      }
+
+      return {
+        success: false,
+        message: "Failed to reconcile metadata",
+        error: message,
+      };
+    } finally {
+      runningUsers.delete(userId);
+    }
+  }
+
+  /**
+   * Get the report of the user's last reconciliation
+   */
+  static async getLatestReport(userId: string): Promise<ReconcileResult> {
+    try {
+      const report = await (
+        ReconciliationReport as unknown as IReconciliationReportModel
+      ).getLatest(userId);
+
+      return {
+        success: true,
+        report: report ? toDriftReport(report) : undefined,
+        message: report
+          ? "Reconciliation report retrieved successfully"
+          : "Metadata has not been reconciled yet",
+      };
+    } catch (error) {
+      logger.error("Get reconciliation report error:", error);
+      return {
+        success: false,
+        message: "Failed to get reconciliation report",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Reconcile users whose last run is older than the interval set in the
+   * admin settings
+   */
+  static async reconcileDue(): Promise<ReconcileDueResult> {
+    let reconciled = 0;
+
+    try {
+      const settings = await SystemSettings.getSettings();
+      if (!settings.reconcileIntervalHours) {
+        return {
+          success: true,
+          message: "Scheduled reconciliation is turned off",
+          reconciled,
+        };
+      }
+
+      const cutoff = new Date(
+        Date.now() - settings.reconcileIntervalHours * HOUR_MS
+      );
+      const users = await User.find({
+        "s3Config.bucketName": { $exists: true, $ne: "" },
+      }).select("_id");
+
+      for (const user of users) {
+        if (reconciled >= MAX_USERS_PER_RUN) break;
+
+        const userId = String(user._id);
+        const latest = await (
+          ReconciliationReport as unknown as IReconciliationReportModel
+        ).getLatest(userId);
+        if (latest && latest.createdAt > cutoff) continue;
+
+        await S3ReconciliationOperations.reconcileUser(userId, "scheduled");
+        reconciled++;
+      }
+
+      return {
+        success: true,
+        message: `Reconciled metadata for ${reconciled} user(s)`,
+        reconciled,
+      };
+    } catch (error) {
+      logger.error("Scheduled reconciliation error:", error);
+      return {
+        success: false,
+        message: "Failed to run scheduled reconciliation",
+        reconciled,
+      };
+    }
+  }
+}
@@ -0,0 +1,675 @@
+import {
+  HeadObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import bcrypt from "bcryptjs";
+import crypto from "crypto";
+import { getS3Client, getS3BucketName } from "../utils/s3ClientFactory";
+import { redisCache } from "../utils/redisCache";
+import ActivityLog, { IActivityLogModel } from "../models/ActivityLog";
+import ShareLink, { IShareLink } from "../models/ShareLink";
+import { isTrashKey } from "./s3TrashOperations";
+import { logger } from "@/utils/logger";
+
+export type ShareStatus = "active" | "expired" | "revoked" | "exhausted";
+
+export interface ShareLinkSummary {
+  id: string;
+  token: string;
+  s3Key: string;
+  path: string;
+  name: string;
+  isFolder: boolean;
+  expiresAt?: Date;
+  hasPassword: boolean;
+  maxDownloads?: number;
+  downloadCount: number;
+  lastAccessedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  status: ShareStatus;
+}
+
+export interface CreateShareOptions {
+  expiresInHours?: number;
+  password?: string;
+  maxDownloads?: number;
+}
+
+export interface ShareResult {
+  success: boolean;
+  message: string;
+  share?: ShareLinkSummary;
+  error?: string;
+}
+
+export interface ShareListResult {
+  success: boolean;
+  message: string;
+  shares?: ShareLinkSummary[];
+  error?: string;
+}
+
+export interface PublicShareInfo {
+  name: string;
+  isFolder: boolean;
+  size?: number;
+  mimeType?: string;
+  expiresAt?: Date;
+  requiresPassword: boolean;
+  remainingDownloads?: number;
+}
+
+export interface PublicShareResult {
+  success: boolean;
+  message: string;
+  share?: PublicShareInfo;
+  error?: string;
+}
+
+export interface SharedFile {
+  path: string;
+  name: string;
+  size: number;
+  lastModified: Date;
+}
+
+export interface SharedFileListResult {
+  success: boolean;
+  message: string;
+  files?: SharedFile[];
+  truncated?: boolean;
+  error?: string;
+}
+
+export interface ShareDownloadResult {
+  success: boolean;
+  message: string;
+  url?: string;
+  error?: string;
+}
+
+export interface ShareRequestInfo {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// Presigned URLs handed out through a share only need to last long enough
+// for the browser to start the download
+const SHARE_URL_EXPIRY_SECONDS = 5 * 60;
+const MAX_SHARED_FOLDER_FILES = 1000;
+
+function getShareStatus(share: IShareLink): ShareStatus {
+  if (share.revokedAt) return "revoked";
+  if (share.expiresAt && share.expiresAt.getTime() <= Date.now()) {
+    return "expired";
+  }
+  if (share.maxDownloads && share.downloadCount >= share.maxDownloads) {
+    return "exhausted";
+  }
+  return "active";
+}
+
+function toSummary(share: IShareLink): ShareLinkSummary {
+  const userId = String(share.userId);
+  return {
+    id: String(share._id),
+    token: share.token,
+    s3Key: share.s3Key,
+    path: share.s3Key.replace(`${userId}/`, "/").replace(/(.)\/$/, "$1"),
+    name: share.name,
+    isFolder: share.isFolder,
+    expiresAt: share.expiresAt,
+    hasPassword: !!share.passwordHash,
+    maxDownloads: share.maxDownloads,
+    downloadCount: share.downloadCount,
+    lastAccessedAt: share.lastAccessedAt,
+    revokedAt: share.revokedAt,
+    createdAt: share.createdAt,
+    status: getShareStatus(share),
+  };
+}
+
+const UNAVAILABLE_MESSAGES: Record<Exclude<ShareStatus, "active">, string> = {
+  expired: "This share link has expired",
+  revoked: "This share link has been revoked",
+  exhausted: "This share link has reached its download limit",
+};
+
+/**
+ * Look up a share by token and make sure it can still be used. Password
+ * checks happen here too, so every public entry point applies them.
+ */
+async function resolveShare(
+  token: string,
+  password?: string
+): Promise<
+  | { share: IShareLink; error?: undefined }
+  | { share?: undefined; error: { message: string; error: string } }
+> {
+  const share = await ShareLink.findByToken(token);
+  if (!share) {
+    return {
+      error: { message: "Share link not found", error: "NOT_FOUND" },
+    };
+  }
+
+  const status = getShareStatus(share);
+  if (status !== "active") {
+    return {
+      error: {
+        message: UNAVAILABLE_MESSAGES[status],
+        error: `SHARE_${status.toUpperCase()}`,
+      },
+    };
+  }
+
+  if (share.passwordHash && password !== undefined) {
+    const valid = await bcrypt.compare(password, share.passwordHash);
+    if (!valid) {
+      return {
+        error: { message: "Incorrect password", error: "INVALID_PASSWORD" },
+      };
+    }
+  } else if (share.passwordHash) {
+    return {
+      error: {
+        message: "This share link is password protected",
+        error: "PASSWORD_REQUIRED",
+      },
+    };
+  }
+
+  return { share };
+}
+
+export class S3ShareOperations {
+  /**
+   * Create a public share link for a file or folder
+   */
+  static async createShare(
+    userId: string,
+    s3Key: string,
+    options: CreateShareOptions = {}
+  ): Promise<ShareResult> {
+    try {
+      if (!s3Key.startsWith(`${userId}/`) || isTrashKey(userId, s3Key)) {
+        return {
+          success: false,
+          message: "Access denied",
+          error: "ACCESS_DENIED",
+        };
+      }
+
+      if (s3Key === `${userId}/`) {
+        return {
+          success: false,
+          message: "Your root folder cannot be shared",
+          error: "INVALID_PATH",
+        };
+      }
+
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      const isFolder = s3Key.endsWith("/");
+
+      if (isFolder) {
+        const response = await s3Client.send(
+          new ListObjectsV2Command({
+            Bucket: bucketName,
+            Prefix: s3Key,
+            MaxKeys: 1,
+          })
+        );
+        if (!response.KeyCount) {
+          return {
+            success: false,
+            message: "Folder not found",
+            error: "NOT_FOUND",
+          };
+        }
+      } else {
+        try {
+          await s3Client.send(
+            new HeadObjectCommand({ Bucket: bucketName, Key: s3Key })
+          );
+        } catch (error) {
+          if (error instanceof Error && error.name === "NotFound") {
+            return {
+              success: false,
+              message: "File not found",
+              error: "NOT_FOUND",
+            };
+          }
+          throw error;
+        }
+      }
+
+      const name =
+        s3Key.replace(/\/$/, "").split("/").pop() || s3Key.replace(/\/$/, "");
+
+      const share = await ShareLink.create({
+        userId,
+        token: crypto.randomBytes(24).toString("base64url"),
+        s3Key,
+        name,
+        isFolder,
+        expiresAt: options.expiresInHours
+          ? new Date(Date.now() + options.expiresInHours * 60 * 60 * 1000)
+          : undefined,
+        passwordHash: options.password
+          ? await bcrypt.hash(options.password, 12)
+          : undefined,
+        maxDownloads: options.maxDownloads,
+      });
+
+      await (ActivityLog as unknown as IActivityLogModel).logActivity(
+        userId,
+        "share",
+        name,
+        {
+          filePath: s3Key.replace(`${userId}/`, "/"),
+          s3Key,
+          metadata: {
+            shareId: String(share._id),
+            expiresAt: share.expiresAt,
+            passwordProtected: !!options.password,
+            maxDownloads: options.maxDownloads,
+          },
+        }
+      );
+
+      await redisCache.invalidate(`activity:${userId}:*`);
+
+      return {
+        success: true,
+        message: "Share link created successfully",
+        share: toSummary(share),
+      };
+    } catch (error) {
+      logger.error("Create share error:", error);
+      return {
+        success: false,
+        message: "Failed to create share link",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * List every share link the user has created, newest first
+   */
+  static async listShares(userId: string): Promise<ShareListResult> {
+    try {
+      const shares = await ShareLink.getUserShares(userId);
+
+      return {
+        success: true,
+        message: "Share links retrieved successfully",
+        shares: shares.map(toSummary),
+      };
+    } catch (error) {
+      logger.error("List shares error:", error);
+      return {
+        success: false,
+        message: "Failed to list share links",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Revoke a share link so it can no longer be used
+   */
+  static async revokeShare(userId: string, id: string): Promise<ShareResult> {
+    try {
+      if (!/^[a-f\d]{24}$/i.test(id)) {
+        return {
+          success: false,
+          message: "Share link not found",
+          error: "NOT_FOUND",
+        };
+      }
+
+      const share = await ShareLink.findOne({ _id: id, userId }).select(
+        "+passwordHash"
+      );
+      if (!share) {
+        return {
+          success: false,
+          message: "Share link not found",
+          error: "NOT_FOUND",
+        };
+      }
+
+      if (!share.revokedAt) {
+        share.revokedAt = new Date();
+        await share.save();
+
+        await (ActivityLog as unknown as IActivityLogModel).logActivity(
+          userId,
+          "share_revoke",
+          share.name,
+          {
+            filePath: share.s3Key.replace(`${userId}/`, "/"),
+            s3Key: share.s3Key,
+            metadata: { shareId: String(share._id) },
+          }
+        );
+
+        await redisCache.invalidate(`activity:${userId}:*`);
+      }
+
+      return {
+        success: true,
+        message: "Share link revoked",
+        share: toSummary(share),
+      };
+    } catch (error) {
+      logger.error("Revoke share error:", error);
+      return {
+        success: false,
+        message: "Failed to revoke share link",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Describe a share for its public page without requiring the password
+   */
+  static async getPublicShare(token: string): Promise<PublicShareResult> {
+    try {
+      const share = await ShareLink.findByToken(token);
+      if (!share) {
+        return {
+          success: false,
+          message: "Share link not found",
+          error: "NOT_FOUND",
+        };
+      }
+
+      const status = getShareStatus(share);
+      if (status !== "active") {
+        return {
+          success: false,
+          message: UNAVAILABLE_MESSAGES[status],
+          error: `SHARE_${status.toUpperCase()}`,
+        };
+      }
+
+      const info: PublicShareInfo = {
+        name: share.name,
+        isFolder: share.isFolder,
+        expiresAt: share.expiresAt,
+        requiresPassword: !!share.passwordHash,
+        remainingDownloads: share.maxDownloads
+          ? share.maxDownloads - share.downloadCount
+          : undefined,
+      };
+
+      if (!share.isFolder && !share.passwordHash) {
+        const ownerId = String(share.userId);
+        const s3Client = await getS3Client(ownerId);
+        const bucketName = await getS3BucketName(ownerId);
+
+        if (s3Client && bucketName) {
+          try {
+            const head = await s3Client.send(
+              new HeadObjectCommand({ Bucket: bucketName, Key: share.s3Key })
+            );
+            info.size = head.ContentLength;
+            info.mimeType = head.ContentType;
+          } catch (error) {
+            if (error instanceof Error && error.name === "NotFound") {
+              return {
+                success: false,
+                message: "The shared file no longer exists",
+                error: "NOT_FOUND",
+              };
+            }
+            throw error;
+          }
+        }
+      }
+
+      return {
+        success: true,
+        message: "Share link retrieved successfully",
+        share: info,
+      };
+    } catch (error) {
+      logger.error("Get public share error:", error);
+      return {
+        success: false,
+        message: "Failed to load share link",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * List the files inside a shared folder, with paths relative to it
+   */
+  static async listSharedFiles(
+    token: string,
+    password?: string
+  ): Promise<SharedFileListResult> {
+    try {
+      const resolved = await resolveShare(token, password);
+      if (resolved.error) {
+        return { success: false, ...resolved.error };
+      }
+
+      const { share } = resolved;
+      if (!share.isFolder) {
+        return {
+          success: false,
+          message: "This share link is not a folder",
+          error: "NOT_A_FOLDER",
+        };
+      }
+
+      const ownerId = String(share.userId);
+      const s3Client = await getS3Client(ownerId);
+      const bucketName = await getS3BucketName(ownerId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      const files: SharedFile[] = [];
+      let continuationToken: string | undefined;
+      let truncated = false;
+
+      do {
+        const response = await s3Client.send(
+          new ListObjectsV2Command({
+            Bucket: bucketName,
+            Prefix: share.s3Key,
+            ContinuationToken: continuationToken,
+          })
+        );
+
+        for (const object of response.Contents || []) {
+          if (
+            !object.Key ||
+            object.Key.endsWith("/") ||
+            isTrashKey(ownerId, object.Key)
+          ) {
+            continue;
+          }
+          const path = object.Key.substring(share.s3Key.length);
+          files.push({
+            path,
+            name: path.split("/").pop() || path,
+            size: object.Size || 0,
+            lastModified: object.LastModified || new Date(),
+          });
+        }
+
+        continuationToken = response.NextContinuationToken;
+        if (files.length >= MAX_SHARED_FOLDER_FILES) {
+          truncated =
+            !!continuationToken || files.length > MAX_SHARED_FOLDER_FILES;
+          break;
+        }
+      } while (continuationToken);
+
+      return {
+        success: true,
+        message: "Shared files retrieved successfully",
+        files: files.slice(0, MAX_SHARED_FOLDER_FILES),
+        truncated,
+      };
+    } catch (error) {
+      logger.error("List shared files error:", error);
+      return {
+        success: false,
+        message: "Failed to list shared files",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Count a download against the share and hand out a short-lived
+   * presigned URL for the shared file, or for one file in a shared folder
+   */
+  static async getSharedDownloadUrl(
+    token: string,
+    options: { password?: string; path?: string } = {},
+    requestInfo: ShareRequestInfo = {}
+  ): Promise<ShareDownloadResult> {
+    try {
+      const resolved = await resolveShare(token, options.password);
+      if (resolved.error) {
+        return { success: false, ...resolved.error };
+      }
+
+      const { share } = resolved;
+      const ownerId = String(share.userId);
+      let s3Key = share.s3Key;
+
+      if (share.isFolder) {
+        const segments = (options.path || "").split("/").filter(Boolean);
+        if (
+          segments.length === 0 ||
+          options.path?.endsWith("/") ||
+          segments.some((segment) => segment === "." || segment === "..")
+        ) {
+          return {
+            success: false,
+            message: "A file inside the shared folder is required",
+            error: "INVALID_PATH",
+          };
+        }
+        s3Key = `${share.s3Key}${segments.join("/")}`;
+      }
+
+      if (isTrashKey(ownerId, s3Key)) {
+        return {
+          success: false,
+          message: "The shared file no longer exists",
+          error: "NOT_FOUND",
+        };
+      }
+
+      const s3Client = await getS3Client(ownerId);
+      const bucketName = await getS3BucketName(ownerId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      let head;
+      try {
+        head = await s3Client.send(
+          new HeadObjectCommand({ Bucket: bucketName, Key: s3Key })
+        );
+      } catch (error) {
+        if (error instanceof Error && error.name === "NotFound") {
+          return {
+            success: false,
+            message: "The shared file no longer exists",
+            error: "NOT_FOUND",
+          };
+        }
+        throw error;
+      }
+
+      const claimed = await ShareLink.claimDownload(String(share._id));
+      if (!claimed) {
+        return {
+          success: false,
+          message: "This share link is no longer available",
+          error: "SHARE_UNAVAILABLE",
+        };
+      }
+
+      const fileName = s3Key.split("/").pop() || "download";
+
+      const url = await getSignedUrl(
+        s3Client,
+        new GetObjectCommand({
+          Bucket: bucketName,
+          Key: s3Key,
+          ResponseContentDisposition: `attachment; filename="${fileName}"`,
+        }),
+        { expiresIn: SHARE_URL_EXPIRY_SECONDS }
+      );
+
+      await (ActivityLog as unknown as IActivityLogModel).logActivity(
+        ownerId,
+        "share_access",
+        fileName,
+        {
+          filePath: s3Key.replace(`${ownerId}/`, "/"),
+          fileSize: head.ContentLength,
+          mimeType: head.ContentType,
+          s3Key,
+          metadata: {
+            shareId: String(share._id),
+            downloadCount: claimed.downloadCount,
+          },
+          ipAddress: requestInfo.ipAddress,
+          userAgent: requestInfo.userAgent,
+        }
+      );
+
+      await redisCache.invalidate(`activity:${ownerId}:*`);
+
+      return {
+        success: true,
+        message: "Download URL generated successfully",
+        url,
+      };
+    } catch (error) {
+      logger.error("Shared download URL error:", error);
+      return {
+        success: false,
+        message: "Failed to generate download URL",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+}
@@ -0,0 +1,154 @@
+import { HeadObjectCommand } from "@aws-sdk/client-s3";
+import { Types } from "mongoose";
+import { getS3Client, getS3BucketName } from "../utils/s3ClientFactory";
+import FileMetadata, {
+  IFileMetadata,
+  IFileMetadataModel,
+} from "../models/FileMetadata";
+import { isTrashKey } from "./s3TrashOperations";
+import type { S3FileItem } from "./s3FileOperations";
+import { logger } from "@/utils/logger";
+
+export interface StarredFileItem extends S3FileItem {
+  starredAt: Date;
+}
+
+export interface StarResult {
+  success: boolean;
+  message: string;
+  starred?: boolean;
+  error?: string;
+}
+
+export interface StarredListResult {
+  success: boolean;
+  message: string;
+  files?: StarredFileItem[];
+  error?: string;
+}
+
+const MAX_STARRED_FILES = 500;
+
+export class S3StarOperations {
+  /**
+   * Star or unstar a file. Stars live on the file's metadata row, so they
+   * follow the file when it is renamed or moved.
+   */
+  static async setStarred(
+    userId: string,
+    s3Key: string,
+    starred: boolean
+  ): Promise<StarResult> {
+    try {
+      if (
+        !s3Key.startsWith(`${userId}/`) ||
+        s3Key.endsWith("/") ||
+        isTrashKey(userId, s3Key)
+      ) {
+        return {
+          success: false,
+          message: "Access denied",
+          error: "ACCESS_DENIED",
+        };
+      }
+
+      let metadata: IFileMetadata | null = await FileMetadata.findOne({
+        s3Key,
+      });
+
+      if (!metadata) {
+        if (!starred) {
+          return { success: true, starred: false, message: "File unstarred" };
+        }
+
+        const s3Client = await getS3Client(userId);
+        const bucketName = await getS3BucketName(userId);
+
+        if (!s3Client || !bucketName) {
+          return {
+            success: false,
+            message: "S3 configuration not found",
+            error: "S3_CONFIG_MISSING",
+          };
+        }
+
+        const headResult = await s3Client.send(
+          new HeadObjectCommand({ Bucket: bucketName, Key: s3Key })
+        );
+        metadata = await (
+          FileMetadata as unknown as IFileMetadataModel
+        ).syncFromS3Object(userId, {
+          Key: s3Key,
+          Size: headResult.ContentLength || 0,
+          LastModified: headResult.LastModified || new Date(),
+          ContentType: headResult.ContentType,
+          ETag: headResult.ETag,
+        });
+      }
+
+      await FileMetadata.updateOne(
+        { _id: metadata._id },
+        starred
+          ? { $set: { starredAt: new Date() } }
+          : { $unset: { starredAt: 1 } }
+      );
+
+      return {
+        success: true,
+        starred,
+        message: starred ? "File starred" : "File unstarred",
+      };
+    } catch (error) {
+      if (error instanceof Error && error.name === "NotFound") {
+        return {
+          success: false,
+          message: "File not found",
+          error: "NOT_FOUND",
+        };
+      }
+
+      logger.error("Star file error:", error);
+      return {
+        success: false,
+        message: starred ? "Failed to star file" : "Failed to unstar file",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * List the user's starred files, most recently starred first
+   */
+  static async listStarred(userId: string): Promise<StarredListResult> {
+    try {
+      const starred: IFileMetadata[] = await FileMetadata.find({
+        userId: new Types.ObjectId(userId),
+        starredAt: { $exists: true },
+      })
+        .sort({ starredAt: -1 })
+        .limit(MAX_STARRED_FILES);
+
+      return {
+        success: true,
+        files: starred.map((file) => ({
+          key: file.s3Key,
+          name: file.fileName,
+          size: file.fileSize,
+          lastModified: file.lastModified,
+          mimeType: file.mimeType,
+          isFolder: false,
+          path: file.filePath,
+          starredAt: file.starredAt!,
+        })),
+        message: "Starred files retrieved successfully",
+      };
+    } catch (error) {
+      logger.error("List starred files error:", error);
+      return {
+        success: false,
+        message: "Failed to list starred files",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+}
@@ -0,0 +1,531 @@
+import {
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  RestoreObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { getS3Client, getS3BucketName } from "../utils/s3ClientFactory";
+import { redisCache } from "../utils/redisCache";
+import FileMetadata from "../models/FileMetadata";
+import { copyS3Object } from "./s3FileOperations";
+import { isTrashKey } from "./s3TrashOperations";
+import { logger } from "@/utils/logger";
+
+export type FileStorageClass =
+  | "STANDARD"
+  | "STANDARD_IA"
+  | "ONEZONE_IA"
+  | "INTELLIGENT_TIERING"
+  | "GLACIER_IR"
+  | "GLACIER"
+  | "DEEP_ARCHIVE";
+
+export const STORAGE_CLASSES: FileStorageClass[] = [
+  "STANDARD",
+  "STANDARD_IA",
+  "ONEZONE_IA",
+  "INTELLIGENT_TIERING",
+  "GLACIER_IR",
+  "GLACIER",
+  "DEEP_ARCHIVE",
+];
+
+/**
+ * Classes whose objects have to be restored before they can be read
+ */
+export const ARCHIVE_STORAGE_CLASSES: string[] = ["GLACIER", "DEEP_ARCHIVE"];
+
+export type RestoreTier = "Expedited" | "Standard" | "Bulk";
+
+export const RESTORE_TIERS: RestoreTier[] = ["Expedited", "Standard", "Bulk"];
+
+export const MAX_RESTORE_DAYS = 365;
+
+export type RestoreStatus =
+  "not-archived" | "archived" | "in-progress" | "restored";
+
+export interface StorageStatus {
+  key: string;
+  storageClass: string;
+  restoreStatus: RestoreStatus;
+  /** When a restored copy is removed again */
+  restoreExpiresAt?: Date;
+}
+
+export interface StorageStatusResult {
+  success: boolean;
+  message: string;
+  status?: StorageStatus;
+  error?: string;
+}
+
+export interface StorageClassChangeResult {
+  success: boolean;
+  message: string;
+  /** Objects whose class was changed */
+  changed?: number;
+  failed?: number;
+  error?: string;
+}
+
+/**
+ * Whether the object can be downloaded right now
+ */
+export function isReadable(status: StorageStatus): boolean {
+  return (
+    status.restoreStatus === "not-archived" ||
+    status.restoreStatus === "restored"
+  );
+}
+
+/**
+ * Metadata update after an object was copied onto itself, which changes
+ * its date, possibly its class and, for multipart copies, its ETag.
+ * STANDARD is stored as unset.
+ */
+export function toMetadataUpdate(
+  lastModified: Date,
+  storageClass?: string,
+  etag?: string
+) {
+  const $set = { lastModified, ...(etag && { etag }) };
+  return storageClass && storageClass !== "STANDARD"
+    ? { $set: { ...$set, storageClass } }
+    : { $set, $unset: { storageClass: 1 } };
+}
+
+/**
+ * Update the metadata of an object whose content is unchanged but whose
+ * date or class moved, as after a copy onto itself, a rename or a lifecycle
+ * transition. Only those fields are touched, so thumbnails and indexed
+ * text stay valid and are kept.
+ */
+export async function updateCopiedMetadata(
+  s3Key: string,
+  lastModified: Date,
+  storageClass?: string,
+  etag?: string
+): Promise<void> {
+  await FileMetadata.updateOne(
+    { s3Key },
+    toMetadataUpdate(lastModified, storageClass, etag)
+  );
+}
+
+/**
+ * Parse the x-amz-restore header, e.g.
+ * `ongoing-request="false", expiry-date="Fri, 21 Dec 2012 00:00:00 GMT"`
+ */
+function parseRestoreHeader(
+  storageClass: string,
+  restore?: string
+): Pick<StorageStatus, "restoreStatus" | "restoreExpiresAt"> {
+  if (!ARCHIVE_STORAGE_CLASSES.includes(storageClass)) {
+    return { restoreStatus: "not-archived" };
+  }
+  if (!restore) {
+    return { restoreStatus: "archived" };
+  }
+  if (/ongoing-request="true"/.test(restore)) {
+    return { restoreStatus: "in-progress" };
+  }
+
+  const expiry = restore.match(/expiry-date="([^"]+)"/);
+  return {
+    restoreStatus: "restored",
+    restoreExpiresAt: expiry ? new Date(expiry[1]) : undefined,
+  };
+}
+
+function isOwnedFileKey(userId: string, key: string): boolean {
+  return (
+    key.startsWith(`${userId}/`) &&
+    !key.endsWith("/") &&
+    !isTrashKey(userId, key)
+  );
+}
+
+async function headStorageStatus(
+  s3Client: S3Client,
+  bucketName: string,
+  key: string
+): Promise<StorageStatus> {
+  const head = await s3Client.send(
+    new HeadObjectCommand({ Bucket: bucketName, Key: key })
+  );
+  // HEAD leaves out the storage class for STANDARD objects
+  const storageClass = head.StorageClass || "STANDARD";
+  return {
+    key,
+    storageClass,
+    ...parseRestoreHeader(storageClass, head.Restore),
+  };
+}
+
+export class S3StorageClassOperations {
+  /**
+   * Get a file's storage class and, for archived files, whether a restored
+   * copy is available
+   */
+  static async getStorageStatus(
+    userId: string,
+    key: string
+  ): Promise<StorageStatusResult> {
+    try {
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      if (!isOwnedFileKey(userId, key)) {
+        return {
+          success: false,
+          message: "Access denied",
+          error: "ACCESS_DENIED",
+        };
+      }
+
+      const status = await headStorageStatus(s3Client, bucketName, key);
+
+      return {
+        success: true,
+        status,
+        message: "Storage status retrieved successfully",
+      };
+    } catch (error) {
+      if (error instanceof Error && error.name === "NotFound") {
+        return {
+          success: false,
+          message: "File not found",
+          error: "FILE_NOT_FOUND",
+        };
+      }
+      logger.error("Get storage status error:", error);
+      return {
+        success: false,
+        message: "Failed to get storage status",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Move a file to another storage class by copying it onto itself.
+   * Archived files have to be restored first, since S3 cannot read them.
+   */
+  static async changeStorageClass(
+    userId: string,
+    key: string,
+    storageClass: FileStorageClass
+  ): Promise<StorageClassChangeResult> {
+    try {
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      if (!isOwnedFileKey(userId, key)) {
+        return {
+          success: false,
+          message: "Access denied",
+          error: "ACCESS_DENIED",
+        };
+      }
+
+      const result = await S3StorageClassOperations.changeObjectClass(
+        s3Client,
+        bucketName,
+        key,
+        storageClass
+      );
+
+      if (result.success && result.changed) {
+        await redisCache.invalidate(`list:${userId}:`);
+      }
+
+      return result;
+    } catch (error) {
+      logger.error("Change storage class error:", error);
+      return {
+        success: false,
+        message: "Failed to change storage class",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Change the storage class of every file below a folder. Files that
+   * cannot be changed, such as archived ones, are counted as failed.
+   */
+  static async changeFolderStorageClass(
+    userId: string,
+    folderPath: string,
+    storageClass: FileStorageClass
+  ): Promise<StorageClassChangeResult> {
+    try {
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      const segments = folderPath.split("/").filter(Boolean);
+      if (segments.length === 0) {
+        return {
+          success: false,
+          message: "Folder path is required",
+          error: "INVALID_PATH",
+        };
+      }
+
+      const prefix = `${userId}/${segments.join("/")}/`;
+      if (isTrashKey(userId, prefix)) {
+        return {
+          success: false,
+          message: "Access denied",
+          error: "ACCESS_DENIED",
+        };
+      }
+
+      let changed = 0;
+      let failed = 0;
+      let continuationToken: string | undefined;
+
+      do {
+        const response = await s3Client.send(
+          new ListObjectsV2Command({
+            Bucket: bucketName,
+            Prefix: prefix,
+            ContinuationToken: continuationToken,
+          })
+        );
+
+        for (const object of response.Contents || []) {
+          if (!object.Key || object.Key.endsWith("/")) continue;
+          if ((object.StorageClass || "STANDARD") === storageClass) continue;
+
+          try {
+            const result = await S3StorageClassOperations.changeObjectClass(
+              s3Client,
+              bucketName,
+              object.Key,
+              storageClass
+            );
+            if (result.success) {
+              changed += result.changed || 0;
+            } else {
+              failed++;
+            }
+          } catch (error) {
+            logger.warn(
+              `Could not change storage class of ${object.Key}:`,
+              error
+            );
+            failed++;
+          }
+        }
+
+        continuationToken = response.NextContinuationToken;
+      } while (continuationToken);
+
+      if (changed > 0) {
+        await redisCache.invalidate(`list:${userId}:`);
+      }
+
+      return {
+        success: failed === 0,
+        changed,
+        failed,
+        message:
+          failed === 0
+            ? `Changed the storage class of ${changed} file(s)`
+            : `Changed ${changed} file(s), ${failed} could not be changed`,
+        error: failed === 0 ? undefined : "PARTIAL_FAILURE",
+      };
+    } catch (error) {
+      logger.error("Change folder storage class error:", error);
+      return {
+        success: false,
+        message: "Failed to change storage class",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Ask S3 to make a temporary copy of an archived file readable for the
+   * given number of days. Restoring an already restored file extends it.
+   */
+  static async restoreObject(
+    userId: string,
+    key: string,
+    tier: RestoreTier,
+    days: number
+  ): Promise<StorageStatusResult> {
+    try {
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      if (!isOwnedFileKey(userId, key)) {
+        return {
+          success: false,
+          message: "Access denied",
+          error: "ACCESS_DENIED",
+        };
+      }
+
+      const status = await headStorageStatus(s3Client, bucketName, key);
+
+      if (status.restoreStatus === "not-archived") {
+        return {
+          success: false,
+          status,
+          message: "File is not archived and can be downloaded directly",
+          error: "NOT_ARCHIVED",
+        };
+      }
+
+      if (status.restoreStatus === "in-progress") {
+        return {
+          success: true,
+          status,
+          message: "File is already being restored",
+        };
+      }
+
+      if (status.storageClass === "DEEP_ARCHIVE" && tier === "Expedited") {
+        return {
+          success: false,
+          status,
+          message: "Deep Archive does not support expedited restores",
+          error: "INVALID_TIER",
+        };
+      }
+
+      try {
+        await s3Client.send(
+          new RestoreObjectCommand({
+            Bucket: bucketName,
+            Key: key,
+            RestoreRequest: {
+              Days: days,
+              GlacierJobParameters: { Tier: tier },
+            },
+          })
+        );
+      } catch (error) {
+        if (!(
+          error instanceof Error && error.name === "RestoreAlreadyInProgress"
+        )) {
+          throw error;
+        }
+      }
+
+      logger.info(`🧊 Requested ${tier} restore of ${key} for ${days} day(s)`);
+
+      return {
+        success: true,
+        status:
+          status.restoreStatus === "restored"
+            ? status
+            : {
+                key,
+                storageClass: status.storageClass,
+                restoreStatus: "in-progress",
+              },
+        message:
+          status.restoreStatus === "restored"
+            ? `Restored copy kept for ${days} more day(s)`
+            : "Restore requested",
+      };
+    } catch (error) {
+      if (error instanceof Error && error.name === "NotFound") {
+        return {
+          success: false,
+          message: "File not found",
+          error: "FILE_NOT_FOUND",
+        };
+      }
+      logger.error("Restore object error:", error);
+      return {
+        success: false,
+        message: "Failed to request restore",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  private static async changeObjectClass(
+    s3Client: S3Client,
+    bucketName: string,
+    key: string,
+    storageClass: FileStorageClass
+  ): Promise<StorageClassChangeResult> {
+    const status = await headStorageStatus(s3Client, bucketName, key);
+
+    if (status.storageClass === storageClass) {
+      return {
+        success: true,
+        changed: 0,
+        message: "File already uses this storage class",
+      };
+    }
+
+    if (!isReadable(status)) {
+      return {
+        success: false,
+        message: "Restore the file before changing its storage class",
+        error: "OBJECT_ARCHIVED",
+      };
+    }
+
+    const copied = await copyS3Object(
+      s3Client,
+      bucketName,
+      key,
+      key,
+      undefined,
+      undefined,
+      storageClass
+    );
+
+    await updateCopiedMetadata(
+      key,
+      copied.lastModified,
+      copied.storageClass,
+      copied.etag
+    );
+
+    return {
+      success: true,
+      changed: 1,
+      message: "Storage class changed successfully",
+    };
+  }
+}
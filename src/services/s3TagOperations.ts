@@ -0,0 +1,409 @@
+import {
+  GetObjectTaggingCommand,
+  HeadObjectCommand,
+  PutObjectTaggingCommand,
+  S3Client,
+  Tag,
+} from "@aws-sdk/client-s3";
+import { getS3Client, getS3BucketName } from "../utils/s3ClientFactory";
+import FileMetadata, {
+  IFileMetadata,
+  IFileMetadataModel,
+} from "../models/FileMetadata";
+import { isTrashKey } from "./s3TrashOperations";
+import { logger } from "@/utils/logger";
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+export interface TagItemResult {
+  key: string;
+  success: boolean;
+  message: string;
+  tags?: string[];
+  error?: string;
+}
+
+export interface TagUpdateResult {
+  success: boolean;
+  message: string;
+  results?: TagItemResult[];
+  succeeded?: number;
+  failed?: number;
+  error?: string;
+}
+
+export interface FileTagsResult {
+  success: boolean;
+  message: string;
+  tags?: string[];
+  error?: string;
+}
+
+export interface TagCloudResult {
+  success: boolean;
+  message: string;
+  tags?: TagCount[];
+  error?: string;
+}
+
+export type TagListParseResult =
+  { success: true; tags: string[] } | { success: false; message: string };
+
+export const MAX_TAGS_PER_REQUEST = 20;
+export const MAX_TAG_LENGTH = 50;
+
+// S3 allows at most 10 tags per object
+const MAX_S3_OBJECT_TAGS = 10;
+
+/**
+ * Check a list of tags from a request body. Tags are trimmed and
+ * duplicates dropped; case is kept as typed.
+ */
+export function parseTagList(tags: unknown): TagListParseResult {
+  if (!Array.isArray(tags) || tags.some((tag) => typeof tag !== "string")) {
+    return { success: false, message: "A list of tags is required" };
+  }
+
+  const normalized = Array.from(
+    new Set((tags as string[]).map((tag) => tag.trim()).filter(Boolean))
+  );
+
+  if (normalized.length === 0 || normalized.length > MAX_TAGS_PER_REQUEST) {
+    return {
+      success: false,
+      message: `Between 1 and ${MAX_TAGS_PER_REQUEST} tags are required`,
+    };
+  }
+
+  if (normalized.some((tag) => tag.length > MAX_TAG_LENGTH)) {
+    return {
+      success: false,
+      message: `Tags must be ${MAX_TAG_LENGTH} characters or less`,
+    };
+  }
+
+  return { success: true, tags: normalized };
+}
+
+function isMirroringEnabled(): boolean {
+  return process.env.S3_MIRROR_TAGS === "true";
+}
+
+/**
+ * S3 tag keys only allow letters, numbers, spaces and + - = . _ : / @
+ */
+function toS3TagKey(tag: string): string {
+  return tag.replace(/[^\p{L}\p{N} +\-=._:/@]/gu, "_");
+}
+
+/**
+ * Write a file's tags to the object's native S3 tags. Tags set by other
+ * tools are kept, so only keys this app wrote before are replaced.
+ */
+async function mirrorToS3(
+  s3Client: S3Client,
+  bucketName: string,
+  key: string,
+  previousTags: string[],
+  tags: string[]
+): Promise<void> {
+  try {
+    const managed = new Set(
+      [...previousTags, ...tags].map((tag) => toS3TagKey(tag))
+    );
+    const current = await s3Client.send(
+      new GetObjectTaggingCommand({ Bucket: bucketName, Key: key })
+    );
+    const foreign = (current.TagSet || []).filter(
+      (tag) => !managed.has(tag.Key || "")
+    );
+    const mirrored: Tag[] = Array.from(new Set(tags.map(toS3TagKey))).map(
+      (tagKey) => ({ Key: tagKey, Value: "" })
+    );
+    const tagSet = [...foreign, ...mirrored].slice(0, MAX_S3_OBJECT_TAGS);
+
+    if (tagSet.length < foreign.length + mirrored.length) {
+      logger.warn(
+        `Only ${MAX_S3_OBJECT_TAGS} S3 tags can be stored on ${key}, some tags were not mirrored`
+      );
+    }
+
+    await s3Client.send(
+      new PutObjectTaggingCommand({
+        Bucket: bucketName,
+        Key: key,
+        Tagging: { TagSet: tagSet },
+      })
+    );
+  } catch (error) {
+    // Metadata stays the source of truth, so mirroring never fails a request
+    logger.warn(`Failed to mirror tags to S3 for ${key}:`, error);
+  }
+}
+
+function mergeTags(existing: string[], tags: string[]): string[] {
+  const seen = new Set(existing.map((tag) => tag.toLowerCase()));
+  const merged = [...existing];
+  for (const tag of tags) {
+    if (!seen.has(tag.toLowerCase())) {
+      seen.add(tag.toLowerCase());
+      merged.push(tag);
+    }
+  }
+  return merged;
+}
+
+function withoutTags(existing: string[], tags: string[]): string[] {
+  const removed = new Set(tags.map((tag) => tag.toLowerCase()));
+  return existing.filter((tag) => !removed.has(tag.toLowerCase()));
+}
+
+export class S3TagOperations {
+  /**
+   * Add tags to one or more files. Tags already on a file are skipped,
+   * ignoring case.
+   */
+  static async addTags(
+    userId: string,
+    keys: string[],
+    tags: string[]
+  ): Promise<TagUpdateResult> {
+    return S3TagOperations.updateTags(userId, keys, tags, "add");
+  }
+
+  /**
+   * Remove tags from one or more files, ignoring case
+   */
+  static async removeTags(
+    userId: string,
+    keys: string[],
+    tags: string[]
+  ): Promise<TagUpdateResult> {
+    return S3TagOperations.updateTags(userId, keys, tags, "remove");
+  }
+
+  /**
+   * Get the tags of a single file
+   */
+  static async getFileTags(
+    userId: string,
+    s3Key: string
+  ): Promise<FileTagsResult> {
+    try {
+      if (!s3Key.startsWith(`${userId}/`) || isTrashKey(userId, s3Key)) {
+        return {
+          success: false,
+          message: "Access denied",
+          error: "ACCESS_DENIED",
+        };
+      }
+
+      const metadata: IFileMetadata | null = await FileMetadata.findOne({
+        s3Key,
+      });
+
+      return {
+        success: true,
+        tags: metadata?.tags || [],
+        message: "Tags retrieved successfully",
+      };
+    } catch (error) {
+      logger.error("Get file tags error:", error);
+      return {
+        success: false,
+        message: "Failed to get tags",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Every tag the user has applied with the number of files carrying it,
+   * most used first
+   */
+  static async getTagCloud(userId: string): Promise<TagCloudResult> {
+    try {
+      const tags = await (
+        FileMetadata as unknown as IFileMetadataModel
+      ).getTagCounts(userId);
+
+      return {
+        success: true,
+        tags,
+        message: "Tags retrieved successfully",
+      };
+    } catch (error) {
+      logger.error("Get tag cloud error:", error);
+      return {
+        success: false,
+        message: "Failed to get tags",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  private static async updateTags(
+    userId: string,
+    keys: string[],
+    tags: string[],
+    mode: "add" | "remove"
+  ): Promise<TagUpdateResult> {
+    try {
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      const results: TagItemResult[] = [];
+
+      for (const key of Array.from(new Set(keys))) {
+        if (
+          !key.startsWith(`${userId}/`) ||
+          key === `${userId}/` ||
+          isTrashKey(userId, key)
+        ) {
+          results.push({
+            key,
+            success: false,
+            message: "Access denied",
+            error: "ACCESS_DENIED",
+          });
+          continue;
+        }
+
+        if (key.endsWith("/")) {
+          results.push({
+            key,
+            success: false,
+            message: "Folders cannot be tagged",
+            error: "UNSUPPORTED_FOR_FOLDER",
+          });
+          continue;
+        }
+
+        results.push(
+          await S3TagOperations.updateFileTags(
+            s3Client,
+            bucketName,
+            userId,
+            key,
+            tags,
+            mode
+          )
+        );
+      }
+
+      const succeeded = results.filter((r) => r.success).length;
+      const failed = results.length - succeeded;
+      const verb = mode === "add" ? "added to" : "removed from";
+
+      return {
+        success: true,
+        message:
+          failed === 0
+            ? `Tags ${verb} ${succeeded} file(s)`
+            : `Tags ${verb} ${succeeded} file(s) with ${failed} failure(s)`,
+        results,
+        succeeded,
+        failed,
+      };
+    } catch (error) {
+      logger.error("Update tags error:", error);
+      return {
+        success: false,
+        message:
+          mode === "add" ? "Failed to add tags" : "Failed to remove tags",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Update one file, creating its metadata row first if it has none yet
+   */
+  private static async updateFileTags(
+    s3Client: S3Client,
+    bucketName: string,
+    userId: string,
+    key: string,
+    tags: string[],
+    mode: "add" | "remove"
+  ): Promise<TagItemResult> {
+    try {
+      let metadata: IFileMetadata | null = await FileMetadata.findOne({
+        s3Key: key,
+      });
+
+      if (!metadata) {
+        if (mode === "remove") {
+          return { key, success: true, tags: [], message: "File has no tags" };
+        }
+
+        const headResult = await s3Client.send(
+          new HeadObjectCommand({ Bucket: bucketName, Key: key })
+        );
+        metadata = await (
+          FileMetadata as unknown as IFileMetadataModel
+        ).syncFromS3Object(userId, {
+          Key: key,
+          Size: headResult.ContentLength || 0,
+          LastModified: headResult.LastModified || new Date(),
+          ContentType: headResult.ContentType,
+          ETag: headResult.ETag,
+        });
+      }
+
+      const previousTags = metadata.tags || [];
+      const nextTags =
+        mode === "add"
+          ? mergeTags(previousTags, tags)
+          : withoutTags(previousTags, tags);
+
+      await FileMetadata.updateOne(
+        { _id: metadata._id },
+        { $set: { tags: nextTags } }
+      );
+
+      if (isMirroringEnabled()) {
+        await mirrorToS3(s3Client, bucketName, key, previousTags, nextTags);
+      }
+
+      return {
+        key,
+        success: true,
+        tags: nextTags,
+        message:
+          mode === "add"
+            ? "Tags added successfully"
+            : "Tags removed successfully",
+      };
+    } catch (error) {
+      if (error instanceof Error && error.name === "NotFound") {
+        return {
+          key,
+          success: false,
+          message: "File not found",
+          error: "NOT_FOUND",
+        };
+      }
+
+      logger.error("Tag file error:", error);
+      return {
+        key,
+        success: false,
+        message:
+          mode === "add" ? "Failed to tag file" : "Failed to remove tags",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+}
@@ -0,0 +1,418 @@
+import {
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { FilterQuery } from "mongoose";
+import sharp from "sharp";
+import { getS3Client, getS3BucketName } from "../utils/s3ClientFactory";
+import FileMetadata, {
+  IFileMetadata,
+  IFileMetadataModel,
+} from "../models/FileMetadata";
+import { isTrashKey } from "./s3TrashOperations";
+import { logger } from "@/utils/logger";
+
+export type ThumbnailSize = "small" | "medium" | "large";
+
+export interface ThumbnailResult {
+  success: boolean;
+  message: string;
+  body?: Uint8Array;
+  etag?: string;
+  error?: string;
+}
+
+/** Longest edge of each thumbnail in pixels */
+export const THUMBNAIL_SIZES: Record<ThumbnailSize, number> = {
+  small: 128,
+  medium: 384,
+  large: 1280,
+};
+
+const THUMBNAIL_ROOT = "thumbnails";
+const THUMBNAIL_MIME_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/gif",
+  "image/avif",
+  "image/tiff",
+  "image/svg+xml",
+];
+// Larger images are not decoded in memory
+const MAX_SOURCE_SIZE = 50 * 1024 * 1024;
+const DELETE_BATCH_SIZE = 1000;
+
+export function isThumbnailSize(size: string): size is ThumbnailSize {
+  return Object.hasOwn(THUMBNAIL_SIZES, size);
+}
+
+export function canGenerateThumbnail(mimeType?: string): boolean {
+  return !!mimeType && THUMBNAIL_MIME_TYPES.includes(mimeType.toLowerCase());
+}
+
+/**
+ * Thumbnails live outside the user's prefix so they never show up in
+ * listings or count towards storage, and are keyed by the metadata ID so
+ * they follow the file through renames and moves
+ */
+function getThumbnailKey(
+  userId: string,
+  metadataId: string,
+  size: ThumbnailSize
+): string {
+  return `${THUMBNAIL_ROOT}/${userId}/${metadataId}/${size}.webp`;
+}
+
+/**
+ * Delete the rendered thumbnails of the given metadata records. Cleanup
+ * failures are only logged, since the file operation itself succeeded.
+ */
+export async function deleteThumbnails(
+  s3Client: S3Client,
+  bucketName: string,
+  userId: string,
+  metadataIds: string[]
+): Promise<void> {
+  const keys = metadataIds.flatMap((metadataId) =>
+    (Object.keys(THUMBNAIL_SIZES) as ThumbnailSize[]).map((size) =>
+      getThumbnailKey(userId, metadataId, size)
+    )
+  );
+
+  for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+    await s3Client
+      .send(
+        new DeleteObjectsCommand({
+          Bucket: bucketName,
+          Delete: {
+            Objects: keys
+              .slice(i, i + DELETE_BATCH_SIZE)
+              .map((Key) => ({ Key })),
+            Quiet: true,
+          },
+        })
+      )
+      .catch((error) => logger.warn("Could not delete thumbnails:", error));
+  }
+}
+
+/**
+ * Delete file metadata together with any thumbnails rendered for it
+ */
+export async function deleteFileMetadata(
+  s3Client: S3Client,
+  bucketName: string,
+  userId: string,
+  filter: FilterQuery<IFileMetadata>
+): Promise<void> {
+  const withThumbnails = await FileMetadata.find({
+    ...filter,
+    thumbnails: { $exists: true },
+  })
+    .select("_id")
+    .lean<Array<{ _id: unknown }>>();
+
+  await FileMetadata.deleteMany(filter);
+
+  if (withThumbnails.length > 0) {
+    await deleteThumbnails(
+      s3Client,
+      bucketName,
+      userId,
+      withThumbnails.map((row) => String(row._id))
+    );
+  }
+}
+
+/**
+ * Re-sync metadata for an object whose content changed. The sync drops the
+ * thumbnail record, so the old renders are deleted here as well.
+ */
+export async function resyncFileMetadata(
+  s3Client: S3Client,
+  bucketName: string,
+  userId: string,
+  s3Object: Parameters<IFileMetadataModel["syncFromS3Object"]>[1]
+): Promise<IFileMetadata> {
+  const previous = await FileMetadata.findOne({ s3Key: s3Object.Key })
+    .select("_id thumbnails")
+    .lean<{ _id: unknown; thumbnails?: unknown }>();
+
+  const metadata = await (
+    FileMetadata as unknown as IFileMetadataModel
+  ).syncFromS3Object(userId, s3Object);
+
+  if (previous?.thumbnails) {
+    await deleteThumbnails(s3Client, bucketName, userId, [
+      String(previous._id),
+    ]);
+  }
+
+  return metadata;
+}
+
+function getThumbnailEtag(metadata: IFileMetadata, size: ThumbnailSize) {
+  return `"${metadata._id}-${size}-${metadata.thumbnails!.generatedAt.getTime()}"`;
+}
+
+async function getFileMetadata(
+  s3Client: S3Client,
+  bucketName: string,
+  userId: string,
+  s3Key: string
+): Promise<IFileMetadata | null> {
+  const existing = await FileMetadata.findOne({ s3Key });
+  if (existing) return existing;
+
+  // Files uploaded before metadata was tracked only exist in the bucket
+  try {
+    const head = await s3Client.send(
+      new HeadObjectCommand({ Bucket: bucketName, Key: s3Key })
+    );
+    return await (
+      FileMetadata as unknown as IFileMetadataModel
+    ).syncFromS3Object(userId, {
+      Key: s3Key,
+      Size: head.ContentLength || 0,
+      LastModified: head.LastModified || new Date(),
+      ContentType: head.ContentType,
+      ETag: head.ETag,
+    });
+  } catch {
+    return null;
+  }
+}
+
+function checkThumbnailSource(metadata: IFileMetadata): ThumbnailResult | null {
+  if (!canGenerateThumbnail(metadata.mimeType)) {
+    return {
+      success: false,
+      message: "Thumbnails are not available for this file type",
+      error: "NOT_SUPPORTED",
+    };
+  }
+
+  if (metadata.fileSize > MAX_SOURCE_SIZE) {
+    return {
+      success: false,
+      message: "Image is too large to generate thumbnails",
+      error: "TOO_LARGE",
+    };
+  }
+
+  return null;
+}
+
+async function renderThumbnails(
+  s3Client: S3Client,
+  bucketName: string,
+  userId: string,
+  metadata: IFileMetadata
+): Promise<Record<ThumbnailSize, Buffer>> {
+  const response = await s3Client.send(
+    new GetObjectCommand({ Bucket: bucketName, Key: metadata.s3Key })
+  );
+  const source = Buffer.from(await response.Body!.transformToByteArray());
+
+  const rendered = {} as Record<ThumbnailSize, Buffer>;
+  for (const [size, dimension] of Object.entries(THUMBNAIL_SIZES) as Array<
+    [ThumbnailSize, number]
+  >) {
+    rendered[size] = await sharp(source, { animated: false })
+      .rotate()
+      .resize(dimension, dimension, {
+        fit: "inside",
+        withoutEnlargement: true,
+      })
+      .webp({ quality: 80 })
+      .toBuffer();
+
+    await s3Client.send(
+      new PutObjectCommand({
+        Bucket: bucketName,
+        Key: getThumbnailKey(userId, metadata._id, size),
+        Body: rendered[size],
+        ContentType: "image/webp",
+        Metadata: {
+          "user-id": userId,
+          "source-key": encodeURIComponent(metadata.s3Key),
+        },
+      })
+    );
+  }
+
+  metadata.thumbnails = {
+    small: getThumbnailKey(userId, metadata._id, "small"),
+    medium: getThumbnailKey(userId, metadata._id, "medium"),
+    large: getThumbnailKey(userId, metadata._id, "large"),
+    generatedAt: new Date(),
+  };
+  await metadata.save();
+
+  return rendered;
+}
+
+export class S3ThumbnailOperations {
+  /**
+   * Render WebP thumbnails in every size for an uploaded image
+   */
+  static async generateThumbnails(
+    userId: string,
+    s3Key: string
+  ): Promise<ThumbnailResult> {
+    try {
+      if (!s3Key.startsWith(`${userId}/`) || isTrashKey(userId, s3Key)) {
+        return {
+          success: false,
+          message: "Access denied",
+          error: "ACCESS_DENIED",
+        };
+      }
+
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      const metadata = await getFileMetadata(
+        s3Client,
+        bucketName,
+        userId,
+        s3Key
+      );
+      if (!metadata) {
+        return {
+          success: false,
+          message: "File not found",
+          error: "NOT_FOUND",
+        };
+      }
+
+      const unsupported = checkThumbnailSource(metadata);
+      if (unsupported) {
+        return unsupported;
+      }
+
+      await renderThumbnails(s3Client, bucketName, userId, metadata);
+
+      return {
+        success: true,
+        message: "Thumbnails generated successfully",
+      };
+    } catch (error) {
+      logger.error("Generate thumbnails error:", error);
+      return {
+        success: false,
+        message: "Failed to generate thumbnails",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Get a thumbnail of a file, generating the set on first request for
+   * images that were uploaded before thumbnails existed. When the caller
+   * already holds the current version no body is returned.
+   */
+  static async getThumbnail(
+    userId: string,
+    s3Key: string,
+    size: ThumbnailSize,
+    ifNoneMatch?: string | null
+  ): Promise<ThumbnailResult> {
+    try {
+      if (!s3Key.startsWith(`${userId}/`) || isTrashKey(userId, s3Key)) {
+        return {
+          success: false,
+          message: "Access denied",
+          error: "ACCESS_DENIED",
+        };
+      }
+
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      const metadata = await getFileMetadata(
+        s3Client,
+        bucketName,
+        userId,
+        s3Key
+      );
+      if (!metadata) {
+        return {
+          success: false,
+          message: "File not found",
+          error: "NOT_FOUND",
+        };
+      }
+
+      if (metadata.thumbnails) {
+        const etag = getThumbnailEtag(metadata, size);
+        if (ifNoneMatch === etag) {
+          return { success: true, etag, message: "Thumbnail not modified" };
+        }
+
+        try {
+          const response = await s3Client.send(
+            new GetObjectCommand({
+              Bucket: bucketName,
+              Key: metadata.thumbnails[size],
+            })
+          );
+          return {
+            success: true,
+            body: await response.Body!.transformToByteArray(),
+            etag,
+            message: "Thumbnail retrieved successfully",
+          };
+        } catch (error) {
+          logger.warn("Thumbnail missing, regenerating:", error);
+        }
+      }
+
+      const unsupported = checkThumbnailSource(metadata);
+      if (unsupported) {
+        return unsupported;
+      }
+
+      const rendered = await renderThumbnails(
+        s3Client,
+        bucketName,
+        userId,
+        metadata
+      );
+
+      return {
+        success: true,
+        body: rendered[size],
+        etag: getThumbnailEtag(metadata, size),
+        message: "Thumbnail generated successfully",
+      };
+    } catch (error) {
+      logger.error("Get thumbnail error:", error);
+      return {
+        success: false,
+        message: "Failed to get thumbnail",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+}
@@ -0,0 +1,717 @@
+import {
+  ListObjectsV2Command,
+  DeleteObjectsCommand,
+  PutObjectCommand,
+  S3Client,
+  _Object,
+} from "@aws-sdk/client-s3";
+import { Types } from "mongoose";
+import { getS3Client, getS3BucketName } from "../utils/s3ClientFactory";
+import { redisCache } from "../utils/redisCache";
+import ActivityLog, { IActivityLogModel } from "../models/ActivityLog";
+import FileMetadata, { IFileMetadataModel } from "../models/FileMetadata";
+import TrashItem, { ITrashItem } from "../models/TrashItem";
+import SystemSettings from "../models/SystemSettings";
+import { copyS3Object, getUniqueS3Key, DeleteResult } from "./s3FileOperations";
+import { getUniqueFolderPath, DeleteFolderResult } from "./s3FolderOperations";
+import { deleteFileMetadata } from "./s3ThumbnailOperations";
+import { logger } from "@/utils/logger";
+import { escapeRegex } from "@/utils/escapeRegex";
+
+export const TRASH_FOLDER = ".trash";
+
+export interface TrashItemSummary {
+  id: string;
+  name: string;
+  isFolder: boolean;
+  originalPath: string;
+  size: number;
+  fileCount: number;
+  mimeType?: string;
+  deletedAt: Date;
+  expiresAt: Date;
+}
+
+export interface TrashListResult {
+  success: boolean;
+  message: string;
+  items?: TrashItemSummary[];
+  retentionDays?: number;
+  error?: string;
+}
+
+export interface RestoreResult {
+  success: boolean;
+  message: string;
+  restoredPath?: string;
+  error?: string;
+}
+
+interface CopiedObject {
+  oldKey: string;
+  newKey: string;
+  size: number;
+  contentType?: string;
+  lastModified: Date;
+  etag?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const COPY_BATCH_SIZE = 10;
+const DELETE_BATCH_SIZE = 1000;
+
+/**
+ * Hidden prefix that holds a user's trashed objects
+ */
+export function getTrashRoot(userId: string): string {
+  return `${userId}/${TRASH_FOLDER}/`;
+}
+
+export function isTrashKey(userId: string, key: string): boolean {
+  return key.startsWith(getTrashRoot(userId));
+}
+
+async function listAllObjects(
+  s3Client: S3Client,
+  bucketName: string,
+  prefix: string
+): Promise<_Object[]> {
+  const objects: _Object[] = [];
+  let continuationToken: string | undefined;
+
+  do {
+    const response = await s3Client.send(
+      new ListObjectsV2Command({
+        Bucket: bucketName,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      })
+    );
+    objects.push(...(response.Contents || []));
+    continuationToken = response.NextContinuationToken;
+  } while (continuationToken);
+
+  return objects;
+}
+
+async function deleteAllKeys(
+  s3Client: S3Client,
+  bucketName: string,
+  keys: string[]
+): Promise<number> {
+  let deleted = 0;
+  for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+    const batch = keys.slice(i, i + DELETE_BATCH_SIZE);
+    const result = await s3Client.send(
+      new DeleteObjectsCommand({
+        Bucket: bucketName,
+        Delete: { Objects: batch.map((Key) => ({ Key })), Quiet: true },
+      })
+    );
+    if (result.Errors && result.Errors.length > 0) {
+      logger.error("❌ Failed to delete some objects:", result.Errors);
+    }
+    deleted += batch.length - (result.Errors?.length || 0);
+  }
+  return deleted;
+}
+
+/**
+ * Copy every object under one prefix to another, keeping relative paths
+ */
+async function copyPrefix(
+  s3Client: S3Client,
+  bucketName: string,
+  objects: _Object[],
+  sourcePrefix: string,
+  destinationPrefix: string
+): Promise<CopiedObject[]> {
+  const copied: CopiedObject[] = [];
+
+  for (let i = 0; i < objects.length; i += COPY_BATCH_SIZE) {
+    await Promise.all(
+      objects.slice(i, i + COPY_BATCH_SIZE).map(async (obj) => {
+        if (!obj.Key) return;
+        const newKey = destinationPrefix + obj.Key.slice(sourcePrefix.length);
+        const result = await copyS3Object(
+          s3Client,
+          bucketName,
+          obj.Key,
+          newKey
+        );
+        copied.push({ oldKey: obj.Key, newKey, ...result });
+      })
+    );
+  }
+
+  return copied;
+}
+
+function toSummary(item: ITrashItem, retentionDays: number): TrashItemSummary {
+  return {
+    id: String(item._id),
+    name: item.name,
+    isFolder: item.isFolder,
+    originalPath: item.originalPath,
+    size: item.size,
+    fileCount: item.fileCount,
+    mimeType: item.mimeType,
+    deletedAt: item.deletedAt,
+    expiresAt: new Date(item.deletedAt.getTime() + retentionDays * DAY_MS),
+  };
+}
+
+async function invalidateUserCaches(userId: string) {
+  await redisCache.invalidate(`activity:${userId}:*`);
+  await redisCache.invalidate(`list:${userId}:/`);
+  await redisCache.invalidate(`list:${userId}:`);
+  await redisCache.invalidate(`analytics:${userId}:*`);
+}
+
+export class S3TrashOperations {
+  /**
+   * Move a file into the trash
+   */
+  static async trashFile(userId: string, s3Key: string): Promise<DeleteResult> {
+    try {
+      if (!s3Key.startsWith(`${userId}/`) || isTrashKey(userId, s3Key)) {
+        return {
+          success: false,
+          message: "Access denied",
+          error: "ACCESS_DENIED",
+        };
+      }
+
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      const fileName = s3Key.split("/").pop() || s3Key;
+      const trashPrefix = `${getTrashRoot(userId)}${new Types.ObjectId()}/`;
+
+      const copied = await copyS3Object(
+        s3Client,
+        bucketName,
+        s3Key,
+        `${trashPrefix}${fileName}`
+      );
+      await deleteAllKeys(s3Client, bucketName, [s3Key]);
+
+      const parentPath = s3Key
+        .substring(userId.length, s3Key.lastIndexOf("/"))
+        .replace(/^$/, "/");
+
+      await TrashItem.create({
+        userId: new Types.ObjectId(userId),
+        name: fileName,
+        isFolder: false,
+        originalKey: s3Key,
+        originalPath: parentPath,
+        trashPrefix,
+        size: copied.size,
+        fileCount: 1,
+        mimeType: copied.contentType,
+      });
+
+      await (ActivityLog as unknown as IActivityLogModel).logActivity(
+        userId,
+        "delete",
+        fileName,
+        {
+          fileSize: copied.size,
+          s3Key,
+          metadata: { trashed: true },
+        }
+      );
+
+      await deleteFileMetadata(s3Client, bucketName, userId, { s3Key });
+      await invalidateUserCaches(userId);
+
+      return {
+        success: true,
+        message: "File moved to trash",
+        deletedCount: 1,
+      };
+    } catch (error) {
+      logger.error("Trash file error:", error);
+      return {
+        success: false,
+        message: "Failed to move file to trash",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Move a folder and everything inside it into the trash
+   */
+  static async trashFolder(
+    userId: string,
+    folderPath: string
+  ): Promise<DeleteFolderResult> {
+    try {
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      const normalizedFolderPath = `/${folderPath}`
+        .replace(/\/+/g, "/")
+        .replace(/\/$/, "");
+      const folderName =
+        normalizedFolderPath.split("/").filter(Boolean).pop() || "";
+      const folderPrefix = `${userId}${normalizedFolderPath}/`;
+
+      if (!folderName || isTrashKey(userId, folderPrefix)) {
+        return {
+          success: false,
+          message: "This folder cannot be moved to trash",
+          error: "INVALID_PATH",
+        };
+      }
+
+      const objects = await listAllObjects(s3Client, bucketName, folderPrefix);
+
+      if (objects.length === 0) {
+        return {
+          success: false,
+          message: "Folder not found or already empty",
+          error: "FOLDER_NOT_FOUND",
+        };
+      }
+
+      const trashPrefix = `${getTrashRoot(userId)}${new Types.ObjectId()}/`;
+      const copied = await copyPrefix(
+        s3Client,
+        bucketName,
+        objects,
+        folderPrefix,
+        `${trashPrefix}${folderName}/`
+      );
+
+      const keysToDelete = objects
+        .map((obj) => obj.Key)
+        .filter((key): key is string => !!key);
+      if (!keysToDelete.includes(folderPrefix)) {
+        keysToDelete.push(folderPrefix);
+      }
+      const deletedCount = await deleteAllKeys(
+        s3Client,
+        bucketName,
+        keysToDelete
+      );
+
+      const files = copied.filter((obj) => !obj.oldKey.endsWith("/"));
+      const totalSize = files.reduce((sum, obj) => sum + obj.size, 0);
+
+      await TrashItem.create({
+        userId: new Types.ObjectId(userId),
+        name: folderName,
+        isFolder: true,
+        originalKey: folderPrefix,
+        originalPath:
+          normalizedFolderPath.substring(
+            0,
+            normalizedFolderPath.lastIndexOf("/")
+          ) || "/",
+        trashPrefix,
+        size: totalSize,
+        fileCount: files.length,
+      });
+
+      await (ActivityLog as unknown as IActivityLogModel).logActivity(
+        userId,
+        "delete_folder",
+        folderName,
+        {
+          filePath: normalizedFolderPath,
+          s3Key: folderPrefix,
+          fileSize: totalSize,
+          metadata: { trashed: true, fileCount: files.length },
+        }
+      );
+
+      await deleteFileMetadata(s3Client, bucketName, userId, {
+        userId,
+        s3Key: { $regex: `^${escapeRegex(folderPrefix)}` },
+      });
+      await invalidateUserCaches(userId);
+
+      return {
+        success: true,
+        message: "Folder moved to trash",
+        deletedCount,
+      };
+    } catch (error) {
+      logger.error("Trash folder error:", error);
+      return {
+        success: false,
+        message: "Failed to move folder to trash",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * List the items in a user's trash
+   */
+  static async listTrash(userId: string): Promise<TrashListResult> {
+    try {
+      const settings = await SystemSettings.getSettings();
+      const items = await TrashItem.getUserTrash(userId);
+
+      return {
+        success: true,
+        message: "Trash retrieved successfully",
+        items: items.map((item) =>
+          toSummary(item, settings.trashRetentionDays)
+        ),
+        retentionDays: settings.trashRetentionDays,
+      };
+    } catch (error) {
+      logger.error("List trash error:", error);
+      return {
+        success: false,
+        message: "Failed to list trash",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Restore a trashed item to its original location, renaming it if
+   * something with the same name exists there now
+   */
+  static async restoreItem(
+    userId: string,
+    itemId: string
+  ): Promise<RestoreResult> {
+    try {
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      const item = Types.ObjectId.isValid(itemId)
+        ? await TrashItem.findOne({
+            _id: itemId,
+            userId: new Types.ObjectId(userId),
+          })
+        : null;
+
+      if (!item) {
+        return {
+          success: false,
+          message: "Trash item not found",
+          error: "NOT_FOUND",
+        };
+      }
+
+      const objects = await listAllObjects(
+        s3Client,
+        bucketName,
+        item.trashPrefix
+      );
+
+      if (objects.length === 0) {
+        await item.deleteOne();
+        return {
+          success: false,
+          message: "The trashed data no longer exists",
+          error: "NOT_FOUND",
+        };
+      }
+
+      let restoredPrefix: string;
+      let restoredPath: string;
+
+      if (item.isFolder) {
+        const parentPath = item.originalPath === "/" ? "" : item.originalPath;
+        restoredPath = await getUniqueFolderPath(
+          s3Client,
+          bucketName,
+          userId,
+          parentPath,
+          item.name
+        );
+        restoredPrefix = `${userId}${restoredPath}/`;
+      } else {
+        const restoredKey = await getUniqueS3Key(
+          s3Client,
+          bucketName,
+          item.originalKey
+        );
+        restoredPrefix = restoredKey.substring(
+          0,
+          restoredKey.lastIndexOf("/") + 1
+        );
+        restoredPath = restoredKey.substring(userId.length);
+      }
+
+      const copied = await copyPrefix(
+        s3Client,
+        bucketName,
+        objects,
+        item.isFolder
+          ? `${item.trashPrefix}${item.name}/`
+          : `${item.trashPrefix}${item.name}`,
+        item.isFolder ? restoredPrefix : `${userId}${restoredPath}`
+      );
+
+      if (
+        item.isFolder &&
+        !copied.some((obj) => obj.newKey === restoredPrefix)
+      ) {
+        await s3Client.send(
+          new PutObjectCommand({
+            Bucket: bucketName,
+            Key: restoredPrefix,
+            Body: "",
+            ContentType: "application/x-directory",
+          })
+        );
+      }
+
+      for (const obj of copied) {
+        if (obj.newKey.endsWith("/")) continue;
+        await (FileMetadata as unknown as IFileMetadataModel).syncFromS3Object(
+          userId,
+          {
+            Key: obj.newKey,
+            Size: obj.size,
+            LastModified: obj.lastModified,
+            ContentType: obj.contentType,
+            ETag: obj.etag,
+          }
+        );
+      }
+
+      await deleteAllKeys(
+        s3Client,
+        bucketName,
+        objects.map((obj) => obj.Key).filter((key): key is string => !!key)
+      );
+      await item.deleteOne();
+
+      await (ActivityLog as unknown as IActivityLogModel).logActivity(
+        userId,
+        "restore",
+        restoredPath.split("/").filter(Boolean).pop() || item.name,
+        {
+          filePath: restoredPath,
+          fileSize: item.size,
+          s3Key: item.isFolder ? restoredPrefix : `${userId}${restoredPath}`,
+          metadata: { isFolder: item.isFolder, fileCount: item.fileCount },
+        }
+      );
+
+      await invalidateUserCaches(userId);
+
+      return {
+        success: true,
+        message: `${item.isFolder ? "Folder" : "File"} restored successfully`,
+        restoredPath,
+      };
+    } catch (error) {
+      logger.error("Restore from trash error:", error);
+      return {
+        success: false,
+        message: "Failed to restore item",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Permanently delete one item from the trash
+   */
+  static async deleteItem(
+    userId: string,
+    itemId: string
+  ): Promise<DeleteResult> {
+    try {
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      const item = Types.ObjectId.isValid(itemId)
+        ? await TrashItem.findOne({
+            _id: itemId,
+            userId: new Types.ObjectId(userId),
+          })
+        : null;
+
+      if (!item) {
+        return {
+          success: false,
+          message: "Trash item not found",
+          error: "NOT_FOUND",
+        };
+      }
+
+      const objects = await listAllObjects(
+        s3Client,
+        bucketName,
+        item.trashPrefix
+      );
+      const deletedCount = await deleteAllKeys(
+        s3Client,
+        bucketName,
+        objects.map((obj) => obj.Key).filter((key): key is string => !!key)
+      );
+      await item.deleteOne();
+
+      await redisCache.invalidate(`analytics:${userId}:*`);
+
+      return {
+        success: true,
+        message: "Item permanently deleted",
+        deletedCount,
+      };
+    } catch (error) {
+      logger.error("Delete trash item error:", error);
+      return {
+        success: false,
+        message: "Failed to delete item",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Permanently delete everything in a user's trash
+   */
+  static async emptyTrash(userId: string): Promise<DeleteResult> {
+    try {
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      const objects = await listAllObjects(
+        s3Client,
+        bucketName,
+        getTrashRoot(userId)
+      );
+      const deletedCount = await deleteAllKeys(
+        s3Client,
+        bucketName,
+        objects.map((obj) => obj.Key).filter((key): key is string => !!key)
+      );
+      await TrashItem.deleteMany({ userId: new Types.ObjectId(userId) });
+
+      await redisCache.invalidate(`analytics:${userId}:*`);
+
+      return {
+        success: true,
+        message: "Trash emptied successfully",
+        deletedCount,
+      };
+    } catch (error) {
+      logger.error("Empty trash error:", error);
+      return {
+        success: false,
+        message: "Failed to empty trash",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Permanently delete trash items older than the configured retention
+   * period, across all users
+   */
+  static async purgeExpired(): Promise<{
+    success: boolean;
+    message: string;
+    purgedCount: number;
+  }> {
+    let purgedCount = 0;
+
+    try {
+      const settings = await SystemSettings.getSettings();
+      const expired = await TrashItem.findExpired(
+        settings.trashRetentionDays,
+        500
+      );
+
+      for (const item of expired) {
+        const userId = String(item.userId);
+        try {
+          const s3Client = await getS3Client(userId);
+          const bucketName = await getS3BucketName(userId);
+
+          if (s3Client && bucketName) {
+            const objects = await listAllObjects(
+              s3Client,
+              bucketName,
+              item.trashPrefix
+            );
+            await deleteAllKeys(
+              s3Client,
+              bucketName,
+              objects
+                .map((obj) => obj.Key)
+                .filter((key): key is string => !!key)
+            );
+          }
+
+          await item.deleteOne();
+          await redisCache.invalidate(`analytics:${userId}:*`);
+          purgedCount++;
+        } catch (error) {
+          logger.error(`Failed to purge trash item ${item._id}:`, error);
+        }
+      }
+
+      if (purgedCount > 0) {
+        logger.info(`🧹 Purged ${purgedCount} expired trash item(s)`);
+      }
+
+      return {
+        success: true,
+        message: `Purged ${purgedCount} expired trash item(s)`,
+        purgedCount,
+      };
+    } catch (error) {
+      logger.error("Purge trash error:", error);
+      return {
+        success: false,
+        message: "Failed to purge trash",
+        purgedCount,
+      };
+    }
+  }
+}
@@ -0,0 +1,542 @@
+import {
+  GetBucketVersioningCommand,
+  PutBucketVersioningCommand,
+  ListObjectVersionsCommand,
+  HeadObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { getS3Client, getS3BucketName } from "../utils/s3ClientFactory";
+import { redisCache } from "../utils/redisCache";
+import ActivityLog, { IActivityLogModel } from "../models/ActivityLog";
+import { copyS3Object } from "./s3FileOperations";
+import { isTrashKey } from "./s3TrashOperations";
+import { S3QuotaOperations } from "./s3QuotaOperations";
+import {
+  deleteFileMetadata,
+  resyncFileMetadata,
+} from "./s3ThumbnailOperations";
+import { logger } from "@/utils/logger";
+
+/**
+ * "Disabled" means versioning has never been turned on for the bucket.
+ * Once enabled, a bucket can only be suspended, never disabled again.
+ */
+export type VersioningStatus = "Enabled" | "Suspended" | "Disabled";
+
+export interface S3ObjectVersion {
+  versionId: string;
+  isLatest: boolean;
+  isDeleteMarker: boolean;
+  size: number;
+  lastModified: Date;
+  etag?: string;
+}
+
+export interface VersioningStatusResult {
+  success: boolean;
+  message: string;
+  status?: VersioningStatus;
+  error?: string;
+}
+
+export interface VersionListResult {
+  success: boolean;
+  message: string;
+  versions?: S3ObjectVersion[];
+  versioningStatus?: VersioningStatus;
+  truncated?: boolean;
+  error?: string;
+}
+
+export interface VersionActionResult {
+  success: boolean;
+  message: string;
+  url?: string;
+  error?: string;
+}
+
+const MAX_VERSIONS = 1000;
+
+async function readVersioningStatus(
+  s3Client: S3Client,
+  bucketName: string
+): Promise<VersioningStatus> {
+  const response = await s3Client.send(
+    new GetBucketVersioningCommand({ Bucket: bucketName })
+  );
+  return response.Status === "Enabled" || response.Status === "Suspended"
+    ? response.Status
+    : "Disabled";
+}
+
+/**
+ * Bring FileMetadata in line with whatever is now the current version of a
+ * key, removing the row when the key no longer has a current version
+ */
+async function syncCurrentVersion(
+  userId: string,
+  s3Client: S3Client,
+  bucketName: string,
+  s3Key: string
+) {
+  try {
+    const head = await s3Client.send(
+      new HeadObjectCommand({ Bucket: bucketName, Key: s3Key })
+    );
+    await resyncFileMetadata(s3Client, bucketName, userId, {
+      Key: s3Key,
+      Size: head.ContentLength || 0,
+      LastModified: head.LastModified || new Date(),
+      ContentType: head.ContentType,
+      ETag: head.ETag,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "NotFound") {
+      await deleteFileMetadata(s3Client, bucketName, userId, { s3Key });
+    } else {
+      throw error;
+    }
+  }
+}
+
+async function invalidateUserCaches(userId: string) {
+  await redisCache.invalidate(`activity:${userId}:*`);
+  await redisCache.invalidate(`list:${userId}:/`);
+  await redisCache.invalidate(`list:${userId}:`);
+  await redisCache.invalidate(`analytics:${userId}:*`);
+}
+
+function checkFileKey(userId: string, s3Key: string) {
+  if (!s3Key.startsWith(`${userId}/`) || isTrashKey(userId, s3Key)) {
+    return { success: false, message: "Access denied", error: "ACCESS_DENIED" };
+  }
+  if (s3Key.endsWith("/")) {
+    return {
+      success: false,
+      message: "Version history is only available for files",
+      error: "INVALID_KEY",
+    };
+  }
+  return null;
+}
+
+export class S3VersionOperations {
+  /**
+   * Read the versioning status of the user's bucket
+   */
+  static async getVersioningStatus(
+    userId: string
+  ): Promise<VersioningStatusResult> {
+    try {
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      const status = await readVersioningStatus(s3Client, bucketName);
+
+      return {
+        success: true,
+        message: "Versioning status retrieved successfully",
+        status,
+      };
+    } catch (error) {
+      logger.error("Get versioning status error:", error);
+      return {
+        success: false,
+        message: "Failed to read bucket versioning status",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Enable or suspend versioning on the user's bucket
+   */
+  static async setVersioning(
+    userId: string,
+    enabled: boolean
+  ): Promise<VersioningStatusResult> {
+    try {
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      const current = await readVersioningStatus(s3Client, bucketName);
+      if (!enabled && current === "Disabled") {
+        return {
+          success: true,
+          message: "Versioning is not enabled on this bucket",
+          status: current,
+        };
+      }
+
+      await s3Client.send(
+        new PutBucketVersioningCommand({
+          Bucket: bucketName,
+          VersioningConfiguration: {
+            Status: enabled ? "Enabled" : "Suspended",
+          },
+        })
+      );
+
+      return {
+        success: true,
+        message: enabled ? "Versioning enabled" : "Versioning suspended",
+        status: enabled ? "Enabled" : "Suspended",
+      };
+    } catch (error) {
+      logger.error("Set versioning error:", error);
+      return {
+        success: false,
+        message: "Failed to update bucket versioning",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * List every version and delete marker of a single file, newest first
+   */
+  static async listVersions(
+    userId: string,
+    s3Key: string
+  ): Promise<VersionListResult> {
+    try {
+      const invalid = checkFileKey(userId, s3Key);
+      if (invalid) return invalid;
+
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      const versioningStatus = await readVersioningStatus(s3Client, bucketName);
+
+      const versions: S3ObjectVersion[] = [];
+      let keyMarker: string | undefined;
+      let versionIdMarker: string | undefined;
+      let truncated = false;
+
+      // The prefix also matches longer keys such as "a.txt.bak", so keep
+      // paging only while results for this exact key can still follow
+      do {
+        const response = await s3Client.send(
+          new ListObjectVersionsCommand({
+            Bucket: bucketName,
+            Prefix: s3Key,
+            KeyMarker: keyMarker,
+            VersionIdMarker: versionIdMarker,
+          })
+        );
+
+        for (const version of response.Versions || []) {
+          if (version.Key !== s3Key) continue;
+          versions.push({
+            versionId: version.VersionId || "null",
+            isLatest: version.IsLatest || false,
+            isDeleteMarker: false,
+            size: version.Size || 0,
+            lastModified: version.LastModified || new Date(),
+            etag: version.ETag?.replace(/"/g, ""),
+          });
+        }
+
+        for (const marker of response.DeleteMarkers || []) {
+          if (marker.Key !== s3Key) continue;
+          versions.push({
+            versionId: marker.VersionId || "null",
+            isLatest: marker.IsLatest || false,
+            isDeleteMarker: true,
+            size: 0,
+            lastModified: marker.LastModified || new Date(),
+          });
+        }
+
+        keyMarker = response.NextKeyMarker;
+        versionIdMarker = response.NextVersionIdMarker;
+        truncated = !!response.IsTruncated && !!keyMarker && keyMarker <= s3Key;
+
+        if (versions.length >= MAX_VERSIONS) break;
+      } while (truncated);
+
+      versions.sort(
+        (a, b) =>
+          new Date(b.lastModified).getTime() -
+          new Date(a.lastModified).getTime()
+      );
+
+      return {
+        success: true,
+        message: "Versions retrieved successfully",
+        versions: versions.slice(0, MAX_VERSIONS),
+        versioningStatus,
+        truncated: truncated || versions.length > MAX_VERSIONS,
+      };
+    } catch (error) {
+      logger.error("List versions error:", error);
+      return {
+        success: false,
+        message: "Failed to list file versions",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Get a pre-signed URL for downloading a specific version of a file
+   */
+  static async getVersionDownloadUrl(
+    userId: string,
+    s3Key: string,
+    versionId: string
+  ): Promise<VersionActionResult> {
+    try {
+      const invalid = checkFileKey(userId, s3Key);
+      if (invalid) return invalid;
+
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      const fileName = s3Key.split("/").pop() || "download";
+
+      const url = await getSignedUrl(
+        s3Client,
+        new GetObjectCommand({
+          Bucket: bucketName,
+          Key: s3Key,
+          VersionId: versionId,
+          ResponseContentDisposition: `attachment; filename="${fileName}"`,
+        }),
+        { expiresIn: 3600 }
+      );
+
+      await (ActivityLog as unknown as IActivityLogModel).logActivity(
+        userId,
+        "download",
+        fileName,
+        {
+          s3Key,
+          metadata: { versionId },
+        }
+      );
+
+      await redisCache.invalidate(`activity:${userId}:*`);
+
+      return {
+        success: true,
+        url,
+        message: "Download URL generated successfully",
+      };
+    } catch (error) {
+      logger.error("Version download URL error:", error);
+      return {
+        success: false,
+        message: "Failed to generate download URL",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Make an older version the current one by copying it over the key.
+   * The versions in between are kept, so the restore can itself be undone.
+   */
+  static async restoreVersion(
+    userId: string,
+    s3Key: string,
+    versionId: string
+  ): Promise<VersionActionResult> {
+    try {
+      const invalid = checkFileKey(userId, s3Key);
+      if (invalid) return invalid;
+
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      // The restored copy replaces the current version in the usage, so
+      // only its growth over the current size counts against the quota
+      const [restored, current] = await Promise.all([
+        s3Client.send(
+          new HeadObjectCommand({
+            Bucket: bucketName,
+            Key: s3Key,
+            VersionId: versionId,
+          })
+        ),
+        s3Client
+          .send(new HeadObjectCommand({ Bucket: bucketName, Key: s3Key }))
+          .catch((error) => {
+            if (error instanceof Error && error.name === "NotFound") {
+              return null;
+            }
+            throw error;
+          }),
+      ]);
+      const growth =
+        (restored.ContentLength || 0) - (current?.ContentLength || 0);
+      if (growth > 0) {
+        const violation = await S3QuotaOperations.checkUploadQuota(
+          userId,
+          growth,
+          { reserve: false }
+        );
+        if (violation) {
+          return {
+            success: false,
+            message: violation.message,
+            error: violation.error,
+          };
+        }
+      }
+
+      const copied = await copyS3Object(
+        s3Client,
+        bucketName,
+        s3Key,
+        s3Key,
+        {
+          "restored-from-version": versionId,
+          "restored-at": new Date().toISOString(),
+        },
+        versionId
+      );
+
+      await resyncFileMetadata(s3Client, bucketName, userId, {
+        Key: s3Key,
+        Size: copied.size,
+        LastModified: copied.lastModified,
+        ContentType: copied.contentType,
+        StorageClass: copied.storageClass,
+        ETag: copied.etag,
+      });
+
+      await (ActivityLog as unknown as IActivityLogModel).logActivity(
+        userId,
+        "restore",
+        s3Key.split("/").pop() || s3Key,
+        {
+          filePath: s3Key.replace(`${userId}/`, "/"),
+          fileSize: copied.size,
+          mimeType: copied.contentType,
+          s3Key,
+          metadata: { versionId },
+        }
+      );
+
+      await invalidateUserCaches(userId);
+
+      return {
+        success: true,
+        message: "Version restored successfully",
+      };
+    } catch (error) {
+      logger.error("Restore version error:", error);
+      return {
+        success: false,
+        message: "Failed to restore version",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Permanently delete one version (or delete marker) of a file
+   */
+  static async deleteVersion(
+    userId: string,
+    s3Key: string,
+    versionId: string
+  ): Promise<VersionActionResult> {
+    try {
+      const invalid = checkFileKey(userId, s3Key);
+      if (invalid) return invalid;
+
+      const s3Client = await getS3Client(userId);
+      const bucketName = await getS3BucketName(userId);
+
+      if (!s3Client || !bucketName) {
+        return {
+          success: false,
+          message: "S3 configuration not found",
+          error: "S3_CONFIG_MISSING",
+        };
+      }
+
+      await s3Client.send(
+        new DeleteObjectCommand({
+          Bucket: bucketName,
+          Key: s3Key,
+          VersionId: versionId,
+        })
+      );
+
+      // Removing the latest version or a delete marker changes what the
+      // key currently points at
+      await syncCurrentVersion(userId, s3Client, bucketName, s3Key);
+
+      await (ActivityLog as unknown as IActivityLogModel).logActivity(
+        userId,
+        "delete",
+        s3Key.split("/").pop() || s3Key,
+        {
+          filePath: s3Key.replace(`${userId}/`, "/"),
+          s3Key,
+          metadata: { versionId, permanent: true },
+        }
+      );
+
+      await invalidateUserCaches(userId);
+
+      return {
+        success: true,
+        message: "Version deleted permanently",
+      };
+    } catch (error) {
+      logger.error("Delete version error:", error);
+      return {
+        success: false,
+        message: "Failed to delete version",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+}
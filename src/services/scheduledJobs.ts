@@ -0,0 +1,59 @@
+import connectDB from "@/utils/database";
+import { scheduleJob } from "@/utils/scheduler";
+import { S3TrashOperations } from "./s3TrashOperations";
+import { S3IndexingOperations } from "./s3IndexingOperations";
+import { S3ReconciliationOperations } from "./s3ReconciliationOperations";
+import { logger } from "@/utils/logger";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/**
+ * Read a positive interval from the environment, falling back to the
+ * default when it is missing or not a usable number
+ */
+function readInterval(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallback;
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0) {
+    logger.warn(`Ignoring invalid ${name}="${raw}", using ${fallback}`);
+    return fallback;
+  }
+
+  return value;
+}
+
+/**
+ * Register the background jobs that run inside the server process
+ */
+export function registerScheduledJobs(): void {
+  const purgeIntervalHours = readInterval("TRASH_PURGE_INTERVAL_HOURS", 1);
+
+  scheduleJob("trash-purge", purgeIntervalHours * HOUR_MS, async () => {
+    await connectDB();
+    await S3TrashOperations.purgeExpired();
+  });
+
+  const indexIntervalMinutes = readInterval(
+    "CONTENT_INDEX_INTERVAL_MINUTES",
+    5
+  );
+
+  scheduleJob(
+    "content-indexing",
+    indexIntervalMinutes * MINUTE_MS,
+    async () => {
+      await connectDB();
+      await S3IndexingOperations.indexPending();
+    }
+  );
+
+  // How often each user is reconciled is set in the admin settings; this
+  // only controls how often due users are looked for
+  scheduleJob("metadata-reconciliation", HOUR_MS, async () => {
+    await connectDB();
+    await S3ReconciliationOperations.reconcileDue();
+  });
+}
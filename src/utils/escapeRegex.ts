@@ -0,0 +1,7 @@
+/**
+ * Escape a string so it matches itself literally inside a regular
+ * expression, e.g. a folder path used as a MongoDB `$regex` prefix
+ */
+export function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,109 @@
+/**
+ * Client-side folder upload utilities
+ * Collects files from dropped directories or a `webkitdirectory` input while
+ * keeping each file's path relative to the folder that was selected
+ */
+
+export interface FileWithPath {
+  file: File;
+  relativeDir: string;
+}
+
+function readAllEntries(
+  reader: FileSystemDirectoryReader
+): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => {
+    const entries: FileSystemEntry[] = [];
+    // readEntries returns results in batches, so keep reading until empty
+    const readBatch = () => {
+      reader.readEntries((batch) => {
+        if (batch.length === 0) {
+          resolve(entries);
+        } else {
+          entries.push(...batch);
+          readBatch();
+        }
+      }, reject);
+    };
+    readBatch();
+  });
+}
+
+function getFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+async function walkEntry(
+  entry: FileSystemEntry,
+  parentDir: string,
+  results: FileWithPath[],
+  emptyDirs: string[]
+): Promise<void> {
+  if (entry.isFile) {
+    const file = await getFile(entry as FileSystemFileEntry);
+    results.push({ file, relativeDir: parentDir });
+    return;
+  }
+
+  if (entry.isDirectory) {
+    const dirPath = parentDir ? `${parentDir}/${entry.name}` : entry.name;
+    const children = await readAllEntries(
+      (entry as FileSystemDirectoryEntry).createReader()
+    );
+    if (children.length === 0) {
+      emptyDirs.push(dirPath);
+    }
+    for (const child of children) {
+      await walkEntry(child, dirPath, results, emptyDirs);
+    }
+  }
+}
+
+/**
+ * Collect files from a drop event, descending into dropped directories
+ * @returns Files with their relative directory, plus empty directories
+ */
+export async function collectDroppedFiles(
+  dataTransfer: DataTransfer
+): Promise<{ files: FileWithPath[]; emptyDirs: string[] }> {
+  const entries = Array.from(dataTransfer.items)
+    .filter((item) => item.kind === "file")
+    .map((item) => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  if (entries.length === 0) {
+    return {
+      files: Array.from(dataTransfer.files).map((file) => ({
+        file,
+        relativeDir: "",
+      })),
+      emptyDirs: [],
+    };
+  }
+
+  const files: FileWithPath[] = [];
+  const emptyDirs: string[] = [];
+  for (const entry of entries) {
+    await walkEntry(entry, "", files, emptyDirs);
+  }
+  return { files, emptyDirs };
+}
+
+/**
+ * Map files from a `webkitdirectory` input to their relative directory
+ */
+export function collectInputFiles(fileList: FileList): FileWithPath[] {
+  return Array.from(fileList).map((file) => {
+    const relativePath = file.webkitRelativePath || file.name;
+    const relativeDir = relativePath.split("/").slice(0, -1).join("/");
+    return { file, relativeDir };
+  });
+}
+
+/**
+ * Join the current folder with a file's relative directory
+ */
+export function joinUploadPath(currentPath: string, relativeDir: string) {
+  if (!relativeDir) return currentPath;
+  return `/${currentPath}/${relativeDir}`.replace(/\/+/g, "/");
+}
@@ -0,0 +1,335 @@
+/**
+ * Client-side multipart upload utilities
+ * Uploads large files in parallel parts straight to S3 and keeps enough state
+ * in localStorage to resume an interrupted upload after a page reload
+ */
+
+import { logger } from "./logger";
+
+export const MULTIPART_THRESHOLD = 64 * 1024 * 1024;
+
+const STORAGE_KEY = "drivn:multipart-uploads";
+const SIGN_BATCH_SIZE = 20;
+
+export interface PendingUpload {
+  fingerprint: string;
+  fileName: string;
+  fileSize: number;
+  path: string;
+  key: string;
+  uploadId: string;
+  partSize: number;
+  totalParts: number;
+  startedAt: string;
+}
+
+interface UploadedPart {
+  PartNumber: number;
+  ETag: string;
+}
+
+export interface MultipartUploadOptions {
+  concurrency?: number;
+  maxRetries?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void;
+}
+
+/**
+ * Build a stable identifier for a file so the same selection can be matched
+ * against a stored upload session
+ */
+export function getUploadFingerprint(file: File, path: string): string {
+  return [path || "/", file.name, file.size, file.lastModified].join(":");
+}
+
+/**
+ * Get all unfinished uploads stored in this browser
+ */
+export function getPendingUploads(): PendingUpload[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as PendingUpload[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function savePendingUploads(uploads: PendingUpload[]): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(uploads));
+  } catch (error) {
+    logger.warn("Could not persist multipart upload state:", error);
+  }
+}
+
+function storePendingUpload(upload: PendingUpload): void {
+  savePendingUploads([
+    ...getPendingUploads().filter((u) => u.fingerprint !== upload.fingerprint),
+    upload,
+  ]);
+}
+
+function removePendingUpload(fingerprint: string): void {
+  savePendingUploads(
+    getPendingUploads().filter((u) => u.fingerprint !== fingerprint)
+  );
+}
+
+/**
+ * Abort an unfinished upload on S3 and forget it locally
+ */
+export async function discardPendingUpload(
+  upload: PendingUpload
+): Promise<void> {
+  removePendingUpload(upload.fingerprint);
+  try {
+    await fetch("/api/s3-files/multipart/abort", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ key: upload.key, uploadId: upload.uploadId }),
+    });
+  } catch (error) {
+    logger.warn("Could not abort multipart upload:", error);
+  }
+}
+
+async function fetchUploadedParts(
+  upload: PendingUpload
+): Promise<UploadedPart[] | null> {
+  const params = new URLSearchParams({
+    key: upload.key,
+    uploadId: upload.uploadId,
+  });
+  const response = await fetch(`/api/s3-files/multipart/parts?${params}`);
+  if (!response.ok) return null;
+  const result = await response.json();
+  return result.success ? (result.data.parts as UploadedPart[]) : null;
+}
+
+async function createSession(
+  file: File,
+  path: string,
+  fingerprint: string
+): Promise<PendingUpload> {
+  const response = await fetch("/api/s3-files/multipart", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      fileName: file.name,
+      fileType: file.type,
+      fileSize: file.size,
+      path,
+    }),
+  });
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.message || "Failed to start multipart upload");
+  }
+
+  return {
+    fingerprint,
+    fileName: file.name,
+    fileSize: file.size,
+    path,
+    key: result.data.key,
+    uploadId: result.data.uploadId,
+    partSize: result.data.partSize,
+    totalParts: result.data.totalParts,
+    startedAt: new Date().toISOString(),
+  };
+}
+
+async function signParts(
+  upload: PendingUpload,
+  partNumbers: number[]
+): Promise<Record<number, string>> {
+  const response = await fetch("/api/s3-files/multipart/parts", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      key: upload.key,
+      uploadId: upload.uploadId,
+      partNumbers,
+    }),
+  });
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.message || "Failed to sign upload parts");
+  }
+
+  return result.data.urls;
+}
+
+function putPart(
+  url: string,
+  body: Blob,
+  onProgress: (loaded: number) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", url, true);
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress(event.loaded);
+    };
+
+    xhr.onload = () => {
+      const etag = xhr.getResponseHeader("ETag");
+      if (xhr.status >= 200 && xhr.status < 300 && etag) {
+        resolve(etag);
+      } else if (xhr.status >= 200 && xhr.status < 300) {
+        reject(
+          new Error("ETag header not exposed. Check your bucket CORS rules.")
+        );
+      } else {
+        reject(new Error(`Part upload failed with status ${xhr.status}`));
+      }
+    };
+
+    xhr.onerror = () => reject(new Error("Part upload failed"));
+    xhr.onabort = () => reject(new DOMException("Aborted", "AbortError"));
+
+    signal?.addEventListener("abort", () => xhr.abort(), { once: true });
+
+    xhr.send(body);
+  });
+}
+
+/**
+ * Upload a file in parts, resuming a previous session for the same file
+ * when one exists. The stored session is kept on failure so the upload
+ * can be resumed later, and removed once the upload completes.
+ */
+export async function uploadFileMultipart(
+  file: File,
+  path: string,
+  options: MultipartUploadOptions = {}
+): Promise<{ key: string }> {
+  const { concurrency = 4, maxRetries = 3, signal, onProgress } = options;
+  const fingerprint = getUploadFingerprint(file, path);
+
+  let session = getPendingUploads().find((u) => u.fingerprint === fingerprint);
+  let completedParts: UploadedPart[] = [];
+
+  if (session) {
+    const parts = await fetchUploadedParts(session);
+    if (parts) {
+      completedParts = parts;
+      logger.info(
+        `⏯️ Resuming upload of ${file.name}: ${parts.length}/${session.totalParts} parts done`
+      );
+    } else {
+      removePendingUpload(fingerprint);
+      session = undefined;
+    }
+  }
+
+  if (!session) {
+    session = await createSession(file, path, fingerprint);
+    storePendingUpload(session);
+  }
+
+  const activeSession = session;
+  const partBytes = (partNumber: number) =>
+    Math.min(
+      activeSession.partSize,
+      file.size - (partNumber - 1) * activeSession.partSize
+    );
+
+  const done = new Set(completedParts.map((p) => p.PartNumber));
+  const queue: number[] = [];
+  for (let n = 1; n <= activeSession.totalParts; n++) {
+    if (!done.has(n)) queue.push(n);
+  }
+
+  let uploadedBytes = completedParts.reduce(
+    (sum, part) => sum + partBytes(part.PartNumber),
+    0
+  );
+  const inFlight = new Map<number, number>();
+  const reportProgress = () => {
+    if (!onProgress) return;
+    let loaded = uploadedBytes;
+    inFlight.forEach((bytes) => (loaded += bytes));
+    onProgress(Math.min(100, Math.round((loaded / file.size) * 100)));
+  };
+  reportProgress();
+
+  const signedUrls: Record<number, string> = {};
+  const getPartUrl = async (partNumber: number, forceRefresh = false) => {
+    if (forceRefresh || !signedUrls[partNumber]) {
+      const batch = [partNumber, ...queue.slice(0, SIGN_BATCH_SIZE - 1)];
+      Object.assign(signedUrls, await signParts(activeSession, batch));
+    }
+    return signedUrls[partNumber];
+  };
+
+  const uploadPart = async (partNumber: number) => {
+    const start = (partNumber - 1) * activeSession.partSize;
+    const blob = file.slice(start, start + activeSession.partSize);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const url = await getPartUrl(partNumber, attempt > 0);
+        const etag = await putPart(
+          url,
+          blob,
+          (loaded) => {
+            inFlight.set(partNumber, loaded);
+            reportProgress();
+          },
+          signal
+        );
+        inFlight.delete(partNumber);
+        uploadedBytes += blob.size;
+        completedParts.push({ PartNumber: partNumber, ETag: etag });
+        reportProgress();
+        return;
+      } catch (error) {
+        inFlight.delete(partNumber);
+        if (signal?.aborted || attempt >= maxRetries) throw error;
+        const delay = 1000 * 2 ** attempt;
+        logger.warn(
+          `Part ${partNumber} failed, retrying in ${delay}ms:`,
+          error
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (queue.length > 0) {
+      if (signal?.aborted) throw new DOMException("Aborted", "AbortError");
+      const partNumber = queue.shift()!;
+      await uploadPart(partNumber);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, queue.length) }, worker)
+  );
+
+  const response = await fetch("/api/s3-files/multipart/complete", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      key: activeSession.key,
+      uploadId: activeSession.uploadId,
+      parts: completedParts,
+    }),
+  });
+  const result = await response.json();
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.message || "Failed to complete upload");
+  }
+
+  removePendingUpload(fingerprint);
+  return { key: activeSession.key };
+}
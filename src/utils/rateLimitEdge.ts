@@ -191,8 +191,18 @@ export const rateLimitPolicies: Record<string, RateLimitPolicy> = {
     highUsageThreshold: 0.8,
     adaptiveMultiplier: 0.6,
   },
+  thumbnails: {
+    windowMs: 60 * 1000,
+    maxRequests: 1200,
+    tokensPerInterval: 1200,
+    intervalMs: 60 * 1000,
+    highUsageThreshold: 0.8,
+    adaptiveMultiplier: 0.6,
+  },
 };
 
+export const THUMBNAIL_PATH = "/api/s3-files/thumbnail";
+
 /* -----------------------------
    🧩 Redis Client
 ----------------------------- */
@@ -323,7 +333,9 @@ export async function checkRateLimit(
 ----------------------------- */
 export function getPolicyForPath(pathname: string): RateLimitPolicy {
   if (pathname.startsWith("/api/auth/")) return rateLimitPolicies.auth;
+  if (pathname.startsWith("/api/share/")) return rateLimitPolicies.auth;
   if (pathname.startsWith("/api/admin/")) return rateLimitPolicies.admin;
+  if (pathname === THUMBNAIL_PATH) return rateLimitPolicies.thumbnails;
   if (pathname.startsWith("/api/s3-")) return rateLimitPolicies.s3;
   return rateLimitPolicies.api;
 }
@@ -0,0 +1,63 @@
+import { logger } from "@/utils/logger";
+
+interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  timer: ReturnType<typeof setInterval>;
+  running: boolean;
+}
+
+declare global {
+  var scheduledJobs: Map<string, ScheduledJob> | undefined;
+}
+
+const jobs: Map<string, ScheduledJob> = global.scheduledJobs || new Map();
+
+if (!global.scheduledJobs) {
+  global.scheduledJobs = jobs;
+}
+
+/**
+ * Run a task on a fixed interval in the server process. Registering the same
+ * job name again replaces the previous schedule, and a run is skipped while
+ * the previous one is still in progress.
+ */
+export function scheduleJob(
+  name: string,
+  intervalMs: number,
+  task: () => Promise<unknown>
+): void {
+  cancelJob(name);
+
+  const job: ScheduledJob = {
+    name,
+    intervalMs,
+    running: false,
+    timer: setInterval(async () => {
+      if (job.running) return;
+      job.running = true;
+      try {
+        await task();
+      } catch (error) {
+        logger.error(`Scheduled job "${name}" failed:`, error);
+      } finally {
+        job.running = false;
+      }
+    }, intervalMs),
+  };
+
+  job.timer.unref?.();
+  jobs.set(name, job);
+  logger.info(`⏰ Scheduled job "${name}" every ${intervalMs / 1000}s`);
+}
+
+/**
+ * Stop a scheduled job
+ */
+export function cancelJob(name: string): void {
+  const existing = jobs.get(name);
+  if (existing) {
+    clearInterval(existing.timer);
+    jobs.delete(name);
+  }
+}
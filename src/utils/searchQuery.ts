@@ -0,0 +1,452 @@
+/**
+ * Parser for the search box query language, e.g.
+ * `report type:pdf size:>5MB modified:<30d in:/finance tag:q3`.
+ * Words outside filters are searched as text. Values with spaces can be
+ * quoted: `in:"/tax returns"`. Shared by the search route and the search
+ * box so both agree on what a query means.
+ */
+
+export type SearchFilterKey = "type" | "size" | "modified" | "in" | "tag";
+
+export interface ParsedSearchQuery {
+  text: string;
+  /** MIME types or wildcards such as "image/*", any of which may match */
+  mimeTypes: string[];
+  minSize?: number;
+  maxSize?: number;
+  modifiedAfter?: Date;
+  modifiedBefore?: Date;
+  folder?: string;
+  /** Every tag must be present */
+  tags: string[];
+}
+
+export type SearchQueryParseResult =
+  | { success: true; query: ParsedSearchQuery }
+  | { success: false; message: string; token: string };
+
+export interface SearchSuggestion {
+  /** Full query with the suggestion applied */
+  value: string;
+  label: string;
+  description?: string;
+}
+
+export const SEARCH_FILTERS: Array<{
+  key: SearchFilterKey;
+  example: string;
+  description: string;
+}> = [
+  { key: "type", example: "type:pdf", description: "File type or MIME type" },
+  {
+    key: "size",
+    example: "size:>5MB",
+    description: "Size, e.g. >5MB, <100KB or 1MB..10MB",
+  },
+  {
+    key: "modified",
+    example: "modified:<30d",
+    description: "Age such as <30d or >1y, or a date such as >2024-01-31",
+  },
+  { key: "in", example: "in:/finance", description: "Folder and subfolders" },
+  { key: "tag", example: "tag:q3", description: "Files with this tag" },
+];
+
+export const SEARCH_FILE_TYPES: Record<string, string[]> = {
+  image: ["image/*"],
+  video: ["video/*"],
+  audio: ["audio/*"],
+  text: ["text/*"],
+  pdf: ["application/pdf"],
+  document: [
+    "application/pdf",
+    "application/msword",
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ],
+  spreadsheet: [
+    "text/csv",
+    "application/vnd.ms-excel",
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ],
+  presentation: [
+    "application/vnd.ms-powerpoint",
+    "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  ],
+  archive: [
+    "application/zip",
+    "application/vnd.rar",
+    "application/x-7z-compressed",
+    "application/x-tar",
+    "application/gzip",
+  ],
+  json: ["application/json"],
+  csv: ["text/csv"],
+  markdown: ["text/markdown"],
+  jpg: ["image/jpeg"],
+  png: ["image/png"],
+  gif: ["image/gif"],
+  svg: ["image/svg+xml"],
+  mp4: ["video/mp4"],
+  mp3: ["audio/mpeg"],
+  zip: ["application/zip"],
+  docx: [
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ],
+  xlsx: ["application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"],
+};
+
+const TYPE_ALIASES: Record<string, string> = {
+  images: "image",
+  photo: "image",
+  videos: "video",
+  music: "audio",
+  doc: "document",
+  docs: "document",
+  sheet: "spreadsheet",
+  slides: "presentation",
+  md: "markdown",
+  jpeg: "jpg",
+  txt: "text",
+};
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+  tb: 1024 ** 4,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const AGE_UNITS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: DAY_MS,
+  w: 7 * DAY_MS,
+  m: 30 * DAY_MS,
+  y: 365 * DAY_MS,
+};
+
+const TOKEN_PATTERN = /(?:[^\s"]+|"[^"]*")+|"[^"]*$/g;
+const FILTER_PATTERN = /^([a-z]+):(.*)$/i;
+const COMPARISON_PATTERN = /^(>=|<=|>|<|=)?(.+)$/;
+
+class SearchQueryError extends Error {
+  constructor(
+    message: string,
+    public token: string
+  ) {
+    super(message);
+  }
+}
+
+function unquote(value: string): string {
+  return value.replace(/"/g, "");
+}
+
+export function tokenizeSearchQuery(input: string): string[] {
+  return input.match(TOKEN_PATTERN) || [];
+}
+
+function parseSize(value: string, token: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([kmgt]?b)?$/i);
+  if (!match) {
+    throw new SearchQueryError(
+      `"${token}" is not a valid size. Use a number with B, KB, MB, GB or TB, e.g. size:>5MB`,
+      token
+    );
+  }
+  return Math.round(
+    parseFloat(match[1]) * SIZE_UNITS[(match[2] || "b").toLowerCase()]
+  );
+}
+
+/**
+ * Relative ages count back from now, so "<30d" is newer than 30 days and
+ * ">30d" is older. Dates compare directly, so "<2024-01-01" is before it.
+ */
+function parseModifiedPoint(
+  value: string,
+  token: string,
+  now: Date
+): { date: Date; isAge: boolean; isDay: boolean } {
+  const age = value.match(/^(\d+)([hdwmy])$/i);
+  if (age) {
+    return {
+      date: new Date(
+        now.getTime() - parseInt(age[1]) * AGE_UNITS[age[2].toLowerCase()]
+      ),
+      isAge: true,
+      isDay: false,
+    };
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const date = new Date(`${value}T00:00:00`);
+    if (!isNaN(date.getTime())) {
+      return { date, isAge: false, isDay: true };
+    }
+  }
+
+  throw new SearchQueryError(
+    `"${token}" is not a valid date. Use an age such as 30d, 12h, 2w, 6m or 1y, or a date such as 2024-01-31`,
+    token
+  );
+}
+
+function applyModified(
+  query: ParsedSearchQuery,
+  value: string,
+  token: string,
+  now: Date
+) {
+  const range = value.split("..");
+  if (range.length === 2) {
+    const from = parseModifiedPoint(range[0], token, now);
+    const to = parseModifiedPoint(range[1], token, now);
+    query.modifiedAfter = from.date;
+    query.modifiedBefore = to.isDay
+      ? new Date(to.date.getTime() + DAY_MS - 1)
+      : to.date;
+    return;
+  }
+
+  const [, operator = "=", rest] = value.match(COMPARISON_PATTERN)!;
+  const point = parseModifiedPoint(rest, token, now);
+  const dayEnd = new Date(point.date.getTime() + DAY_MS - 1);
+
+  if (point.isAge) {
+    // Newer than the age means modified after the point in time
+    if (operator.startsWith("<") || operator === "=") {
+      query.modifiedAfter = point.date;
+    } else {
+      query.modifiedBefore = point.date;
+    }
+    return;
+  }
+
+  switch (operator) {
+    case ">":
+      query.modifiedAfter = new Date(dayEnd.getTime() + 1);
+      break;
+    case ">=":
+      query.modifiedAfter = point.date;
+      break;
+    case "<":
+      query.modifiedBefore = new Date(point.date.getTime() - 1);
+      break;
+    case "<=":
+      query.modifiedBefore = dayEnd;
+      break;
+    default:
+      query.modifiedAfter = point.date;
+      query.modifiedBefore = dayEnd;
+  }
+}
+
+function applySize(query: ParsedSearchQuery, value: string, token: string) {
+  const range = value.split("..");
+  if (range.length === 2) {
+    query.minSize = parseSize(range[0], token);
+    query.maxSize = parseSize(range[1], token);
+    return;
+  }
+
+  const [, operator = "=", rest] = value.match(COMPARISON_PATTERN)!;
+  const size = parseSize(rest, token);
+
+  switch (operator) {
+    case ">":
+      query.minSize = size + 1;
+      break;
+    case ">=":
+      query.minSize = size;
+      break;
+    case "<":
+      query.maxSize = Math.max(size - 1, 0);
+      break;
+    case "<=":
+      query.maxSize = size;
+      break;
+    default:
+      query.minSize = size;
+      query.maxSize = size;
+  }
+}
+
+function applyType(query: ParsedSearchQuery, value: string, token: string) {
+  const type = value.toLowerCase();
+  if (type.includes("/")) {
+    query.mimeTypes.push(type);
+    return;
+  }
+
+  const mimeTypes = SEARCH_FILE_TYPES[TYPE_ALIASES[type] || type];
+  if (!mimeTypes) {
+    throw new SearchQueryError(
+      `Unknown file type "${value}". Try ${Object.keys(SEARCH_FILE_TYPES)
+        .slice(0, 8)
+        .join(", ")} or a MIME type such as image/png`,
+      token
+    );
+  }
+  query.mimeTypes.push(...mimeTypes);
+}
+
+function applyFilter(
+  query: ParsedSearchQuery,
+  key: SearchFilterKey,
+  value: string,
+  token: string,
+  now: Date
+) {
+  switch (key) {
+    case "type":
+      applyType(query, value, token);
+      break;
+    case "size":
+      applySize(query, value, token);
+      break;
+    case "modified":
+      applyModified(query, value, token, now);
+      break;
+    case "in":
+      query.folder = "/" + value.replace(/^\/+|\/+$/g, "");
+      break;
+    case "tag":
+      query.tags.push(value);
+      break;
+  }
+}
+
+/**
+ * Parse a search box query into text and filters, or explain the first
+ * filter that could not be understood
+ */
+export function parseSearchQuery(
+  input: string,
+  now: Date = new Date()
+): SearchQueryParseResult {
+  const query: ParsedSearchQuery = { text: "", mimeTypes: [], tags: [] };
+  const words: string[] = [];
+
+  try {
+    for (const token of tokenizeSearchQuery(input)) {
+      const filter = token.match(FILTER_PATTERN);
+      if (!filter) {
+        words.push(unquote(token));
+        continue;
+      }
+
+      const key = filter[1].toLowerCase() as SearchFilterKey;
+      const value = unquote(filter[2]).trim();
+
+      if (!SEARCH_FILTERS.some((known) => known.key === key)) {
+        throw new SearchQueryError(
+          `Unknown filter "${filter[1]}:". Available filters are ${SEARCH_FILTERS.map(
+            (known) => `${known.key}:`
+          ).join(", ")}`,
+          token
+        );
+      }
+
+      if (!value) {
+        const example = SEARCH_FILTERS.find((known) => known.key === key)!;
+        throw new SearchQueryError(
+          `"${key}:" needs a value, e.g. ${example.example}`,
+          token
+        );
+      }
+
+      applyFilter(query, key, value, token, now);
+    }
+  } catch (error) {
+    if (error instanceof SearchQueryError) {
+      return { success: false, message: error.message, token: error.token };
+    }
+    throw error;
+  }
+
+  if (
+    query.minSize !== undefined &&
+    query.maxSize !== undefined &&
+    query.minSize > query.maxSize
+  ) {
+    return {
+      success: false,
+      message: "The minimum size is larger than the maximum size",
+      token: "size:",
+    };
+  }
+
+  query.text = words.join(" ").trim();
+  return { success: true, query };
+}
+
+export function hasSearchFilters(query: ParsedSearchQuery): boolean {
+  return (
+    query.mimeTypes.length > 0 ||
+    query.tags.length > 0 ||
+    query.minSize !== undefined ||
+    query.maxSize !== undefined ||
+    !!query.modifiedAfter ||
+    !!query.modifiedBefore ||
+    !!query.folder
+  );
+}
+
+/**
+ * Suggest completions for the last word of a query: filter keys, file
+ * types, and the tags passed in (the user's own tags)
+ */
+export function getSearchSuggestions(
+  input: string,
+  knownTags: string[] = [],
+  limit = 8
+): SearchSuggestion[] {
+  const lastSpace = input.search(/\S+$/);
+  if (lastSpace === -1) return [];
+
+  const prefix = input.slice(0, lastSpace);
+  const word = input.slice(lastSpace);
+  const filter = word.match(FILTER_PATTERN);
+  const quote = (value: string) => (/\s/.test(value) ? `"${value}"` : value);
+
+  if (!filter) {
+    const partial = word.toLowerCase();
+    return SEARCH_FILTERS.filter((known) => known.key.startsWith(partial))
+      .map((known) => ({
+        value: `${prefix}${known.key}:`,
+        label: `${known.key}:`,
+        description: known.description,
+      }))
+      .slice(0, limit);
+  }
+
+  const key = filter[1].toLowerCase();
+  const partial = unquote(filter[2]).toLowerCase();
+
+  if (key === "type") {
+    return Object.keys(SEARCH_FILE_TYPES)
+      .filter((type) => type.startsWith(partial) && type !== partial)
+      .map((type) => ({
+        value: `${prefix}type:${type} `,
+        label: `type:${type}`,
+      }))
+      .slice(0, limit);
+  }
+
+  if (key === "tag") {
+    return knownTags
+      .filter(
+        (tag) =>
+          tag.toLowerCase().startsWith(partial) && tag.toLowerCase() !== partial
+      )
+      .map((tag) => ({
+        value: `${prefix}tag:${quote(tag)} `,
+        label: `tag:${tag}`,
+      }))
+      .slice(0, limit);
+  }
+
+  return [];
+}
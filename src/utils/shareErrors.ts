@@ -0,0 +1,20 @@
+/**
+ * HTTP status for a failed public share lookup
+ */
+export function getShareErrorStatus(error?: string): number {
+  switch (error) {
+    case "NOT_FOUND":
+      return 404;
+    case "PASSWORD_REQUIRED":
+      return 401;
+    case "INVALID_PASSWORD":
+      return 403;
+    case "SHARE_EXPIRED":
+    case "SHARE_REVOKED":
+    case "SHARE_EXHAUSTED":
+    case "SHARE_UNAVAILABLE":
+      return 410;
+    default:
+      return 400;
+  }
+}
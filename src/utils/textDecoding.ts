@@ -0,0 +1,99 @@
+/**
+ * Decoding for text files read from S3, which may be cut off part way
+ * through when only the start of the object was fetched
+ */
+
+function getDeclaredCharset(contentType?: string): string | null {
+  const match = contentType?.match(/charset=["']?([^;"']+)/i);
+  if (!match) return null;
+
+  try {
+    return new TextDecoder(match[1].trim()).encoding;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A byte range can end part way through a multi-byte character, which would
+ * make a valid UTF-8 file look invalid
+ */
+function trimPartialUtf8(bytes: Uint8Array): Uint8Array {
+  let start = bytes.length - 1;
+  while (
+    start > 0 &&
+    bytes.length - start < 4 &&
+    (bytes[start] & 0xc0) === 0x80
+  ) {
+    start--;
+  }
+
+  const lead = bytes[start];
+  const sequenceLength =
+    lead >= 0xf0 ? 4 : lead >= 0xe0 ? 3 : lead >= 0xc0 ? 2 : 1;
+
+  return start + sequenceLength > bytes.length
+    ? bytes.subarray(0, start)
+    : bytes;
+}
+
+/**
+ * Pick a charset from the byte order mark, then the declared content type,
+ * then by checking whether the bytes are valid UTF-8. Anything else is
+ * treated as Windows-1252, which decodes every byte.
+ */
+export function decodeText(
+  bytes: Uint8Array,
+  contentType: string | undefined,
+  truncated: boolean
+): { content: string; charset: string } {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { content: decodeWith("utf-8", bytes, truncated), charset: "utf-8" };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return {
+      content: decodeWith("utf-16le", bytes, truncated),
+      charset: "utf-16le",
+    };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return {
+      content: decodeWith("utf-16be", bytes, truncated),
+      charset: "utf-16be",
+    };
+  }
+
+  const declared = getDeclaredCharset(contentType);
+  if (declared && declared !== "utf-8") {
+    return {
+      content: decodeWith(declared, bytes, truncated),
+      charset: declared,
+    };
+  }
+
+  try {
+    const content = new TextDecoder("utf-8", { fatal: true }).decode(
+      truncated ? trimPartialUtf8(bytes) : bytes
+    );
+    return { content, charset: "utf-8" };
+  } catch {
+    return {
+      content: new TextDecoder("windows-1252").decode(bytes),
+      charset: "windows-1252",
+    };
+  }
+}
+
+function decodeWith(
+  charset: string,
+  bytes: Uint8Array,
+  truncated: boolean
+): string {
+  let input = bytes;
+  if (truncated && charset === "utf-8") {
+    input = trimPartialUtf8(bytes);
+  } else if (truncated && charset.startsWith("utf-16")) {
+    input = bytes.subarray(0, bytes.length - (bytes.length % 2));
+  }
+  return new TextDecoder(charset).decode(input);
+}
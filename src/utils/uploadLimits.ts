@@ -0,0 +1,96 @@
+/**
+ * Upload restrictions configured by the admin. Allowed types may be exact
+ * MIME types ("application/pdf"), MIME wildcards ("image/*"), file
+ * extensions (".pdf") or "*" to allow everything.
+ */
+
+export interface UploadLimits {
+  maxFileSize: number;
+  allowedFileTypes: string[];
+}
+
+export type UploadLimitError =
+  | "FILE_TOO_LARGE"
+  | "FILE_TYPE_NOT_ALLOWED"
+  | "QUOTA_EXCEEDED"
+  | "INVALID_FILE_SIZE";
+
+export interface UploadLimitViolation {
+  error: UploadLimitError;
+  message: string;
+}
+
+export const DEFAULT_MAX_FILE_SIZE = 100 * 1024 * 1024;
+
+export function formatBytes(bytes: number): string {
+  if (bytes === 0) return "0 Bytes";
+  const k = 1024;
+  const sizes = ["Bytes", "KB", "MB", "GB", "TB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+}
+
+export function isFileTypeAllowed(
+  fileName: string,
+  fileType: string,
+  allowedFileTypes: string[]
+): boolean {
+  if (allowedFileTypes.length === 0 || allowedFileTypes.includes("*")) {
+    return true;
+  }
+
+  const mimeType = fileType.toLowerCase();
+  const extension = fileName.includes(".")
+    ? `.${fileName.split(".").pop()!.toLowerCase()}`
+    : "";
+
+  return allowedFileTypes.some((entry) => {
+    const allowed = entry.trim().toLowerCase();
+    if (allowed.startsWith(".")) return allowed === extension;
+    if (allowed.endsWith("/*"))
+      return mimeType.startsWith(allowed.slice(0, -1));
+    return allowed === mimeType;
+  });
+}
+
+export function checkUploadLimits(
+  fileName: string,
+  fileType: string,
+  fileSize: number,
+  limits: UploadLimits
+): UploadLimitViolation | null {
+  if (fileSize > limits.maxFileSize) {
+    return {
+      error: "FILE_TOO_LARGE",
+      message: `File is larger than the ${formatBytes(limits.maxFileSize)} upload limit`,
+    };
+  }
+
+  if (!isFileTypeAllowed(fileName, fileType, limits.allowedFileTypes)) {
+    return {
+      error: "FILE_TYPE_NOT_ALLOWED",
+      message: `Files of type ${fileType || "unknown"} are not allowed`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * HTTP status for an upload rejected by the limits above
+ */
+export function getUploadErrorStatus(error?: string): number {
+  switch (error) {
+    case "FILE_TOO_LARGE":
+      return 413;
+    case "FILE_TYPE_NOT_ALLOWED":
+      return 415;
+    case "QUOTA_EXCEEDED":
+      return 507;
+    case "INVALID_PATH":
+    case "INVALID_FILE_SIZE":
+      return 400;
+    default:
+      return 500;
+  }
+}
@@ -0,0 +1,275 @@
+/**
+ * Streaming ZIP writer
+ * Writes entries one at a time as they are read, so an archive of any size
+ * can be sent without holding it in memory. Entries are stored without
+ * compression and use ZIP64 records whenever a size, offset or entry count
+ * does not fit the classic 32-bit format.
+ */
+
+import { crc32 } from "zlib";
+
+export interface ZipEntry {
+  name: string;
+  size?: number;
+  lastModified?: Date;
+  open: () => Promise<AsyncIterable<Uint8Array> | Iterable<Uint8Array>>;
+}
+
+interface CentralDirectoryRecord {
+  name: Buffer;
+  crc: number;
+  size: number;
+  offset: number;
+  dosTime: number;
+  dosDate: number;
+  zip64: boolean;
+}
+
+const MAX_UINT32 = 0xffffffff;
+const MAX_UINT16 = 0xffff;
+// Bit 3: sizes and CRC follow the data; bit 11: names are UTF-8
+const GENERAL_PURPOSE_FLAGS = 0x0808;
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+
+function toDosDateTime(date: Date): { dosTime: number; dosDate: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    dosTime:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    dosDate:
+      ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function localFileHeader(
+  name: Buffer,
+  dosTime: number,
+  dosDate: number,
+  zip64: boolean
+): Buffer {
+  const extra = zip64 ? Buffer.alloc(20) : Buffer.alloc(0);
+  if (zip64) {
+    // Sizes are unknown up front; the real values go in the data descriptor
+    extra.writeUInt16LE(0x0001, 0);
+    extra.writeUInt16LE(16, 2);
+  }
+
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(0x04034b50, 0);
+  header.writeUInt16LE(zip64 ? VERSION_ZIP64 : VERSION_DEFAULT, 4);
+  header.writeUInt16LE(GENERAL_PURPOSE_FLAGS, 6);
+  header.writeUInt16LE(0, 8);
+  header.writeUInt16LE(dosTime, 10);
+  header.writeUInt16LE(dosDate, 12);
+  header.writeUInt32LE(0, 14);
+  header.writeUInt32LE(zip64 ? MAX_UINT32 : 0, 18);
+  header.writeUInt32LE(zip64 ? MAX_UINT32 : 0, 22);
+  header.writeUInt16LE(name.length, 26);
+  header.writeUInt16LE(extra.length, 28);
+
+  return Buffer.concat([header, name, extra]);
+}
+
+function dataDescriptor(crc: number, size: number, zip64: boolean): Buffer {
+  const descriptor = Buffer.alloc(zip64 ? 24 : 16);
+  descriptor.writeUInt32LE(0x08074b50, 0);
+  descriptor.writeUInt32LE(crc, 4);
+  if (zip64) {
+    descriptor.writeBigUInt64LE(BigInt(size), 8);
+    descriptor.writeBigUInt64LE(BigInt(size), 16);
+  } else {
+    descriptor.writeUInt32LE(size, 8);
+    descriptor.writeUInt32LE(size, 12);
+  }
+  return descriptor;
+}
+
+function centralDirectoryHeader(record: CentralDirectoryRecord): Buffer {
+  const sizeOverflow = record.zip64 || record.size >= MAX_UINT32;
+  const offsetOverflow = record.offset >= MAX_UINT32;
+
+  const zip64Fields: bigint[] = [];
+  if (sizeOverflow) {
+    zip64Fields.push(BigInt(record.size), BigInt(record.size));
+  }
+  if (offsetOverflow) {
+    zip64Fields.push(BigInt(record.offset));
+  }
+
+  const extra = Buffer.alloc(
+    zip64Fields.length ? 4 + zip64Fields.length * 8 : 0
+  );
+  if (zip64Fields.length) {
+    extra.writeUInt16LE(0x0001, 0);
+    extra.writeUInt16LE(zip64Fields.length * 8, 2);
+    zip64Fields.forEach((value, index) =>
+      extra.writeBigUInt64LE(value, 4 + index * 8)
+    );
+  }
+
+  const needsZip64 = zip64Fields.length > 0;
+  const header = Buffer.alloc(46);
+  header.writeUInt32LE(0x02014b50, 0);
+  header.writeUInt16LE(VERSION_ZIP64, 4);
+  header.writeUInt16LE(needsZip64 ? VERSION_ZIP64 : VERSION_DEFAULT, 6);
+  header.writeUInt16LE(GENERAL_PURPOSE_FLAGS, 8);
+  header.writeUInt16LE(0, 10);
+  header.writeUInt16LE(record.dosTime, 12);
+  header.writeUInt16LE(record.dosDate, 14);
+  header.writeUInt32LE(record.crc, 16);
+  header.writeUInt32LE(sizeOverflow ? MAX_UINT32 : record.size, 20);
+  header.writeUInt32LE(sizeOverflow ? MAX_UINT32 : record.size, 24);
+  header.writeUInt16LE(record.name.length, 28);
+  header.writeUInt16LE(extra.length, 30);
+  header.writeUInt16LE(0, 32);
+  header.writeUInt16LE(0, 34);
+  header.writeUInt16LE(0, 36);
+  header.writeUInt32LE(0, 38);
+  header.writeUInt32LE(offsetOverflow ? MAX_UINT32 : record.offset, 42);
+
+  return Buffer.concat([header, record.name, extra]);
+}
+
+function endOfCentralDirectory(
+  entryCount: number,
+  directorySize: number,
+  directoryOffset: number
+): Buffer {
+  const needsZip64 =
+    entryCount >= MAX_UINT16 ||
+    directorySize >= MAX_UINT32 ||
+    directoryOffset >= MAX_UINT32;
+
+  const parts: Buffer[] = [];
+
+  if (needsZip64) {
+    const zip64Record = Buffer.alloc(56);
+    zip64Record.writeUInt32LE(0x06064b50, 0);
+    zip64Record.writeBigUInt64LE(BigInt(44), 4);
+    zip64Record.writeUInt16LE(VERSION_ZIP64, 12);
+    zip64Record.writeUInt16LE(VERSION_ZIP64, 14);
+    zip64Record.writeUInt32LE(0, 16);
+    zip64Record.writeUInt32LE(0, 20);
+    zip64Record.writeBigUInt64LE(BigInt(entryCount), 24);
+    zip64Record.writeBigUInt64LE(BigInt(entryCount), 32);
+    zip64Record.writeBigUInt64LE(BigInt(directorySize), 40);
+    zip64Record.writeBigUInt64LE(BigInt(directoryOffset), 48);
+
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(0x07064b50, 0);
+    locator.writeUInt32LE(0, 4);
+    locator.writeBigUInt64LE(BigInt(directoryOffset + directorySize), 8);
+    locator.writeUInt32LE(1, 16);
+
+    parts.push(zip64Record, locator);
+  }
+
+  const record = Buffer.alloc(22);
+  record.writeUInt32LE(0x06054b50, 0);
+  record.writeUInt16LE(0, 4);
+  record.writeUInt16LE(0, 6);
+  record.writeUInt16LE(Math.min(entryCount, MAX_UINT16), 8);
+  record.writeUInt16LE(Math.min(entryCount, MAX_UINT16), 10);
+  record.writeUInt32LE(Math.min(directorySize, MAX_UINT32), 12);
+  record.writeUInt32LE(Math.min(directoryOffset, MAX_UINT32), 16);
+  record.writeUInt16LE(0, 20);
+  parts.push(record);
+
+  return Buffer.concat(parts);
+}
+
+async function* generateZip(
+  entries: AsyncIterable<ZipEntry> | Iterable<ZipEntry>,
+  signal?: AbortSignal
+): AsyncGenerator<Uint8Array> {
+  const records: CentralDirectoryRecord[] = [];
+  let offset = 0;
+
+  for await (const entry of entries) {
+    if (signal?.aborted) return;
+
+    const name = Buffer.from(entry.name, "utf8");
+    const { dosTime, dosDate } = toDosDateTime(
+      entry.lastModified || new Date()
+    );
+    // Entries of unknown size might grow past 4 GB, so treat them as ZIP64
+    const zip64 = entry.size === undefined || entry.size >= MAX_UINT32;
+    const entryOffset = offset;
+
+    const header = localFileHeader(name, dosTime, dosDate, zip64);
+    offset += header.length;
+    yield header;
+
+    let crc = 0;
+    let size = 0;
+    for await (const chunk of await entry.open()) {
+      crc = crc32(chunk, crc);
+      size += chunk.length;
+      offset += chunk.length;
+      yield chunk;
+    }
+
+    if (!zip64 && size >= MAX_UINT32) {
+      throw new Error(
+        `Entry ${entry.name} grew past the size it was listed with`
+      );
+    }
+
+    const descriptor = dataDescriptor(crc, size, zip64);
+    offset += descriptor.length;
+    yield descriptor;
+
+    records.push({
+      name,
+      crc,
+      size,
+      offset: entryOffset,
+      dosTime,
+      dosDate,
+      zip64,
+    });
+  }
+
+  const directoryOffset = offset;
+  let directorySize = 0;
+  for (const record of records) {
+    const header = centralDirectoryHeader(record);
+    directorySize += header.length;
+    yield header;
+  }
+
+  yield endOfCentralDirectory(records.length, directorySize, directoryOffset);
+}
+
+/**
+ * Create a ZIP archive as a web stream. Entries are opened lazily and only
+ * when the consumer pulls more data, so backpressure reaches the sources.
+ * Cancelling the stream or aborting the signal stops reading immediately.
+ */
+export function createZipStream(
+  entries: AsyncIterable<ZipEntry> | Iterable<ZipEntry>,
+  signal?: AbortSignal
+): ReadableStream<Uint8Array> {
+  const iterator = generateZip(entries, signal);
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await iterator.return(undefined);
+    },
+  });
+}